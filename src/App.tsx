@@ -3,6 +3,17 @@ import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import RevenueDashboard from './pages/RevenueDashboard';
 import CashOutPage from './pages/CashOutPage';
 import FullAutomationPage from './pages/FullAutomationPage';
+import ReconciliationPage from './pages/ReconciliationPage';
+import ApprovalsPage from './pages/ApprovalsPage';
+import SafetyPage from './pages/SafetyPage';
+import SettingsPage from './pages/SettingsPage';
+import JobsPage from './pages/JobsPage';
+import WorkflowsPage from './pages/WorkflowsPage';
+import WorkflowRunPage from './pages/WorkflowRunPage';
+import ApiKeysPage from './pages/ApiKeysPage';
+import PlaygroundPage from './pages/PlaygroundPage';
+import AuthPage from './pages/AuthPage';
+import { useAuth } from './hooks/use-auth';
 
 function NotFound() {
   return (
@@ -13,6 +24,8 @@ function NotFound() {
 }
 
 function App() {
+  const { user } = useAuth();
+
   return (
     <BrowserRouter>
       <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
@@ -37,12 +50,66 @@ function App() {
                 >
                   Cash Out
                 </Link>
+                <Link 
+                  to="/reconciliation" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Reconciliation
+                </Link>
+                <Link 
+                  to="/approvals" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Approvals
+                </Link>
+                <Link 
+                  to="/safety" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Safety
+                </Link>
+                <Link 
+                  to="/jobs" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Jobs
+                </Link>
+                <Link 
+                  to="/workflows" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Workflows
+                </Link>
+                <Link 
+                  to="/api-keys" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  API Keys
+                </Link>
+                <Link 
+                  to="/playground" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Playground
+                </Link>
+                <Link 
+                  to="/settings" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Settings
+                </Link>
                 <Link 
                   to="/full-automation" 
                   className="bg-purple-600 text-white hover:bg-purple-700 px-3 py-2 rounded-md text-sm font-medium"
                 >
                   Full Automation
                 </Link>
+                <Link 
+                  to="/auth" 
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  {user ? user.email : 'Sign In'}
+                </Link>
               </div>
             </div>
           </div>
@@ -53,6 +120,16 @@ function App() {
             <Route path="/" element={<RevenueDashboard />} />
             <Route path="/cash-out" element={<CashOutPage />} />
             <Route path="/full-automation" element={<FullAutomationPage />} />
+            <Route path="/reconciliation" element={<ReconciliationPage />} />
+            <Route path="/approvals" element={<ApprovalsPage />} />
+            <Route path="/safety" element={<SafetyPage />} />
+            <Route path="/jobs" element={<JobsPage />} />
+            <Route path="/workflows" element={<WorkflowsPage />} />
+            <Route path="/workflows/:runId" element={<WorkflowRunPage />} />
+            <Route path="/api-keys" element={<ApiKeysPage />} />
+            <Route path="/playground" element={<PlaygroundPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/auth" element={<AuthPage />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </main>
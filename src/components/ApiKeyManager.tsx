@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { Copy, KeyRound, Loader2, Plus, RefreshCw, RotateCw, Trash2 } from "lucide-react";
+
+// The api-keys function never returns the hash
+type ApiKey = Omit<Tables<'api_keys'>, 'key_hash'>;
+
+interface KeyList {
+  keys: ApiKey[];
+  scopes: string[];
+}
+
+const ALL_SCOPES = '*';
+
+const fetchKeys = async (): Promise<KeyList> => {
+  const { data, error } = await supabase.functions.invoke('api-keys', { body: { action: 'list' } });
+  if (error) throw error;
+  return { keys: data?.keys || [], scopes: data?.scopes || [] };
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const keyStatus = (key: ApiKey): { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } => {
+  if (key.revoked_at || !key.is_active) return { label: 'revoked', variant: 'destructive' };
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return { label: 'expired', variant: 'outline' };
+  if (key.replaced_by) return { label: 'rotating out', variant: 'secondary' };
+  return { label: 'active', variant: 'default' };
+};
+
+const ApiKeyManager = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([ALL_SCOPES]);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [usageLimit, setUsageLimit] = useState('');
+
+  const [rotating, setRotating] = useState<ApiKey | null>(null);
+  const [overlapHours, setOverlapHours] = useState('24');
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+
+  // The full key, shown once after create or rotate
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const applyList = (list: KeyList) => {
+    setKeys(list.keys);
+    setScopes(list.scopes);
+  };
+
+  const loadKeys = async () => {
+    setLoading(true);
+    try {
+      applyList(await fetchKeys());
+    } catch (error) {
+      toast.error(`Failed to load API keys: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys()
+      .then(applyList)
+      .catch((error) => toast.error(`Failed to load API keys: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const openCreate = () => {
+    setName('');
+    setSelectedScopes([ALL_SCOPES]);
+    setExpiresInDays('');
+    setUsageLimit('');
+    setCreating(true);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    if (scope === ALL_SCOPES) {
+      setSelectedScopes(checked ? [ALL_SCOPES] : []);
+      return;
+    }
+    setSelectedScopes((current) => {
+      const rest = current.filter((s) => s !== ALL_SCOPES && s !== scope);
+      return checked ? [...rest, scope] : rest;
+    });
+  };
+
+  const createKey = async () => {
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('api-keys', {
+        body: {
+          action: 'create',
+          name,
+          scopes: selectedScopes,
+          expires_in_days: expiresInDays ? Number(expiresInDays) : null,
+          usage_limit: usageLimit ? Number(usageLimit) : null,
+        }
+      });
+      if (error) throw error;
+      setCreating(false);
+      setIssuedKey(data?.key ?? null);
+      await loadKeys();
+    } catch (error) {
+      toast.error(`Could not create the key: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rotateKey = async () => {
+    if (!rotating) return;
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('api-keys', {
+        body: { action: 'rotate', key_id: rotating.id, overlap_hours: Number(overlapHours) }
+      });
+      if (error) throw error;
+      setRotating(null);
+      setIssuedKey(data?.key ?? null);
+      toast.success(`The old key works until ${formatTime(data?.previous_key?.expires_at ?? null)}`);
+      await loadKeys();
+    } catch (error) {
+      toast.error(`Could not rotate the key: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeKey = async () => {
+    if (!revoking) return;
+    setBusy(true);
+    try {
+      const { error } = await supabase.functions.invoke('api-keys', { body: { action: 'revoke', key_id: revoking.id } });
+      if (error) throw error;
+      toast.success(`${revoking.name || 'The key'} was revoked`);
+      setRevoking(null);
+      await loadKeys();
+    } catch (error) {
+      toast.error(`Could not revoke the key: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyIssuedKey = async () => {
+    if (!issuedKey) return;
+    try {
+      await navigator.clipboard.writeText(issuedKey);
+      toast.success('Key copied');
+    } catch (error) {
+      toast.error(`Could not copy the key: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <KeyRound className="h-5 w-5 mr-2" />
+              API Keys
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Send a key in the x-api-key header to the AI content API. Only its prefix is kept in the clear.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadKeys} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={openCreate} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-1" />
+              New Key
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {keys.length === 0 ? (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No API keys yet.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Key</TableHead>
+                  <TableHead className="text-slate-300">Scopes</TableHead>
+                  <TableHead className="text-slate-300">Usage</TableHead>
+                  <TableHead className="text-slate-300">Expires</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key) => {
+                  const status = keyStatus(key);
+                  const usable = status.label === 'active';
+                  return (
+                    <TableRow key={key.id} className="text-slate-200">
+                      <TableCell>
+                        <div className="font-medium">{key.name || 'Unnamed key'}</div>
+                        <div className="text-xs text-slate-400 font-mono">
+                          {key.key_prefix ? `ak_${key.key_prefix}_…` : 'legacy key'}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {key.scopes.includes(ALL_SCOPES) ? 'all types' : key.scopes.join(', ')}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div>{key.usage_count}{key.usage_limit ? ` / ${key.usage_limit}` : ''}</div>
+                        <div className="text-slate-400">last used {formatTime(key.last_used_at)}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">{key.expires_at ? formatTime(key.expires_at) : 'never'}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!usable}
+                          onClick={() => {
+                            setOverlapHours('24');
+                            setRotating(key);
+                          }}
+                        >
+                          <RotateCw className="h-4 w-4 mr-1" />
+                          Rotate
+                        </Button>
+                        <Button size="sm" variant="destructive" disabled={!!key.revoked_at} onClick={() => setRevoking(key)}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API key</DialogTitle>
+            <DialogDescription>The key is shown once, right after it is created.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="key-name">Name</Label>
+              <Input id="key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Production blog" />
+            </div>
+            <div className="space-y-2">
+              <Label>Content types</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {[ALL_SCOPES, ...scopes].map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedScopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    {scope === ALL_SCOPES ? 'All types' : scope}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-expiry">Expires after (days)</Label>
+                <Input id="key-expiry" type="number" min={1} value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} placeholder="Never" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="key-limit">Usage limit</Label>
+                <Input id="key-limit" type="number" min={1} value={usageLimit} onChange={(e) => setUsageLimit(e.target.value)} placeholder="Unlimited" />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button onClick={createKey} disabled={busy || !name.trim() || selectedScopes.length === 0}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rotating !== null} onOpenChange={(open) => !open && setRotating(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate {rotating?.name || 'key'}</DialogTitle>
+            <DialogDescription>
+              A new key with the same scopes and limits is issued. The old key keeps working for the overlap period so clients can switch over.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="key-overlap">Overlap (hours)</Label>
+            <Input id="key-overlap" type="number" min={0} value={overlapHours} onChange={(e) => setOverlapHours(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotating(null)}>Cancel</Button>
+            <Button onClick={rotateKey} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Rotate key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke {revoking?.name || 'key'}?</DialogTitle>
+            <DialogDescription>Requests with this key are refused from now on. This cannot be undone.</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={revokeKey} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revoke key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={issuedKey !== null} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your new API key</DialogTitle>
+            <DialogDescription>Copy it now. It is not stored and cannot be shown again.</DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly className="font-mono text-xs" value={issuedKey ?? ''} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyIssuedKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { ExecutionPlan } from "@/components/ExecutionPlanPreview";
+import { formatCents, fromMajorUnits, minorUnits, money, toMajorUnits } from "@/lib/money";
+import { toast } from "sonner";
+import {
+  CheckCircle,
+  Clock,
+  Inbox,
+  Loader2,
+  RefreshCw,
+  Save,
+  XCircle
+} from "lucide-react";
+
+// Items as returned by the payout-approvals "list" action, see supabase/functions/_shared/approvals.ts
+interface ApprovalItem {
+  id: string;
+  status: string;
+  function_name: string;
+  amount: number;
+  request_body: Record<string, unknown>;
+  requested_by: string | null;
+  user_id: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  processing_notes: string | null;
+  execution_result: Record<string, unknown> | null;
+  details: { amount_cents: number; summary: string; plan: ExecutionPlan; execution_id: string };
+  created_at: string;
+}
+
+interface ApprovalPolicy {
+  thresholds_cents: Record<string, number>;
+  expires_after_hours: number;
+}
+
+// Functions that consult the policy; see holdForApproval in the edge functions
+const GATED_FUNCTIONS = ['payout-now', 'aggregate-usd-to-stripe'];
+
+const STATUS_CLASSES: Record<string, string> = {
+  pending: 'bg-yellow-600/20 text-yellow-300 border-yellow-500/30',
+  approved: 'bg-blue-600/20 text-blue-300 border-blue-500/30',
+  executing: 'bg-blue-600/20 text-blue-300 border-blue-500/30',
+  executed: 'bg-green-600/20 text-green-300 border-green-500/30',
+  failed: 'bg-red-600/20 text-red-300 border-red-500/30',
+  rejected: 'bg-red-600/20 text-red-300 border-red-500/30',
+  expired: 'bg-slate-600/20 text-slate-300 border-slate-500/30',
+};
+
+// Thresholds are edited in dollars; blank means the function never waits
+interface PolicyForm {
+  thresholds: Record<string, string>;
+  expires_after_hours: string;
+}
+
+const toPolicyForm = (policy: ApprovalPolicy): PolicyForm => ({
+  thresholds: Object.fromEntries(GATED_FUNCTIONS.map((fn) => [
+    fn,
+    policy.thresholds_cents[fn] === undefined ? '' : toMajorUnits(money(policy.thresholds_cents[fn])).toFixed(2),
+  ])),
+  expires_after_hours: String(policy.expires_after_hours),
+});
+
+const timeLeft = (expiresAt: string) => {
+  const minutes = Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000);
+  if (minutes <= 0) return 'expired';
+  return minutes >= 120 ? `${Math.floor(minutes / 60)}h left` : `${minutes}m left`;
+};
+
+const ApprovalInbox = () => {
+  const [pending, setPending] = useState<ApprovalItem[]>([]);
+  const [recent, setRecent] = useState<ApprovalItem[]>([]);
+  const [callerId, setCallerId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<ApprovalItem | null>(null);
+  const [rejectNotes, setRejectNotes] = useState('');
+  const [policyForm, setPolicyForm] = useState<PolicyForm | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  const loadApprovals = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('payout-approvals', {
+        body: { action: 'list' }
+      });
+      if (error) throw error;
+      setPending(data?.pending || []);
+      setRecent(data?.recent || []);
+      setCallerId(data?.caller?.user_id ?? null);
+      if (data?.policy) setPolicyForm(toPolicyForm(data.policy));
+    } catch (error) {
+      toast.error(`Failed to load approvals: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadApprovals();
+  }, []);
+
+  const approve = async (item: ApprovalItem) => {
+    setDecidingId(item.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('payout-approvals', {
+        body: { action: 'approve', review_id: item.id }
+      });
+      if (error) throw error;
+
+      if (data?.executed) {
+        toast.success(`✅ Approved and executed: ${item.details.summary}`);
+      } else {
+        const result = data?.result as { message?: string; error?: string } | undefined;
+        toast.error(`Approved, but the payout failed: ${result?.message || result?.error || 'unknown error'}`);
+      }
+      await loadApprovals();
+    } catch (error) {
+      toast.error(`Approval failed: ${(error as Error).message}`);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const reject = async () => {
+    if (!rejecting) return;
+    setDecidingId(rejecting.id);
+    try {
+      const { error } = await supabase.functions.invoke('payout-approvals', {
+        body: { action: 'reject', review_id: rejecting.id, notes: rejectNotes.trim() }
+      });
+      if (error) throw error;
+      toast.success('Payout rejected');
+      setRejecting(null);
+      setRejectNotes('');
+      await loadApprovals();
+    } catch (error) {
+      toast.error(`Rejection failed: ${(error as Error).message}`);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const savePolicy = async () => {
+    if (!policyForm) return;
+    setSavingPolicy(true);
+    try {
+      const thresholdsCents = Object.fromEntries(
+        Object.entries(policyForm.thresholds)
+          .filter(([, dollars]) => dollars.trim() !== '')
+          .map(([fn, dollars]) => [fn, minorUnits(fromMajorUnits(dollars))])
+      );
+      const { data, error } = await supabase.functions.invoke('payout-approvals', {
+        body: { action: 'set_policy', thresholds_cents: thresholdsCents, expires_after_hours: parseFloat(policyForm.expires_after_hours) }
+      });
+      if (error) throw error;
+      setPolicyForm(toPolicyForm(data.policy));
+      toast.success('Approval thresholds saved');
+    } catch (error) {
+      toast.error(`Failed to save thresholds: ${(error as Error).message}`);
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Inbox className="h-5 w-5 mr-2" />
+              Waiting for approval ({pending.length})
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Payouts above their threshold run only after a second treasurer approves them. You cannot approve your own.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={loadApprovals} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pending.length === 0 && (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'Nothing is waiting for approval.'}</p>
+          )}
+
+          {pending.map((item) => {
+            const ownRequest = callerId !== null && item.user_id === callerId;
+            return (
+              <div key={item.id} className="rounded-lg border border-slate-600 bg-slate-900/40 p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="text-white font-semibold">{item.details.summary}</div>
+                    <div className="text-xs text-slate-400">
+                      <span className="font-mono">{item.function_name}</span> · requested by {item.requested_by || 'unknown'} · {new Date(item.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-2xl font-bold text-white">{formatCents(item.details.amount_cents)}</div>
+                    <div className="text-xs text-yellow-300 flex items-center justify-end">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {timeLeft(item.expires_at)}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <div className="text-slate-300 font-semibold mb-1">Provider calls</div>
+                    {item.details.plan.provider_calls.map((call, index) => (
+                      <div key={index} className="font-mono text-slate-400">
+                        {call.provider} {call.method} {JSON.stringify(call.params)}
+                      </div>
+                    ))}
+                    {item.details.plan.warnings.map((warning) => (
+                      <div key={warning} className="text-orange-300 mt-1">{warning}</div>
+                    ))}
+                  </div>
+                  <div>
+                    <div className="text-slate-300 font-semibold mb-1">Request</div>
+                    <pre className="font-mono text-slate-400 whitespace-pre-wrap">{JSON.stringify(item.request_body, null, 2)}</pre>
+                    <div className="text-slate-500 mt-1 font-mono">
+                      Plan {item.details.plan.plan_hash.slice(0, 12)} · {item.details.execution_id}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setRejecting(item)}
+                    disabled={decidingId !== null || ownRequest}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                  <Button
+                    onClick={() => approve(item)}
+                    disabled={decidingId !== null || ownRequest}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {decidingId === item.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                    {ownRequest ? 'Your request' : 'Approve and execute'}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white">Recent decisions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-slate-400 text-sm">No decided approvals yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Payout</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead className="text-slate-300">Requested by</TableHead>
+                  <TableHead className="text-slate-300">Decided</TableHead>
+                  <TableHead className="text-slate-300 text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recent.map((item) => (
+                  <TableRow key={item.id} className="text-slate-200">
+                    <TableCell>
+                      <div>{item.details.summary}</div>
+                      {item.processing_notes && <div className="text-xs text-slate-400">{item.processing_notes}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_CLASSES[item.status]}>{item.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{item.requested_by || '—'}</TableCell>
+                    <TableCell className="text-xs">{item.decided_at ? new Date(item.decided_at).toLocaleString() : '—'}</TableCell>
+                    <TableCell className="text-right">{formatCents(item.details.amount_cents)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {policyForm && (
+        <Card className="bg-slate-800/50 border-slate-600">
+          <CardHeader>
+            <CardTitle className="text-white">Approval thresholds</CardTitle>
+            <CardDescription className="text-slate-300">
+              Payouts at or above a threshold wait for approval; leave it blank to never wait. Changing these requires the admin role.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-3 gap-4 items-end">
+              {GATED_FUNCTIONS.map((fn) => (
+                <div key={fn} className="space-y-2">
+                  <Label htmlFor={`threshold-${fn}`} className="text-slate-300 font-mono text-xs">{fn} ($)</Label>
+                  <Input
+                    id={`threshold-${fn}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={policyForm.thresholds[fn] ?? ''}
+                    onChange={(e) => setPolicyForm({ ...policyForm, thresholds: { ...policyForm.thresholds, [fn]: e.target.value } })}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="approval-expiry" className="text-slate-300 text-xs">Expires after (hours)</Label>
+                <Input
+                  id="approval-expiry"
+                  type="number"
+                  min="1"
+                  value={policyForm.expires_after_hours}
+                  onChange={(e) => setPolicyForm({ ...policyForm, expires_after_hours: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button onClick={savePolicy} disabled={savingPolicy}>
+                {savingPolicy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save thresholds
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject payout</DialogTitle>
+            <DialogDescription>{rejecting?.details.summary}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-notes">Reason</Label>
+            <Textarea id="reject-notes" value={rejectNotes} onChange={(e) => setRejectNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={reject} disabled={decidingId !== null || !rejectNotes.trim()}>
+              {decidingId !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ApprovalInbox;
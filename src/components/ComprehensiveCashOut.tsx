@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { formatCents, fromMajorUnits, minorUnits } from "@/lib/money";
 import { 
   DollarSign, 
   ArrowUpRight, 
@@ -23,10 +24,7 @@ import {
 
 interface TransferableAmounts {
   application_balance: number;
-  autonomous_revenue: number;
-  earnings: number;
-  consolidated_balances: number;
-  consolidated_amounts: number;
+  revenue: number;
   pending_transfers: number;
   total_transferable: number;
   breakdown: Array<{
@@ -51,100 +49,41 @@ const ComprehensiveCashOut = () => {
 
   const loadTransferableAmounts = async () => {
     try {
-      console.log('Loading transferable amounts from all database tables...');
+      console.log('Loading transferable amounts from the ledger...');
       
-      // Get application balance
-      const { data: appBalance } = await supabase
-        .from('application_balance')
-        .select('*')
-        .maybeSingle();
-
-      // Get autonomous revenue transfers
-      const { data: autonomousRevenue } = await supabase
-        .from('autonomous_revenue_transfers')
-        .select('amount, status, currency')
-        .eq('status', 'completed');
-
-      // Get earnings
-      const { data: earnings } = await supabase
-        .from('earnings')
-        .select('amount');
-
-      // Get consolidated balances
-      const { data: consolidatedBalances } = await supabase
-        .from('consolidated_balances')
-        .select('amount, currency')
-        .eq('currency', 'USD');
-
-      // Get consolidated amounts
-      const { data: consolidatedAmounts } = await supabase
-        .from('consolidated_amounts')
-        .select('total_usd, status')
-        .eq('status', 'ready_for_transfer');
-
-      // Get pending transfers to subtract
-      const { data: pendingTransfers } = await supabase
-        .from('autonomous_revenue_transfers')
-        .select('amount')
-        .eq('status', 'pending');
-
-      // Calculate totals
-      const appBalanceAmount = appBalance?.balance_amount || 0;
-      const autonomousRevenueAmount = (autonomousRevenue || [])
-        .filter(t => (t.currency || 'USD').toUpperCase() === 'USD')
-        .reduce((sum, t) => sum + Number(t.amount), 0);
-      const earningsAmount = (earnings || []).reduce((sum, e) => sum + Number(e.amount), 0);
-      const consolidatedBalancesAmount = (consolidatedBalances || [])
-        .reduce((sum, b) => sum + Number(b.amount), 0);
-      const consolidatedAmountsTotal = (consolidatedAmounts || [])
-        .reduce((sum, a) => sum + Number(a.total_usd), 0);
-      const pendingTransfersAmount = (pendingTransfers || [])
-        .reduce((sum, t) => sum + Number(t.amount), 0);
-
-      const totalTransferable = Math.max(0, 
-        appBalanceAmount + 
-        autonomousRevenueAmount + 
-        earningsAmount + 
-        consolidatedBalancesAmount + 
-        consolidatedAmountsTotal - 
-        pendingTransfersAmount
-      );
+      const { data: ledgerBalances, error } = await supabase
+        .rpc('get_ledger_balances')
+        .select('account_code, account_name, balance');
+
+      if (error) throw error;
+
+      const ledgerBalance = (code: string) =>
+        Number((ledgerBalances || []).find((row) => row.account_code === code)?.balance || 0);
+
+      // Earnings are posted into the application balance and payouts are posted out of it,
+      // so the application balance is already net of everything in flight
+      const appBalanceAmount = ledgerBalance('1000');
+      const revenueAmount = ledgerBalance('4000');
+      const payoutsInTransit = ledgerBalance('1100');
+      const totalTransferable = Math.max(0, appBalanceAmount);
 
       const breakdown = [
         {
           source: 'application_balance',
           amount: appBalanceAmount,
-          description: 'Main application balance ready for transfer'
-        },
-        {
-          source: 'autonomous_revenue_transactions',
-          amount: autonomousRevenueAmount,
-          description: 'Completed autonomous revenue transactions'
-        },
-        {
-          source: 'earnings',
-          amount: earningsAmount,
-          description: 'User earnings from campaigns and activities'
-        },
-        {
-          source: 'consolidated_balances',
-          amount: consolidatedBalancesAmount,
-          description: 'Consolidated USD balances'
+          description: 'Ledger application balance ready for transfer'
         },
         {
-          source: 'consolidated_amounts',
-          amount: consolidatedAmountsTotal,
-          description: 'Ready-to-transfer consolidated amounts'
+          source: 'revenue',
+          amount: revenueAmount,
+          description: 'Total revenue recognised in the ledger'
         }
       ].filter(item => item.amount > 0);
 
       setAmounts({
         application_balance: appBalanceAmount,
-        autonomous_revenue: autonomousRevenueAmount,
-        earnings: earningsAmount,
-        consolidated_balances: consolidatedBalancesAmount,
-        consolidated_amounts: consolidatedAmountsTotal,
-        pending_transfers: pendingTransfersAmount,
+        revenue: revenueAmount,
+        pending_transfers: payoutsInTransit,
         total_transferable: totalTransferable,
         breakdown
       });
@@ -190,25 +129,30 @@ const ComprehensiveCashOut = () => {
         toast.info('Step 1: Aggregating USD across all tables...');
         const { data: aggregateData, error: aggregateError } = await supabase.functions
           .invoke('aggregate-usd-to-stripe', { 
-            body: { amount_cents: Math.round(transferAmount * 100) }
+            body: { amount_cents: minorUnits(fromMajorUnits(transferAmount)) }
           });
 
         if (aggregateError) throw aggregateError;
 
-        if (aggregateData?.success) {
-          toast.success(`Step 1 Complete: $${(aggregateData.amount_cents / 100).toFixed(2)} aggregated to Stripe`);
+        if (aggregateData?.approval_required) {
+          toast.info(`Step 1 is waiting for a second treasurer: ${aggregateData.message}. See Approvals.`);
+        } else if (aggregateData?.success) {
+          toast.success(`Step 1 Complete: ${formatCents(aggregateData.amount_cents)} aggregated to Stripe`);
           
           // Step 2: Create payout to bank account
           toast.info('Step 2: Creating payout to your bank account...');
           const { data: payoutData, error: payoutError } = await supabase.functions
             .invoke('payout-now', { 
-              body: { amount_cents: aggregateData.amount_cents }
+              body: { amount_cents: aggregateData.amount_cents },
+              headers: { 'Idempotency-Key': crypto.randomUUID() }
             });
 
           if (payoutError) throw payoutError;
 
-          if (payoutData?.success) {
-            toast.success(`✅ SUCCESS: $${(payoutData.amount_cents / 100).toFixed(2)} payout created!`);
+          if (payoutData?.approval_required) {
+            toast.info(`Payout is waiting for a second treasurer: ${payoutData.message}. See Approvals.`);
+          } else if (payoutData?.success) {
+            toast.success(`✅ SUCCESS: ${formatCents(payoutData.amount_cents)} payout created!`);
             toast.success(`Funds will arrive: ${new Date(payoutData.arrival_date * 1000).toLocaleDateString()}`);
           } else {
             toast.error(payoutData?.message || 'Payout creation failed');
@@ -287,10 +231,10 @@ const ComprehensiveCashOut = () => {
           {amounts?.pending_transfers && amounts.pending_transfers > 0 && (
             <div className="flex items-center justify-between p-3 bg-orange-900/20 rounded-lg border border-orange-500/20">
               <div>
-                <h4 className="text-orange-400 font-medium">PENDING TRANSFERS</h4>
-                <p className="text-orange-300 text-sm">Currently being processed</p>
+                <h4 className="text-orange-400 font-medium">PAYOUTS IN TRANSIT</h4>
+                <p className="text-orange-300 text-sm">Already deducted from the application balance</p>
               </div>
-              <div className="text-orange-400 font-bold text-lg">-${amounts.pending_transfers.toFixed(2)}</div>
+              <div className="text-orange-400 font-bold text-lg">${amounts.pending_transfers.toFixed(2)}</div>
             </div>
           )}
         </CardContent>
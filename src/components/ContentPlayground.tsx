@@ -0,0 +1,217 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Loader2, Send, Sparkles, Square } from "lucide-react";
+
+const CONTENT_TYPES = ['content', 'seo', 'marketing', 'code', 'analysis'];
+
+// Every model the API knows; the caller's plan decides which of them it may use
+const MODELS = [
+  'google/gemini-3-flash-preview',
+  'google/gemini-2.5-flash',
+  'google/gemini-2.5-pro',
+  'openai/gpt-5-mini',
+  'openai/gpt-5',
+];
+const PLAN_DEFAULT = 'default';
+
+// The closing "usage" event of a streamed request
+interface StreamUsage {
+  provider?: string;
+  model?: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    // True when the provider sent no counts and they were estimated
+    estimated: boolean;
+    total_cost: number;
+  };
+  quota?: {
+    plan: string;
+    requests_used: number;
+    monthly_requests: number | null;
+    tokens_used: number;
+    monthly_tokens: number | null;
+  };
+}
+
+// Complete events in the buffer, and the partial one left over
+const splitEvents = (buffer: string) => {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks.map((block) => {
+    const lines = block.split('\n');
+    const event = lines.find((line) => line.startsWith('event:'))?.slice(6).trim() || 'message';
+    const data = lines.filter((line) => line.startsWith('data:')).map((line) => line.slice(5).replace(/^ /, '')).join('\n');
+    return { event, data };
+  });
+  return { events, rest };
+};
+
+// Error bodies come back on the FunctionsHttpError's response
+const readErrorBody = async (error: unknown) => {
+  const context = (error as { context?: Response }).context;
+  return context ? await context.json().catch(() => null) : null;
+};
+
+const formatLimit = (used: number, limit: number | null) => (limit === null ? `${used}` : `${used} / ${limit}`);
+
+const ContentPlayground = () => {
+  const [prompt, setPrompt] = useState('');
+  const [type, setType] = useState('content');
+  const [model, setModel] = useState(PLAN_DEFAULT);
+  const [output, setOutput] = useState('');
+  const [result, setResult] = useState<StreamUsage | null>(null);
+  const [streaming, setStreaming] = useState(false);
+  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
+
+  const generate = async () => {
+    setOutput('');
+    setResult(null);
+    setStreaming(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('ai-content-api', {
+        body: { prompt, type, stream: true, model: model === PLAN_DEFAULT ? undefined : model }
+      });
+      if (error) {
+        const body = await readErrorBody(error);
+        throw new Error(body?.error || error.message);
+      }
+
+      const reader = (data as Response).body!.getReader();
+      readerRef.current = reader;
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = splitEvents(buffer);
+        buffer = rest;
+        for (const { event, data: payload } of events) {
+          if (payload === '[DONE]') continue;
+          if (event === 'usage') {
+            setResult(JSON.parse(payload));
+          } else if (event === 'error') {
+            toast.error(JSON.parse(payload).error);
+          } else {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string') setOutput((current) => current + delta);
+          }
+        }
+      }
+    } catch (error) {
+      toast.error(`Generation failed: ${(error as Error).message}`);
+    } finally {
+      readerRef.current = null;
+      setStreaming(false);
+    }
+  };
+
+  // Closing the stream ends the request; it is billed for what was generated
+  const stop = () => {
+    readerRef.current?.cancel().catch(() => {});
+    toast.info('Stopped. The request is billed for what was generated.');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Sparkles className="h-5 w-5 mr-2" />
+            Prompt
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Runs against your subscription, as the AI content API would for one of your keys.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="playground-type" className="text-slate-200">Content type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger id="playground-type" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTENT_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="playground-model" className="text-slate-200">Model</Label>
+              <Select value={model} onValueChange={setModel}>
+                <SelectTrigger id="playground-model" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PLAN_DEFAULT}>Plan default</SelectItem>
+                  {MODELS.map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Textarea
+            rows={5}
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Write a product description for a solar-powered lantern"
+          />
+          <div className="flex gap-2">
+            <Button onClick={generate} disabled={streaming || !prompt.trim()} className="bg-blue-600 hover:bg-blue-700">
+              {streaming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Generate
+            </Button>
+            <Button variant="outline" onClick={stop} disabled={!streaming}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-white">Output</CardTitle>
+          <div className="flex gap-2">
+            {result?.model && <Badge variant="outline">{result.provider} · {result.model}</Badge>}
+            {result?.quota && <Badge variant="secondary">{result.quota.plan}</Badge>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <pre className="whitespace-pre-wrap text-slate-100 text-sm min-h-[8rem]">
+            {output || (streaming ? 'Waiting for the first tokens…' : 'Nothing generated yet.')}
+          </pre>
+          {result?.usage && (
+            <div className="text-xs text-slate-400 space-x-4">
+              <span>prompt {result.usage.prompt_tokens}</span>
+              <span>completion {result.usage.completion_tokens}</span>
+              <span>total {result.usage.total_tokens}{result.usage.estimated && ' (estimated)'}</span>
+              <span>cost ${result.usage.total_cost.toFixed(2)}</span>
+              {result.quota && (
+                <>
+                  <span>requests {formatLimit(result.quota.requests_used, result.quota.monthly_requests)}</span>
+                  <span>tokens {formatLimit(result.quota.tokens_used, result.quota.monthly_tokens)}</span>
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ContentPlayground;
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { AlertTriangle, Inbox, Loader2, Pencil, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+
+type DeadLetter = Tables<'revenue_task_dead_letters'>;
+
+// Rows from the revenue-worker "dead_letters" action: one per task type and error
+interface DeadLetterGroup {
+  task_type: string;
+  error: string;
+  count: number;
+  first_failed_at: string;
+  last_failed_at: string;
+  dead_letter_ids: string[];
+}
+
+interface DeadLetterList {
+  dead_letters: DeadLetter[];
+  groups: DeadLetterGroup[];
+  threshold: number;
+  open_alert: { id: string; message: string; created_at: string } | null;
+}
+
+const EMPTY_LIST: DeadLetterList = { dead_letters: [], groups: [], threshold: 0, open_alert: null };
+
+const fetchDeadLetters = async (): Promise<DeadLetterList> => {
+  const { data, error } = await supabase.functions.invoke('revenue-worker', { body: { action: 'dead_letters' } });
+  if (error) throw error;
+  return {
+    dead_letters: data?.dead_letters || [],
+    groups: data?.groups || [],
+    threshold: data?.threshold ?? 0,
+    open_alert: data?.open_alert ?? null,
+  };
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const DeadLetterQueue = () => {
+  const [list, setList] = useState<DeadLetterList>(EMPTY_LIST);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Corrected payloads by dead letter ID, sent with the next requeue
+  const [edits, setEdits] = useState<Record<string, unknown>>({});
+  const [editing, setEditing] = useState<{ letter: DeadLetter; text: string } | null>(null);
+  const [purging, setPurging] = useState(false);
+  const [purgeReason, setPurgeReason] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadDeadLetters = async () => {
+    setLoading(true);
+    try {
+      const next = await fetchDeadLetters();
+      setList(next);
+      setThreshold(String(next.threshold));
+      setSelected(new Set());
+      setEdits({});
+    } catch (error) {
+      toast.error(`Failed to load dead letters: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeadLetters()
+      .then((next) => {
+        setList(next);
+        setThreshold(String(next.threshold));
+      })
+      .catch((error) => toast.error(`Failed to load dead letters: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    try {
+      const payload = JSON.parse(editing.text || '{}');
+      setEdits((current) => ({ ...current, [editing.letter.id]: payload }));
+      toggle([editing.letter.id], true);
+      setEditing(null);
+    } catch (error) {
+      toast.error(`The payload must be JSON: ${(error as Error).message}`);
+    }
+  };
+
+  const requeue = async () => {
+    setBusy(true);
+    try {
+      const ids = [...selected];
+      const payloads = Object.fromEntries(Object.entries(edits).filter(([id]) => selected.has(id)));
+      const { data, error } = await supabase.functions.invoke('revenue-worker', {
+        body: { action: 'requeue_dead_letters', dead_letter_ids: ids, payloads }
+      });
+      if (error) throw error;
+      toast.success(`Requeued ${data?.requeued?.length ?? 0} task(s)`);
+      await loadDeadLetters();
+    } catch (error) {
+      toast.error(`Could not requeue: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const purge = async () => {
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('revenue-worker', {
+        body: { action: 'purge_dead_letters', dead_letter_ids: [...selected], reason: purgeReason.trim() }
+      });
+      if (error) throw error;
+      toast.success(`Purged ${data?.purged ?? 0} task(s)`);
+      setPurging(false);
+      setPurgeReason('');
+      await loadDeadLetters();
+    } catch (error) {
+      toast.error(`Could not purge: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveThreshold = async () => {
+    setBusy(true);
+    try {
+      const { error } = await supabase.functions.invoke('revenue-worker', {
+        body: { action: 'set_dead_letter_threshold', threshold: Number(threshold) }
+      });
+      if (error) throw error;
+      toast.success(`Alert threshold set to ${threshold}`);
+      await loadDeadLetters();
+    } catch (error) {
+      toast.error(`Could not save the threshold: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-600">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center">
+            <Inbox className="h-5 w-5 mr-2" />
+            Dead-Letter Queue
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Revenue tasks that ran out of retries or were refused by their handler. Requeuing takes a treasurer; purging takes an admin.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={loadDeadLetters} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {list.open_alert && (
+          <div className="flex items-start p-3 rounded-lg bg-red-900/30 border border-red-500/40 text-red-200 text-sm">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            <span>{list.open_alert.message} (alert raised {formatTime(list.open_alert.created_at)})</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="dead-letter-threshold" className="text-slate-300">Alert above</Label>
+            <Input
+              id="dead-letter-threshold"
+              type="number"
+              min={0}
+              className="w-28"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={saveThreshold} disabled={busy || threshold === String(list.threshold)}>
+            Save threshold
+          </Button>
+          <div className="flex-1" />
+          <Button onClick={requeue} disabled={busy || selected.size === 0} className="bg-blue-600 hover:bg-blue-700">
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+            Requeue {selected.size > 0 ? selected.size : ''}
+          </Button>
+          <Button variant="destructive" onClick={() => setPurging(true)} disabled={busy || selected.size === 0}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Purge {selected.size > 0 ? selected.size : ''}
+          </Button>
+        </div>
+
+        {list.groups.length === 0 ? (
+          <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No dead tasks.'}</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead className="text-slate-300">Task type</TableHead>
+                  <TableHead className="text-slate-300">Error</TableHead>
+                  <TableHead className="text-slate-300">Tasks</TableHead>
+                  <TableHead className="text-slate-300">Failed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.groups.map((group) => (
+                  <TableRow key={`${group.task_type}:${group.error}`} className="text-slate-200">
+                    <TableCell>
+                      <Checkbox
+                        checked={group.dead_letter_ids.every((id) => selected.has(id))}
+                        onCheckedChange={(checked) => toggle(group.dead_letter_ids, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{group.task_type}</TableCell>
+                    <TableCell className="font-mono text-xs max-w-md break-words">{group.error}</TableCell>
+                    <TableCell><Badge variant="destructive">{group.count}</Badge></TableCell>
+                    <TableCell className="text-xs">
+                      {group.count > 1 ? `${formatTime(group.first_failed_at)} – ${formatTime(group.last_failed_at)}` : formatTime(group.last_failed_at)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead className="text-slate-300">Task</TableHead>
+                  <TableHead className="text-slate-300">Payload</TableHead>
+                  <TableHead className="text-slate-300">Attempts</TableHead>
+                  <TableHead className="text-slate-300">Failed</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.dead_letters.map((letter) => (
+                  <TableRow key={letter.id} className="text-slate-200">
+                    <TableCell>
+                      <Checkbox checked={selected.has(letter.id)} onCheckedChange={(checked) => toggle([letter.id], checked === true)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{letter.task_type}</div>
+                      <div className="text-xs text-red-300">{letter.error_message}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-xs truncate">
+                      {JSON.stringify(letter.id in edits ? edits[letter.id] : letter.payload)}
+                      {letter.id in edits && <Badge variant="outline" className="ml-2">edited</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs">{letter.retry_count + 1} of {letter.max_retries + 1}</TableCell>
+                    <TableCell className="text-xs">{formatTime(letter.failed_at)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditing({
+                          letter,
+                          text: JSON.stringify(letter.id in edits ? edits[letter.id] : letter.payload, null, 2),
+                        })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit payload</DialogTitle>
+            <DialogDescription>
+              The task is requeued with this payload the next time you press Requeue with it selected.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <Textarea
+              className="font-mono text-xs min-h-[200px]"
+              value={editing.text}
+              onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveEdit}>Keep edit</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={purging} onOpenChange={setPurging}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Purge {selected.size} task(s)</DialogTitle>
+            <DialogDescription>
+              The tasks leave the queue for good. The dead letters keep their payload, your name and this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="purge-reason">Reason</Label>
+            <Input id="purge-reason" value={purgeReason} onChange={(e) => setPurgeReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPurging(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={purge} disabled={busy || !purgeReason.trim()}>
+              Purge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DeadLetterQueue;
@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatMoney, fromMajorUnits, minorUnitExponent, minorUnits, money, toMajorUnits } from "@/lib/money";
+import { toast } from "sonner";
+import {
+  Building2,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  ShieldCheck
+} from "lucide-react";
+
+// Rows as returned by the manage-destinations "list" action
+type Destination = Tables<'stripe_destinations'> & { used_today_cents: number };
+
+interface DestinationForm {
+  account_id: string;
+  label: string;
+  currency: string;
+  is_active: boolean;
+  is_default: boolean;
+  // Limits are edited in dollars and sent in cents; blank means no limit
+  min_transfer: string;
+  max_transfer: string;
+  daily_limit: string;
+}
+
+const EMPTY_FORM: DestinationForm = {
+  account_id: '',
+  label: '',
+  currency: 'usd',
+  is_active: true,
+  is_default: false,
+  min_transfer: '',
+  max_transfer: '',
+  daily_limit: '',
+};
+
+const VERIFICATION_CLASSES: Record<string, string> = {
+  verified: 'bg-green-600/20 text-green-300 border-green-500/30',
+  unverified: 'bg-slate-600/20 text-slate-300 border-slate-500/30',
+  failed: 'bg-red-600/20 text-red-300 border-red-500/30',
+};
+
+// Limits are stored in minor units of the destination's currency and edited in major units
+const formatLimit = (cents: number | null, currency: string) => (cents === null ? '—' : formatMoney(money(cents, currency)));
+const toMajorInput = (cents: number | null, currency: string) => (cents === null ? '' : toMajorUnits(money(cents, currency)).toFixed(minorUnitExponent(currency)));
+const toMinorUnits = (major: string, currency: string) => (major.trim() === '' ? null : minorUnits(fromMajorUnits(major, currency)));
+
+const DestinationSettings = () => {
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DestinationForm | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadDestinations = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-destinations', {
+        body: { action: 'list' }
+      });
+      if (error) throw error;
+      setDestinations(data?.destinations || []);
+    } catch (error) {
+      toast.error(`Failed to load destinations: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDestinations();
+  }, []);
+
+  const openNew = () => {
+    setEditing(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const openEdit = (destination: Destination) => {
+    setEditing(true);
+    setForm({
+      account_id: destination.account_id,
+      label: destination.label || '',
+      currency: destination.currency,
+      is_active: destination.is_active ?? true,
+      is_default: destination.is_default,
+      min_transfer: toMajorInput(destination.min_transfer_cents, destination.currency),
+      max_transfer: toMajorInput(destination.max_transfer_cents, destination.currency),
+      daily_limit: toMajorInput(destination.daily_limit_cents, destination.currency),
+    });
+  };
+
+  const saveDestination = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-destinations', {
+        body: {
+          action: 'upsert',
+          account_id: form.account_id.trim(),
+          label: form.label.trim() || null,
+          currency: form.currency.trim().toLowerCase(),
+          is_active: form.is_active,
+          is_default: form.is_default,
+          min_transfer_cents: toMinorUnits(form.min_transfer, form.currency),
+          max_transfer_cents: toMinorUnits(form.max_transfer, form.currency),
+          daily_limit_cents: toMinorUnits(form.daily_limit, form.currency),
+        }
+      });
+      if (error) throw error;
+
+      if (data?.success) {
+        toast.success(`Saved ${form.account_id}`);
+        setForm(null);
+        await loadDestinations();
+      } else {
+        toast.error(data?.error || 'Failed to save destination');
+      }
+    } catch (error) {
+      toast.error(`Failed to save destination: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const verify = async (destination: Destination) => {
+    setVerifyingId(destination.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-destinations', {
+        body: { action: 'verify', destination_id: destination.id }
+      });
+      if (error) throw error;
+
+      if (data?.destination?.verification_status === 'verified') {
+        toast.success(`✅ ${destination.account_id} can receive transfers`);
+      } else {
+        toast.error(`${destination.account_id} failed verification: ${data?.destination?.verification_error || data?.error || 'unknown reason'}`);
+      }
+      await loadDestinations();
+    } catch (error) {
+      toast.error(`Verification failed: ${(error as Error).message}`);
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const updateForm = (changes: Partial<DestinationForm>) => setForm((current) => (current ? { ...current, ...changes } : current));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Building2 className="h-5 w-5 mr-2" />
+              Transfer Destinations
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Connected accounts that transfers are sent to. Only verified, active destinations receive money.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadDestinations} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={openNew} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add destination
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {destinations.length === 0 ? (
+            <p className="text-slate-400 text-sm">
+              {loading ? 'Loading…' : 'No destinations configured. Transfers are blocked until one is added and verified.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Account</TableHead>
+                  <TableHead className="text-slate-300">Currency</TableHead>
+                  <TableHead className="text-slate-300">Verification</TableHead>
+                  <TableHead className="text-slate-300 text-right">Min / max</TableHead>
+                  <TableHead className="text-slate-300 text-right">Today / daily limit</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {destinations.map((destination) => (
+                  <TableRow key={destination.id} className="text-slate-200">
+                    <TableCell>
+                      <div className="font-mono text-xs">{destination.account_id}</div>
+                      <div className="text-xs text-slate-400">
+                        {destination.label || 'Unlabelled'}
+                        {destination.is_default && ' · default'}
+                        {!destination.is_active && ' · inactive'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="uppercase">{destination.currency}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={VERIFICATION_CLASSES[destination.verification_status]}>
+                        {destination.verification_status}
+                      </Badge>
+                      {destination.verification_error && (
+                        <div className="text-xs text-red-300 mt-1">{destination.verification_error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatLimit(destination.min_transfer_cents, destination.currency)} / {formatLimit(destination.max_transfer_cents, destination.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatLimit(destination.used_today_cents, destination.currency)} / {formatLimit(destination.daily_limit_cents, destination.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => verify(destination)} disabled={verifyingId === destination.id}>
+                          {verifyingId === destination.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <ShieldCheck className="h-4 w-4 mr-1" />
+                          )}
+                          Verify
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openEdit(destination)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit destination' : 'Add destination'}</DialogTitle>
+            <DialogDescription>
+              Changing the account type sends a destination back to unverified. Adding or editing destinations requires the admin role.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="destination-account">Stripe account ID</Label>
+                  <Input
+                    id="destination-account"
+                    placeholder="acct_..."
+                    value={form.account_id}
+                    disabled={editing}
+                    onChange={(e) => updateForm({ account_id: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="destination-currency">Currency</Label>
+                  <Input
+                    id="destination-currency"
+                    value={form.currency}
+                    disabled={editing}
+                    onChange={(e) => updateForm({ currency: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="destination-label">Label</Label>
+                <Input
+                  id="destination-label"
+                  value={form.label}
+                  onChange={(e) => updateForm({ label: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="destination-min">Min transfer ($)</Label>
+                  <Input
+                    id="destination-min"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.min_transfer}
+                    onChange={(e) => updateForm({ min_transfer: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="destination-max">Max transfer ($)</Label>
+                  <Input
+                    id="destination-max"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.max_transfer}
+                    onChange={(e) => updateForm({ max_transfer: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="destination-daily">Daily limit ($)</Label>
+                  <Input
+                    id="destination-daily"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.daily_limit}
+                    onChange={(e) => updateForm({ daily_limit: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="destination-default">Default for this currency</Label>
+                <Switch
+                  id="destination-default"
+                  checked={form.is_default}
+                  onCheckedChange={(checked) => updateForm({ is_default: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="destination-active">Active</Label>
+                <Switch
+                  id="destination-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => updateForm({ is_active: checked })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={saveDestination} disabled={saving || !form?.account_id.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DestinationSettings;
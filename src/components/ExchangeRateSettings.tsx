@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { FileUp, HardDrive, Loader2, RefreshCw, Repeat } from "lucide-react";
+
+// Snapshots as returned by the exchange-rates "list" action
+interface RateSnapshot {
+  base_currency: string;
+  as_of: string;
+  rates: Record<string, number>;
+  source: string;
+}
+
+interface RateList {
+  snapshots: RateSnapshot[];
+  reporting_currency: string;
+}
+
+async function fetchRates(): Promise<RateList> {
+  const { data, error } = await supabase.functions.invoke('exchange-rates', {
+    body: { action: 'list' }
+  });
+  if (error) throw error;
+  return { snapshots: data?.snapshots || [], reporting_currency: data?.reporting_currency || 'usd' };
+}
+
+// Rates other than the base's own 1, e.g. "EUR 0.92 · GBP 0.79"
+const describeRates = (snapshot: RateSnapshot) =>
+  Object.entries(snapshot.rates)
+    .filter(([currency]) => currency !== snapshot.base_currency)
+    .map(([currency, rate]) => `${currency.toUpperCase()} ${rate}`)
+    .join(' · ');
+
+const ExchangeRateSettings = () => {
+  const [snapshots, setSnapshots] = useState<RateSnapshot[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('usd');
+  const [currencyInput, setCurrencyInput] = useState('usd');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'currency' | 'import' | 'load_file' | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const applyRates = (list: RateList) => {
+    setSnapshots(list.snapshots);
+    setReportingCurrency(list.reporting_currency);
+    setCurrencyInput(list.reporting_currency);
+  };
+
+  const loadRates = async () => {
+    setLoading(true);
+    try {
+      applyRates(await fetchRates());
+    } catch (error) {
+      toast.error(`Failed to load exchange rates: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRates()
+      .then(applyRates)
+      .catch((error) => toast.error(`Failed to load exchange rates: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Runs an admin action and reloads the list; the function answers 403 for non-admins
+  const runAction = async (kind: 'currency' | 'import' | 'load_file', body: Record<string, unknown>, success: string) => {
+    setBusy(kind);
+    try {
+      const { data, error } = await supabase.functions.invoke('exchange-rates', { body });
+      if (error) throw error;
+      if (data?.success) {
+        toast.success(success);
+        await loadRates();
+      } else {
+        toast.error(data?.error || 'Exchange rate update failed');
+      }
+    } catch (error) {
+      toast.error(`Exchange rate update failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveReportingCurrency = () =>
+    runAction(
+      'currency',
+      { action: 'set_reporting_currency', currency: currencyInput.trim() },
+      `Balances are now reported in ${currencyInput.trim().toUpperCase()}`
+    );
+
+  const importFile = async (file: File) => {
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await file.text());
+    } catch (error) {
+      toast.error(`${file.name} is not valid JSON: ${(error as Error).message}`);
+      return;
+    }
+    await runAction('import', { action: 'import', snapshot }, `Imported rates from ${file.name}`);
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-600">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            Currencies & Exchange Rates
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Balances are kept in their own currency. Dated rates convert them into the reporting currency for totals.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadRates} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={busy !== null}>
+            {busy === 'import' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+            Import file
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => runAction('load_file', { action: 'load_file' }, 'Loaded rates from the server file')}
+            disabled={busy !== null}
+          >
+            {busy === 'load_file' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <HardDrive className="h-4 w-4 mr-2" />}
+            Load server file
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importFile(file);
+            }}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reporting-currency">Reporting currency</Label>
+            <Input
+              id="reporting-currency"
+              className="w-32 uppercase"
+              maxLength={3}
+              value={currencyInput}
+              onChange={(e) => setCurrencyInput(e.target.value.toLowerCase())}
+            />
+          </div>
+          <Button
+            onClick={saveReportingCurrency}
+            disabled={busy !== null || currencyInput.trim() === '' || currencyInput.trim() === reportingCurrency}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {busy === 'currency' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+          <p className="text-xs text-slate-400 pb-2">Changing it requires the admin role.</p>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className="text-slate-400 text-sm">
+            {loading ? 'Loading…' : 'No exchange rates loaded. Balances in other currencies are shown without a combined total.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-slate-300">As of</TableHead>
+                <TableHead className="text-slate-300">Base</TableHead>
+                <TableHead className="text-slate-300">Rates</TableHead>
+                <TableHead className="text-slate-300">Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshots.map((snapshot) => (
+                <TableRow key={`${snapshot.as_of}:${snapshot.base_currency}:${snapshot.source}`} className="text-slate-200">
+                  <TableCell>{snapshot.as_of}</TableCell>
+                  <TableCell className="uppercase">{snapshot.base_currency}</TableCell>
+                  <TableCell className="font-mono text-xs">{describeRates(snapshot) || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-slate-300 border-slate-500/30">{snapshot.source}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRateSettings;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowUpRight, Loader2 } from "lucide-react";
+import { formatMajorUnits, formatMoney, money } from "@/lib/money";
+
+// Shape of the plan returned by a dry run, built in supabase/functions/_shared/plan.ts
+export interface ExecutionPlan {
+  function: string;
+  execution_id: string;
+  generated_at: string;
+  summary: string;
+  amount_cents: number;
+  provider_calls: { provider: string; method: string; params: Record<string, unknown>; idempotency_key?: string }[];
+  table_writes: { table: string; operation: string; description: string; values?: Record<string, unknown> }[];
+  ledger_postings: {
+    description: string;
+    reference: string | null;
+    lines: { account_code: string; debit?: number; credit?: number }[];
+  }[];
+  warnings: string[];
+  plan_hash: string;
+}
+
+interface ExecutionPlanPreviewProps {
+  plan: ExecutionPlan | null;
+  executing: boolean;
+  onExecute: (plan: ExecutionPlan) => void;
+  onClose: () => void;
+}
+
+// Journal lines are in major units, provider calls in minor units
+const formatAmount = (amount?: number) => (amount ? formatMajorUnits(amount) : '');
+
+// Amount and counterparty of a provider call, whatever the provider's field names
+const describeCall = (params: Record<string, unknown>) => {
+  const amount = typeof params.amount === 'number' ? formatMoney(money(params.amount, String(params.currency ?? 'usd'))) : null;
+  const destination = typeof params.destination === 'string' ? ` → ${params.destination}` : '';
+  return amount ? `${amount}${destination}` : JSON.stringify(params);
+};
+
+const ExecutionPlanPreview = ({ plan, executing, onExecute, onClose }: ExecutionPlanPreviewProps) => {
+  return (
+    <Dialog open={plan !== null} onOpenChange={(open) => !open && !executing && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review plan: {plan?.function}</DialogTitle>
+          <DialogDescription>{plan?.summary}</DialogDescription>
+        </DialogHeader>
+
+        {plan && (
+          <div className="space-y-5 text-sm">
+            {plan.warnings.length > 0 && (
+              <div className="rounded-md border border-orange-500/40 bg-orange-500/10 p-3 space-y-1">
+                {plan.warnings.map((warning) => (
+                  <p key={warning} className="flex items-start text-orange-700">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-semibold mb-2">Provider calls ({plan.provider_calls.length})</h4>
+              {plan.provider_calls.length === 0 ? (
+                <p className="text-muted-foreground">No money leaves any provider</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Provider</TableHead>
+                      <TableHead>Call</TableHead>
+                      <TableHead>Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.provider_calls.map((call, index) => (
+                      <TableRow key={`${call.method}:${index}`}>
+                        <TableCell><Badge variant="secondary">{call.provider}</Badge></TableCell>
+                        <TableCell className="font-mono text-xs">{call.method}</TableCell>
+                        <TableCell className="font-mono text-xs">{describeCall(call.params)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">Ledger postings ({plan.ledger_postings.length})</h4>
+              {plan.ledger_postings.length === 0 ? (
+                <p className="text-muted-foreground">Nothing is posted to the ledger</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Posting</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.ledger_postings.flatMap((posting, index) =>
+                      posting.lines.map((line, lineIndex) => (
+                        <TableRow key={`${index}:${lineIndex}`}>
+                          <TableCell>{lineIndex === 0 ? posting.description : ''}</TableCell>
+                          <TableCell className="font-mono text-xs">{line.account_code}</TableCell>
+                          <TableCell className="text-right">{formatAmount(line.debit)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(line.credit)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">Table writes ({plan.table_writes.length})</h4>
+              <ul className="space-y-1">
+                {plan.table_writes.map((write, index) => (
+                  <li key={`${write.table}:${index}`}>
+                    <span className="font-mono text-xs">{write.operation} {write.table}</span>
+                    <span className="text-muted-foreground"> — {write.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <p className="text-xs text-muted-foreground font-mono">
+              Plan {plan.plan_hash.slice(0, 12)} · generated {new Date(plan.generated_at).toLocaleTimeString()}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={executing}>Cancel</Button>
+          <Button
+            onClick={() => plan && onExecute(plan)}
+            disabled={executing || !plan || plan.provider_calls.length + plan.ledger_postings.length === 0}
+            className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+          >
+            {executing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowUpRight className="h-4 w-4 mr-2" />}
+            Execute this plan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExecutionPlanPreview;
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatMoney, fromMajorUnits, minorUnits, money, toMajorUnits } from "@/lib/money";
+import { toast } from "sonner";
+import {
+  Loader2,
+  OctagonX,
+  Play,
+  RefreshCw,
+  Save,
+  ShieldAlert,
+  ShieldCheck
+} from "lucide-react";
+
+// Shape of the manage-failsafe "status" action
+interface FailsafeStatus {
+  status: string;
+  health_status: string | null;
+  limits: Record<string, number | null>;
+  usage: {
+    hourly_amount_cents: number;
+    daily_amount_cents: number;
+    daily_transfer_count: number;
+    failures: number;
+  };
+  movements: Pick<Tables<'money_movements'>, 'function_name' | 'provider' | 'destination' | 'amount_cents' | 'status' | 'error_message' | 'created_at'>[];
+  events: Pick<Tables<'emergency_events'>, 'id' | 'event_type' | 'severity' | 'status' | 'details' | 'resolution_notes' | 'resolved_at' | 'created_at'>[];
+}
+
+// Limits in the order they are shown; cents fields are edited in dollars
+const LIMIT_FIELDS: { key: string; label: string; cents: boolean }[] = [
+  { key: 'max_single_transfer_cents', label: 'Max single transfer ($)', cents: true },
+  { key: 'hourly_amount_cents', label: 'Hourly amount ($)', cents: true },
+  { key: 'daily_amount_cents', label: 'Daily amount ($)', cents: true },
+  { key: 'per_destination_daily_cents', label: 'Daily per destination ($)', cents: true },
+  { key: 'daily_transfer_count', label: 'Transfers per day', cents: false },
+  { key: 'failure_count', label: 'Failures before halting', cents: false },
+  { key: 'failure_window_minutes', label: 'Failure window (minutes)', cents: false },
+  { key: 'anomaly_multiplier', label: 'Anomaly multiplier (× average)', cents: false },
+];
+
+const formatCents = (cents: number | null | undefined) =>
+  cents === null || cents === undefined ? 'no limit' : formatMoney(money(cents));
+
+const toInputs = (limits: Record<string, number | null>) => Object.fromEntries(LIMIT_FIELDS.map(({ key, cents }) => {
+  const value = limits[key];
+  if (value === null || value === undefined) return [key, ''];
+  return [key, cents ? toMajorUnits(money(value)).toFixed(2) : String(value)];
+}));
+
+const UsageBar = ({ label, used, limit, format }: { label: string; used: number; limit: number | null | undefined; format: (value: number) => string }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span className="text-slate-300">{label}</span>
+      <span className="text-white">{format(used)} / {limit === null || limit === undefined ? 'no limit' : format(limit)}</span>
+    </div>
+    <Progress value={limit ? Math.min(100, (used / limit) * 100) : 0} className="h-2" />
+  </div>
+);
+
+const FailsafeControls = () => {
+  const [state, setState] = useState<FailsafeStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<'halt' | 'resume' | null>(null);
+  const [reason, setReason] = useState('');
+  const [switching, setSwitching] = useState(false);
+  const [limitInputs, setLimitInputs] = useState<Record<string, string>>({});
+  const [savingLimits, setSavingLimits] = useState(false);
+
+  const loadStatus = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-failsafe', {
+        body: { action: 'status' }
+      });
+      if (error) throw error;
+      setState(data);
+      setLimitInputs(toInputs(data?.limits || {}));
+    } catch (error) {
+      toast.error(`Failed to load failsafe status: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const switchStatus = async () => {
+    if (!pendingAction) return;
+    setSwitching(true);
+    try {
+      const { error } = await supabase.functions.invoke('manage-failsafe', {
+        body: { action: pendingAction, reason: reason.trim() }
+      });
+      if (error) throw error;
+      toast.success(pendingAction === 'halt' ? '🛑 All money movement halted' : '▶️ Money movement resumed');
+      setPendingAction(null);
+      setReason('');
+      await loadStatus();
+    } catch (error) {
+      toast.error(`Failed to ${pendingAction}: ${(error as Error).message}`);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  const saveLimits = async () => {
+    setSavingLimits(true);
+    try {
+      const limits = Object.fromEntries(LIMIT_FIELDS.map(({ key, cents }) => {
+        const input = (limitInputs[key] ?? '').trim();
+        if (input === '') return [key, null];
+        return [key, cents ? minorUnits(fromMajorUnits(input)) : parseFloat(input)];
+      }));
+      const { error } = await supabase.functions.invoke('manage-failsafe', {
+        body: { action: 'set_limits', limits }
+      });
+      if (error) throw error;
+      toast.success('Limits saved');
+      await loadStatus();
+    } catch (error) {
+      toast.error(`Failed to save limits: ${(error as Error).message}`);
+    } finally {
+      setSavingLimits(false);
+    }
+  };
+
+  const halted = state?.status === 'halted';
+
+  return (
+    <div className="space-y-6">
+      <Card className={`border-2 ${halted ? 'bg-red-900/30 border-red-500' : 'bg-slate-800/50 border-green-600/50'}`}>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              {halted ? <ShieldAlert className="h-6 w-6 mr-2 text-red-400" /> : <ShieldCheck className="h-6 w-6 mr-2 text-green-400" />}
+              {halted ? 'Money movement is HALTED' : 'Money movement is allowed'}
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              {halted
+                ? 'Every transfer and payout is refused until an admin resumes.'
+                : 'Transfers and payouts run within the limits below. Halting stops all of them immediately.'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadStatus} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {halted ? (
+              <Button onClick={() => setPendingAction('resume')} className="bg-green-600 hover:bg-green-700">
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="destructive" onClick={() => setPendingAction('halt')} disabled={!state}>
+                <OctagonX className="h-4 w-4 mr-2" />
+                Halt everything
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        {state && (
+          <CardContent className="space-y-4">
+            <UsageBar label="Last hour" used={state.usage.hourly_amount_cents} limit={state.limits.hourly_amount_cents} format={formatCents} />
+            <UsageBar label="Last 24 hours" used={state.usage.daily_amount_cents} limit={state.limits.daily_amount_cents} format={formatCents} />
+            <UsageBar label="Transfers in 24 hours" used={state.usage.daily_transfer_count} limit={state.limits.daily_transfer_count} format={String} />
+            <p className="text-xs text-slate-400">{state.usage.failures} failed movement(s) in the last 24 hours</p>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white">Limits</CardTitle>
+          <CardDescription className="text-slate-300">
+            Windows are rolling. Leave a field blank for no limit. Changing limits requires the admin role.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid md:grid-cols-4 gap-4">
+            {LIMIT_FIELDS.map(({ key, label, cents }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`limit-${key}`} className="text-slate-300 text-xs">{label}</Label>
+                <Input
+                  id={`limit-${key}`}
+                  type="number"
+                  min="0"
+                  step={cents ? '0.01' : '1'}
+                  value={limitInputs[key] ?? ''}
+                  onChange={(e) => setLimitInputs((current) => ({ ...current, [key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button onClick={saveLimits} disabled={savingLimits || !state}>
+              {savingLimits ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save limits
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white">Breaker events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!state || state.events.length === 0 ? (
+            <p className="text-slate-400 text-sm">The breaker has never tripped.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">When</TableHead>
+                  <TableHead className="text-slate-300">Event</TableHead>
+                  <TableHead className="text-slate-300">Reason</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {state.events.map((event) => (
+                  <TableRow key={event.id} className="text-slate-200">
+                    <TableCell className="text-xs">{new Date(event.created_at ?? '').toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-xs">{event.event_type}</TableCell>
+                    <TableCell className="text-xs">
+                      {String((event.details as Record<string, unknown>)?.reason ?? '')}
+                      {event.resolution_notes && <div className="text-slate-400">{event.resolution_notes}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={event.status === 'active' ? 'destructive' : 'secondary'}>{event.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white">Money movements, last 24 hours</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!state || state.movements.length === 0 ? (
+            <p className="text-slate-400 text-sm">No money has moved in the last 24 hours.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">When</TableHead>
+                  <TableHead className="text-slate-300">Function</TableHead>
+                  <TableHead className="text-slate-300">Destination</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead className="text-slate-300 text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {state.movements.map((movement, index) => (
+                  <TableRow key={`${movement.created_at}:${index}`} className="text-slate-200">
+                    <TableCell className="text-xs">{new Date(movement.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-xs">{movement.function_name}</TableCell>
+                    <TableCell className="font-mono text-xs">{movement.provider}{movement.destination ? ` → ${movement.destination}` : ''}</TableCell>
+                    <TableCell>
+                      <Badge variant={movement.status === 'failed' ? 'destructive' : 'secondary'}>{movement.status}</Badge>
+                      {movement.error_message && <div className="text-xs text-red-300 mt-1">{movement.error_message}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCents(movement.amount_cents)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && !switching && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction === 'halt' ? 'Halt all money movement' : 'Resume money movement'}</DialogTitle>
+            <DialogDescription>
+              {pendingAction === 'halt'
+                ? 'Every transfer and payout will be refused until an admin resumes. In-flight provider calls are not recalled.'
+                : 'Resuming requires the admin role and resolves the open breaker events with your reason.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="failsafe-reason">Reason</Label>
+            <Textarea id="failsafe-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)} disabled={switching}>Cancel</Button>
+            <Button
+              variant={pendingAction === 'halt' ? 'destructive' : 'default'}
+              onClick={switchStatus}
+              disabled={switching || !reason.trim()}
+            >
+              {switching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pendingAction === 'halt' ? 'Halt' : 'Resume'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FailsafeControls;
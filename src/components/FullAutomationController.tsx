@@ -1,10 +1,13 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ExecutionPlanPreview, { type ExecutionPlan } from "@/components/ExecutionPlanPreview";
 import { supabase } from "@/integrations/supabase/client";
+import { useOperationKey } from "@/hooks/use-operation-key";
 import { toast } from "sonner";
 import { 
   Zap, 
@@ -12,38 +15,95 @@ import {
   StopCircle, 
   Settings, 
   DollarSign,
-  ArrowUpRight,
   Clock,
   CheckCircle,
   AlertTriangle,
-  Loader2
+  Loader2,
+  FileSearch
 } from "lucide-react";
 
+// The scheduler job that runs the full transfer; see the Jobs page
+const fetchFullTransferJob = async () => {
+  const { data, error } = await supabase
+    .from('scheduled_jobs')
+    .select('enabled, next_run_at')
+    .eq('name', 'full-transfer')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
 const FullAutomationController = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [scheduleType, setScheduleType] = useState<string>('manual');
   const [automationEnabled, setAutomationEnabled] = useState(false);
 
-  const executeFullTransfer = async () => {
+  const [plan, setPlan] = useState<ExecutionPlan | null>(null);
+  const transferKey = useOperationKey();
+
+  useEffect(() => {
+    fetchFullTransferJob()
+      .then((job) => setAutomationEnabled(Boolean(job?.enabled)))
+      .catch((error) => console.error('Failed to load the full-transfer job:', error));
+  }, []);
+
+  // Error bodies come back on the FunctionsHttpError's response
+  const readErrorBody = async (error: unknown) => {
+    const context = (error as { context?: Response }).context;
+    return context ? await context.json().catch(() => null) : null;
+  };
+
+  const previewFullTransfer = async () => {
+    setIsProcessing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('comprehensive-usd-aggregator', {
+        body: { triggered_by: 'manual_full_transfer', dry_run: true }
+      });
+
+      if (error) {
+        const body = await readErrorBody(error);
+        throw new Error(body?.error || error.message);
+      }
+      setPlan(data.plan);
+    } catch (error) {
+      console.error('Plan preview error:', error);
+      toast.error(`Could not build the transfer plan: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const executeFullTransfer = async (approved: ExecutionPlan) => {
     setIsProcessing(true);
     try {
-      toast.info('🚀 Initiating comprehensive USD transfer across entire database...');
+      toast.info('🚀 Executing the reviewed transfer plan...');
       
       const { data, error } = await supabase.functions.invoke('comprehensive-usd-aggregator', {
-        body: { triggered_by: 'manual_full_transfer' }
+        body: { triggered_by: 'manual_full_transfer', plan_hash: approved.plan_hash },
+        headers: { 'Idempotency-Key': transferKey.current() }
       });
+      transferKey.settle(error);
       
-      if (error) throw error;
+      if (error) {
+        const body = await readErrorBody(error);
+        if (body?.error_code === 'plan_changed') {
+          toast.warning('Balances changed since the preview. Review the updated plan before executing.');
+          setPlan(body.plan);
+          return;
+        }
+        throw new Error(body?.error || error.message);
+      }
       
+      setPlan(null);
       if (data?.success) {
-        toast.success(`✅ SUCCESS: $${data.total_transferred?.toFixed(2)} transferred to all external accounts!`);
-        toast.success(`💰 Breakdown: ${Object.entries(data.breakdown || {}).map(([k, v]: [string, any]) => `${k}: $${v.toFixed(2)}`).join(', ')}`);
+        toast.success(`✅ SUCCESS: $${data.summary?.total_transferred?.toFixed(2)} transferred to all external accounts!`);
+        toast.success(`💰 Breakdown: ${Object.entries(data.breakdown_by_source || {}).map(([k, v]) => `${k}: $${Number(v).toFixed(2)}`).join(', ')}`);
       } else {
         toast.error(data?.message || 'Transfer failed');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Full transfer error:', error);
-      toast.error(`Transfer failed: ${error.message}`);
+      toast.error(`Transfer failed: ${(error as Error).message}`);
     } finally {
       setIsProcessing(false);
     }
@@ -77,9 +137,19 @@ const FullAutomationController = () => {
     }
   };
 
-  const stopAutomation = () => {
-    setAutomationEnabled(false);
-    toast.success('🛑 Automated transfers stopped');
+  const stopAutomation = async () => {
+    try {
+      const { error } = await supabase.functions.invoke('automated-full-transfer-scheduler', {
+        body: { action: 'stop_schedule' }
+      });
+      if (error) throw error;
+
+      setAutomationEnabled(false);
+      toast.success('🛑 Automated transfers stopped');
+    } catch (error) {
+      console.error('Automation stop error:', error);
+      toast.error(`Could not stop automation: ${(error as Error).message}`);
+    }
   };
 
   return (
@@ -103,10 +173,10 @@ const FullAutomationController = () => {
               Manual Full Transfer
             </h3>
             <p className="text-slate-300 text-sm mb-4">
-              Instantly transfer ALL USD from your entire database to Stripe, PayPal, bank accounts, and Modern Treasury
+              Preview every Stripe, PayPal, Modern Treasury and bank transfer and ledger posting, then execute exactly that plan
             </p>
             <Button
-              onClick={executeFullTransfer}
+              onClick={previewFullTransfer}
               disabled={isProcessing}
               className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
               size="lg"
@@ -114,9 +184,9 @@ const FullAutomationController = () => {
               {isProcessing ? (
                 <Loader2 className="h-5 w-5 mr-2 animate-spin" />
               ) : (
-                <ArrowUpRight className="h-5 w-5 mr-2" />
+                <FileSearch className="h-5 w-5 mr-2" />
               )}
-              {isProcessing ? 'Processing Full Transfer...' : 'Execute Full Database Transfer'}
+              {isProcessing ? 'Working...' : 'Preview Full Database Transfer'}
             </Button>
           </div>
 
@@ -163,6 +233,10 @@ const FullAutomationController = () => {
                   </Button>
                 )}
               </div>
+              <p className="text-xs text-slate-400">
+                Runs as the full-transfer job, never on weekends. Set an exact time or other blackout days on the{' '}
+                <Link to="/jobs" className="underline">Jobs page</Link>.
+              </p>
             </div>
           </div>
 
@@ -216,6 +290,13 @@ const FullAutomationController = () => {
         </CardContent>
       </Card>
 
+      <ExecutionPlanPreview
+        plan={plan}
+        executing={isProcessing}
+        onExecute={executeFullTransfer}
+        onClose={() => setPlan(null)}
+      />
+
       {/* Warning Notice */}
       <Card className="bg-gradient-to-r from-orange-900/20 to-red-900/20 border-orange-500/20">
         <CardContent className="p-4">
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { formatCents, formatMajorUnits } from "@/lib/money";
 import { 
   DollarSign, 
   RefreshCw, 
@@ -18,6 +19,15 @@ import {
   Zap
 } from "lucide-react";
 import { useNavigate } from 'react-router-dom';
+import { useOperationKey } from "@/hooks/use-operation-key";
+
+// Per-currency and reporting-currency rows from get-stripe-balance, in major units
+interface StripeCurrencyBalance {
+  currency: string;
+  available: number;
+  pending: number;
+  total: number;
+}
 
 interface BalanceData {
   application_balance: number;
@@ -26,6 +36,10 @@ interface BalanceData {
   total_revenue: number;
   last_updated: string;
   stripe_available: any[];
+  stripe_currencies: StripeCurrencyBalance[];
+  stripe_reporting_total: StripeCurrencyBalance | null;
+  stripe_reporting_error: string | null;
+  rates_as_of: string | null;
   transfer_ready: boolean;
 }
 
@@ -34,6 +48,8 @@ const RealTimeBalanceDisplay = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [transferring, setTransferring] = useState(false);
+  const transferKey = useOperationKey();
+  const fullTransferKey = useOperationKey();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -44,21 +60,17 @@ const RealTimeBalanceDisplay = () => {
 
   const loadBalances = async () => {
     try {
-      // Get application balance
-      const { data: appBalance } = await supabase
-        .from('application_balance')
-        .select('*')
-        .maybeSingle();
+      // Every balance comes from the double-entry ledger
+      const { data: ledgerBalances } = await supabase
+        .rpc('get_ledger_balances')
+        .select('account_code, balance');
 
-      // Get total revenue from completed transfers
-      const { data: transfers } = await supabase
-        .from('autonomous_revenue_transfers')
-        .select('amount, status')
-        .eq('status', 'completed');
+      const ledgerBalance = (code: string) =>
+        Number((ledgerBalances || []).find((row) => row.account_code === code)?.balance || 0);
 
-      const totalRevenue = (transfers || []).reduce((sum, t) => sum + Number(t.amount || 0), 0);
-      const applicationBalance = appBalance?.balance_amount || 0;
-      const pendingTransfers = appBalance?.pending_transfers || 0;
+      const applicationBalance = ledgerBalance('1000');
+      const pendingTransfers = ledgerBalance('1100');
+      const totalRevenue = ledgerBalance('4000');
 
       // Check if we can get Stripe balance (this requires proper integration)
       let stripeBalanceData = null;
@@ -71,8 +83,8 @@ const RealTimeBalanceDisplay = () => {
         console.log('Stripe balance check not available yet');
       }
 
-      // Calculate total transferable amount (application balance + revenue)
-      const totalTransferAmount = applicationBalance + totalRevenue;
+      // Revenue is already posted into the application balance, so that alone is transferable
+      const totalTransferAmount = applicationBalance;
 
       setBalances({
         application_balance: applicationBalance,
@@ -81,6 +93,10 @@ const RealTimeBalanceDisplay = () => {
         total_revenue: totalRevenue,
         last_updated: new Date().toISOString(),
         stripe_available: stripeBalanceData?.available || [],
+        stripe_currencies: stripeBalanceData?.currencies || [],
+        stripe_reporting_total: stripeBalanceData?.reporting_total || null,
+        stripe_reporting_error: stripeBalanceData?.reporting_error || null,
+        rates_as_of: stripeBalanceData?.rates_as_of || null,
         transfer_ready: totalTransferAmount >= 5
       });
 
@@ -101,29 +117,11 @@ const RealTimeBalanceDisplay = () => {
   const executeTransfer = async () => {
     setTransferring(true);
     try {
-      toast.info('📊 Step 1: Moving revenue to application balance...');
-      
-      if (balances?.total_revenue && balances.total_revenue > 0) {
-        const { error: revenueTransferError } = await supabase
-          .from('application_balance')
-          .update({ 
-            balance_amount: (balances.application_balance || 0) + balances.total_revenue,
-            last_updated_at: new Date().toISOString()
-          })
-          .eq('id', 1);
-
-        if (revenueTransferError) {
-          throw new Error(`Failed to move revenue: ${revenueTransferError.message}`);
-        }
-
-        await supabase
-          .from('autonomous_revenue_transfers')
-          .update({ status: 'transferred' })
-          .eq('status', 'completed');
-      }
-
-      toast.info('🏦 Step 2: Transferring to bank account...');
-      const { data, error } = await supabase.functions.invoke('stripe-revenue-transfer');
+      toast.info('🏦 Transferring to bank account...');
+      const { data, error } = await supabase.functions.invoke('stripe-revenue-transfer', {
+        headers: { 'Idempotency-Key': transferKey.current() }
+      });
+      transferKey.settle(error);
       
       if (error) throw error;
       
@@ -153,7 +151,7 @@ const RealTimeBalanceDisplay = () => {
       
       if (data?.success) {
         if (data.fixed > 0) {
-          toast.success(`✅ Fixed ${data.fixed} failed transfers! Total recovered: $${(data.total_amount_recovered / 100).toFixed(2)}`);
+          toast.success(`✅ Fixed ${data.fixed} failed transfers! Total recovered: ${formatCents(data.total_amount_recovered)}`);
         } else {
           toast.info('✨ No failed transfers found to fix - everything looks good!');
         }
@@ -206,7 +204,11 @@ const RealTimeBalanceDisplay = () => {
             onClick={async () => {
               try {
                 toast.info('Transferring ALL USD from entire database...');
-                const { data, error } = await supabase.functions.invoke('comprehensive-usd-aggregator', { body: {} });
+                const { data, error } = await supabase.functions.invoke('comprehensive-usd-aggregator', {
+                  body: {},
+                  headers: { 'Idempotency-Key': fullTransferKey.current() }
+                });
+                fullTransferKey.settle(error);
                 if (error) throw error;
                 if (data?.success) {
                   toast.success(`🎉 SUCCESS: $${data.total_transferred?.toFixed(2)} transferred from entire database!`);
@@ -254,7 +256,10 @@ const RealTimeBalanceDisplay = () => {
             onClick={async () => {
               try {
                 toast.info('Creating Stripe payout to your bank...');
-                const { data, error } = await supabase.functions.invoke('payout-now', { body: {} });
+                const { data, error } = await supabase.functions.invoke('payout-now', {
+                  body: {},
+                  headers: { 'Idempotency-Key': crypto.randomUUID() }
+                });
                 if (error) throw error;
                 if (data?.success) {
                   toast.success(data.message || 'Payout created');
@@ -349,11 +354,18 @@ const RealTimeBalanceDisplay = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-400">
-              ${balances?.stripe_balance?.toFixed(2) || '0.00'}
+              {balances?.stripe_reporting_total
+                ? formatMajorUnits(balances.stripe_reporting_total.available, balances.stripe_reporting_total.currency)
+                : `$${balances?.stripe_balance?.toFixed(2) || '0.00'}`}
             </div>
             <p className="text-xs text-purple-200 mt-1">
-              Available in Stripe
+              {balances?.stripe_reporting_total && balances.stripe_currencies.length > 1
+                ? `Available in Stripe, all currencies at ${balances.rates_as_of} rates`
+                : 'Available in Stripe'}
             </p>
+            {balances?.stripe_reporting_error && (
+              <p className="text-xs text-yellow-300 mt-1">{balances.stripe_reporting_error}</p>
+            )}
           </CardContent>
         </Card>
 
@@ -391,14 +403,14 @@ const RealTimeBalanceDisplay = () => {
             <div>
               <p className="text-slate-400 text-sm">Total Transfer Amount</p>
               <p className="text-white font-semibold">
-                ${((balances?.application_balance || 0) + (balances?.total_revenue || 0)).toFixed(2)}
+                ${(balances?.application_balance || 0).toFixed(2)}
               </p>
               <p className="text-xs text-slate-500">
-                App: ${(balances?.application_balance || 0).toFixed(2)} + Revenue: ${(balances?.total_revenue || 0).toFixed(2)}
+                Ledger application balance
               </p>
             </div>
             <div>
-              <p className="text-slate-400 text-sm">Pending Transfers</p>
+              <p className="text-slate-400 text-sm">Payouts In Transit</p>
               <p className="text-white font-semibold">
                 ${balances?.pending_transfers?.toFixed(2) || '0.00'}
               </p>
@@ -419,6 +431,29 @@ const RealTimeBalanceDisplay = () => {
         </CardContent>
       </Card>
 
+      {/* Stripe balance in each currency it holds */}
+      {balances && balances.stripe_currencies.length > 1 && (
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center">
+              <CreditCard className="h-5 w-5 mr-2" />
+              Stripe Balance by Currency
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {balances.stripe_currencies.map((row) => (
+                <div key={row.currency}>
+                  <p className="text-slate-400 text-sm uppercase">{row.currency}</p>
+                  <p className="text-white font-semibold">{formatMajorUnits(row.available, row.currency)}</p>
+                  <p className="text-xs text-slate-500">{formatMajorUnits(row.pending, row.currency)} pending</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stripe Configuration Notice */}
       {(!balances?.stripe_available || balances.stripe_available.length === 0) && (
         <Card className="bg-yellow-900/20 border-yellow-500/30">
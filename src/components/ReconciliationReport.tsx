@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCents, formatMajorUnits } from "@/lib/money";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileSearch,
+  Loader2,
+  PlayCircle,
+  RefreshCw
+} from "lucide-react";
+
+type ReconciliationRun = Tables<'stripe_reconciliation_runs'>;
+type ReconciliationRow = Tables<'stripe_reconciliation'>;
+
+// Shape of stripe_reconciliation.details, written by supabase/functions/_shared/reconciliation.ts
+interface RowDetails {
+  balance_transaction_id?: string;
+  stripe_created_at?: string;
+  internal?: { source: string; record_id: string; amount_cents: number }[];
+}
+
+type StatusFilter = 'breaks' | 'all' | 'matched' | 'variance' | 'missing_internal' | 'missing_stripe';
+
+const STATUS_LABELS: Record<string, string> = {
+  matched: 'Matched',
+  variance: 'Variance',
+  missing_internal: 'Not recorded internally',
+  missing_stripe: 'Not in Stripe',
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  matched: 'bg-green-600/20 text-green-300 border-green-500/30',
+  variance: 'bg-yellow-600/20 text-yellow-300 border-yellow-500/30',
+  missing_internal: 'bg-red-600/20 text-red-300 border-red-500/30',
+  missing_stripe: 'bg-orange-600/20 text-orange-300 border-orange-500/30',
+};
+
+const formatUsd = (amount: number | null) => (amount === null ? '—' : formatMajorUnits(amount));
+
+const ReconciliationReport = () => {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('breaks');
+  const [selectedRow, setSelectedRow] = useState<ReconciliationRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const loadRuns = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('stripe_reconciliation_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      toast.error(`Failed to load reconciliation runs: ${error.message}`);
+    } else {
+      setRuns(data || []);
+      setSelectedRunId((current) => current ?? data?.[0]?.id ?? null);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedRunId) {
+      setRows([]);
+      return;
+    }
+
+    const loadRows = async () => {
+      let query = supabase
+        .from('stripe_reconciliation')
+        .select('*')
+        .eq('run_id', selectedRunId)
+        .order('reconciliation_status')
+        .order('stripe_object_id');
+
+      if (filter === 'breaks') {
+        query = query.neq('reconciliation_status', 'matched');
+      } else if (filter !== 'all') {
+        query = query.eq('reconciliation_status', filter);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        toast.error(`Failed to load reconciliation rows: ${error.message}`);
+        return;
+      }
+      setRows(data || []);
+    };
+
+    loadRows();
+  }, [selectedRunId, filter]);
+
+  const runReconciliation = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('stripe-reconciliation', {
+        body: { window_hours: 24, triggered_by: 'dashboard' }
+      });
+      if (error) throw error;
+
+      if (data?.success) {
+        const breaks = data.variance_count + data.missing_internal_count + data.missing_stripe_count;
+        if (breaks === 0) {
+          toast.success(`✅ ${data.matched_count} Stripe transactions reconciled with no breaks`);
+        } else {
+          toast.warning(`⚠️ ${breaks} break(s) found across ${data.stripe_transactions} Stripe transactions`);
+        }
+        setSelectedRunId(data.run_id);
+        await loadRuns();
+      } else {
+        toast.error(data?.error || 'Reconciliation failed');
+      }
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      toast.error(`Reconciliation failed: ${(error as Error).message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const selectedRun = runs.find((run) => run.id === selectedRunId) || null;
+  const details = (selectedRow?.details || {}) as RowDetails;
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <FileSearch className="h-5 w-5 mr-2" />
+              Reconciliation Runs
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Stripe balance transactions matched against transfers, payouts, logs and the ledger
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadRuns} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={runReconciliation} disabled={running} className="bg-blue-600 hover:bg-blue-700">
+              {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlayCircle className="h-4 w-4 mr-2" />}
+              Reconcile last 24h
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No reconciliation runs yet'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Window</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead className="text-slate-300 text-right">Transactions</TableHead>
+                  <TableHead className="text-slate-300 text-right">Matched</TableHead>
+                  <TableHead className="text-slate-300 text-right">Breaks</TableHead>
+                  <TableHead className="text-slate-300 text-right">Total variance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const breaks = run.variance_count + run.missing_internal_count + run.missing_stripe_count;
+                  return (
+                    <TableRow
+                      key={run.id}
+                      onClick={() => setSelectedRunId(run.id)}
+                      className={`cursor-pointer text-slate-200 ${run.id === selectedRunId ? 'bg-slate-700/60' : ''}`}
+                    >
+                      <TableCell>
+                        {new Date(run.window_start).toLocaleString()} – {new Date(run.window_end).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'}>{run.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{run.stripe_transactions}</TableCell>
+                      <TableCell className="text-right">{run.matched_count}</TableCell>
+                      <TableCell className="text-right">
+                        {breaks > 0 ? <span className="text-yellow-300">{breaks}</span> : 0}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUsd(run.total_variance)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card className="bg-slate-800/50 border-slate-600">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="text-white flex items-center">
+                {selectedRun.variance_count + selectedRun.missing_internal_count + selectedRun.missing_stripe_count > 0 ? (
+                  <AlertTriangle className="h-5 w-5 mr-2 text-yellow-400" />
+                ) : (
+                  <CheckCircle className="h-5 w-5 mr-2 text-green-400" />
+                )}
+                Run Detail
+              </CardTitle>
+              <CardDescription className="text-slate-300">
+                {selectedRun.error_message
+                  ? `Failed: ${selectedRun.error_message}`
+                  : `${selectedRun.variance_count} variance, ${selectedRun.missing_internal_count} not recorded internally, ${selectedRun.missing_stripe_count} not in Stripe`}
+              </CardDescription>
+            </div>
+            <Select value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-56 bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="breaks">All breaks</SelectItem>
+                <SelectItem value="all">Everything</SelectItem>
+                <SelectItem value="matched">Matched</SelectItem>
+                <SelectItem value="variance">Variance</SelectItem>
+                <SelectItem value="missing_internal">Not recorded internally</SelectItem>
+                <SelectItem value="missing_stripe">Not in Stripe</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-slate-400 text-sm">Nothing to show for this filter</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-slate-300">Stripe object</TableHead>
+                    <TableHead className="text-slate-300">Type</TableHead>
+                    <TableHead className="text-slate-300">Status</TableHead>
+                    <TableHead className="text-slate-300 text-right">Stripe</TableHead>
+                    <TableHead className="text-slate-300 text-right">Internal</TableHead>
+                    <TableHead className="text-slate-300 text-right">Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.id} onClick={() => setSelectedRow(row)} className="cursor-pointer text-slate-200">
+                      <TableCell className="font-mono text-xs">{row.stripe_object_id}</TableCell>
+                      <TableCell>{row.stripe_object_type}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_CLASSES[row.reconciliation_status]}>
+                          {STATUS_LABELS[row.reconciliation_status] || row.reconciliation_status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatUsd(row.amount_stripe)}</TableCell>
+                      <TableCell className="text-right">{formatUsd(row.amount_internal)}</TableCell>
+                      <TableCell className="text-right">{formatUsd(row.variance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={selectedRow !== null} onOpenChange={(open) => !open && setSelectedRow(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selectedRow?.stripe_object_id}</DialogTitle>
+            <DialogDescription>
+              {selectedRow && (STATUS_LABELS[selectedRow.reconciliation_status] || selectedRow.reconciliation_status)}
+              {details.balance_transaction_id && ` · balance transaction ${details.balance_transaction_id}`}
+              {details.stripe_created_at && ` · ${new Date(details.stripe_created_at).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Stripe</p>
+              <p className="font-semibold">{formatUsd(selectedRow?.amount_stripe ?? null)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Internal</p>
+              <p className="font-semibold">{formatUsd(selectedRow?.amount_internal ?? null)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Variance</p>
+              <p className="font-semibold">{formatUsd(selectedRow?.variance ?? null)}</p>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Internal records</h4>
+            {(details.internal || []).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No internal record refers to this Stripe object</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(details.internal || []).map((entry) => (
+                    <TableRow key={`${entry.source}:${entry.record_id}`}>
+                      <TableCell>{entry.source}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.record_id}</TableCell>
+                      <TableCell className="text-right">{formatCents(entry.amount_cents)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReconciliationReport;
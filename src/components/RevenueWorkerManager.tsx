@@ -4,7 +4,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { 
   Users, 
@@ -28,20 +34,51 @@ interface Worker {
   config: any;
 }
 
-interface WorkerPool {
-  id: string;
+type WorkerPool = Tables<'autonomous_revenue_worker_pool'>;
+
+type ScalingDecision = Tables<'revenue_worker_scaling_decisions'>;
+
+// The scaling policy fields of a pool, edited as text
+interface PolicyForm {
   worker_type: string;
-  current_workers: number;
-  max_workers: number;
-  status: string;
-  config: any;
+  min_workers: string;
+  max_workers: string;
+  target_tasks_per_worker: string;
+  cooldown_seconds: string;
+  scale_down_grace_seconds: string;
+  autoscale_enabled: boolean;
 }
 
+const ACTION_BADGES: Record<string, string> = {
+  scale_up: 'bg-blue-600',
+  scale_down: 'bg-purple-600',
+  hold: 'bg-gray-600',
+};
+
+// A worker heartbeats every 20 seconds while it holds tasks
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+interface QueueCounts {
+  pending: number;
+  processing: number;
+  failed: number;
+}
+
+const countTasks = async (status: string) => {
+  const { count } = await supabase
+    .from('autonomous_revenue_task_queue')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', status);
+  return count ?? 0;
+};
+
 const RevenueWorkerManager = () => {
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [workerPools, setWorkerPools] = useState<WorkerPool[]>([]);
-  const [scaling, setScaling] = useState(false);
-  const [autoScale, setAutoScale] = useState(true);
+  const [decisions, setDecisions] = useState<ScalingDecision[]>([]);
+  const [policyForm, setPolicyForm] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [queue, setQueue] = useState<QueueCounts>({ pending: 0, processing: 0, failed: 0 });
 
   useEffect(() => {
     loadWorkerData();
@@ -49,136 +86,55 @@ const RevenueWorkerManager = () => {
     return () => clearInterval(interval);
   }, []);
 
-  // Auto-scaling runs every 15 seconds
-  useEffect(() => {
-    if (autoScale) {
-      const interval = setInterval(autoScaleWorkers, 15000);
-      return () => clearInterval(interval);
-    }
-  }, [autoScale]);
-
   const loadWorkerData = async () => {
     try {
-      const [workersResponse, poolsResponse] = await Promise.all([
+      const [workersResponse, scalingResponse, pending, processing, failed] = await Promise.all([
         supabase.from('autonomous_revenue_workers').select('*').order('created_at', { ascending: false }),
-        supabase.from('autonomous_revenue_worker_pool').select('*').order('worker_type')
+        supabase.functions.invoke('worker-autoscaler', { body: { action: 'list', limit: 20 } }),
+        countTasks('pending'),
+        countTasks('processing'),
+        countTasks('failed')
       ]);
+      setQueue({ pending, processing, failed });
 
       setWorkers(workersResponse.data || []);
-      setWorkerPools(poolsResponse.data || []);
+      setWorkerPools(scalingResponse.data?.pools || []);
+      setDecisions(scalingResponse.data?.decisions || []);
     } catch (error) {
       console.error('Error loading worker data:', error);
     }
   };
 
-  const autoScaleWorkers = async () => {
+  const savePolicy = async () => {
+    if (!policyForm) return;
+    setSaving(true);
     try {
-      // Get pending tasks count
-      const { data: tasks } = await supabase
-        .from('autonomous_revenue_task_queue')
-        .select('*')
-        .eq('status', 'pending');
-
-      const pendingTasks = tasks?.length || 0;
-      
-      // Scale based on task load
-      for (const pool of workerPools) {
-        const optimalWorkers = Math.min(
-          pool.max_workers,
-          Math.max(1, Math.ceil(pendingTasks / 10))
-        );
-
-        if (optimalWorkers !== pool.current_workers) {
-          await supabase
-            .from('autonomous_revenue_worker_pool')
-            .update({
-              current_workers: optimalWorkers,
-              config: {
-                ...pool.config,
-                last_scaled: new Date().toISOString(),
-                scale_reason: `Task load: ${pendingTasks}`
-              }
-            })
-            .eq('id', pool.id);
+      const { error } = await supabase.functions.invoke('worker-autoscaler', {
+        body: {
+          action: 'set_policy',
+          worker_type: policyForm.worker_type,
+          min_workers: Number(policyForm.min_workers),
+          max_workers: Number(policyForm.max_workers),
+          target_tasks_per_worker: Number(policyForm.target_tasks_per_worker),
+          cooldown_seconds: Number(policyForm.cooldown_seconds),
+          scale_down_grace_seconds: Number(policyForm.scale_down_grace_seconds),
+          autoscale_enabled: policyForm.autoscale_enabled,
         }
-      }
-
-      // Spawn new workers if needed
-      const activeWorkers = workers.filter(w => w.status === 'active').length;
-      const totalOptimal = workerPools.reduce((sum, pool) => sum + pool.current_workers, 0);
-
-      if (activeWorkers < totalOptimal) {
-        await spawnWorkers(totalOptimal - activeWorkers);
-      }
-
-    } catch (error) {
-      console.error('Auto-scaling error:', error);
-    }
-  };
-
-  const spawnWorkers = async (count: number) => {
-    const workerTypes = ['transfer', 'optimization', 'analysis'];
-    
-    for (let i = 0; i < count; i++) {
-      const workerType = workerTypes[i % workerTypes.length];
-      
-      await supabase
-        .from('autonomous_revenue_workers')
-        .insert({
-          worker_type: workerType,
-          status: 'active',
-          config: {
-            auto_spawned: true,
-            spawn_time: new Date().toISOString(),
-            optimization_level: 'maximum'
-          },
-          metrics: {
-            tasks_completed: 0,
-            revenue_processed: 0,
-            efficiency_score: 1.0
-          }
-        });
-    }
-  };
-
-  const scaleWorkerPool = async (poolId: string, direction: 'up' | 'down') => {
-    setScaling(true);
-    try {
-      const pool = workerPools.find(p => p.id === poolId);
-      if (!pool) return;
-
-      const newCount = direction === 'up' 
-        ? Math.min(pool.max_workers, pool.current_workers + 5)
-        : Math.max(1, pool.current_workers - 2);
-
-      await supabase
-        .from('autonomous_revenue_worker_pool')
-        .update({
-          current_workers: newCount,
-          config: {
-            ...pool.config,
-            manual_scaled: true,
-            scaled_at: new Date().toISOString()
-          }
-        })
-        .eq('id', poolId);
-
-      if (direction === 'up') {
-        await spawnWorkers(5);
-        toast.success(`Scaled up ${pool.worker_type} workers to ${newCount}`);
-      } else {
-        toast.success(`Scaled down ${pool.worker_type} workers to ${newCount}`);
-      }
-
+      });
+      if (error) throw error;
+      toast.success(`Saved the ${policyForm.worker_type} scaling policy`);
+      setPolicyForm(null);
       loadWorkerData();
     } catch (error) {
-      console.error('Scaling error:', error);
-      toast.error('Failed to scale workers');
+      toast.error(`Failed to save the policy: ${(error as Error).message}`);
     } finally {
-      setScaling(false);
+      setSaving(false);
     }
   };
 
+  const updatePolicyForm = (changes: Partial<PolicyForm>) =>
+    setPolicyForm((current) => (current ? { ...current, ...changes } : current));
+
   const totalWorkers = workers.length;
   const activeWorkers = workers.filter(w => w.status === 'active').length;
   const totalRevenue = workers.reduce((sum, w) => sum + (w.metrics?.revenue_processed || 0), 0);
@@ -241,22 +197,29 @@ const RevenueWorkerManager = () => {
             </div>
           </div>
 
-          {/* Auto-Scaling Control */}
+          {/* Task Queue */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-3 bg-slate-700/30 rounded-lg">
+              <p className="text-xs text-slate-400">Tasks Waiting</p>
+              <p className="text-xl font-bold text-white">{queue.pending}</p>
+            </div>
+            <div className="p-3 bg-slate-700/30 rounded-lg">
+              <p className="text-xs text-slate-400">Tasks Leased</p>
+              <p className="text-xl font-bold text-blue-400">{queue.processing}</p>
+            </div>
+            <div className="p-3 bg-slate-700/30 rounded-lg">
+              <p className="text-xs text-slate-400">Tasks Failed</p>
+              <p className="text-xl font-bold text-red-400">{queue.failed}</p>
+            </div>
+          </div>
+
+          {/* Auto-Scaling */}
           <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg">
-            <div className="flex items-center space-x-4">
-              <Button
-                onClick={() => setAutoScale(!autoScale)}
-                variant={autoScale ? "default" : "outline"}
-                className={autoScale ? "bg-emerald-600 hover:bg-emerald-700" : ""}
-              >
-                <Zap className="h-4 w-4 mr-2" />
-                Auto-Scale: {autoScale ? 'ON' : 'OFF'}
-              </Button>
+            <div className="flex items-center text-sm text-slate-300">
+              <Zap className="h-4 w-4 mr-2 text-emerald-400" />
+              The autoscaler sizes each pool to its queue every minute and starts workers to match.
             </div>
-            
-            <Badge className={`${autoScale ? 'bg-green-600' : 'bg-gray-600'} animate-pulse`}>
-              {autoScale ? 'ACTIVELY SCALING' : 'MANUAL MODE'}
-            </Badge>
+            <Badge className="bg-green-600">SERVER-SIDE</Badge>
           </div>
         </CardContent>
       </Card>
@@ -279,26 +242,33 @@ const RevenueWorkerManager = () => {
                       {pool.worker_type.replace('_', ' ')} Workers
                     </h3>
                     <p className="text-slate-400 text-sm">
-                      {pool.current_workers} / {pool.max_workers} workers active
+                      {pool.current_workers} workers (min {pool.min_workers}, max {pool.max_workers}) · {pool.target_tasks_per_worker} tasks per worker
+                    </p>
+                    <p className="text-slate-500 text-xs">
+                      {pool.cooldown_seconds}s cooldown · {pool.scale_down_grace_seconds}s scale-down grace
+                      {pool.last_scaled_at && ` · last scaled ${new Date(pool.last_scaled_at).toLocaleTimeString()}`}
+                      {pool.policy_updated_by && ` · policy by ${pool.policy_updated_by}`}
                     </p>
                   </div>
                   
-                  <div className="flex space-x-2">
+                  <div className="flex items-center space-x-2">
+                    <Badge className={pool.autoscale_enabled ? 'bg-emerald-600' : 'bg-gray-600'}>
+                      {pool.autoscale_enabled ? 'autoscaling' : 'fixed'}
+                    </Badge>
                     <Button
-                      onClick={() => scaleWorkerPool(pool.id, 'down')}
-                      disabled={scaling || pool.current_workers <= 1}
+                      onClick={() => setPolicyForm({
+                        worker_type: pool.worker_type,
+                        min_workers: String(pool.min_workers),
+                        max_workers: String(pool.max_workers),
+                        target_tasks_per_worker: String(pool.target_tasks_per_worker),
+                        cooldown_seconds: String(pool.cooldown_seconds),
+                        scale_down_grace_seconds: String(pool.scale_down_grace_seconds),
+                        autoscale_enabled: pool.autoscale_enabled,
+                      })}
                       variant="outline"
                       size="sm"
                     >
-                      Scale Down
-                    </Button>
-                    <Button
-                      onClick={() => scaleWorkerPool(pool.id, 'up')}
-                      disabled={scaling || pool.current_workers >= pool.max_workers}
-                      className="bg-blue-600 hover:bg-blue-700"
-                      size="sm"
-                    >
-                      Scale Up
+                      Edit Policy
                     </Button>
                   </div>
                 </div>
@@ -320,6 +290,53 @@ const RevenueWorkerManager = () => {
         </CardContent>
       </Card>
 
+      {/* Scaling Decisions */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <BarChart3 className="h-5 w-5 mr-2" />
+            Scaling Decisions
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Every change to a pool, and every change the policy held back
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {decisions.length === 0 ? (
+            <p className="text-slate-400 text-sm">No scaling decisions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">When</TableHead>
+                  <TableHead className="text-slate-300">Pool</TableHead>
+                  <TableHead className="text-slate-300">Decision</TableHead>
+                  <TableHead className="text-slate-300">Tasks</TableHead>
+                  <TableHead className="text-slate-300">Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {decisions.map((decision) => (
+                  <TableRow key={decision.id} className="text-slate-200">
+                    <TableCell className="text-xs">{new Date(decision.decided_at).toLocaleString()}</TableCell>
+                    <TableCell className="capitalize">{decision.worker_type}</TableCell>
+                    <TableCell>
+                      <Badge className={ACTION_BADGES[decision.action] ?? 'bg-gray-600'}>{decision.action.replace('_', ' ')}</Badge>
+                      <div className="text-xs text-slate-400 mt-1">
+                        {decision.previous_workers} → {decision.workers}
+                        {decision.started_workers > 0 && ` · started ${decision.started_workers}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs">{decision.queued_tasks} queued · {decision.in_flight_tasks} leased</TableCell>
+                    <TableCell className="text-xs">{decision.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Active Workers */}
       <Card className="bg-slate-800/50 border-slate-700">
         <CardHeader>
@@ -359,7 +376,11 @@ const RevenueWorkerManager = () => {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-slate-400">Last Heartbeat</span>
-                    <span className="text-white">
+                    <span className={
+                      worker.last_heartbeat && Date.now() - new Date(worker.last_heartbeat).getTime() > STALE_HEARTBEAT_MS
+                        ? 'text-red-400'
+                        : 'text-white'
+                    }>
                       {worker.last_heartbeat ? new Date(worker.last_heartbeat).toLocaleTimeString() : 'Never'}
                     </span>
                   </div>
@@ -369,6 +390,53 @@ const RevenueWorkerManager = () => {
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={policyForm !== null} onOpenChange={(open) => !open && setPolicyForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="capitalize">{policyForm?.worker_type} scaling policy</DialogTitle>
+            <DialogDescription>
+              Applies from the autoscaler's next tick. Set min and max to the same number to pin the pool. Saving requires the admin role.
+            </DialogDescription>
+          </DialogHeader>
+          {policyForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="policy-min">Min workers</Label>
+                  <Input id="policy-min" type="number" min={0} value={policyForm.min_workers} onChange={(e) => updatePolicyForm({ min_workers: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy-max">Max workers</Label>
+                  <Input id="policy-max" type="number" min={1} value={policyForm.max_workers} onChange={(e) => updatePolicyForm({ max_workers: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy-target">Tasks per worker</Label>
+                  <Input id="policy-target" type="number" min={1} value={policyForm.target_tasks_per_worker} onChange={(e) => updatePolicyForm({ target_tasks_per_worker: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="policy-cooldown">Cooldown (seconds)</Label>
+                  <Input id="policy-cooldown" type="number" min={0} value={policyForm.cooldown_seconds} onChange={(e) => updatePolicyForm({ cooldown_seconds: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy-grace">Scale-down grace (seconds)</Label>
+                  <Input id="policy-grace" type="number" min={0} value={policyForm.scale_down_grace_seconds} onChange={(e) => updatePolicyForm({ scale_down_grace_seconds: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="policy-enabled" checked={policyForm.autoscale_enabled} onCheckedChange={(checked) => updatePolicyForm({ autoscale_enabled: checked })} />
+                <Label htmlFor="policy-enabled">Scale with the queue</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPolicyForm(null)}>Cancel</Button>
+            <Button onClick={savePolicy} disabled={saving}>Save policy</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
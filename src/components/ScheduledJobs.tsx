@@ -0,0 +1,492 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { CalendarClock, Loader2, Pencil, Play, Plus, RefreshCw, Timer } from "lucide-react";
+
+type ScheduledJob = Tables<'scheduled_jobs'>;
+
+// Rows from the scheduler "list" action for jobs created with cron.schedule
+interface CronJob {
+  jobid: number;
+  jobname: string;
+  schedule: string;
+  active: boolean;
+  function_name: string | null;
+  last_run_at: string | null;
+  last_status: string | null;
+  next_run_at: string | null;
+  schedule_error: string | null;
+}
+
+interface JobList {
+  jobs: ScheduledJob[];
+  cron_jobs: CronJob[];
+  cron_jobs_error: string | null;
+}
+
+interface JobForm {
+  name: string;
+  description: string;
+  cron_expression: string;
+  timezone: string;
+  function_name: string;
+  run_as_role: string;
+  missed_run_policy: string;
+  max_catch_up: string;
+  enabled: boolean;
+  // Edited as JSON text
+  payload: string;
+  blackout_windows: string;
+}
+
+const EMPTY_FORM: JobForm = {
+  name: '',
+  description: '',
+  cron_expression: '0 * * * *',
+  timezone: 'UTC',
+  function_name: '',
+  run_as_role: 'operator',
+  missed_run_policy: 'skip',
+  max_catch_up: '5',
+  enabled: true,
+  payload: '{}',
+  blackout_windows: '[]',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'secondary',
+  failed: 'destructive',
+  skipped: 'outline',
+};
+
+const fetchJobs = async (): Promise<JobList> => {
+  const { data, error } = await supabase.functions.invoke('scheduler', { body: { action: 'list' } });
+  if (error) throw error;
+  return { jobs: data?.jobs || [], cron_jobs: data?.cron_jobs || [], cron_jobs_error: data?.cron_jobs_error ?? null };
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const formFor = (job: ScheduledJob): JobForm => ({
+  name: job.name,
+  description: job.description || '',
+  cron_expression: job.cron_expression,
+  timezone: job.timezone,
+  function_name: job.function_name,
+  run_as_role: job.run_as_role,
+  missed_run_policy: job.missed_run_policy,
+  max_catch_up: String(job.max_catch_up),
+  enabled: job.enabled,
+  payload: JSON.stringify(job.payload ?? {}, null, 2),
+  blackout_windows: JSON.stringify(job.blackout_windows ?? [], null, 2),
+});
+
+const ScheduledJobs = () => {
+  const [list, setList] = useState<JobList>({ jobs: [], cron_jobs: [], cron_jobs_error: null });
+  const [loading, setLoading] = useState(true);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [form, setForm] = useState<JobForm | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadJobs = async () => {
+    setLoading(true);
+    try {
+      setList(await fetchJobs());
+    } catch (error) {
+      toast.error(`Failed to load jobs: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs()
+      .then(setList)
+      .catch((error) => toast.error(`Failed to load jobs: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const runNow = async (job: ScheduledJob) => {
+    setBusyJobId(job.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('scheduler', { body: { action: 'run_now', job_id: job.id } });
+      if (error) throw error;
+      if (data?.outcome === 'succeeded') {
+        toast.success(`${job.name} ran`);
+      } else {
+        toast.error(`${job.name} ${data?.outcome}: ${data?.error || 'see the run history'}`);
+      }
+      await loadJobs();
+    } catch (error) {
+      toast.error(`Could not run ${job.name}: ${(error as Error).message}`);
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const setEnabled = async (job: ScheduledJob, enabled: boolean) => {
+    setBusyJobId(job.id);
+    try {
+      const { error } = await supabase.functions.invoke('scheduler', { body: { action: 'set_enabled', job_id: job.id, enabled } });
+      if (error) throw error;
+      toast.success(`${job.name} ${enabled ? 'enabled' : 'disabled'}`);
+      await loadJobs();
+    } catch (error) {
+      toast.error(`Could not update ${job.name}: ${(error as Error).message}`);
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const saveJob = async () => {
+    if (!form) return;
+    let payload: unknown;
+    let blackoutWindows: unknown;
+    try {
+      payload = JSON.parse(form.payload || '{}');
+      blackoutWindows = JSON.parse(form.blackout_windows || '[]');
+    } catch (error) {
+      toast.error(`Payload and blackout windows must be JSON: ${(error as Error).message}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('scheduler', {
+        body: {
+          action: 'upsert',
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          cron_expression: form.cron_expression.trim(),
+          timezone: form.timezone.trim(),
+          function_name: form.function_name.trim(),
+          run_as_role: form.run_as_role,
+          missed_run_policy: form.missed_run_policy,
+          max_catch_up: Number(form.max_catch_up),
+          enabled: form.enabled,
+          payload,
+          blackout_windows: blackoutWindows,
+        }
+      });
+      if (error) throw error;
+
+      toast.success(`Saved ${form.name}; next run ${formatTime(data?.job?.next_run_at ?? null)}`);
+      setForm(null);
+      await loadJobs();
+    } catch (error) {
+      toast.error(`Failed to save job: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<JobForm>) => setForm((current) => (current ? { ...current, ...changes } : current));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              Scheduled Jobs
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Checked every minute. A job never starts while its previous run is still going.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadJobs} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button
+              onClick={() => {
+                setEditing(false);
+                setForm(EMPTY_FORM);
+              }}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add job
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {list.jobs.length === 0 ? (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No scheduled jobs.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Job</TableHead>
+                  <TableHead className="text-slate-300">Schedule</TableHead>
+                  <TableHead className="text-slate-300">Next run</TableHead>
+                  <TableHead className="text-slate-300">Last run</TableHead>
+                  <TableHead className="text-slate-300">Enabled</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.jobs.map((job) => (
+                  <TableRow key={job.id} className="text-slate-200">
+                    <TableCell>
+                      <div className="font-medium">{job.name}</div>
+                      <div className="text-xs text-slate-400">
+                        {job.function_name} as {job.run_as_role}
+                        {job.description && ` · ${job.description}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{job.cron_expression}</div>
+                      <div className="text-xs text-slate-400">
+                        {job.timezone} · {job.missed_run_policy === 'catch_up' ? `catch up (${job.max_catch_up}/tick)` : 'skip missed'}
+                        {Array.isArray(job.blackout_windows) && job.blackout_windows.length > 0 && ` · ${job.blackout_windows.length} blackout window(s)`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs">{job.enabled ? formatTime(job.next_run_at) : '—'}</TableCell>
+                    <TableCell className="text-xs">
+                      {job.running_since ? (
+                        <Badge variant="default">running since {new Date(job.running_since).toLocaleTimeString()}</Badge>
+                      ) : (
+                        <>
+                          <div>{formatTime(job.last_run_at)}</div>
+                          {job.last_status && (
+                            <Badge variant={STATUS_VARIANTS[job.last_status] ?? 'outline'}>{job.last_status}</Badge>
+                          )}
+                          {job.last_error && <div className="text-red-300 mt-1">{job.last_error}</div>}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={job.enabled}
+                        disabled={busyJobId === job.id}
+                        onCheckedChange={(checked) => setEnabled(job, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => runNow(job)} disabled={busyJobId === job.id}>
+                          {busyJobId === job.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                          Run now
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setEditing(true);
+                            setForm(formFor(job));
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Timer className="h-5 w-5 mr-2" />
+            Database Cron Jobs
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Created by the migrations with pg_cron. Schedules are in UTC; change them with a migration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {list.cron_jobs_error ? (
+            <p className="text-yellow-300 text-sm">{list.cron_jobs_error}</p>
+          ) : list.cron_jobs.length === 0 ? (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No pg_cron jobs.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Job</TableHead>
+                  <TableHead className="text-slate-300">Schedule</TableHead>
+                  <TableHead className="text-slate-300">Next run</TableHead>
+                  <TableHead className="text-slate-300">Last run</TableHead>
+                  <TableHead className="text-slate-300">Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.cron_jobs.map((job) => (
+                  <TableRow key={job.jobid} className="text-slate-200">
+                    <TableCell>
+                      <div className="font-medium">{job.jobname}</div>
+                      <div className="text-xs text-slate-400">{job.function_name ?? 'SQL command'}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{job.schedule}</TableCell>
+                    <TableCell className="text-xs">
+                      {job.schedule_error ? <span className="text-slate-400">{job.schedule_error}</span> : job.active ? formatTime(job.next_run_at) : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div>{formatTime(job.last_run_at)}</div>
+                      {job.last_status && <Badge variant={job.last_status === 'failed' ? 'destructive' : 'secondary'}>{job.last_status}</Badge>}
+                    </TableCell>
+                    <TableCell>{job.active ? 'Yes' : 'No'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${form?.name}` : 'Add job'}</DialogTitle>
+            <DialogDescription>
+              The cron expression and blackout windows are read in the job's time zone. Saving a job requires the admin role.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="job-name">Name</Label>
+                  <Input id="job-name" value={form.name} disabled={editing} onChange={(e) => updateForm({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="job-function">Edge function</Label>
+                  <Input id="job-function" value={form.function_name} onChange={(e) => updateForm({ function_name: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="job-description">Description</Label>
+                <Input id="job-description" value={form.description} onChange={(e) => updateForm({ description: e.target.value })} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="job-cron">Cron expression</Label>
+                  <Input
+                    id="job-cron"
+                    className="font-mono"
+                    placeholder="0 9 * * MON-FRI"
+                    value={form.cron_expression}
+                    onChange={(e) => updateForm({ cron_expression: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="job-timezone">Time zone</Label>
+                  <Input
+                    id="job-timezone"
+                    placeholder="Europe/London"
+                    value={form.timezone}
+                    onChange={(e) => updateForm({ timezone: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Missed runs</Label>
+                  <Select value={form.missed_run_policy} onValueChange={(value) => updateForm({ missed_run_policy: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Skip</SelectItem>
+                      <SelectItem value="catch_up">Catch up</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="job-catch-up">Catch-up runs per tick</Label>
+                  <Input
+                    id="job-catch-up"
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={form.max_catch_up}
+                    disabled={form.missed_run_policy !== 'catch_up'}
+                    onChange={(e) => updateForm({ max_catch_up: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Runs as</Label>
+                  <Select value={form.run_as_role} onValueChange={(value) => updateForm({ run_as_role: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="viewer">Viewer</SelectItem>
+                      <SelectItem value="operator">Operator</SelectItem>
+                      <SelectItem value="treasurer">Treasurer</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="job-payload">Request body (JSON)</Label>
+                <Textarea
+                  id="job-payload"
+                  className="font-mono text-xs"
+                  rows={3}
+                  value={form.payload}
+                  onChange={(e) => updateForm({ payload: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="job-blackouts">Blackout windows (JSON)</Label>
+                <Textarea
+                  id="job-blackouts"
+                  className="font-mono text-xs"
+                  rows={3}
+                  placeholder='[{ "days": [0, 6] }, { "dates": ["2026-12-25"] }]'
+                  value={form.blackout_windows}
+                  onChange={(e) => updateForm({ blackout_windows: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  No run starts inside a window. Each window may give days (0 is Sunday), dates and a start and end time.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="job-enabled">Enabled</Label>
+                <Switch id="job-enabled" checked={form.enabled} onCheckedChange={(checked) => updateForm({ enabled: checked })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={saveJob} disabled={saving || !form?.name.trim() || !form?.function_name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScheduledJobs;
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCents } from "@/lib/money";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, Wrench } from "lucide-react";
+
+type SweepBatch = Tables<'sweep_batches'>;
+
+const OPEN_STATUSES = ['reserved', 'executing', 'needs_review'];
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  finalized: 'secondary',
+  released: 'outline',
+  needs_review: 'destructive',
+};
+
+const fetchBatches = async (): Promise<SweepBatch[]> => {
+  const { data, error } = await supabase.functions.invoke('recover-sweeps', { body: { action: 'list' } });
+  if (error) throw error;
+  return data?.batches || [];
+};
+
+// Resolving a batch by hand: finalize once the provider shows the payout,
+// release once it shows nothing was sent
+interface Resolution {
+  batch: SweepBatch;
+  action: 'finalize' | 'release';
+}
+
+const SweepBatches = () => {
+  const [batches, setBatches] = useState<SweepBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recovering, setRecovering] = useState(false);
+  const [resolution, setResolution] = useState<Resolution | null>(null);
+  const [resolutionInput, setResolutionInput] = useState('');
+  const [resolving, setResolving] = useState(false);
+
+  const loadBatches = async () => {
+    setLoading(true);
+    try {
+      setBatches(await fetchBatches());
+    } catch (error) {
+      toast.error(`Failed to load sweeps: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBatches()
+      .then(setBatches)
+      .catch((error) => toast.error(`Failed to load sweeps: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const recoverNow = async () => {
+    setRecovering(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('recover-sweeps', { body: { action: 'recover' } });
+      if (error) throw error;
+      toast.success(`${data.recovered} stale sweep(s): ${data.finalized} finalized, ${data.released} released, ${data.needs_review} need review`);
+      await loadBatches();
+    } catch (error) {
+      toast.error(`Recovery failed: ${(error as Error).message}`);
+    } finally {
+      setRecovering(false);
+    }
+  };
+
+  const resolve = async () => {
+    if (!resolution) return;
+    setResolving(true);
+    try {
+      const body = resolution.action === 'finalize'
+        ? { action: 'finalize', batch_id: resolution.batch.id, provider_reference: resolutionInput.trim() }
+        : { action: 'release', batch_id: resolution.batch.id, reason: resolutionInput.trim() };
+      const { error } = await supabase.functions.invoke('recover-sweeps', { body });
+      if (error) throw error;
+      toast.success(resolution.action === 'finalize' ? 'Sweep finalized' : 'Sweep released to the application balance');
+      setResolution(null);
+      setResolutionInput('');
+      await loadBatches();
+    } catch (error) {
+      toast.error(`Failed to ${resolution.action} the sweep: ${(error as Error).message}`);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-600">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white">Sweeps</CardTitle>
+          <CardDescription className="text-slate-300">
+            Balance held in reserve while a provider call is in flight. Open sweeps are recovered every ten minutes.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadBatches} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={recoverNow} disabled={recovering}>
+            {recovering ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wrench className="h-4 w-4 mr-2" />}
+            Recover now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {batches.length === 0 ? (
+          <p className="text-slate-400 text-sm">No sweeps yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-slate-300">When</TableHead>
+                <TableHead className="text-slate-300">Provider</TableHead>
+                <TableHead className="text-slate-300">Status</TableHead>
+                <TableHead className="text-slate-300 text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id} className="text-slate-200">
+                  <TableCell className="text-xs">{new Date(batch.created_at).toLocaleString()}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {batch.provider} {batch.provider_method}
+                    {batch.provider_reference && <div className="text-slate-400">{batch.provider_reference}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[batch.status] ?? 'default'}>{batch.status}</Badge>
+                    {batch.error_message && <div className="text-xs text-red-300 mt-1">{batch.error_message}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCents(batch.amount_cents, batch.currency)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {OPEN_STATUSES.includes(batch.status) && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => setResolution({ batch, action: 'finalize' })}>Finalize</Button>
+                        <Button size="sm" variant="outline" onClick={() => setResolution({ batch, action: 'release' })}>Release</Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={resolution !== null} onOpenChange={(open) => !open && !resolving && setResolution(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{resolution?.action === 'finalize' ? 'Finalize sweep' : 'Release sweep'}</DialogTitle>
+            <DialogDescription>
+              {resolution?.action === 'finalize'
+                ? `Only if ${resolution.batch.provider} shows the ${formatCents(resolution.batch.amount_cents, resolution.batch.currency)} was sent. Requires the admin role.`
+                : 'Only if the provider shows nothing was sent: the amount goes back to the application balance. Requires the admin role.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="sweep-resolution">{resolution?.action === 'finalize' ? 'Provider reference (payout or transfer ID)' : 'Reason'}</Label>
+            <Input id="sweep-resolution" value={resolutionInput} onChange={(e) => setResolutionInput(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolution(null)} disabled={resolving}>Cancel</Button>
+            <Button onClick={resolve} disabled={resolving || !resolutionInput.trim()}>
+              {resolving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {resolution?.action === 'finalize' ? 'Finalize' : 'Release'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SweepBatches;
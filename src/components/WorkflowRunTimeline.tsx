@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { CheckCircle, Circle, Loader2, RefreshCw, RotateCcw, Undo2, XCircle } from "lucide-react";
+
+type WorkflowRun = Tables<'workflow_runs'>;
+type WorkflowStep = Tables<'workflow_run_steps'>;
+
+interface RunDetail {
+  run: WorkflowRun | null;
+  steps: WorkflowStep[];
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  compensating: 'default',
+  succeeded: 'secondary',
+  failed: 'destructive',
+  compensated: 'outline',
+  compensation_failed: 'destructive',
+  pending: 'outline',
+};
+
+const STEP_ICONS: Record<string, React.ReactNode> = {
+  succeeded: <CheckCircle className="h-5 w-5 text-green-400" />,
+  failed: <XCircle className="h-5 w-5 text-red-400" />,
+  compensation_failed: <XCircle className="h-5 w-5 text-red-400" />,
+  compensated: <Undo2 className="h-5 w-5 text-yellow-400" />,
+  running: <Loader2 className="h-5 w-5 text-blue-400 animate-spin" />,
+  compensating: <Loader2 className="h-5 w-5 text-yellow-400 animate-spin" />,
+};
+
+const fetchRun = async (runId: string): Promise<RunDetail> => {
+  const { data, error } = await supabase.functions.invoke('workflows', { body: { action: 'get', run_id: runId } });
+  if (error) throw error;
+  return { run: data?.run ?? null, steps: data?.steps || [] };
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const duration = (start: string | null, end: string | null) => {
+  if (!start || !end) return null;
+  const ms = new Date(end).getTime() - new Date(start).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const JsonBlock = ({ label, value }: { label: string; value: unknown }) => (
+  <details className="mt-2">
+    <summary className="text-xs text-slate-400 cursor-pointer">{label}</summary>
+    <pre className="mt-1 p-2 bg-slate-900/60 rounded text-xs text-slate-300 overflow-x-auto">{JSON.stringify(value, null, 2)}</pre>
+  </details>
+);
+
+// The steps of one workflow run, in order, with what each was given and returned
+const WorkflowRunTimeline = ({ runId }: { runId: string }) => {
+  const [detail, setDetail] = useState<RunDetail>({ run: null, steps: [] });
+  const [loading, setLoading] = useState(true);
+  const [resuming, setResuming] = useState(false);
+
+  const loadRun = async () => {
+    setLoading(true);
+    try {
+      setDetail(await fetchRun(runId));
+    } catch (error) {
+      toast.error(`Failed to load the run: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRun(runId)
+      .then(setDetail)
+      .catch((error) => toast.error(`Failed to load the run: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+  }, [runId]);
+
+  const resume = async () => {
+    setResuming(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('workflows', { body: { action: 'resume', run_id: runId } });
+      if (error) throw error;
+      toast.success(`Run ${data?.run?.status}`);
+      setDetail({ run: data?.run ?? null, steps: data?.steps || [] });
+    } catch (error) {
+      toast.error(`Could not resume the run: ${(error as Error).message}`);
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  const { run, steps } = detail;
+  const leaseExpired = run?.lease_expires_at ? new Date(run.lease_expires_at).getTime() < Date.now() : true;
+  const resumable = run && (run.status === 'running' || run.status === 'compensating') && leaseExpired;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-600">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center gap-2">
+            {run?.workflow_type ?? 'Workflow run'}
+            {run && <Badge variant={STATUS_VARIANTS[run.status ?? ''] ?? 'outline'}>{run.status ?? 'recorded'}</Badge>}
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            {run
+              ? `Started ${formatTime(run.started_at)}${run.triggered_by ? ` by ${run.triggered_by}` : ''} · attempt ${run.attempts}${run.completed_at ? ` · finished ${formatTime(run.completed_at)}` : ''}`
+              : loading ? 'Loading…' : 'No such run.'}
+          </CardDescription>
+          {run?.error_message && <p className="text-sm text-red-300 mt-1">{run.error_message}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadRun} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          {resumable && (
+            <Button onClick={resume} disabled={resuming} className="bg-blue-600 hover:bg-blue-700">
+              {resuming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              Resume
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {steps.length === 0 ? (
+          <p className="text-slate-400 text-sm">
+            {loading ? 'Loading…' : 'This run has no recorded steps; it was logged in one piece.'}
+          </p>
+        ) : (
+          <ol className="relative border-l border-slate-600 ml-2">
+            {steps.map((step) => (
+              <li key={step.id} className="mb-6 ml-6">
+                <span className="absolute -left-[11px] bg-slate-800 rounded-full">
+                  {STEP_ICONS[step.status] ?? <Circle className="h-5 w-5 text-slate-500" />}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-medium">{step.step_index + 1}. {step.step_name}</span>
+                  <Badge variant={STATUS_VARIANTS[step.status] ?? 'outline'}>{step.status.replace('_', ' ')}</Badge>
+                  {step.attempts > 1 && <span className="text-xs text-slate-400">{step.attempts} attempts</span>}
+                </div>
+                <div className="text-xs text-slate-400 mt-1">
+                  {step.started_at ? `${formatTime(step.started_at)}` : 'Not started'}
+                  {duration(step.started_at, step.completed_at) && ` · ${duration(step.started_at, step.completed_at)}`}
+                  {step.compensated_at && ` · undone ${formatTime(step.compensated_at)}`}
+                </div>
+                {step.error_message && <p className="text-sm text-red-300 mt-1">{step.error_message}</p>}
+                {step.compensation_error && <p className="text-sm text-red-300 mt-1">Undo failed: {step.compensation_error}</p>}
+                {step.input && <JsonBlock label="Input" value={step.input} />}
+                {step.output && <JsonBlock label="Output" value={step.output} />}
+              </li>
+            ))}
+          </ol>
+        )}
+        {run?.execution_details && <JsonBlock label="Execution details" value={run.execution_details} />}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkflowRunTimeline;
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { GitBranch, Loader2, Play, RefreshCw } from "lucide-react";
+
+type WorkflowRun = Tables<'workflow_runs'>;
+
+// Rows from the workflows "workflows" action
+interface WorkflowDefinition {
+  workflow_type: string;
+  description: string;
+  role: string;
+  steps: string[];
+}
+
+const RUN_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  compensating: 'default',
+  succeeded: 'secondary',
+  failed: 'destructive',
+  compensated: 'outline',
+  compensation_failed: 'destructive',
+};
+
+const fetchRuns = async (): Promise<WorkflowRun[]> => {
+  const { data, error } = await supabase.functions.invoke('workflows', { body: { action: 'list', limit: 50 } });
+  if (error) throw error;
+  return data?.runs || [];
+};
+
+const fetchDefinitions = async (): Promise<WorkflowDefinition[]> => {
+  const { data, error } = await supabase.functions.invoke('workflows', { body: { action: 'workflows' } });
+  if (error) throw error;
+  return data?.workflows || [];
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const WorkflowRuns = () => {
+  const [runs, setRuns] = useState<WorkflowRun[]>([]);
+  const [definitions, setDefinitions] = useState<WorkflowDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState<WorkflowDefinition | null>(null);
+  const [input, setInput] = useState('{}');
+  const [busy, setBusy] = useState(false);
+
+  const loadRuns = async () => {
+    setLoading(true);
+    try {
+      setRuns(await fetchRuns());
+    } catch (error) {
+      toast.error(`Failed to load workflow runs: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns()
+      .then(setRuns)
+      .catch((error) => toast.error(`Failed to load workflow runs: ${(error as Error).message}`))
+      .finally(() => setLoading(false));
+    fetchDefinitions()
+      .then(setDefinitions)
+      .catch((error) => toast.error(`Failed to load workflows: ${(error as Error).message}`));
+  }, []);
+
+  const startRun = async () => {
+    if (!starting) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input || '{}');
+    } catch (error) {
+      toast.error(`The input must be JSON: ${(error as Error).message}`);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('workflows', {
+        body: { action: 'start', workflow_type: starting.workflow_type, input: parsed }
+      });
+      if (error) throw error;
+      if (data?.run?.status === 'succeeded') {
+        toast.success(`${starting.workflow_type} succeeded`);
+      } else {
+        toast.error(`${starting.workflow_type} ${data?.run?.status}: ${data?.run?.error_message || 'see the run'}`);
+      }
+      setStarting(null);
+      await loadRuns();
+    } catch (error) {
+      toast.error(`Could not start ${starting.workflow_type}: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <GitBranch className="h-5 w-5 mr-2" />
+            Workflows
+          </CardTitle>
+          <CardDescription className="text-slate-300">
+            Each step is recorded as it runs. A failed step undoes the steps before it, back to the last one that cannot be undone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {definitions.map((definition) => (
+            <div key={definition.workflow_type} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+              <div>
+                <div className="text-white font-medium">{definition.workflow_type}</div>
+                <div className="text-xs text-slate-400">
+                  {definition.description} · {definition.steps.join(' → ')} · requires {definition.role}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setInput('{}');
+                  setStarting(definition);
+                }}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Play className="h-4 w-4 mr-1" />
+                Start
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-slate-800/50 border-slate-600">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-white">Runs</CardTitle>
+            <CardDescription className="text-slate-300">
+              Runs whose function died are resumed from their last successful step within five minutes.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={loadRuns} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-slate-400 text-sm">{loading ? 'Loading…' : 'No workflow runs.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-slate-300">Workflow</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead className="text-slate-300">Started</TableHead>
+                  <TableHead className="text-slate-300">Completed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id} className="text-slate-200">
+                    <TableCell>
+                      <Link to={`/workflows/${run.id}`} className="font-medium text-blue-300 hover:underline">
+                        {run.workflow_type}
+                      </Link>
+                      <div className="text-xs text-slate-400 font-mono">{run.id}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={RUN_STATUS_VARIANTS[run.status ?? ''] ?? 'outline'}>{run.status ?? 'recorded'}</Badge>
+                      {run.current_step && <div className="text-xs text-slate-400 mt-1">at {run.current_step}</div>}
+                      {run.error_message && <div className="text-xs text-red-300 mt-1">{run.error_message}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div>{formatTime(run.started_at)}</div>
+                      {run.triggered_by && <div className="text-slate-400">by {run.triggered_by}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs">{formatTime(run.completed_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={starting !== null} onOpenChange={(open) => !open && setStarting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Start {starting?.workflow_type}</DialogTitle>
+            <DialogDescription>
+              {starting?.description}. The run goes through {starting?.steps.join(', ')} and requires the {starting?.role} role.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workflow-input">Input (JSON)</Label>
+            <Textarea id="workflow-input" className="font-mono" rows={6} value={input} onChange={(e) => setInput(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStarting(null)}>Cancel</Button>
+            <Button onClick={startRun} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start run
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WorkflowRuns;
@@ -0,0 +1,46 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import type { Database } from "@/integrations/supabase/types"
+
+export type AppRole = Database["public"]["Enums"]["app_role"]
+
+const ROLE_ORDER: AppRole[] = ["viewer", "operator", "treasurer", "admin"]
+
+export function useAuth() {
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [role, setRole] = React.useState<AppRole | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession)
+    })
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  React.useEffect(() => {
+    const userId = session?.user.id
+    if (!userId) {
+      setRole(null)
+      return
+    }
+
+    supabase.rpc("current_user_role").then(({ data }) => {
+      setRole(data ?? null)
+    })
+  }, [session?.user.id])
+
+  const hasRole = React.useCallback(
+    (required: AppRole) => role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required),
+    [role]
+  )
+
+  return { session, user: session?.user ?? null, role, hasRole, loading }
+}
@@ -0,0 +1,23 @@
+import * as React from "react"
+import { FunctionsFetchError, FunctionsRelayError } from "@supabase/supabase-js"
+
+// An Idempotency-Key for one money-moving action. The same key is sent until
+// the function answers, so retrying after a lost response or a dropped
+// connection repeats the original request instead of moving the money again.
+export function useOperationKey() {
+  const key = React.useRef<string | null>(null)
+
+  const current = React.useCallback(() => {
+    key.current ??= crypto.randomUUID()
+    return key.current
+  }, [])
+
+  // Call with the invoke error, if any; the key is kept while the outcome is unknown
+  const settle = React.useCallback((error: unknown) => {
+    if (!(error instanceof FunctionsFetchError) && !(error instanceof FunctionsRelayError)) {
+      key.current = null
+    }
+  }, [])
+
+  return { current, settle }
+}
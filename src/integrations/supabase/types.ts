@@ -72,6 +72,7 @@ export type Database = {
         Row: {
           created_at: string | null
           created_by: string | null
+          currency: string
           description: string
           id: string
           journal_number: string
@@ -87,6 +88,7 @@ export type Database = {
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          currency?: string
           description: string
           id?: string
           journal_number: string
@@ -102,6 +104,7 @@ export type Database = {
         Update: {
           created_at?: string | null
           created_by?: string | null
+          currency?: string
           description?: string
           id?: string
           journal_number?: string
@@ -259,6 +262,219 @@ export type Database = {
           },
         ]
       }
+      api_keys: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          hash_algorithm: string
+          id: string
+          is_active: boolean
+          key_hash: string
+          key_prefix: string | null
+          last_used_at: string | null
+          name: string | null
+          replaced_by: string | null
+          revoked_at: string | null
+          scopes: string[]
+          usage_count: number
+          usage_limit: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          hash_algorithm?: string
+          id?: string
+          is_active?: boolean
+          key_hash: string
+          key_prefix?: string | null
+          last_used_at?: string | null
+          name?: string | null
+          replaced_by?: string | null
+          revoked_at?: string | null
+          scopes?: string[]
+          usage_count?: number
+          usage_limit?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          hash_algorithm?: string
+          id?: string
+          is_active?: boolean
+          key_hash?: string
+          key_prefix?: string | null
+          last_used_at?: string | null
+          name?: string | null
+          replaced_by?: string | null
+          revoked_at?: string | null
+          scopes?: string[]
+          usage_count?: number
+          usage_limit?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_request_usage: {
+        Row: {
+          api_key_id: string | null
+          charge_cents: number
+          completed: boolean
+          completion_tokens: number
+          content_type: string
+          created_at: string
+          currency: string
+          execution_id: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          streamed: boolean
+          tokens_estimated: boolean
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          api_key_id?: string | null
+          charge_cents?: number
+          completed?: boolean
+          completion_tokens: number
+          content_type: string
+          created_at?: string
+          currency?: string
+          execution_id: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          streamed?: boolean
+          tokens_estimated?: boolean
+          total_tokens: number
+          user_id: string
+        }
+        Update: {
+          api_key_id?: string | null
+          charge_cents?: number
+          completed?: boolean
+          completion_tokens?: number
+          content_type?: string
+          created_at?: string
+          currency?: string
+          execution_id?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          streamed?: boolean
+          tokens_estimated?: boolean
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_request_usage_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_overage_claims: {
+        Row: {
+          claimed_at: string | null
+          created_at: string
+          id: string
+          period_id: string
+          reported_at: string | null
+          status: string
+          units: number
+        }
+        Insert: {
+          claimed_at?: string | null
+          created_at?: string
+          id?: string
+          period_id: string
+          reported_at?: string | null
+          status?: string
+          units: number
+        }
+        Update: {
+          claimed_at?: string | null
+          created_at?: string
+          id?: string
+          period_id?: string
+          reported_at?: string | null
+          status?: string
+          units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_overage_claims_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "api_usage_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_usage_periods: {
+        Row: {
+          created_at: string
+          id: string
+          overage_units: number
+          period_end: string
+          period_start: string
+          plan: string
+          reported_overage_units: number
+          request_count: number
+          stripe_subscription_id: string
+          token_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          overage_units?: number
+          period_end: string
+          period_start: string
+          plan: string
+          reported_overage_units?: number
+          request_count?: number
+          stripe_subscription_id: string
+          token_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          overage_units?: number
+          period_end?: string
+          period_start?: string
+          plan?: string
+          reported_overage_units?: number
+          request_count?: number
+          stripe_subscription_id?: string
+          token_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       application_balance: {
         Row: {
           balance_amount: number
@@ -741,10 +957,13 @@ export type Database = {
       }
       autonomous_revenue_task_queue: {
         Row: {
+          available_at: string
           completed_at: string | null
           created_at: string
           error_message: string | null
+          heartbeat_at: string | null
           id: string
+          lease_expires_at: string | null
           max_retries: number
           payload: Json
           priority: number
@@ -756,10 +975,13 @@ export type Database = {
           worker_id: string | null
         }
         Insert: {
+          available_at?: string
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
+          lease_expires_at?: string | null
           max_retries?: number
           payload: Json
           priority?: number
@@ -771,10 +993,13 @@ export type Database = {
           worker_id?: string | null
         }
         Update: {
+          available_at?: string
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
+          lease_expires_at?: string | null
           max_retries?: number
           payload?: Json
           priority?: number
@@ -885,32 +1110,56 @@ export type Database = {
       }
       autonomous_revenue_worker_pool: {
         Row: {
+          autoscale_enabled: boolean
+          below_target_since: string | null
           config: Json
+          cooldown_seconds: number
           created_at: string
           current_workers: number
           id: string
+          last_scaled_at: string | null
           max_workers: number
+          min_workers: number
+          policy_updated_by: string | null
+          scale_down_grace_seconds: number
           status: string
+          target_tasks_per_worker: number
           updated_at: string
           worker_type: string
         }
         Insert: {
+          autoscale_enabled?: boolean
+          below_target_since?: string | null
           config?: Json
+          cooldown_seconds?: number
           created_at?: string
           current_workers?: number
           id?: string
+          last_scaled_at?: string | null
           max_workers?: number
+          min_workers?: number
+          policy_updated_by?: string | null
+          scale_down_grace_seconds?: number
           status?: string
+          target_tasks_per_worker?: number
           updated_at?: string
           worker_type: string
         }
         Update: {
+          autoscale_enabled?: boolean
+          below_target_since?: string | null
           config?: Json
+          cooldown_seconds?: number
           created_at?: string
           current_workers?: number
           id?: string
+          last_scaled_at?: string | null
           max_workers?: number
+          min_workers?: number
+          policy_updated_by?: string | null
+          scale_down_grace_seconds?: number
           status?: string
+          target_tasks_per_worker?: number
           updated_at?: string
           worker_type?: string
         }
@@ -1690,6 +1939,7 @@ export type Database = {
           amount: number
           campaign_id: string | null
           created_at: string | null
+          currency: string
           description: string | null
           id: string
           metadata: Json | null
@@ -1701,6 +1951,7 @@ export type Database = {
           amount: number
           campaign_id?: string | null
           created_at?: string | null
+          currency?: string
           description?: string | null
           id?: string
           metadata?: Json | null
@@ -1712,6 +1963,7 @@ export type Database = {
           amount?: number
           campaign_id?: string | null
           created_at?: string | null
+          currency?: string
           description?: string | null
           id?: string
           metadata?: Json | null
@@ -1773,18 +2025,27 @@ export type Database = {
       }
       exchange_rates: {
         Row: {
+          as_of: string
+          base_currency: string
           id: number
           rates: Json
+          source: string
           updated_at: string | null
         }
         Insert: {
+          as_of?: string
+          base_currency?: string
           id?: number
           rates: Json
+          source?: string
           updated_at?: string | null
         }
         Update: {
+          as_of?: string
+          base_currency?: string
           id?: number
           rates?: Json
+          source?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -2193,6 +2454,39 @@ export type Database = {
           },
         ]
       }
+      idempotency_keys: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          key: string
+          request_hash: string
+          response_body: string | null
+          response_status: number | null
+          scope: string
+          status: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          key: string
+          request_hash: string
+          response_body?: string | null
+          response_status?: number | null
+          scope: string
+          status?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          key?: string
+          request_hash?: string
+          response_body?: string | null
+          response_status?: number | null
+          scope?: string
+          status?: string
+        }
+        Relationships: []
+      }
       journal_entries: {
         Row: {
           account_id: string
@@ -2332,43 +2626,64 @@ export type Database = {
           amount: number
           assigned_to: string | null
           created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
           details: Json
+          execution_result: Json | null
+          expires_at: string | null
+          function_name: string | null
           id: string
           priority: string
           processed_at: string | null
           processing_notes: string | null
+          request_body: Json
+          requested_by: string | null
           status: string
           transaction_type: string
           updated_at: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           amount: number
           assigned_to?: string | null
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
           details?: Json
+          execution_result?: Json | null
+          expires_at?: string | null
+          function_name?: string | null
           id?: string
           priority?: string
           processed_at?: string | null
           processing_notes?: string | null
+          request_body?: Json
+          requested_by?: string | null
           status?: string
           transaction_type: string
           updated_at?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           amount?: number
           assigned_to?: string | null
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
           details?: Json
+          execution_result?: Json | null
+          expires_at?: string | null
+          function_name?: string | null
           id?: string
           priority?: string
           processed_at?: string | null
           processing_notes?: string | null
+          request_body?: Json
+          requested_by?: string | null
           status?: string
           transaction_type?: string
           updated_at?: string | null
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: []
       }
@@ -2527,6 +2842,48 @@ export type Database = {
           },
         ]
       }
+      money_movements: {
+        Row: {
+          amount_cents: number
+          completed_at: string | null
+          created_at: string
+          currency: string
+          destination: string | null
+          error_message: string | null
+          execution_id: string | null
+          function_name: string
+          id: string
+          provider: string
+          status: string
+        }
+        Insert: {
+          amount_cents: number
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          destination?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          function_name: string
+          id?: string
+          provider: string
+          status?: string
+        }
+        Update: {
+          amount_cents?: number
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          destination?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          function_name?: string
+          id?: string
+          provider?: string
+          status?: string
+        }
+        Relationships: []
+      }
       open_banking_connections: {
         Row: {
           accounts_count: number | null
@@ -3841,6 +4198,63 @@ export type Database = {
         }
         Relationships: []
       }
+      revenue_task_dead_letters: {
+        Row: {
+          error_message: string | null
+          failed_at: string
+          id: string
+          max_retries: number
+          payload: Json
+          priority: number
+          requeued_payload: Json | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          retry_count: number
+          status: string
+          task_created_at: string | null
+          task_id: string
+          task_type: string
+          worker_id: string | null
+        }
+        Insert: {
+          error_message?: string | null
+          failed_at?: string
+          id?: string
+          max_retries?: number
+          payload?: Json
+          priority?: number
+          requeued_payload?: Json | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          retry_count?: number
+          status?: string
+          task_created_at?: string | null
+          task_id: string
+          task_type: string
+          worker_id?: string | null
+        }
+        Update: {
+          error_message?: string | null
+          failed_at?: string
+          id?: string
+          max_retries?: number
+          payload?: Json
+          priority?: number
+          requeued_payload?: Json | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          retry_count?: number
+          status?: string
+          task_created_at?: string | null
+          task_id?: string
+          task_type?: string
+          worker_id?: string | null
+        }
+        Relationships: []
+      }
       revenue_transactions: {
         Row: {
           amount: number
@@ -3925,37 +4339,213 @@ export type Database = {
         }
         Relationships: []
       }
-      secure_transactions: {
+      revenue_worker_scaling_decisions: {
         Row: {
-          amount: number | null
-          completed_at: string | null
-          created_at: string | null
-          currency: string | null
-          github_verification_id: string | null
+          action: string
+          decided_at: string
+          desired_workers: number
+          execution_id: string | null
           id: string
-          metadata: Json | null
-          status: string | null
-          stripe_payment_intent_id: string | null
-          supabase_verification_id: string | null
-          transaction_group_id: string
-          transaction_type: string
-          verification_status: Json | null
-          verified_at: string | null
+          in_flight_tasks: number
+          policy: Json
+          previous_workers: number
+          queued_tasks: number
+          reason: string
+          started_workers: number
+          worker_type: string
+          workers: number
         }
         Insert: {
-          amount?: number | null
-          completed_at?: string | null
-          created_at?: string | null
-          currency?: string | null
-          github_verification_id?: string | null
-          id?: string
-          metadata?: Json | null
-          status?: string | null
-          stripe_payment_intent_id?: string | null
-          supabase_verification_id?: string | null
-          transaction_group_id: string
-          transaction_type: string
-          verification_status?: Json | null
+          action: string
+          decided_at?: string
+          desired_workers: number
+          execution_id?: string | null
+          id?: string
+          in_flight_tasks: number
+          policy?: Json
+          previous_workers: number
+          queued_tasks: number
+          reason: string
+          started_workers?: number
+          worker_type: string
+          workers: number
+        }
+        Update: {
+          action?: string
+          decided_at?: string
+          desired_workers?: number
+          execution_id?: string | null
+          id?: string
+          in_flight_tasks?: number
+          policy?: Json
+          previous_workers?: number
+          queued_tasks?: number
+          reason?: string
+          started_workers?: number
+          worker_type?: string
+          workers?: number
+        }
+        Relationships: []
+      }
+      scheduled_job_runs: {
+        Row: {
+          error_message: string | null
+          execution_id: string | null
+          finished_at: string | null
+          id: string
+          job_id: string
+          job_name: string
+          result: Json | null
+          scheduled_for: string | null
+          started_at: string
+          status: string
+          trigger: string
+        }
+        Insert: {
+          error_message?: string | null
+          execution_id?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id: string
+          job_name: string
+          result?: Json | null
+          scheduled_for?: string | null
+          started_at?: string
+          status?: string
+          trigger: string
+        }
+        Update: {
+          error_message?: string | null
+          execution_id?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id?: string
+          job_name?: string
+          result?: Json | null
+          scheduled_for?: string | null
+          started_at?: string
+          status?: string
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_job_runs_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_jobs: {
+        Row: {
+          blackout_windows: Json
+          created_at: string
+          cron_expression: string
+          description: string | null
+          enabled: boolean
+          function_name: string
+          id: string
+          last_error: string | null
+          last_finished_at: string | null
+          last_run_at: string | null
+          last_status: string | null
+          lock_timeout_minutes: number
+          max_catch_up: number
+          missed_run_policy: string
+          name: string
+          next_run_at: string | null
+          payload: Json
+          run_as_role: string
+          running_execution_id: string | null
+          running_since: string | null
+          timezone: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          blackout_windows?: Json
+          created_at?: string
+          cron_expression: string
+          description?: string | null
+          enabled?: boolean
+          function_name: string
+          id?: string
+          last_error?: string | null
+          last_finished_at?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          lock_timeout_minutes?: number
+          max_catch_up?: number
+          missed_run_policy?: string
+          name: string
+          next_run_at?: string | null
+          payload?: Json
+          run_as_role?: string
+          running_execution_id?: string | null
+          running_since?: string | null
+          timezone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          blackout_windows?: Json
+          created_at?: string
+          cron_expression?: string
+          description?: string | null
+          enabled?: boolean
+          function_name?: string
+          id?: string
+          last_error?: string | null
+          last_finished_at?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          lock_timeout_minutes?: number
+          max_catch_up?: number
+          missed_run_policy?: string
+          name?: string
+          next_run_at?: string | null
+          payload?: Json
+          run_as_role?: string
+          running_execution_id?: string | null
+          running_since?: string | null
+          timezone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      secure_transactions: {
+        Row: {
+          amount: number | null
+          completed_at: string | null
+          created_at: string | null
+          currency: string | null
+          github_verification_id: string | null
+          id: string
+          metadata: Json | null
+          status: string | null
+          stripe_payment_intent_id: string | null
+          supabase_verification_id: string | null
+          transaction_group_id: string
+          transaction_type: string
+          verification_status: Json | null
+          verified_at: string | null
+        }
+        Insert: {
+          amount?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          currency?: string | null
+          github_verification_id?: string | null
+          id?: string
+          metadata?: Json | null
+          status?: string | null
+          stripe_payment_intent_id?: string | null
+          supabase_verification_id?: string | null
+          transaction_group_id: string
+          transaction_type: string
+          verification_status?: Json | null
           verified_at?: string | null
         }
         Update: {
@@ -4385,9 +4975,17 @@ export type Database = {
           capabilities: Json | null
           created_at: string | null
           currency: string
+          daily_limit_cents: number | null
           id: string
           is_active: boolean | null
+          is_default: boolean
+          label: string | null
+          max_transfer_cents: number | null
+          min_transfer_cents: number | null
           updated_at: string | null
+          verification_error: string | null
+          verification_status: string
+          verified_at: string | null
         }
         Insert: {
           account_id: string
@@ -4395,9 +4993,17 @@ export type Database = {
           capabilities?: Json | null
           created_at?: string | null
           currency: string
+          daily_limit_cents?: number | null
           id?: string
           is_active?: boolean | null
+          is_default?: boolean
+          label?: string | null
+          max_transfer_cents?: number | null
+          min_transfer_cents?: number | null
           updated_at?: string | null
+          verification_error?: string | null
+          verification_status?: string
+          verified_at?: string | null
         }
         Update: {
           account_id?: string
@@ -4405,9 +5011,17 @@ export type Database = {
           capabilities?: Json | null
           created_at?: string | null
           currency?: string
+          daily_limit_cents?: number | null
           id?: string
           is_active?: boolean | null
+          is_default?: boolean
+          label?: string | null
+          max_transfer_cents?: number | null
+          min_transfer_cents?: number | null
           updated_at?: string | null
+          verification_error?: string | null
+          verification_status?: string
+          verified_at?: string | null
         }
         Relationships: []
       }
@@ -4545,11 +5159,13 @@ export type Database = {
           amount_internal: number | null
           amount_stripe: number
           created_at: string
+          details: Json
           id: string
           internal_transaction_id: string | null
           reconciled_at: string | null
           reconciled_by: string | null
           reconciliation_status: string
+          run_id: string | null
           stripe_object_id: string
           stripe_object_type: string
           variance: number | null
@@ -4558,11 +5174,13 @@ export type Database = {
           amount_internal?: number | null
           amount_stripe: number
           created_at?: string
+          details?: Json
           id?: string
           internal_transaction_id?: string | null
           reconciled_at?: string | null
           reconciled_by?: string | null
           reconciliation_status?: string
+          run_id?: string | null
           stripe_object_id: string
           stripe_object_type: string
           variance?: number | null
@@ -4571,15 +5189,79 @@ export type Database = {
           amount_internal?: number | null
           amount_stripe?: number
           created_at?: string
+          details?: Json
           id?: string
           internal_transaction_id?: string | null
           reconciled_at?: string | null
           reconciled_by?: string | null
           reconciliation_status?: string
+          run_id?: string | null
           stripe_object_id?: string
           stripe_object_type?: string
           variance?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_reconciliation_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "stripe_reconciliation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_reconciliation_runs: {
+        Row: {
+          completed_at: string | null
+          error_message: string | null
+          execution_id: string | null
+          id: string
+          matched_count: number
+          missing_internal_count: number
+          missing_stripe_count: number
+          started_at: string
+          status: string
+          stripe_transactions: number
+          total_variance: number
+          triggered_by: string | null
+          variance_count: number
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          completed_at?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          matched_count?: number
+          missing_internal_count?: number
+          missing_stripe_count?: number
+          started_at?: string
+          status?: string
+          stripe_transactions?: number
+          total_variance?: number
+          triggered_by?: string | null
+          variance_count?: number
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          completed_at?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          matched_count?: number
+          missing_internal_count?: number
+          missing_stripe_count?: number
+          started_at?: string
+          status?: string
+          stripe_transactions?: number
+          total_variance?: number
+          triggered_by?: string | null
+          variance_count?: number
+          window_end?: string
+          window_start?: string
+        }
         Relationships: []
       }
       stripe_subscriptions: {
@@ -4590,7 +5272,9 @@ export type Database = {
           current_period_end: string | null
           current_period_start: string | null
           id: string
+          last_event_at: string | null
           metadata: Json | null
+          metered_item_id: string | null
           plan_amount: number | null
           plan_currency: string | null
           plan_id: string | null
@@ -4612,7 +5296,9 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          last_event_at?: string | null
           metadata?: Json | null
+          metered_item_id?: string | null
           plan_amount?: number | null
           plan_currency?: string | null
           plan_id?: string | null
@@ -4634,7 +5320,9 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          last_event_at?: string | null
           metadata?: Json | null
+          metered_item_id?: string | null
           plan_amount?: number | null
           plan_currency?: string | null
           plan_id?: string | null
@@ -4756,6 +5444,93 @@ export type Database = {
         }
         Relationships: []
       }
+      sweep_batches: {
+        Row: {
+          amount_cents: number
+          attempts: number
+          created_at: string
+          currency: string
+          destination: string | null
+          error_message: string | null
+          executing_at: string | null
+          execution_id: string | null
+          function_name: string
+          id: string
+          idempotency_key: string
+          movement: string
+          provider: string
+          provider_method: string
+          provider_reference: string | null
+          request: Json
+          reserve_journal_id: string | null
+          settle_journal_id: string | null
+          settled_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount_cents: number
+          attempts?: number
+          created_at?: string
+          currency?: string
+          destination?: string | null
+          error_message?: string | null
+          executing_at?: string | null
+          execution_id?: string | null
+          function_name: string
+          id?: string
+          idempotency_key: string
+          movement: string
+          provider: string
+          provider_method: string
+          provider_reference?: string | null
+          request?: Json
+          reserve_journal_id?: string | null
+          settle_journal_id?: string | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          attempts?: number
+          created_at?: string
+          currency?: string
+          destination?: string | null
+          error_message?: string | null
+          executing_at?: string | null
+          execution_id?: string | null
+          function_name?: string
+          id?: string
+          idempotency_key?: string
+          movement?: string
+          provider?: string
+          provider_method?: string
+          provider_reference?: string | null
+          request?: Json
+          reserve_journal_id?: string | null
+          settle_journal_id?: string | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sweep_batches_reserve_journal_id_fkey"
+            columns: ["reserve_journal_id"]
+            isOneToOne: false
+            referencedRelation: "accounting_journals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sweep_batches_settle_journal_id_fkey"
+            columns: ["settle_journal_id"]
+            isOneToOne: false
+            referencedRelation: "accounting_journals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sync_logs: {
         Row: {
           created_at: string
@@ -4911,6 +5686,44 @@ export type Database = {
         }
         Relationships: []
       }
+      transfer_attempt_transitions: {
+        Row: {
+          created_at: string
+          from_status: string | null
+          id: string
+          provider_reference: string | null
+          reason: string | null
+          to_status: string
+          transfer_attempt_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          provider_reference?: string | null
+          reason?: string | null
+          to_status: string
+          transfer_attempt_id: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          provider_reference?: string | null
+          reason?: string | null
+          to_status?: string
+          transfer_attempt_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfer_attempt_transitions_transfer_attempt_id_fkey"
+            columns: ["transfer_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "transfer_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transfer_attempts: {
         Row: {
           amount: number
@@ -4924,7 +5737,9 @@ export type Database = {
           error_code: string | null
           error_message: string | null
           id: string
+          idempotency_key: string | null
           metadata: Json | null
+          provider_request: Json | null
           retry_count: number | null
           status: string | null
           stripe_transfer_id: string | null
@@ -4941,7 +5756,9 @@ export type Database = {
           error_code?: string | null
           error_message?: string | null
           id?: string
+          idempotency_key?: string | null
           metadata?: Json | null
+          provider_request?: Json | null
           retry_count?: number | null
           status?: string | null
           stripe_transfer_id?: string | null
@@ -4958,7 +5775,9 @@ export type Database = {
           error_code?: string | null
           error_message?: string | null
           id?: string
+          idempotency_key?: string | null
           metadata?: Json | null
+          provider_request?: Json | null
           retry_count?: number | null
           status?: string | null
           stripe_transfer_id?: string | null
@@ -5549,6 +6368,30 @@ export type Database = {
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_sessions: {
         Row: {
           created_at: string | null
@@ -5807,47 +6650,130 @@ export type Database = {
           },
         ]
       }
+      workflow_run_steps: {
+        Row: {
+          attempts: number
+          compensated_at: string | null
+          compensation_error: string | null
+          completed_at: string | null
+          error_message: string | null
+          id: string
+          input: Json | null
+          output: Json | null
+          run_id: string
+          started_at: string | null
+          status: string
+          step_index: number
+          step_name: string
+        }
+        Insert: {
+          attempts?: number
+          compensated_at?: string | null
+          compensation_error?: string | null
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          input?: Json | null
+          output?: Json | null
+          run_id: string
+          started_at?: string | null
+          status?: string
+          step_index: number
+          step_name: string
+        }
+        Update: {
+          attempts?: number
+          compensated_at?: string | null
+          compensation_error?: string | null
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          input?: Json | null
+          output?: Json | null
+          run_id?: string
+          started_at?: string | null
+          status?: string
+          step_index?: number
+          step_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_run_steps_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_runs: {
         Row: {
+          attempts: number
           completed_at: string | null
+          current_step: string | null
           error_message: string | null
+          execution_details: Json | null
+          execution_id: string | null
           execution_time_ms: number | null
           failed_fixes: number | null
           id: string
+          input: Json
+          lease_expires_at: string | null
           metadata: Json | null
           started_at: string | null
+          status: string | null
           success_rate: number | null
           successful_fixes: number | null
           total_amount_recovered: number | null
           total_processed: number | null
+          triggered_by: string | null
+          updated_at: string
           workflow_type: string
         }
         Insert: {
+          attempts?: number
           completed_at?: string | null
+          current_step?: string | null
           error_message?: string | null
+          execution_details?: Json | null
+          execution_id?: string | null
           execution_time_ms?: number | null
           failed_fixes?: number | null
           id?: string
+          input?: Json
+          lease_expires_at?: string | null
           metadata?: Json | null
           started_at?: string | null
+          status?: string | null
           success_rate?: number | null
           successful_fixes?: number | null
           total_amount_recovered?: number | null
           total_processed?: number | null
+          triggered_by?: string | null
+          updated_at?: string
           workflow_type: string
         }
         Update: {
+          attempts?: number
           completed_at?: string | null
+          current_step?: string | null
           error_message?: string | null
+          execution_details?: Json | null
+          execution_id?: string | null
           execution_time_ms?: number | null
           failed_fixes?: number | null
           id?: string
+          input?: Json
+          lease_expires_at?: string | null
           metadata?: Json | null
           started_at?: string | null
+          status?: string | null
           success_rate?: number | null
           successful_fixes?: number | null
           total_amount_recovered?: number | null
           total_processed?: number | null
+          triggered_by?: string | null
+          updated_at?: string
           workflow_type?: string
         }
         Relationships: []
@@ -5869,6 +6795,35 @@ export type Database = {
         }
         Relationships: []
       }
+      ledger_account_balances: {
+        Row: {
+          account_code: string | null
+          account_id: string | null
+          account_name: string | null
+          account_type: string | null
+          balance: number | null
+          last_posted_at: string | null
+          normal_balance: string | null
+          total_credit: number | null
+          total_debit: number | null
+        }
+        Relationships: []
+      }
+      ledger_currency_balances: {
+        Row: {
+          account_code: string | null
+          account_id: string | null
+          account_name: string | null
+          account_type: string | null
+          balance: number | null
+          currency: string | null
+          last_posted_at: string | null
+          normal_balance: string | null
+          total_credit: number | null
+          total_debit: number | null
+        }
+        Relationships: []
+      }
       order_analytics: {
         Row: {
           avg_order_size: number | null
@@ -5988,6 +6943,17 @@ export type Database = {
         Args: { p_allocation_method?: string; p_contract_id: string }
         Returns: Json
       }
+      authorize_money_movement: {
+        Args: {
+          p_amount_cents: number
+          p_currency?: string
+          p_destination: string
+          p_execution_id?: string
+          p_function_name: string
+          p_provider: string
+        }
+        Returns: Json
+      }
       begin_transaction: { Args: never; Returns: Json }
       calculate_daily_revenue_metrics: {
         Args: { p_date?: string }
@@ -6020,6 +6986,7 @@ export type Database = {
         Returns: number
       }
       check_balance: { Args: never; Returns: Json }
+      check_dead_letter_alert: { Args: never; Returns: undefined }
       check_edge_function_status: { Args: never; Returns: Json }
       check_storage_balance_location: {
         Args: never
@@ -6039,14 +7006,19 @@ export type Database = {
       claim_revenue_tasks: {
         Args: {
           p_batch_size?: number
+          p_lease_seconds?: number
+          p_task_types?: string[]
           p_worker_id: string
           p_worker_type: string
         }
         Returns: {
+          available_at: string
           completed_at: string | null
           created_at: string
           error_message: string | null
+          heartbeat_at: string | null
           id: string
+          lease_expires_at: string | null
           max_retries: number
           payload: Json
           priority: number
@@ -6064,12 +7036,31 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      claim_scheduled_job: {
+        Args: {
+          p_execution_id: string
+          p_job_id: string
+          p_scheduled_for: string
+          p_trigger: string
+        }
+        Returns: Json
+      }
+      claim_workflow_run: {
+        Args: {
+          p_execution_id: string
+          p_lease_seconds?: number
+          p_run_id: string
+        }
+        Returns: Json
+      }
       commit_transaction: { Args: { session_id: string }; Returns: undefined }
       complete_revenue_recognition_and_transfer: { Args: never; Returns: Json }
       complete_revenue_task: {
         Args: {
           p_error_message?: string
           p_result?: Json
+          p_retry_delay_seconds?: number
+          p_retryable?: boolean
           p_success: boolean
           p_task_id: string
           p_worker_id: string
@@ -6148,6 +7139,11 @@ export type Database = {
         Args: { p_batch_size?: number; p_max_amount?: number }
         Returns: string
       }
+      currency_minor_unit_exponent: { Args: { p_currency: string }; Returns: number }
+      current_user_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
       daily_revenue_consolidation: { Args: never; Returns: Json }
       daily_volume: {
         Args: { date_param?: string }
@@ -6173,6 +7169,25 @@ export type Database = {
         Returns: Json
       }
       expire_old_orders: { Args: never; Returns: undefined }
+      finalize_sweep: {
+        Args: {
+          p_batch_id: string
+          p_description: string
+          p_journal_reference: string
+          p_provider_reference: string
+        }
+        Returns: Json
+      }
+      finish_scheduled_job: {
+        Args: {
+          p_error?: string
+          p_next_run_at?: string
+          p_result?: Json
+          p_run_id: string
+          p_status: string
+        }
+        Returns: undefined
+      }
       generate_autonomous_revenue: { Args: never; Returns: undefined }
       generate_balance_sheet_export: {
         Args: { p_end_date?: string; p_start_date?: string }
@@ -6265,6 +7280,24 @@ export type Database = {
           movements: Json
         }[]
       }
+      get_ledger_balance: {
+        Args: { p_account_code: string; p_currency?: string }
+        Returns: number
+      }
+      get_ledger_balances: {
+        Args: never
+        Returns: {
+          account_code: string | null
+          account_id: string | null
+          account_name: string | null
+          account_type: string | null
+          balance: number | null
+          last_posted_at: string | null
+          normal_balance: string | null
+          total_credit: number | null
+          total_debit: number | null
+        }[]
+      }
       get_failed_transfers_for_fix: {
         Args: never
         Returns: {
@@ -6321,12 +7354,31 @@ export type Database = {
         }[]
       }
       get_user_cashout_balance: { Args: { p_user_id: string }; Returns: number }
+      get_user_role: {
+        Args: { p_user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
       get_valid_stripe_transfer_status: {
         Args: never
         Returns: {
           status_value: string
         }[]
       }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      heartbeat_revenue_tasks: {
+        Args: {
+          p_lease_seconds?: number
+          p_task_ids: string[]
+          p_worker_id: string
+        }
+        Returns: string[]
+      }
       increment_worker_count: {
         Args: { p_worker_type: string }
         Returns: boolean
@@ -6346,6 +7398,18 @@ export type Database = {
       }
       inspect_stripe_transfers_table: { Args: never; Returns: string }
       launch_new_agents: { Args: never; Returns: undefined }
+      list_cron_jobs: {
+        Args: never
+        Returns: {
+          active: boolean
+          function_name: string
+          jobid: number
+          jobname: string
+          last_run_at: string
+          last_status: string
+          schedule: string
+        }[]
+      }
       list_tables: {
         Args: never
         Returns: {
@@ -6371,6 +7435,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      mark_sweep_executing: {
+        Args: { p_attempts: number; p_batch_id: string }
+        Returns: boolean
+      }
       mark_transfer_corrected: {
         Args: {
           corrected_destination: string
@@ -6405,6 +7473,16 @@ export type Database = {
       optimize_revenue_transfers: { Args: never; Returns: Json }
       optimize_underperforming_streams: { Args: never; Returns: undefined }
       parallel_revenue_processor: { Args: never; Returns: Json }
+      post_ledger_journal: {
+        Args: {
+          p_description: string
+          p_currency?: string
+          p_lines: Json
+          p_metadata?: Json
+          p_reference?: string
+        }
+        Returns: string
+      }
       process_application_balance_transfer: { Args: never; Returns: Json }
       process_autonomous_revenue_transfers: { Args: never; Returns: undefined }
       process_cash_out_request: { Args: { request_id: string }; Returns: Json }
@@ -6419,6 +7497,10 @@ export type Database = {
         Returns: Json
       }
       process_storage_billing: { Args: never; Returns: Json }
+      purge_dead_letters: {
+        Args: { p_actor: string; p_ids: string[]; p_reason: string }
+        Returns: number
+      }
       reconcile_balance_transfers: { Args: never; Returns: undefined }
       reconcile_transaction: {
         Args: { p_external_id: string; p_status?: string }
@@ -6434,6 +7516,23 @@ export type Database = {
         }
         Returns: Json
       }
+      record_api_tokens: {
+        Args: {
+          p_included_tokens: number
+          p_period_id: string
+          p_tokens: number
+          p_tokens_per_unit: number
+        }
+        Returns: Json
+      }
+      record_money_movement_result: {
+        Args: {
+          p_error_message?: string
+          p_movement_id: string
+          p_succeeded: boolean
+        }
+        Returns: Json
+      }
       record_storage_balance_movement: {
         Args: {
           p_amount: number
@@ -6458,11 +7557,36 @@ export type Database = {
         }
         Returns: number
       }
+      register_revenue_worker: {
+        Args: { p_execution_id: string; p_worker_type: string }
+        Returns: string
+      }
+      release_api_usage: {
+        Args: {
+          p_overage_units: number
+          p_period_id: string
+          p_requests: number
+        }
+        Returns: undefined
+      }
+      release_sweep: {
+        Args: { p_batch_id: string; p_reason: string }
+        Returns: Json
+      }
       request_stripe_instant_transfer: { Args: never; Returns: string }
       request_stripe_transfer_verification: {
         Args: { amount: number }
         Returns: Json
       }
+      requeue_dead_letters: {
+        Args: {
+          p_actor: string
+          p_ids: string[]
+          p_note?: string
+          p_payloads?: Json
+        }
+        Returns: Json
+      }
       resend_failed_transfers: {
         Args: never
         Returns: {
@@ -6474,11 +7598,49 @@ export type Database = {
           status: string
         }[]
       }
+      reserve_api_request: {
+        Args: {
+          p_period_end: string
+          p_period_start: string
+          p_plan: string
+          p_request_limit: number
+          p_stripe_subscription_id: string
+          p_token_limit: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      reserve_sweep: {
+        Args: {
+          p_amount_cents: number
+          p_currency?: string
+          p_destination: string
+          p_execution_id?: string
+          p_function_name: string
+          p_idempotency_key: string
+          p_movement: string
+          p_provider: string
+          p_provider_method: string
+          p_request: Json
+        }
+        Returns: Json
+      }
       reset_storage_balance: {
         Args: { transferred_amount: number }
         Returns: undefined
       }
       rollback_transaction: { Args: { session_id: string }; Returns: undefined }
+      rotate_api_key: {
+        Args: {
+          p_hash_algorithm: string
+          p_key_hash: string
+          p_key_id: string
+          p_key_prefix: string
+          p_overlap_seconds: number
+          p_user_id: string
+        }
+        Returns: string
+      }
       run_autonomous_monetization_engine: { Args: never; Returns: undefined }
       run_autonomous_revenue_scheduler: { Args: never; Returns: Json }
       scale_revenue_workers: { Args: never; Returns: Json }
@@ -6488,6 +7650,14 @@ export type Database = {
         Returns: undefined
       }
       scheduled_revenue_transfer: { Args: never; Returns: Json }
+      set_failsafe_status: {
+        Args: { p_actor: string; p_halted: boolean; p_reason: string }
+        Returns: string
+      }
+      settle_api_overage_claim: {
+        Args: { p_claim_id: string; p_reported: boolean }
+        Returns: undefined
+      }
       setup_autonomous_revenue_stripe: {
         Args: {
           p_auto_transfer?: boolean
@@ -6608,6 +7778,10 @@ export type Database = {
             Returns: Json
           }
         | { Args: { transfer_amount: number }; Returns: boolean }
+      transfer_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
       trigger_immediate_revenue_consolidation: {
         Args: { p_days_back?: number }
         Returns: Json
@@ -6623,6 +7797,10 @@ export type Database = {
           transfer_status: string
         }[]
       }
+      trip_circuit_breaker: {
+        Args: { p_details?: Json; p_event_type: string; p_reason: string }
+        Returns: string
+      }
       update_application_balance:
         | { Args: never; Returns: undefined }
         | { Args: { new_balance: number }; Returns: Json }
@@ -6671,16 +7849,24 @@ export type Database = {
           p_account_id: string
           p_account_type?: string
           p_currency?: string
+          p_daily_limit_cents?: number
           p_is_active?: boolean
+          p_is_default?: boolean
+          p_label?: string
+          p_max_transfer_cents?: number
+          p_min_transfer_cents?: number
         }
         Returns: {
           destination_account_id: string
           destination_created_at: string
           destination_id: string
           destination_is_active: boolean
+          destination_is_default: boolean
           destination_updated_at: string
+          destination_verification_status: string
         }[]
       }
+      use_api_key: { Args: { p_key_id: string }; Returns: Json }
       user_has_financial_access: { Args: { user_id: string }; Returns: boolean }
       verify_transfer: {
         Args: { p_transfer_id: string }
@@ -6698,7 +7884,7 @@ export type Database = {
       your_function: { Args: never; Returns: undefined }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "viewer" | "operator" | "treasurer" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -6825,6 +8011,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["viewer", "operator", "treasurer", "admin"],
+    },
   },
 } as const
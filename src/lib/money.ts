@@ -0,0 +1,2 @@
+// The app and the edge functions share one Money implementation
+export * from "../../supabase/functions/_shared/money.ts";
@@ -0,0 +1,22 @@
+import React from 'react';
+import ApiKeyManager from '@/components/ApiKeyManager';
+
+const ApiKeysPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">🔑 API Keys</h1>
+          <p className="text-slate-300">
+            Keys for the AI content API
+          </p>
+        </div>
+
+        <ApiKeyManager />
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeysPage;
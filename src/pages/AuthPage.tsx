@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "sonner";
+import { LogIn, LogOut, Shield } from "lucide-react";
+
+const AuthPage = () => {
+  const { user, role } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const navigate = useNavigate();
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      toast.success('Signed in');
+      navigate('/');
+    } catch (error) {
+      console.error('Sign in error:', error);
+      toast.error((error as Error).message || 'Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+    toast.info('Signed out');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-md mx-auto pt-12">
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center">
+              <Shield className="h-5 w-5 mr-2" />
+              {user ? 'Signed In' : 'Sign In'}
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Payouts and transfers require an operator, treasurer or admin role
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {user ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-white">{user.email}</span>
+                  <Badge variant={role ? 'default' : 'secondary'}>
+                    {role ?? 'no role'}
+                  </Badge>
+                </div>
+                <Button onClick={signOut} variant="outline" className="w-full">
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={signIn} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email" className="text-slate-200">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-slate-200">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={submitting} className="w-full">
+                  <LogIn className="h-4 w-4 mr-2" />
+                  {submitting ? 'Signing in...' : 'Sign In'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuthPage;
@@ -0,0 +1,24 @@
+import React from 'react';
+import ScheduledJobs from '@/components/ScheduledJobs';
+import DeadLetterQueue from '@/components/DeadLetterQueue';
+
+const JobsPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">⏱️ Jobs</h1>
+          <p className="text-slate-300">
+            Every scheduled job, when it last ran and when it runs next
+          </p>
+        </div>
+
+        <ScheduledJobs />
+        <DeadLetterQueue />
+      </div>
+    </div>
+  );
+};
+
+export default JobsPage;
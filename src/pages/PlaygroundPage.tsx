@@ -0,0 +1,22 @@
+import React from 'react';
+import ContentPlayground from '@/components/ContentPlayground';
+
+const PlaygroundPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">✨ Playground</h1>
+          <p className="text-slate-300">
+            Try the AI content API and watch the response stream in
+          </p>
+        </div>
+
+        <ContentPlayground />
+      </div>
+    </div>
+  );
+};
+
+export default PlaygroundPage;
@@ -22,6 +22,7 @@ import {
 } from "lucide-react";
 import ComprehensiveRevenueAnalytics from "@/components/ComprehensiveRevenueAnalytics";
 import RealTimeBalanceDisplay from "@/components/RealTimeBalanceDisplay";
+import { useOperationKey } from "@/hooks/use-operation-key";
 
 interface RevenueStats {
   total_revenue: number;
@@ -56,6 +57,7 @@ const RevenueDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [transferring, setTransferring] = useState(false);
+  const transferKey = useOperationKey();
   const [realTimeBalance, setRealTimeBalance] = useState(0);
 
   // Production mode: Only aggregate real data, no auto-generation
@@ -142,7 +144,10 @@ const RevenueDashboard = () => {
   const transferToStripe = async () => {
     setTransferring(true);
     try {
-      const { data, error } = await supabase.functions.invoke('stripe-revenue-transfer');
+      const { data, error } = await supabase.functions.invoke('stripe-revenue-transfer', {
+        headers: { 'Idempotency-Key': transferKey.current() }
+      });
+      transferKey.settle(error);
       
       if (error) throw error;
       
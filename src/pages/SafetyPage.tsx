@@ -0,0 +1,24 @@
+import React from 'react';
+import FailsafeControls from '@/components/FailsafeControls';
+import SweepBatches from '@/components/SweepBatches';
+
+const SafetyPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">🛡️ Safety</h1>
+          <p className="text-slate-300">
+            Velocity limits on every transfer and payout, and the switch that stops them all
+          </p>
+        </div>
+
+        <FailsafeControls />
+        <SweepBatches />
+      </div>
+    </div>
+  );
+};
+
+export default SafetyPage;
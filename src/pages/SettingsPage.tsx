@@ -0,0 +1,24 @@
+import React from 'react';
+import DestinationSettings from '@/components/DestinationSettings';
+import ExchangeRateSettings from '@/components/ExchangeRateSettings';
+
+const SettingsPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">⚙️ Settings</h1>
+          <p className="text-slate-300">
+            Where transfers are sent, how much each destination may receive, and how currencies are reported
+          </p>
+        </div>
+
+        <DestinationSettings />
+        <ExchangeRateSettings />
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import WorkflowRunTimeline from '@/components/WorkflowRunTimeline';
+
+const WorkflowRunPage = () => {
+  const { runId } = useParams<{ runId: string }>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link to="/workflows" className="text-blue-300 hover:underline text-sm">
+          ← All workflow runs
+        </Link>
+
+        {runId && <WorkflowRunTimeline runId={runId} />}
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowRunPage;
@@ -0,0 +1,22 @@
+import React from 'react';
+import WorkflowRuns from '@/components/WorkflowRuns';
+
+const WorkflowsPage = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">🧭 Workflows</h1>
+          <p className="text-slate-300">
+            Multi-step runs, step by step
+          </p>
+        </div>
+
+        <WorkflowRuns />
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowsPage;
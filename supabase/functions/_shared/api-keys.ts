@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { timingSafeEqual } from "./auth.ts";
+import { HttpError } from "./envelope.ts";
+
+// API keys for ai-content-api. A key looks like
+//
+//   ak_<prefix>_<secret>     prefix: 12 hex characters, stored as-is to find the row
+//                            secret: 32 random bytes, base64url
+//
+// and is shown to its owner once, when it is created or rotated. Only a hash
+// of the whole key is stored: HMAC-SHA256 under API_KEY_HASH_SECRET when that
+// is set, plain SHA-256 otherwise. Each row records which, so setting the
+// secret later does not lock out keys issued before it.
+//
+// Keys issued before this format (key_prefix is NULL) were hashed with SHA-256
+// when they were migrated and are still accepted.
+
+export const API_KEY_SCOPES = ["content", "seo", "marketing", "code", "analysis"] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Every scope, including ones added later
+export const ALL_SCOPES = "*";
+
+export type HashAlgorithm = "hmac-sha256" | "sha256";
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string | null;
+  key_prefix: string | null;
+  hash_algorithm: HashAlgorithm;
+  scopes: string[];
+  is_active: boolean;
+  usage_count: number;
+  usage_limit: number | null;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  replaced_by: string | null;
+  created_at: string;
+}
+
+// Everything but the hash
+export const API_KEY_COLUMNS =
+  "id, user_id, name, key_prefix, hash_algorithm, scopes, is_active, usage_count, usage_limit, last_used_at, expires_at, revoked_at, replaced_by, created_at";
+
+export const MAX_EXPIRY_DAYS = 365;
+export const DEFAULT_ROTATION_OVERLAP_HOURS = 24;
+export const MAX_ROTATION_OVERLAP_HOURS = 24 * 30;
+
+const KEY_PATTERN = /^ak_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes)).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export function currentHashAlgorithm(): HashAlgorithm {
+  return Deno.env.get("API_KEY_HASH_SECRET") ? "hmac-sha256" : "sha256";
+}
+
+export async function hashApiKey(key: string, algorithm: HashAlgorithm): Promise<string> {
+  if (algorithm === "sha256") {
+    return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(key)));
+  }
+  const secret = Deno.env.get("API_KEY_HASH_SECRET");
+  if (!secret) {
+    throw new Error("API_KEY_HASH_SECRET is not set, but a key was hashed with it");
+  }
+  const hmacKey = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toHex(await crypto.subtle.sign("HMAC", hmacKey, encoder.encode(key)));
+}
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = toHex(crypto.getRandomValues(new Uint8Array(6)).buffer);
+  const secret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return { key: `ak_${prefix}_${secret}`, prefix };
+}
+
+// The prefix of a key in the current format, or null for anything else
+export function apiKeyPrefix(key: string): string | null {
+  return KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+export function hasScope(scopes: string[], scope: string): boolean {
+  return scopes.includes(ALL_SCOPES) || scopes.includes(scope);
+}
+
+export interface NewKeyRequest {
+  name: string;
+  scopes: string[];
+  expires_at: string | null;
+  usage_limit: number | null;
+}
+
+// Validates a create request; throws a 400 HttpError for a bad one
+export function parseNewKeyRequest(body: Record<string, unknown>, now = new Date()): NewKeyRequest {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 100) {
+    throw new HttpError(400, "invalid_request", "name is required, at most 100 characters");
+  }
+
+  const scopes = body.scopes ?? [ALL_SCOPES];
+  if (
+    !Array.isArray(scopes) || scopes.length === 0 ||
+    scopes.some((scope) => scope !== ALL_SCOPES && !API_KEY_SCOPES.includes(scope as ApiKeyScope))
+  ) {
+    throw new HttpError(400, "invalid_request", `scopes must list some of ${API_KEY_SCOPES.join(", ")}, or be ["${ALL_SCOPES}"]`);
+  }
+
+  let expiresAt: string | null = null;
+  if (body.expires_in_days !== undefined && body.expires_in_days !== null) {
+    const days = Number(body.expires_in_days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      throw new HttpError(400, "invalid_request", `expires_in_days must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`);
+    }
+    expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  let usageLimit: number | null = null;
+  if (body.usage_limit !== undefined && body.usage_limit !== null) {
+    usageLimit = Number(body.usage_limit);
+    if (!Number.isInteger(usageLimit) || usageLimit < 1) {
+      throw new HttpError(400, "invalid_request", "usage_limit must be a positive whole number");
+    }
+  }
+
+  return { name, scopes: [...new Set(scopes as string[])], expires_at: expiresAt, usage_limit: usageLimit };
+}
+
+// Why use_api_key turned a key down: [status, error code, message]
+const KEY_REFUSALS: Record<string, [number, string, string]> = {
+  revoked: [401, "api_key_revoked", "This API key has been revoked"],
+  expired: [401, "api_key_expired", "This API key has expired"],
+  usage_limit_exceeded: [429, "usage_limit_exceeded", "API key usage limit exceeded"],
+};
+
+// Checks a presented key against its hash, expiry and scopes and counts the
+// use, atomically with the usage limit. Throws a 401, 403 or 429 HttpError.
+export async function useApiKey(supabase: SupabaseClient, key: string, scope: string): Promise<ApiKey> {
+  const prefix = apiKeyPrefix(key);
+  let query = supabase.from("api_keys").select(`${API_KEY_COLUMNS}, key_hash`);
+  query = prefix
+    ? query.eq("key_prefix", prefix)
+    : query.is("key_prefix", null).eq("key_hash", await hashApiKey(key, "sha256"));
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up the API key: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new HttpError(401, "invalid_api_key", "Invalid API key");
+  }
+  const { key_hash: storedHash, ...row } = data as ApiKey & { key_hash: string };
+  if (!timingSafeEqual(storedHash, await hashApiKey(key, row.hash_algorithm))) {
+    throw new HttpError(401, "invalid_api_key", "Invalid API key");
+  }
+  if (!hasScope(row.scopes, scope)) {
+    throw new HttpError(403, "scope_not_allowed", `This API key may not be used for ${scope}`, { scopes: row.scopes });
+  }
+
+  const { data: use, error: useError } = await supabase.rpc("use_api_key", { p_key_id: row.id });
+  if (useError) {
+    throw new Error(`Failed to record the API key use: ${useError.message}`);
+  }
+  const result = use as { allowed: boolean; reason?: string; usage_count?: number };
+  if (!result.allowed) {
+    const [status, code, message] = KEY_REFUSALS[result.reason ?? ""] ?? [401, "invalid_api_key", "Invalid API key"];
+    throw new HttpError(status, code, message);
+  }
+
+  return { ...row, usage_count: result.usage_count ?? row.usage_count + 1 };
+}
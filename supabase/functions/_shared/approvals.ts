@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { HttpError, ok } from "./envelope.ts";
+import type { HandlerContext } from "./handler.ts";
+import type { ExecutionPlan } from "./plan.ts";
+import { money, toMajorUnits } from "./money.ts";
+
+// Two-person approval for large payouts.
+//
+// The stripe_config row payout_approval sets a threshold per function. A real
+// run at or above it is parked in manual_review_queue and answered with 202
+// approval_required; nothing moves. A treasurer other than the requester
+// approves it through payout-approvals, which re-runs the function with the
+// original body plus { approval_id, plan_hash }. The run then claims the
+// approval, once, and goes ahead.
+
+export const APPROVAL_TRANSACTION_TYPE = "payout_approval";
+export const APPROVAL_CONFIG_KEY = "payout_approval";
+
+export type ApprovalStatus = "pending" | "approved" | "executing" | "executed" | "failed" | "rejected" | "expired";
+
+export interface ApprovalPolicy {
+  thresholds_cents: Record<string, number>;
+  expires_after_hours: number;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { thresholds_cents: {}, expires_after_hours: 24 };
+
+export interface ApprovalItem {
+  id: string;
+  status: ApprovalStatus;
+  function_name: string;
+  amount: number;
+  request_body: Record<string, unknown>;
+  requested_by: string | null;
+  user_id: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  processing_notes: string | null;
+  execution_result: Record<string, unknown> | null;
+  details: { amount_cents: number; summary: string; plan: ExecutionPlan; execution_id: string };
+  created_at: string;
+}
+
+export const APPROVAL_COLUMNS =
+  "id, status, function_name, amount, request_body, requested_by, user_id, decided_by, decided_at, expires_at, processing_notes, execution_result, details, created_at";
+
+// Request fields that belong to one run rather than to the request being approved
+const RUN_FIELDS = ["dry_run", "mode", "plan_hash", "approval_id"];
+
+export async function loadApprovalPolicy(supabase: SupabaseClient): Promise<ApprovalPolicy> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("value")
+    .eq("key", APPROVAL_CONFIG_KEY)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load payout approval policy: ${error.message}`);
+  }
+  if (!data) return DEFAULT_APPROVAL_POLICY;
+
+  let config: Partial<ApprovalPolicy>;
+  try {
+    config = JSON.parse(data.value);
+  } catch {
+    config = {};
+  }
+  return {
+    thresholds_cents: config.thresholds_cents ?? DEFAULT_APPROVAL_POLICY.thresholds_cents,
+    expires_after_hours: config.expires_after_hours ?? DEFAULT_APPROVAL_POLICY.expires_after_hours,
+  };
+}
+
+// Marks undecided approvals past their deadline as expired
+export async function expireStaleApprovals(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("manual_review_queue")
+    .update({ status: "expired", updated_at: new Date().toISOString() })
+    .eq("transaction_type", APPROVAL_TRANSACTION_TYPE)
+    .in("status", ["pending", "approved"])
+    .lt("expires_at", new Date().toISOString())
+    .select("id");
+  if (error) {
+    throw new Error(`Failed to expire approvals: ${error.message}`);
+  }
+  return (data || []).length;
+}
+
+// Claims an approved request for this run. The amount may have dropped since
+// approval (balances move), never risen.
+async function claimApproval(ctx: HandlerContext, approvalId: string, plan: ExecutionPlan) {
+  const { data, error } = await ctx.supabase
+    .from("manual_review_queue")
+    .update({ status: "executing", processed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", approvalId)
+    .eq("transaction_type", APPROVAL_TRANSACTION_TYPE)
+    .eq("function_name", ctx.name)
+    .eq("status", "approved")
+    .gt("expires_at", new Date().toISOString())
+    // manual_review_queue.amount is NUMERIC dollars
+    .gte("amount", toMajorUnits(money(plan.amount_cents)))
+    .select("id")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to claim approval ${approvalId}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(409, "approval_not_usable", "The approval is not approved, has expired, was already used, or covers a smaller amount", {
+      approval_id: approvalId,
+      amount_cents: plan.amount_cents,
+    });
+  }
+}
+
+// Returns the 202 response when this run has to wait for a second treasurer,
+// or null when it may go ahead
+export async function holdForApproval(ctx: HandlerContext, body: Record<string, unknown>, plan: ExecutionPlan): Promise<Response | null> {
+  if (typeof body.approval_id === "string") {
+    await claimApproval(ctx, body.approval_id, plan);
+    return null;
+  }
+
+  const policy = await loadApprovalPolicy(ctx.supabase);
+  const threshold = policy.thresholds_cents[ctx.name];
+  if (typeof threshold !== "number" || plan.amount_cents < threshold) {
+    return null;
+  }
+
+  const requestBody = Object.fromEntries(Object.entries(body).filter(([key]) => !RUN_FIELDS.includes(key)));
+  const expiresAt = new Date(Date.now() + policy.expires_after_hours * 3600 * 1000).toISOString();
+
+  const { data, error } = await ctx.supabase
+    .from("manual_review_queue")
+    .insert({
+      transaction_type: APPROVAL_TRANSACTION_TYPE,
+      status: "pending",
+      priority: "high",
+      function_name: ctx.name,
+      amount: toMajorUnits(money(plan.amount_cents)),
+      request_body: requestBody,
+      requested_by: ctx.auth?.caller ?? null,
+      user_id: ctx.auth?.userId ?? null,
+      expires_at: expiresAt,
+      details: { amount_cents: plan.amount_cents, summary: plan.summary, plan, execution_id: ctx.executionId },
+    })
+    .select("id")
+    .single();
+  if (error) {
+    throw new Error(`Failed to queue payout for approval: ${error.message}`);
+  }
+
+  return ok({
+    approval_required: true,
+    message: `${plan.summary} needs approval from a second treasurer`,
+    review_id: data.id,
+    amount_cents: plan.amount_cents,
+    threshold_cents: threshold,
+    expires_at: expiresAt,
+    execution_id: ctx.executionId,
+  }, 202);
+}
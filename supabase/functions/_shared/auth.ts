@@ -0,0 +1,160 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fail } from "./envelope.ts";
+
+// Authentication and role checks for edge functions.
+//
+// A caller is accepted if it presents one of:
+//   - a Supabase user JWT (Authorization: Bearer <jwt>); the role comes from get_user_role
+//   - the project's service role key as the bearer token (scheduled jobs, internal invokes)
+//   - a signed service token in the x-service-token header, see createServiceToken
+// Missing or invalid credentials give 401; a valid caller without the role gives 403.
+
+export const ROLES = ["viewer", "operator", "treasurer", "admin"] as const;
+
+export type Role = typeof ROLES[number];
+
+export interface AuthContext {
+  kind: "user" | "service";
+  userId: string | null;
+  // User email, or the service name from the token
+  caller: string;
+  role: Role;
+}
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export const SERVICE_TOKEN_HEADER = "x-service-token";
+
+const SERVICE_TOKEN_TTL_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+// Hex HMAC-SHA256 of `payload`; with timingSafeEqual, checks service tokens and
+// Stripe webhook signatures
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hmacHex(payload: string): Promise<string> {
+  const secret = Deno.env.get("SERVICE_AUTH_SECRET");
+  if (!secret) {
+    throw new AuthError(401, "Service tokens are not configured");
+  }
+  return hmacSha256Hex(secret, payload);
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function hasRole(actual: Role, required: Role): boolean {
+  return ROLES.indexOf(actual) >= ROLES.indexOf(required);
+}
+
+// Token for one function calling another: "<caller>.<role>.<expires>.<signature>"
+export async function createServiceToken(caller: string, role: Role, ttlSeconds = SERVICE_TOKEN_TTL_SECONDS): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload = `${caller}.${role}.${expires}`;
+  return `${payload}.${await hmacHex(payload)}`;
+}
+
+async function verifyServiceToken(token: string): Promise<AuthContext> {
+  const parts = token.split(".");
+  if (parts.length !== 4) {
+    throw new AuthError(401, "Malformed service token");
+  }
+
+  const [caller, role, expires, signature] = parts;
+  const expected = await hmacHex(`${caller}.${role}.${expires}`);
+  if (!timingSafeEqual(signature, expected)) {
+    throw new AuthError(401, "Invalid service token signature");
+  }
+  if (Number(expires) < Math.floor(Date.now() / 1000)) {
+    throw new AuthError(401, "Service token expired");
+  }
+  if (!(ROLES as readonly string[]).includes(role)) {
+    throw new AuthError(401, `Unknown role in service token: ${role}`);
+  }
+
+  return { kind: "service", userId: null, caller, role: role as Role };
+}
+
+async function userFromToken(supabase: SupabaseClient, bearer: string) {
+  const { data: userData, error: userError } = await supabase.auth.getUser(bearer);
+  if (userError || !userData?.user) {
+    throw new AuthError(401, "Invalid or expired session");
+  }
+  return userData.user;
+}
+
+export async function authenticate(req: Request, supabase: SupabaseClient): Promise<AuthContext> {
+  const serviceToken = req.headers.get(SERVICE_TOKEN_HEADER);
+  if (serviceToken) {
+    return verifyServiceToken(serviceToken);
+  }
+
+  const bearer = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearer) {
+    throw new AuthError(401, "Missing Authorization header");
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  if (serviceRoleKey && timingSafeEqual(bearer, serviceRoleKey)) {
+    return { kind: "service", userId: null, caller: "service_role", role: "admin" };
+  }
+
+  const user = await userFromToken(supabase, bearer);
+  const { data: role, error: roleError } = await supabase.rpc("get_user_role", { p_user_id: user.id });
+  if (roleError) {
+    throw new Error(`Failed to load role: ${roleError.message}`);
+  }
+  if (!role) {
+    throw new AuthError(403, "No role has been granted to this user");
+  }
+
+  return {
+    kind: "user",
+    userId: user.id,
+    caller: user.email ?? user.id,
+    role: role as Role,
+  };
+}
+
+// Any signed-in user, whether or not they hold a role; for functions that
+// act only on the caller's own rows
+export async function authenticateUser(req: Request, supabase: SupabaseClient): Promise<{ userId: string; email: string | null }> {
+  const bearer = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearer) {
+    throw new AuthError(401, "Missing Authorization header");
+  }
+  const user = await userFromToken(supabase, bearer);
+  return { userId: user.id, email: user.email ?? null };
+}
+
+export function requireRole(auth: AuthContext, required: Role) {
+  if (!hasRole(auth.role, required)) {
+    throw new AuthError(403, `Requires the ${required} role; caller has ${auth.role}`);
+  }
+}
+
+export function authErrorResponse(error: AuthError): Response {
+  return fail(error.status, error.status === 401 ? "unauthorized" : "forbidden", error.message);
+}
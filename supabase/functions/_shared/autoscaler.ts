@@ -0,0 +1,150 @@
+// Scaling of the revenue worker pools, one per worker type in
+// autonomous_revenue_worker_pool. The worker-autoscaler function ticks every
+// minute: it measures each pool's load, decides with decideScaling, writes
+// the pool and starts that many revenue-worker runs while there is work.
+//
+// The load asks for ceil((queued + in flight) / target_tasks_per_worker)
+// workers, kept within min_workers..max_workers. The pool then
+//   grows      at once, unless it changed less than cooldown_seconds ago
+//   shrinks    only once the load has asked for fewer workers for
+//              scale_down_grace_seconds, and also not within the cooldown
+// A pool outside a newly saved min/max is moved inside it straight away.
+
+export type ScalingAction = "scale_up" | "scale_down" | "hold";
+
+export interface ScalingPolicy {
+  min_workers: number;
+  max_workers: number;
+  target_tasks_per_worker: number;
+  cooldown_seconds: number;
+  scale_down_grace_seconds: number;
+  autoscale_enabled: boolean;
+}
+
+export interface WorkerPool extends ScalingPolicy {
+  id: string;
+  worker_type: string;
+  current_workers: number;
+  status: string;
+  last_scaled_at: string | null;
+  below_target_since: string | null;
+  policy_updated_by: string | null;
+  updated_at: string;
+}
+
+export const POOL_COLUMNS =
+  "id, worker_type, current_workers, status, min_workers, max_workers, target_tasks_per_worker, cooldown_seconds, scale_down_grace_seconds, autoscale_enabled, last_scaled_at, below_target_since, policy_updated_by, updated_at";
+
+export interface PoolLoad {
+  // Pending tasks whose backoff is over
+  queued: number;
+  // Tasks under a worker's lease
+  in_flight: number;
+}
+
+export interface ScalingDecision {
+  action: ScalingAction;
+  reason: string;
+  desired_workers: number;
+  workers: number;
+  // What the pool's last_scaled_at and below_target_since become
+  last_scaled_at: string | null;
+  below_target_since: string | null;
+  // Holds that are just the steady state are not logged
+  log: boolean;
+}
+
+export class AutoscalerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutoscalerError";
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function desiredWorkers(policy: ScalingPolicy, load: PoolLoad): number {
+  const wanted = Math.ceil((load.queued + load.in_flight) / policy.target_tasks_per_worker);
+  return clamp(wanted, policy.min_workers, policy.max_workers);
+}
+
+export function decideScaling(pool: WorkerPool, load: PoolLoad, now: Date): ScalingDecision {
+  const desired = desiredWorkers(pool, load);
+  const current = pool.current_workers;
+  const nowIso = now.toISOString();
+  const hold = (reason: string, log: boolean, belowSince: string | null = null): ScalingDecision => ({
+    action: "hold",
+    reason,
+    desired_workers: desired,
+    workers: current,
+    last_scaled_at: pool.last_scaled_at,
+    below_target_since: belowSince,
+    log,
+  });
+  const scale = (workers: number, reason: string): ScalingDecision => ({
+    action: workers > current ? "scale_up" : "scale_down",
+    reason,
+    desired_workers: desired,
+    workers,
+    last_scaled_at: nowIso,
+    below_target_since: null,
+    log: true,
+  });
+
+  if (current < pool.min_workers || current > pool.max_workers) {
+    return scale(clamp(current, pool.min_workers, pool.max_workers), `Outside the policy's ${pool.min_workers}-${pool.max_workers} workers`);
+  }
+  if (!pool.autoscale_enabled) {
+    return hold("Autoscaling is off for this pool", false);
+  }
+
+  const sinceLastScale = pool.last_scaled_at ? now.getTime() - new Date(pool.last_scaled_at).getTime() : Infinity;
+  const coolingDown = sinceLastScale < pool.cooldown_seconds * 1000;
+  const tasks = load.queued + load.in_flight;
+
+  if (desired > current) {
+    if (coolingDown) {
+      return hold(`${tasks} task(s) want ${desired} workers; cooling down after the last change`, true);
+    }
+    return scale(desired, `${tasks} task(s) at ${pool.target_tasks_per_worker} per worker`);
+  }
+
+  if (desired < current) {
+    const belowSince = pool.below_target_since ?? nowIso;
+    const belowFor = now.getTime() - new Date(belowSince).getTime();
+    if (belowFor < pool.scale_down_grace_seconds * 1000) {
+      // Logged once, when the grace period starts
+      return hold(`${tasks} task(s) need only ${desired} workers; waiting out the scale-down grace period`, !pool.below_target_since, belowSince);
+    }
+    if (coolingDown) {
+      return hold(`${tasks} task(s) need only ${desired} workers; cooling down after the last change`, true, belowSince);
+    }
+    return scale(desired, `${tasks} task(s) at ${pool.target_tasks_per_worker} per worker for ${Math.round(belowFor / 1000)}s`);
+  }
+
+  return hold("Pool matches the load", false);
+}
+
+const wholeNumber = (input: Record<string, unknown>, field: keyof ScalingPolicy, fallback: number, min: number, max: number) => {
+  const value = Number(input[field] ?? fallback);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new AutoscalerError(`${field} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+};
+
+// Validates a policy from a request body; fields left out keep their current value
+export function parseScalingPolicy(input: Record<string, unknown>, current: ScalingPolicy): ScalingPolicy {
+  const policy: ScalingPolicy = {
+    min_workers: wholeNumber(input, "min_workers", current.min_workers, 0, 100),
+    max_workers: wholeNumber(input, "max_workers", current.max_workers, 1, 100),
+    target_tasks_per_worker: wholeNumber(input, "target_tasks_per_worker", current.target_tasks_per_worker, 1, 10000),
+    cooldown_seconds: wholeNumber(input, "cooldown_seconds", current.cooldown_seconds, 0, 86400),
+    scale_down_grace_seconds: wholeNumber(input, "scale_down_grace_seconds", current.scale_down_grace_seconds, 0, 86400),
+    autoscale_enabled: input.autoscale_enabled === undefined ? current.autoscale_enabled : Boolean(input.autoscale_enabled),
+  };
+  if (policy.min_workers > policy.max_workers) {
+    throw new AutoscalerError("min_workers cannot be more than max_workers");
+  }
+  return policy;
+}
@@ -0,0 +1,74 @@
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { HttpError } from "./envelope.ts";
+
+// Every function talks to Stripe through this version; bump it here and nowhere else
+export const STRIPE_API_VERSION = "2023-10-16" as const;
+
+export type { Stripe };
+
+type StripeFactory = () => Stripe;
+
+let stripeFactory: StripeFactory | null = null;
+
+// Lets the test harness put the fake in tests/fake-stripe.ts behind every
+// function; pass null to go back to the real client
+export function setStripeClientFactory(factory: StripeFactory | null) {
+  stripeFactory = factory;
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+}
+
+export function isStripeConfigured(): boolean {
+  return stripeFactory !== null || Boolean(Deno.env.get("STRIPE_SECRET_KEY"));
+}
+
+export function createStripeClient(): Stripe {
+  if (stripeFactory) {
+    return stripeFactory();
+  }
+
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!stripeKey) {
+    throw new HttpError(503, "stripe_not_configured", "STRIPE_SECRET_KEY not configured", {
+      message: "Please configure your Stripe secret key in Supabase Edge Function secrets",
+      setup_required: true,
+    });
+  }
+
+  return new Stripe(stripeKey, {
+    apiVersion: STRIPE_API_VERSION,
+    typescript: true,
+  });
+}
+
+// Errors worth retrying with the same idempotency key. The SDK reports its
+// error class name in `type`, so compare against those rather than the raw API types.
+export function isTransientStripeError(error: unknown): boolean {
+  const err = error as { type?: string; code?: string } | null;
+  return err?.type === "StripeConnectionError" ||
+    err?.type === "StripeAPIError" ||
+    err?.type === "StripeRateLimitError" ||
+    ["rate_limit", "lock_timeout", "temporary_unavailable"].includes(err?.code ?? "");
+}
+
+// Errors Stripe answers before anything is executed, so no money moved.
+// Anything else, such as a lost connection or a 5xx, may have been carried
+// out, and the transfer it belonged to must not be treated as failed.
+export function isDefiniteStripeDecline(error: unknown): boolean {
+  const err = error as { type?: string } | null;
+  return [
+    "StripeCardError",
+    "StripeInvalidRequestError",
+    "StripeIdempotencyError",
+    "StripeRateLimitError",
+    "StripeAuthenticationError",
+    "StripePermissionError",
+  ].includes(err?.type ?? "");
+}
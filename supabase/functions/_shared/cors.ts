@@ -0,0 +1,10 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-api-key, idempotency-key, x-service-token, x-execution-id",
+  "Access-Control-Expose-Headers": "x-execution-id, idempotent-replayed",
+};
+
+export function preflightResponse(): Response {
+  return new Response(null, { headers: corsHeaders });
+}
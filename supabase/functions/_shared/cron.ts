@@ -0,0 +1,329 @@
+// Cron expressions evaluated in a time zone, for the scheduler. Standard five
+// fields (minute hour day-of-month month day-of-week) with *, lists, ranges,
+// steps and JAN-DEC / SUN-SAT names, plus the @hourly, @daily, @weekly,
+// @monthly and @yearly shorthands. As in Vixie cron, when both day fields are
+// restricted a day matching either of them runs.
+//
+// Times are matched on the wall clock of the zone. A time skipped by a DST
+// change runs as much later as the clocks went forward (02:30 becomes 03:30);
+// a time repeated by one runs once.
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 = Sunday
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// A period in which no run starts, on the job's wall clock. Every given
+// condition must hold: e.g. { days: [0, 6] } is every weekend and
+// { dates: ["2026-12-25"] } is one bank holiday; start and end ("HH:MM",
+// end exclusive) narrow it to part of the day.
+export interface BlackoutWindow {
+  days?: number[];
+  dates?: string[];
+  start?: string;
+  end?: string;
+  label?: string;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Value the names start at: 1 for JAN, 0 for SUN
+  nameBase?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is also Sunday
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.nameBase ?? 0) : /^\d+$/.test(text) ? Number(text) : Number.NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronError(`Invalid ${spec.name} "${text}": expected ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || range === "") {
+      throw new CronError(`Invalid ${spec.name} "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new CronError(`Invalid step in ${spec.name} "${part}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [spec.min, spec.max];
+    } else if (range.includes("-")) {
+      const [low, high] = range.split("-");
+      [from, to] = [parseValue(low, spec), parseValue(high, spec)];
+      if (from > to) {
+        throw new CronError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      from = parseValue(range, spec);
+      // "5/15" means from 5 to the end in steps of 15
+      to = stepText === undefined ? from : spec.max;
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`"${expression}" is not a cron expression: expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+// Wall-clock fields of an instant in a zone
+export interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      });
+    } catch {
+      throw new CronError(`Unknown time zone "${timeZone}"`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function assertTimeZone(timeZone: string) {
+  formatterFor(timeZone);
+}
+
+export function zonedTime(instant: Date, timeZone: string): ZonedTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+// The zone's offset from UTC at an instant, in milliseconds
+function offsetAt(instant: number, timeZone: string): number {
+  const t = zonedTime(new Date(instant), timeZone);
+  return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute) - Math.floor(instant / 60000) * 60000;
+}
+
+// The instant a wall-clock time happens in a zone. The offset is looked up
+// twice because the first guess can land on the other side of a DST change;
+// a time inside a DST gap never happens, and comes out shifted past the gap.
+export function fromZonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const first = wall - offsetAt(wall, timeZone);
+  const second = wall - offsetAt(first, timeZone);
+  if (offsetAt(second, timeZone) === wall - second) {
+    return new Date(second);
+  }
+  return new Date(Math.max(first, second));
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const minuteOfDay = (text: string) => {
+  const match = /^(\d{2}):(\d{2})$/.exec(text);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new CronError(`Invalid blackout time "${text}": expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+// Validates windows from a request body or the database
+export function parseBlackoutWindows(input: unknown): BlackoutWindow[] {
+  if (input === null || input === undefined) return [];
+  if (!Array.isArray(input)) {
+    throw new CronError("blackout_windows must be an array");
+  }
+  return input.map((raw, i) => {
+    if (!raw || typeof raw !== "object") {
+      throw new CronError(`Blackout window ${i + 1} must be an object`);
+    }
+    const { days, dates, start, end, label } = raw as Record<string, unknown>;
+    const window: BlackoutWindow = {};
+    if (days !== undefined) {
+      if (!Array.isArray(days) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 7)) {
+        throw new CronError(`Blackout window ${i + 1}: days must be numbers 0-7 (0 and 7 are Sunday)`);
+      }
+      window.days = days.map((day) => day % 7);
+    }
+    if (dates !== undefined) {
+      if (!Array.isArray(dates) || dates.some((date) => typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+        throw new CronError(`Blackout window ${i + 1}: dates must be YYYY-MM-DD strings`);
+      }
+      window.dates = dates as string[];
+    }
+    for (const [key, value] of [["start", start], ["end", end]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== "string") {
+        throw new CronError(`Blackout window ${i + 1}: ${key} must be "HH:MM"`);
+      }
+      minuteOfDay(value);
+      window[key] = value;
+    }
+    if (label !== undefined) window.label = String(label);
+    if (!window.days && !window.dates && !window.start && !window.end) {
+      throw new CronError(`Blackout window ${i + 1} has no days, dates or times, so it would block every run`);
+    }
+    return window;
+  });
+}
+
+function inWindow(time: ZonedTime, window: BlackoutWindow): boolean {
+  if (window.days && !window.days.includes(time.weekday)) return false;
+  if (window.dates && !window.dates.includes(`${time.year}-${pad(time.month)}-${pad(time.day)}`)) return false;
+  const minute = time.hour * 60 + time.minute;
+  if (window.start && minute < minuteOfDay(window.start)) return false;
+  if (window.end && minute >= minuteOfDay(window.end)) return false;
+  return true;
+}
+
+// The first window the instant falls in, if any
+export function blackoutAt(instant: Date, timeZone: string, windows: BlackoutWindow[]): BlackoutWindow | null {
+  if (windows.length === 0) return null;
+  const time = zonedTime(instant, timeZone);
+  return windows.find((window) => inWindow(time, window)) ?? null;
+}
+
+function dayMatches(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const byMonthDay = schedule.daysOfMonth.has(day);
+  const byWeekday = schedule.daysOfWeek.has(weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return byMonthDay || byWeekday;
+  }
+  return byMonthDay && byWeekday;
+}
+
+// Far enough for "0 0 29 2 1" (a Monday 29 February) to come round
+const MAX_SEARCH_DAYS = 366 * 28;
+
+// The first run strictly after `after`, skipping runs inside a blackout
+// window; null when the expression never matches (e.g. 30 February).
+export function nextRun(schedule: CronSchedule, after: Date, timeZone = "UTC", blackouts: BlackoutWindow[] = []): Date | null {
+  const start = zonedTime(new Date(after.getTime() + 60000), timeZone);
+  const startMinute = start.hour * 60 + start.minute;
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    if (!schedule.months.has(month) || !dayMatches(schedule, day, date.getUTCDay())) continue;
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        if (offset === 0 && hour * 60 + minute < startMinute) continue;
+        const candidate = fromZonedTime(year, month, day, hour, minute, timeZone);
+        // Wall-clock times repeated or skipped by DST can map to an instant already passed
+        if (candidate.getTime() <= after.getTime()) continue;
+        if (blackoutAt(candidate, timeZone, blackouts)) continue;
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+// Runs in (after, until], oldest first, at most `limit` of them
+export function runsBetween(
+  schedule: CronSchedule,
+  after: Date,
+  until: Date,
+  timeZone = "UTC",
+  blackouts: BlackoutWindow[] = [],
+  limit = 100,
+): Date[] {
+  const runs: Date[] = [];
+  let cursor = after;
+  while (runs.length < limit) {
+    const next = nextRun(schedule, cursor, timeZone, blackouts);
+    if (!next || next.getTime() > until.getTime()) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
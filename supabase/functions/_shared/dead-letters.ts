@@ -0,0 +1,137 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Dead letters: revenue tasks that failed for good, copied into
+// revenue_task_dead_letters by a trigger on autonomous_revenue_task_queue.
+// A dead letter is requeued, optionally with a corrected payload, or purged;
+// either way the row stays with who resolved it and why. While more than the
+// stripe_config dead_letter_alert threshold are waiting, one
+// dead_letter_queue alert is open in autonomous_revenue_alerts.
+
+export const DEAD_LETTER_ALERT_CONFIG_KEY = "dead_letter_alert";
+export const DEFAULT_DEAD_LETTER_THRESHOLD = 25;
+
+export type DeadLetterStatus = "dead" | "requeued" | "purged";
+
+export interface DeadLetter {
+  id: string;
+  task_id: string;
+  task_type: string;
+  payload: unknown;
+  priority: number;
+  retry_count: number;
+  max_retries: number;
+  error_message: string | null;
+  worker_id: string | null;
+  task_created_at: string | null;
+  failed_at: string;
+  status: DeadLetterStatus;
+  requeued_payload: unknown;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+}
+
+export const DEAD_LETTER_COLUMNS =
+  "id, task_id, task_type, payload, priority, retry_count, max_retries, error_message, worker_id, task_created_at, failed_at, status, requeued_payload, resolved_at, resolved_by, resolution_note";
+
+export class DeadLetterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeadLetterError";
+  }
+}
+
+export interface DeadLetterGroup {
+  task_type: string;
+  // The error with IDs, amounts and times blanked out, so one fault is one group
+  error: string;
+  count: number;
+  first_failed_at: string;
+  last_failed_at: string;
+  dead_letter_ids: string[];
+}
+
+// Reduces an error message to its shape: UUIDs, Stripe object IDs and
+// numbers become placeholders
+export function errorSignature(message: string | null): string {
+  if (!message) return "(no error message)";
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/\b[a-z]{2,5}_[A-Za-z0-9]{8,}\b/g, "<id>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .trim();
+}
+
+// Groups dead letters by task type and error signature, largest group first
+export function groupDeadLetters(letters: Pick<DeadLetter, "id" | "task_type" | "error_message" | "failed_at">[]): DeadLetterGroup[] {
+  const groups = new Map<string, DeadLetterGroup>();
+  for (const letter of letters) {
+    const error = errorSignature(letter.error_message);
+    const key = `${letter.task_type}\u0000${error}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        task_type: letter.task_type,
+        error,
+        count: 1,
+        first_failed_at: letter.failed_at,
+        last_failed_at: letter.failed_at,
+        dead_letter_ids: [letter.id],
+      });
+      continue;
+    }
+    group.count++;
+    group.dead_letter_ids.push(letter.id);
+    if (letter.failed_at < group.first_failed_at) group.first_failed_at = letter.failed_at;
+    if (letter.failed_at > group.last_failed_at) group.last_failed_at = letter.failed_at;
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.task_type.localeCompare(b.task_type));
+}
+
+export async function loadDeadLetterThreshold(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("value")
+    .eq("key", DEAD_LETTER_ALERT_CONFIG_KEY)
+    .maybeSingle();
+  if (error) {
+    throw new DeadLetterError(`Failed to load the dead-letter alert threshold: ${error.message}`);
+  }
+  try {
+    const threshold = Number(JSON.parse(data?.value ?? "{}").threshold);
+    return Number.isInteger(threshold) && threshold >= 0 ? threshold : DEFAULT_DEAD_LETTER_THRESHOLD;
+  } catch {
+    return DEFAULT_DEAD_LETTER_THRESHOLD;
+  }
+}
+
+export async function requeueDeadLetters(
+  supabase: SupabaseClient,
+  ids: string[],
+  actor: string,
+  payloads: Record<string, unknown>,
+  note: string | null,
+): Promise<Array<{ dead_letter_id: string; task_id: string }>> {
+  const { data, error } = await supabase.rpc("requeue_dead_letters", {
+    p_ids: ids,
+    p_actor: actor,
+    p_payloads: payloads,
+    p_note: note,
+  });
+  if (error) {
+    throw new DeadLetterError(`Failed to requeue dead letters: ${error.message}`);
+  }
+  return (data as { requeued: Array<{ dead_letter_id: string; task_id: string }> }).requeued;
+}
+
+export async function purgeDeadLetters(supabase: SupabaseClient, ids: string[], actor: string, reason: string): Promise<number> {
+  const { data, error } = await supabase.rpc("purge_dead_letters", {
+    p_ids: ids,
+    p_actor: actor,
+    p_reason: reason,
+  });
+  if (error) {
+    throw new DeadLetterError(`Failed to purge dead letters: ${error.message}`);
+  }
+  return data as number;
+}
@@ -0,0 +1,168 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { Stripe } from "./clients.ts";
+import { HttpError } from "./envelope.ts";
+import { formatCents } from "./money.ts";
+
+// Where transfers go. Destinations live in stripe_destinations and are
+// managed through manage-destinations; a transfer function asks for the
+// destination for its currency and checks the amount against its limits
+// before calling Stripe.
+
+export type VerificationStatus = "unverified" | "verified" | "failed";
+
+export interface Destination {
+  id: string;
+  account_id: string;
+  account_type: string | null;
+  currency: string;
+  label: string | null;
+  is_active: boolean;
+  is_default: boolean;
+  verification_status: VerificationStatus;
+  verification_error: string | null;
+  verified_at: string | null;
+  min_transfer_cents: number | null;
+  max_transfer_cents: number | null;
+  daily_limit_cents: number | null;
+}
+
+export const DESTINATION_COLUMNS =
+  "id, account_id, account_type, currency, label, is_active, is_default, verification_status, verification_error, verified_at, min_transfer_cents, max_transfer_cents, daily_limit_cents";
+
+// Attempts in these states count against the daily limit; failed and cancelled ones moved no money
+const COMMITTED_STATUSES = ["submitted", "pending_at_provider", "paid"];
+
+// The verified, active destination for `currency`, preferring the default
+export async function resolveDestination(supabase: SupabaseClient, currency = "usd"): Promise<Destination> {
+  const { data, error } = await supabase
+    .from("stripe_destinations")
+    .select(DESTINATION_COLUMNS)
+    .eq("currency", currency.toLowerCase())
+    .eq("is_active", true)
+    .eq("verification_status", "verified")
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load transfer destinations: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(503, "no_verified_destination", `No verified ${currency.toUpperCase()} transfer destination is configured`, {
+      currency: currency.toLowerCase(),
+      message: "Add a destination account in Settings and verify it with Stripe before transferring",
+      setup_required: true,
+    });
+  }
+  return data as Destination;
+}
+
+// Sum of today's (UTC) transfers to the destination that reached Stripe or may have.
+// Only transfers tracked in transfer_attempts are counted.
+export async function getDestinationUsageToday(supabase: SupabaseClient, destination: Destination): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const { data, error } = await supabase
+    .from("transfer_attempts")
+    .select("amount")
+    .eq("destination", destination.account_id)
+    .in("status", COMMITTED_STATUSES)
+    .gte("created_at", startOfDay.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to read transfers to ${destination.account_id}: ${error.message}`);
+  }
+  return (data || []).reduce((sum, row) => sum + Number(row.amount || 0), 0);
+}
+
+// Throws a 422 naming the limit `amountCents` would break
+export async function assertWithinDestinationLimits(
+  supabase: SupabaseClient,
+  destination: Destination,
+  amountCents: number,
+): Promise<void> {
+  const details = {
+    destination_account: destination.account_id,
+    amount_cents: amountCents,
+    min_transfer_cents: destination.min_transfer_cents,
+    max_transfer_cents: destination.max_transfer_cents,
+    daily_limit_cents: destination.daily_limit_cents,
+  };
+
+  if (destination.min_transfer_cents !== null && amountCents < destination.min_transfer_cents) {
+    throw new HttpError(422, "destination_limit_exceeded", `Transfer is below the ${formatCents(destination.min_transfer_cents)} minimum for ${destination.account_id}`, details);
+  }
+  if (destination.max_transfer_cents !== null && amountCents > destination.max_transfer_cents) {
+    throw new HttpError(422, "destination_limit_exceeded", `Transfer is above the ${formatCents(destination.max_transfer_cents)} maximum for ${destination.account_id}`, details);
+  }
+  if (destination.daily_limit_cents !== null) {
+    const usedToday = await getDestinationUsageToday(supabase, destination);
+    if (usedToday + amountCents > destination.daily_limit_cents) {
+      throw new HttpError(422, "destination_limit_exceeded", `Transfer would exceed the ${formatCents(destination.daily_limit_cents)} daily limit for ${destination.account_id}`, {
+        ...details,
+        used_today_cents: usedToday,
+      });
+    }
+  }
+}
+
+// Asks Stripe whether the account can receive transfers and records the answer
+export async function verifyDestination(supabase: SupabaseClient, stripe: Stripe, destinationId: string): Promise<Destination> {
+  const { data: destination, error } = await supabase
+    .from("stripe_destinations")
+    .select(DESTINATION_COLUMNS)
+    .eq("id", destinationId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load destination ${destinationId}: ${error.message}`);
+  }
+  if (!destination) {
+    throw new HttpError(404, "destination_not_found", `Destination ${destinationId} not found`);
+  }
+
+  let status: VerificationStatus;
+  let verificationError: string | null = null;
+  let capabilities: Record<string, unknown> = {};
+
+  try {
+    const account = await stripe.accounts.retrieve(destination.account_id);
+    capabilities = { ...account.capabilities };
+    const transfers = account.capabilities?.transfers;
+
+    if (transfers === "active") {
+      status = "verified";
+    } else {
+      status = "failed";
+      verificationError = account.requirements?.disabled_reason
+        ? `Transfers capability is ${transfers ?? "missing"}: ${account.requirements.disabled_reason}`
+        : `Transfers capability is ${transfers ?? "missing"}`;
+    }
+  } catch (stripeError) {
+    const err = stripeError as { code?: string; message?: string };
+    // Anything but "no such account" is Stripe being unavailable, not an answer about the account
+    if (err.code !== "resource_missing" && err.code !== "account_invalid") {
+      throw stripeError;
+    }
+    status = "failed";
+    verificationError = err.message ?? "Stripe does not recognise this account";
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("stripe_destinations")
+    .update({
+      verification_status: status,
+      verification_error: verificationError,
+      verified_at: status === "verified" ? new Date().toISOString() : null,
+      capabilities,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", destinationId)
+    .select(DESTINATION_COLUMNS)
+    .single();
+  if (updateError) {
+    throw new Error(`Failed to record verification of ${destination.account_id}: ${updateError.message}`);
+  }
+  return updated as Destination;
+}
@@ -0,0 +1,44 @@
+import { corsHeaders } from "./cors.ts";
+
+// JSON envelopes returned by every function. Success bodies carry
+// `success: true` next to their payload; error bodies carry `success: false`,
+// a human-readable `error` and a machine-readable `error_code`.
+
+export type SuccessEnvelope<T extends Record<string, unknown>> = { success: true } & T;
+
+export type ErrorEnvelope = {
+  success: false;
+  error: string;
+  error_code: string;
+  [detail: string]: unknown;
+};
+
+// Thrown anywhere inside a handler to end the request with a specific status
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+    status,
+  });
+}
+
+export function ok<T extends Record<string, unknown>>(data: T, status = 200): Response {
+  const body: SuccessEnvelope<T> = { success: true, ...data };
+  return jsonResponse(body, status);
+}
+
+export function fail(status: number, code: string, error: string, details: Record<string, unknown> = {}): Response {
+  const body: ErrorEnvelope = { ...details, success: false, error, error_code: code };
+  return jsonResponse(body, status);
+}
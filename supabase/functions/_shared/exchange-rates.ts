@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { DEFAULT_CURRENCY, convert, sum, type Money } from "./money.ts";
+
+// Dated exchange rate snapshots in the exchange_rates table. Amounts are
+// stored and moved in their own currency; these rates are only used to report
+// them together in one reporting currency.
+//
+// A snapshot file, for loading rates without network access, looks like:
+//   { "base": "usd", "as_of": "2026-10-19", "rates": { "eur": 0.92, "gbp": 0.79 } }
+
+export const REPORTING_CURRENCY_CONFIG_KEY = "reporting_currency";
+
+export interface RateSnapshot {
+  base_currency: string;
+  // YYYY-MM-DD the rates apply from
+  as_of: string;
+  // Units of each currency per one unit of base_currency
+  rates: Record<string, number>;
+  source: string;
+}
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateError";
+  }
+}
+
+const CURRENCY_CODE = /^[a-z]{3}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeCurrencyCode(value: unknown): string {
+  const code = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!CURRENCY_CODE.test(code)) {
+    throw new ExchangeRateError(`Not a currency code: ${JSON.stringify(value)}`);
+  }
+  return code;
+}
+
+// Validates a snapshot from a file or a request body. Accepts "base" or
+// "base_currency", and "as_of" or "date".
+export function parseRateSnapshot(input: unknown, source: string): RateSnapshot {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new ExchangeRateError("A rate snapshot must be a JSON object");
+  }
+  const raw = input as Record<string, unknown>;
+  const base = normalizeCurrencyCode(raw.base ?? raw.base_currency);
+  const asOf = String(raw.as_of ?? raw.date ?? "");
+  if (!DATE.test(asOf) || Number.isNaN(Date.parse(asOf))) {
+    throw new ExchangeRateError(`as_of must be a YYYY-MM-DD date, got ${JSON.stringify(raw.as_of ?? raw.date)}`);
+  }
+  if (!raw.rates || typeof raw.rates !== "object" || Array.isArray(raw.rates)) {
+    throw new ExchangeRateError("rates must map currency codes to numbers");
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(raw.rates as Record<string, unknown>)) {
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      throw new ExchangeRateError(`The rate for ${code} must be a positive number`);
+    }
+    rates[normalizeCurrencyCode(code)] = rate;
+  }
+  rates[base] = 1;
+  return { base_currency: base, as_of: asOf, rates, source };
+}
+
+// Units of `to` per unit of `from`, crossing through the snapshot's base.
+// Same-currency conversions need no snapshot.
+export function rateBetween(snapshot: RateSnapshot | null, from: string, to: string): number {
+  const source = from.toLowerCase();
+  const target = to.toLowerCase();
+  if (source === target) return 1;
+  if (!snapshot) {
+    throw new ExchangeRateError(`No exchange rates have been loaded to convert ${source} to ${target}`);
+  }
+
+  const fromRate = source === snapshot.base_currency ? 1 : snapshot.rates[source];
+  const toRate = target === snapshot.base_currency ? 1 : snapshot.rates[target];
+  if (!fromRate || !toRate) {
+    throw new ExchangeRateError(`The ${snapshot.as_of} rates have no ${fromRate ? target : source} rate`);
+  }
+  return toRate / fromRate;
+}
+
+export function convertMoney(value: Money, currency: string, snapshot: RateSnapshot | null): Money {
+  return convert(value, currency, rateBetween(snapshot, value.currency, currency));
+}
+
+// Adds up amounts in any currencies as one amount in `currency`
+export function totalIn(values: Money[], currency: string, snapshot: RateSnapshot | null): Money {
+  return sum(values.map((value) => convertMoney(value, currency, snapshot)), currency);
+}
+
+const toSnapshot = (row: { base_currency: string; as_of: string; rates: unknown; source: string }): RateSnapshot =>
+  parseRateSnapshot({ base: row.base_currency, as_of: row.as_of, rates: row.rates }, row.source);
+
+// The newest snapshot on or before asOf (default today); null when there is none
+export async function loadRateSnapshot(supabase: SupabaseClient, asOf?: string): Promise<RateSnapshot | null> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("base_currency, as_of, rates, source")
+    .lte("as_of", asOf ?? new Date().toISOString().slice(0, 10))
+    .order("as_of", { ascending: false })
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new ExchangeRateError(`Failed to load exchange rates: ${error.message}`);
+  }
+  return data ? toSnapshot(data) : null;
+}
+
+export async function listRateSnapshots(supabase: SupabaseClient, limit = 30): Promise<RateSnapshot[]> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("base_currency, as_of, rates, source")
+    .order("as_of", { ascending: false })
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new ExchangeRateError(`Failed to list exchange rates: ${error.message}`);
+  }
+  return (data || []).map(toSnapshot);
+}
+
+// Replaces the snapshot for the same base, date and source, if there is one
+export async function saveRateSnapshot(supabase: SupabaseClient, snapshot: RateSnapshot): Promise<RateSnapshot> {
+  const { data: existing, error: loadError } = await supabase
+    .from("exchange_rates")
+    .select("id")
+    .eq("base_currency", snapshot.base_currency)
+    .eq("as_of", snapshot.as_of)
+    .eq("source", snapshot.source)
+    .limit(1)
+    .maybeSingle();
+  if (loadError) {
+    throw new ExchangeRateError(`Failed to load exchange rates: ${loadError.message}`);
+  }
+
+  const row = { ...snapshot, updated_at: new Date().toISOString() };
+  const { error } = existing
+    ? await supabase.from("exchange_rates").update(row).eq("id", existing.id)
+    : await supabase.from("exchange_rates").insert(row);
+  if (error) {
+    throw new ExchangeRateError(`Failed to save the ${snapshot.as_of} exchange rates: ${error.message}`);
+  }
+  return snapshot;
+}
+
+// Reads a snapshot file from disk, e.g. the one EXCHANGE_RATES_FILE points at
+export async function readRateFile(path: string): Promise<RateSnapshot> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new ExchangeRateError(`Cannot read exchange rate file ${path}: ${(error as Error).message}`);
+  }
+  try {
+    return parseRateSnapshot(JSON.parse(text), "file");
+  } catch (error) {
+    if (error instanceof ExchangeRateError) throw error;
+    throw new ExchangeRateError(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+export async function loadReportingCurrency(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("value")
+    .eq("key", REPORTING_CURRENCY_CONFIG_KEY)
+    .maybeSingle();
+  if (error) {
+    throw new ExchangeRateError(`Failed to load the reporting currency: ${error.message}`);
+  }
+  return data?.value ? data.value.toLowerCase() : DEFAULT_CURRENCY;
+}
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { HttpError } from "./envelope.ts";
+import type { HandlerContext } from "./handler.ts";
+
+// Velocity limits and the circuit breaker.
+//
+// Every provider call that moves money is bracketed by authorizeMovement and
+// recordMovementResult. The checks run in authorize_money_movement against the
+// limits in financial_failsafe_config: single-transfer, hourly and daily
+// amounts, daily count and per-destination daily amount. Too many failures or
+// an outsized amount halt all movement until a treasurer resumes it from the
+// Safety page (manage-failsafe).
+
+export interface FailsafeLimits {
+  max_single_transfer_cents?: number | null;
+  hourly_amount_cents?: number | null;
+  daily_amount_cents?: number | null;
+  daily_transfer_count?: number | null;
+  per_destination_daily_cents?: number | null;
+  failure_count?: number | null;
+  failure_window_minutes?: number | null;
+  anomaly_multiplier?: number | null;
+  anomaly_sample?: number | null;
+}
+
+export interface MovementRequest {
+  provider: "stripe" | "paypal" | "modern_treasury";
+  // Connected account, bank or payee; null for the platform's own bank account
+  destination: string | null;
+  amountCents: number;
+  currency?: string;
+}
+
+interface AuthorizationResult {
+  allowed: boolean;
+  movement_id?: string;
+  reason?: string;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+// Reasons that mean movement is stopped altogether, rather than this amount being too much
+const HALT_REASONS = ["halted", "anomaly"];
+
+// Returns the money_movements ID to report the outcome against
+export async function authorizeMovement(ctx: HandlerContext, movement: MovementRequest): Promise<string> {
+  const { data, error } = await ctx.supabase.rpc("authorize_money_movement", {
+    p_function_name: ctx.name,
+    p_provider: movement.provider,
+    p_destination: movement.destination,
+    p_amount_cents: movement.amountCents,
+    p_currency: movement.currency ?? "usd",
+    p_execution_id: ctx.executionId,
+  });
+  if (error) {
+    throw new Error(`Failed to authorize money movement: ${error.message}`);
+  }
+
+  const result = data as AuthorizationResult;
+  if (result.allowed && result.movement_id) {
+    return result.movement_id;
+  }
+
+  const { allowed: _allowed, reason, message, ...details } = result;
+  console.warn(`[${ctx.executionId}] Failsafe refused ${movement.amountCents} cents via ${movement.provider}: ${reason}`);
+  if (HALT_REASONS.includes(reason ?? "")) {
+    throw new HttpError(423, "money_movement_halted", message ?? "Money movement is halted", { reason, ...details });
+  }
+  throw new HttpError(429, "velocity_limit_exceeded", message ?? "Velocity limit exceeded", {
+    reason,
+    amount_cents: movement.amountCents,
+    ...details,
+  });
+}
+
+// Reports the outcome; pass the provider error for a failure. Never throws, so
+// bookkeeping problems cannot mask the provider's own result.
+export async function recordMovementResult(supabase: SupabaseClient, movementId: string, failure?: unknown): Promise<void> {
+  const { data, error } = await supabase.rpc("record_money_movement_result", {
+    p_movement_id: movementId,
+    p_succeeded: failure === undefined,
+    p_error_message: failure === undefined ? undefined : (failure as Error)?.message ?? String(failure),
+  });
+  if (error) {
+    console.error(`Failed to record money movement ${movementId}: ${error.message}`);
+    return;
+  }
+  if ((data as { tripped?: boolean })?.tripped) {
+    console.error(`Circuit breaker tripped after money movement ${movementId} failed`);
+  }
+}
+
+// Authorizes, runs the provider call and reports how it went
+export async function guardMovement<T>(ctx: HandlerContext, movement: MovementRequest, call: () => Promise<T>): Promise<T> {
+  const movementId = await authorizeMovement(ctx, movement);
+  try {
+    const result = await call();
+    await recordMovementResult(ctx.supabase, movementId);
+    return result;
+  } catch (error) {
+    await recordMovementResult(ctx.supabase, movementId, error);
+    throw error;
+  }
+}
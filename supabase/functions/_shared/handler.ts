@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { preflightResponse } from "./cors.ts";
+import { createServiceClient } from "./clients.ts";
+import { HttpError, fail } from "./envelope.ts";
+import { AuthError, authenticate, authErrorResponse, createServiceToken, requireRole, SERVICE_TOKEN_HEADER, type AuthContext, type Role } from "./auth.ts";
+import { IDEMPOTENCY_HEADER, runIdempotent } from "./idempotency.ts";
+import { LedgerError } from "./ledger.ts";
+import { isDryRunRequest } from "./plan.ts";
+import { TransferStateError } from "./transfer-state.ts";
+
+// Request wrapper shared by every edge function: answers CORS preflight,
+// assigns the execution ID, authenticates, applies idempotency and maps any
+// thrown error to a JSON error envelope.
+
+export const EXECUTION_ID_HEADER = "x-execution-id";
+
+export interface HandlerOptions {
+  // Function name, used as the idempotency scope and in logs
+  name: string;
+  // Prefix for generated execution IDs, e.g. "payout" -> payout_1760000000000_ab12cd
+  executionPrefix?: string;
+  // Minimum role; omit for public functions that do their own caller checks
+  role?: Role;
+  // Honour the Idempotency-Key header (dry runs bypass it)
+  idempotent?: boolean;
+}
+
+export interface HandlerContext {
+  name: string;
+  req: Request;
+  executionId: string;
+  supabase: SupabaseClient;
+  auth: AuthContext | null;
+  idempotencyKey: string | null;
+}
+
+export function createExecutionId(prefix = "exec"): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Stripe SDK errors expose their class name as `type`
+const STRIPE_ERROR_STATUS: Record<string, number> = {
+  StripeCardError: 402,
+  StripeInvalidRequestError: 400,
+  StripeIdempotencyError: 409,
+  StripeRateLimitError: 429,
+  StripeAuthenticationError: 502,
+  StripePermissionError: 502,
+  StripeConnectionError: 502,
+  StripeAPIError: 502,
+};
+
+export function errorResponse(error: unknown, executionId: string): Response {
+  if (error instanceof AuthError) {
+    return authErrorResponse(error);
+  }
+  if (error instanceof HttpError) {
+    return fail(error.status, error.code, error.message, { ...error.details, execution_id: executionId });
+  }
+  if (error instanceof TransferStateError) {
+    return fail(409, "invalid_transfer_state", error.message, { execution_id: executionId });
+  }
+  if (error instanceof LedgerError) {
+    return fail(500, "ledger_error", error.message, { execution_id: executionId });
+  }
+
+  const err = error as { type?: string; code?: string; message?: string };
+  if (err?.type && err.type in STRIPE_ERROR_STATUS) {
+    return fail(STRIPE_ERROR_STATUS[err.type], "stripe_error", err.message || "Stripe request failed", {
+      stripe_error_type: err.type,
+      stripe_error_code: err.code ?? null,
+      execution_id: executionId,
+    });
+  }
+
+  return fail(500, "internal_error", err?.message || "Unknown error", { execution_id: executionId });
+}
+
+function withExecutionId(response: Response, executionId: string): Response {
+  const headers = new Headers(response.headers);
+  headers.set(EXECUTION_ID_HEADER, executionId);
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+export function createHandler(options: HandlerOptions, handler: (ctx: HandlerContext) => Promise<Response>) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === "OPTIONS") {
+      return preflightResponse();
+    }
+
+    // Reuse the caller's execution ID so one run can be traced across functions
+    const executionId = req.headers.get(EXECUTION_ID_HEADER) || createExecutionId(options.executionPrefix);
+    const supabase = createServiceClient();
+
+    let response: Response;
+    try {
+      const auth = options.role ? await authenticate(req, supabase) : null;
+      if (auth && options.role) {
+        requireRole(auth, options.role);
+      }
+
+      const run = (idempotencyKey: string | null) => handler({ name: options.name, req, executionId, supabase, auth, idempotencyKey });
+      // A dry run changes nothing, so it is neither stored nor replayed
+      response = options.idempotent && !(await isDryRunRequest(req))
+        ? await runIdempotent(supabase, req, options.name, run)
+        : await run(null);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        console.warn(`[${executionId}] 🔒 ${options.name} rejected caller: ${error.message}`);
+      } else {
+        console.error(`[${executionId}] 💥 ${options.name} failed:`, error);
+      }
+      response = errorResponse(error, executionId);
+    }
+
+    return withExecutionId(response, executionId);
+  };
+}
+
+// Calls another edge function, carrying the execution ID along. With
+// SERVICE_AUTH_SECRET set the call is scoped to `role` by a service token;
+// otherwise the service client's own key authenticates it. Functions that move
+// money need `idempotencyKey`, the same on any retry of the call.
+export async function invokeFunction<T = unknown>(
+  ctx: HandlerContext,
+  name: string,
+  body: Record<string, unknown> = {},
+  role: Role = "operator",
+  idempotencyKey?: string,
+): Promise<{ data: T | null; error: Error | null }> {
+  const headers: Record<string, string> = { [EXECUTION_ID_HEADER]: ctx.executionId };
+  if (idempotencyKey) {
+    headers[IDEMPOTENCY_HEADER] = idempotencyKey;
+  }
+  if (Deno.env.get("SERVICE_AUTH_SECRET")) {
+    headers[SERVICE_TOKEN_HEADER] = await createServiceToken(ctx.name, role);
+  }
+
+  const { data, error } = await ctx.supabase.functions.invoke(name, { body, headers });
+  return { data: data as T | null, error: error as Error | null };
+}
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { HttpError, fail, jsonResponse } from "./envelope.ts";
+
+// Idempotency for the functions that move money.
+//
+// Callers may send an `Idempotency-Key` header. The first request with a key
+// runs the handler and stores its response in public.idempotency_keys; any
+// replay of that key returns the stored response instead of running again.
+// Separately, every Stripe create call gets a key derived from the logical
+// transfer it belongs to, so SDK or loop retries can never move money twice.
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+// An in-progress key older than this is assumed to belong to a crashed invocation
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Builds the key passed to Stripe for one logical transfer or payout. The same
+// parts always give the same key, so retries are collapsed by Stripe.
+export function stripeIdempotencyKey(scope: string, ...parts: Array<string | number>): string {
+  return [scope, ...parts].join(":");
+}
+
+// The logical operation a money-moving run carries out, for deriving its
+// Stripe key: the approval it executes, else the caller's Idempotency-Key. The
+// execution ID will not do, since a retried request gets a new one. Throws a
+// 400 HttpError when the request has neither.
+export function operationId(idempotencyKey: string | null, body: Record<string, unknown>): string {
+  if (typeof body.approval_id === "string") {
+    return `approval:${body.approval_id}`;
+  }
+  if (idempotencyKey) {
+    return idempotencyKey;
+  }
+  throw new HttpError(400, "idempotency_key_required", "Send an Idempotency-Key header, and the same one on any retry of this request");
+}
+
+// Runs `run` at most once per Idempotency-Key; requests without a key always run
+export async function runIdempotent(
+  supabase: SupabaseClient,
+  req: Request,
+  scope: string,
+  run: (idempotencyKey: string | null) => Promise<Response>,
+): Promise<Response> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER);
+  if (!key) {
+    return run(null);
+  }
+
+  const requestHash = await sha256(await req.clone().text());
+
+  const { error: claimError } = await supabase
+    .from("idempotency_keys")
+    .insert({ key, scope, request_hash: requestHash });
+
+  if (claimError) {
+    const { data: existing } = await supabase
+      .from("idempotency_keys")
+      .select("*")
+      .eq("scope", scope)
+      .eq("key", key)
+      .maybeSingle();
+
+    if (!existing) {
+      throw new Error(`Failed to record idempotency key: ${claimError.message}`);
+    }
+
+    if (existing.request_hash !== requestHash) {
+      return fail(422, "idempotency_key_reused", "Idempotency-Key was already used with a different request body");
+    }
+
+    if (existing.status === "completed") {
+      console.log(`[${scope}] ♻️ Replaying stored response for idempotency key ${key}`);
+      return jsonResponse(JSON.parse(existing.response_body), existing.response_status ?? 200, {
+        "Idempotent-Replayed": "true",
+      });
+    }
+
+    // Take over a key whose original invocation died; the derived Stripe keys
+    // make re-running it safe
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+    const { data: takenOver } = await supabase
+      .from("idempotency_keys")
+      .update({ created_at: new Date().toISOString() })
+      .eq("scope", scope)
+      .eq("key", key)
+      .eq("status", "in_progress")
+      .lt("created_at", staleBefore)
+      .select("key");
+
+    if (!takenOver || takenOver.length === 0) {
+      return fail(409, "idempotency_key_in_progress", "A request with this Idempotency-Key is still in progress");
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await run(key);
+  } catch (error) {
+    await supabase.from("idempotency_keys").delete().eq("scope", scope).eq("key", key);
+    throw error;
+  }
+
+  // Server errors are not cached so the caller can retry them with the same key
+  if (response.status >= 500) {
+    await supabase.from("idempotency_keys").delete().eq("scope", scope).eq("key", key);
+    return response;
+  }
+
+  const body = await response.clone().text();
+  await supabase
+    .from("idempotency_keys")
+    .update({
+      status: "completed",
+      response_status: response.status,
+      response_body: body,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("scope", scope)
+    .eq("key", key);
+
+  return response;
+}
@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { DEFAULT_CURRENCY, equals, fromMajorUnits, sum, toMajorUnits, type Money } from "./money.ts";
+
+// Double-entry ledger shared by the edge functions. Every movement of money is
+// posted as a balanced journal through the post_ledger_journal RPC, and every
+// balance is read back from the ledger views: ledger_currency_balances per
+// account and currency, ledger_account_balances for USD alone. A journal is in
+// one currency. The journal tables hold NUMERIC major units; the record*
+// functions take Money.
+
+export const LEDGER_ACCOUNTS = {
+  APPLICATION_BALANCE: "1000",
+  PAYOUTS_IN_TRANSIT: "1100",
+  BANK_ACCOUNT: "1200",
+  CONNECTED_ACCOUNTS: "1300",
+  TREASURY_OPERATING: "1400",
+  SWEEP_RESERVE: "1500",
+  OPENING_BALANCE_EQUITY: "3000",
+  REVENUE: "4000",
+  PROCESSING_FEES: "5000",
+} as const;
+
+export type LedgerAccountCode = typeof LEDGER_ACCOUNTS[keyof typeof LEDGER_ACCOUNTS];
+
+export interface JournalLine {
+  account_code: LedgerAccountCode;
+  // Major units of the journal currency, as post_ledger_journal stores them
+  debit?: number;
+  credit?: number;
+  description?: string;
+  entity_type?: string;
+  entity_id?: string;
+}
+
+export interface JournalPosting {
+  description: string;
+  lines: JournalLine[];
+  // Stable key for the business event; re-posting the same reference is a no-op
+  reference?: string;
+  metadata?: Record<string, unknown>;
+  // Currency of every line; USD when absent
+  currency?: string;
+}
+
+export interface LedgerAccountBalance {
+  account_code: string;
+  account_name: string;
+  account_type: string;
+  balance: number;
+  total_debit: number;
+  total_credit: number;
+  last_posted_at: string | null;
+}
+
+export interface LedgerCurrencyBalance extends LedgerAccountBalance {
+  currency: string;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Round to the minor unit so float noise never unbalances a journal
+const roundToMinorUnit = (amount: number, currency: string) => toMajorUnits(fromMajorUnits(amount, currency));
+
+export async function postJournal(supabase: SupabaseClient, posting: JournalPosting): Promise<string> {
+  const currency = posting.currency ?? DEFAULT_CURRENCY;
+  const lines = posting.lines.map((line) => ({
+    ...line,
+    debit: line.debit ? roundToMinorUnit(line.debit, currency) : undefined,
+    credit: line.credit ? roundToMinorUnit(line.credit, currency) : undefined,
+  }));
+
+  const debits = sum(lines.map((l) => fromMajorUnits(l.debit, currency)), currency);
+  const credits = sum(lines.map((l) => fromMajorUnits(l.credit, currency)), currency);
+  if (!equals(debits, credits)) {
+    throw new LedgerError(
+      `Unbalanced journal "${posting.description}": debits ${toMajorUnits(debits)} <> credits ${toMajorUnits(credits)}`,
+    );
+  }
+
+  const { data, error } = await supabase.rpc("post_ledger_journal", {
+    p_description: posting.description,
+    p_lines: lines,
+    p_reference: posting.reference ?? null,
+    p_metadata: posting.metadata ?? {},
+    p_currency: currency,
+  });
+
+  if (error) {
+    throw new LedgerError(`Failed to post journal "${posting.description}": ${error.message}`);
+  }
+
+  return data as string;
+}
+
+// Debit and credit account for each kind of two-line movement the functions post
+export const LEDGER_MOVEMENTS = {
+  earning: { debit: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: LEDGER_ACCOUNTS.REVENUE },
+  payout: { debit: LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT, credit: LEDGER_ACCOUNTS.APPLICATION_BALANCE },
+  connected_transfer: { debit: LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS, credit: LEDGER_ACCOUNTS.APPLICATION_BALANCE },
+  fee: { debit: LEDGER_ACCOUNTS.PROCESSING_FEES, credit: LEDGER_ACCOUNTS.APPLICATION_BALANCE },
+  // Stripe reports the payout landed in the bank
+  payout_settled: { debit: LEDGER_ACCOUNTS.BANK_ACCOUNT, credit: LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT },
+  // A failed payout is returned to the Stripe balance
+  payout_failed: { debit: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT },
+  transfer_reversal: { debit: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS },
+  // Refunds and lost disputes both take money back out of revenue
+  refund: { debit: LEDGER_ACCOUNTS.REVENUE, credit: LEDGER_ACCOUNTS.APPLICATION_BALANCE },
+  // Sweeps are posted by the reserve_sweep / finalize_sweep / release_sweep
+  // RPCs (see sweeps.ts); they appear here so plans can show them
+  sweep_reserve: { debit: LEDGER_ACCOUNTS.SWEEP_RESERVE, credit: LEDGER_ACCOUNTS.APPLICATION_BALANCE },
+  sweep_payout: { debit: LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT, credit: LEDGER_ACCOUNTS.SWEEP_RESERVE },
+  sweep_transfer: { debit: LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS, credit: LEDGER_ACCOUNTS.SWEEP_RESERVE },
+  sweep_release: { debit: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: LEDGER_ACCOUNTS.SWEEP_RESERVE },
+} as const;
+
+export type LedgerMovement = keyof typeof LEDGER_MOVEMENTS;
+
+// The journal a record* function below posts, without posting it; dry runs
+// return it as part of their plan
+export function movementJournal(
+  movement: LedgerMovement,
+  amount: Money,
+  reference: string,
+  description: string,
+  metadata?: Record<string, unknown>,
+): JournalPosting {
+  const { debit, credit } = LEDGER_MOVEMENTS[movement];
+  return {
+    description,
+    reference,
+    metadata,
+    currency: amount.currency,
+    lines: [
+      { account_code: debit, debit: toMajorUnits(amount) },
+      { account_code: credit, credit: toMajorUnits(amount) },
+    ],
+  };
+}
+
+function postMovement(movement: LedgerMovement) {
+  return (
+    supabase: SupabaseClient,
+    amount: Money,
+    reference: string,
+    description: string,
+    metadata?: Record<string, unknown>,
+  ) => postJournal(supabase, movementJournal(movement, amount, reference, description, metadata));
+}
+
+export const recordEarning = postMovement("earning");
+export const recordPayout = postMovement("payout");
+export const recordConnectedTransfer = postMovement("connected_transfer");
+export const recordFee = postMovement("fee");
+export const recordPayoutSettled = postMovement("payout_settled");
+export const recordPayoutFailed = postMovement("payout_failed");
+export const recordTransferReversal = postMovement("transfer_reversal");
+export const recordRefund = postMovement("refund");
+
+export async function hasJournal(supabase: SupabaseClient, reference: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("accounting_journals")
+    .select("id")
+    .eq("reference_number", reference)
+    .maybeSingle();
+  if (error) {
+    throw new LedgerError(`Failed to look up journal ${reference}: ${error.message}`);
+  }
+  return Boolean(data);
+}
+
+// When the ledger migration carried application_balance over. Revenue recorded
+// before it is already in the opening balance and must not be posted again.
+export async function getLedgerCutover(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("value")
+    .eq("key", "ledger_cutover")
+    .maybeSingle();
+  if (error) {
+    throw new LedgerError(`Failed to read the ledger cutover: ${error.message}`);
+  }
+
+  let at: unknown;
+  try {
+    at = data ? JSON.parse(data.value).at : undefined;
+  } catch {
+    at = undefined;
+  }
+  if (typeof at !== "string") {
+    throw new LedgerError("No ledger cutover recorded; the ledger migration has not run");
+  }
+  return at;
+}
+
+// In major units of currency; fromMajorUnits gives the Money
+export async function getLedgerBalance(
+  supabase: SupabaseClient,
+  accountCode: LedgerAccountCode,
+  currency: string = DEFAULT_CURRENCY,
+): Promise<number> {
+  const { data, error } = await supabase.rpc("get_ledger_balance", { p_account_code: accountCode, p_currency: currency });
+  if (error) {
+    throw new LedgerError(`Failed to read ledger balance for ${accountCode}: ${error.message}`);
+  }
+  return toMajorUnits(fromMajorUnits(data, currency));
+}
+
+// Every account's USD balance, from ledger_account_balances
+export async function getLedgerBalances(supabase: SupabaseClient): Promise<LedgerAccountBalance[]> {
+  const { data, error } = await supabase
+    .from("ledger_account_balances")
+    .select("account_code, account_name, account_type, balance, total_debit, total_credit, last_posted_at")
+    .order("account_code");
+
+  if (error) {
+    throw new LedgerError(`Failed to read ledger balances: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    balance: Number(row.balance || 0),
+    total_debit: Number(row.total_debit || 0),
+    total_credit: Number(row.total_credit || 0),
+  }));
+}
+
+// One row per account and currency the account has postings in
+export async function getLedgerCurrencyBalances(supabase: SupabaseClient): Promise<LedgerCurrencyBalance[]> {
+  const { data, error } = await supabase
+    .from("ledger_currency_balances")
+    .select("account_code, account_name, account_type, currency, balance, total_debit, total_credit, last_posted_at")
+    .order("account_code")
+    .order("currency");
+
+  if (error) {
+    throw new LedgerError(`Failed to read ledger balances by currency: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    balance: Number(row.balance || 0),
+    total_debit: Number(row.total_debit || 0),
+    total_credit: Number(row.total_credit || 0),
+  }));
+}
@@ -0,0 +1,189 @@
+import { HttpError } from "./envelope.ts";
+import { SSE_DONE, SSE_HEADERS, formatSseEvent } from "./sse.ts";
+import { estimatePromptTokens, estimateTokens } from "./tokens.ts";
+
+// Where ai-content-api sends its completions. Every provider speaks the
+// OpenAI chat-completions format and answers with a Response in it, JSON or
+// a text/event-stream, so callers read them all the same way.
+//
+// Providers are tried in the order AI_PROVIDERS lists them (default
+// "gateway,openai"), skipping ones without credentials or that do not serve
+// the model. A 429 or 5xx moves on to the next; any other answer is final.
+// AI_PROVIDERS=stub answers every request locally, for tests and offline work.
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  // A model ID from MODELS
+  model: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  stream: boolean;
+}
+
+export interface ModelProvider {
+  name: string;
+  isConfigured(): boolean;
+  serves(model: string): boolean;
+  complete(request: CompletionRequest): Promise<Response>;
+}
+
+export const DEFAULT_MODEL = "google/gemini-3-flash-preview";
+
+// Every model a plan may allow
+export const MODELS = [
+  "google/gemini-3-flash-preview",
+  "google/gemini-2.5-flash",
+  "google/gemini-2.5-pro",
+  "openai/gpt-5-mini",
+  "openai/gpt-5",
+] as const;
+
+const DEFAULT_PROVIDER_ORDER = "gateway,openai";
+
+export function isKnownModel(model: string): boolean {
+  return (MODELS as readonly string[]).includes(model);
+}
+
+// Statuses worth trying the next provider for
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// A streamed completion only reports its usage when asked to, in a last chunk
+async function postChatCompletion(url: string, apiKey: string, request: CompletionRequest, model = request.model): Promise<Response> {
+  return await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...request,
+      model,
+      ...(request.stream ? { stream_options: { include_usage: true } } : {}),
+    }),
+  });
+}
+
+// The Lovable AI gateway, which serves every model under its own ID
+export const gatewayProvider: ModelProvider = {
+  name: "gateway",
+  isConfigured: () => Boolean(Deno.env.get("LOVABLE_API_KEY")),
+  serves: isKnownModel,
+  complete: (request) =>
+    postChatCompletion("https://ai.gateway.lovable.dev/v1/chat/completions", Deno.env.get("LOVABLE_API_KEY") ?? "", request),
+};
+
+// OpenAI, or any OpenAI-compatible API at OPENAI_BASE_URL. Serves the
+// openai/ models, under their names without the prefix.
+export const openAiProvider: ModelProvider = {
+  name: "openai",
+  isConfigured: () => Boolean(Deno.env.get("OPENAI_API_KEY")),
+  serves: (model) => model.startsWith("openai/"),
+  complete: (request) =>
+    postChatCompletion(
+      `${(Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1").replace(/\/$/, "")}/chat/completions`,
+      Deno.env.get("OPENAI_API_KEY") ?? "",
+      request,
+      request.model.slice("openai/".length),
+    ),
+};
+
+// The same completion for the same request, every time, with no network
+export function stubCompletion(request: CompletionRequest): string {
+  const prompt = [...request.messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  return `Stub completion from ${request.model} for: ${prompt}`;
+}
+
+export const stubProvider: ModelProvider = {
+  name: "stub",
+  isConfigured: () => true,
+  serves: () => true,
+  complete: (request) => {
+    const content = stubCompletion(request);
+    const id = `stub-${request.model}`;
+    // Counted the way a caller without provider usage would estimate them
+    const promptTokens = estimatePromptTokens(request.messages);
+    const completionTokens = estimateTokens(content);
+    const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+    if (!request.stream) {
+      return Promise.resolve(new Response(
+        JSON.stringify({ id, object: "chat.completion", model: request.model, choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }], usage }),
+        { headers: { "Content-Type": "application/json" } },
+      ));
+    }
+
+    // One chunk per word, as a real stream would arrive
+    const words = content.match(/\S+\s*/g) ?? [];
+    const events = words.map((word) =>
+      formatSseEvent({ id, object: "chat.completion.chunk", model: request.model, choices: [{ index: 0, delta: { content: word } }] })
+    );
+    const usageEvent = formatSseEvent({ id, object: "chat.completion.chunk", model: request.model, choices: [], usage });
+    const body = [...events, usageEvent, formatSseEvent(SSE_DONE)].join("");
+    return Promise.resolve(new Response(body, { headers: SSE_HEADERS }));
+  },
+};
+
+const PROVIDERS: Record<string, ModelProvider> = {
+  gateway: gatewayProvider,
+  openai: openAiProvider,
+  stub: stubProvider,
+};
+
+// The configured providers, in AI_PROVIDERS order
+export function configuredProviders(): ModelProvider[] {
+  return (Deno.env.get("AI_PROVIDERS") || DEFAULT_PROVIDER_ORDER)
+    .split(",")
+    .map((name) => PROVIDERS[name.trim()])
+    .filter((provider): provider is ModelProvider => Boolean(provider) && provider.isConfigured());
+}
+
+// The providers that can serve a model, in order; throws a 503 HttpError if none
+export function providersFor(providers: ModelProvider[], model: string): ModelProvider[] {
+  const candidates = providers.filter((provider) => provider.serves(model));
+  if (candidates.length === 0) {
+    throw new HttpError(503, "ai_not_configured", `No AI provider is configured for ${model}`, { setup_required: true });
+  }
+  return candidates;
+}
+
+export interface ProviderResponse {
+  response: Response;
+  provider: string;
+  model: string;
+  // Providers tried before this one, and why each was passed over
+  fallbacks: { provider: string; error: string }[];
+}
+
+// Sends the request to each candidate in turn until one answers with
+// something other than a 429, a 5xx or a network error. When all of them
+// fail, the last failed response is returned, or the last error thrown.
+export async function completeWithFallback(candidates: ModelProvider[], request: CompletionRequest): Promise<ProviderResponse> {
+  const fallbacks: { provider: string; error: string }[] = [];
+  let lastError: unknown = null;
+  let lastResponse: ProviderResponse | null = null;
+
+  for (const [index, provider] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    try {
+      const response = await provider.complete(request);
+      if (!isRetryableStatus(response.status)) {
+        return { response, provider: provider.name, model: request.model, fallbacks };
+      }
+      lastResponse = { response, provider: provider.name, model: request.model, fallbacks };
+      if (!isLast) {
+        await response.body?.cancel();
+        fallbacks.push({ provider: provider.name, error: `HTTP ${response.status}` });
+      }
+    } catch (err) {
+      lastError = err;
+      lastResponse = null;
+      fallbacks.push({ provider: provider.name, error: (err as Error).message });
+    }
+  }
+
+  if (lastResponse) return lastResponse;
+  throw lastError ?? new Error("No AI provider was tried");
+}
@@ -0,0 +1,165 @@
+// Amounts of money as integer minor units (cents for USD) plus a currency
+// code. Shared by the edge functions and the React app (src/lib/money.ts
+// re-exports this file), so it must not import anything.
+//
+// The database stores money two ways, and every crossing goes through one of
+// the conversions below rather than a bare * 100 or / 100:
+//   - minor units in BIGINT/INTEGER columns named *_cents, transfer_attempts.amount
+//     and every Stripe amount: money() / minorUnits()
+//   - major units in NUMERIC columns (balance_amount, earnings.amount, the
+//     ledger journals): fromMajorUnits() / toMajorUnits()
+
+export interface Money {
+  // Integer number of minor units; negative for debts and refunds
+  readonly amount: number;
+  // Lower-case ISO 4217 code, as Stripe writes it
+  readonly currency: string;
+}
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyError";
+  }
+}
+
+export const DEFAULT_CURRENCY = "usd";
+
+// Currencies whose minor unit is not a hundredth
+const MINOR_UNIT_EXPONENTS: Record<string, number> = {
+  bif: 0, clp: 0, djf: 0, gnf: 0, isk: 0, jpy: 0, kmf: 0, krw: 0, pyg: 0, rwf: 0,
+  ugx: 0, vnd: 0, vuv: 0, xaf: 0, xof: 0, xpf: 0,
+  bhd: 3, jod: 3, kwd: 3, omr: 3, tnd: 3,
+};
+
+const normalizeCurrency = (currency: string) => currency.trim().toLowerCase();
+
+export function minorUnitExponent(currency: string): number {
+  return MINOR_UNIT_EXPONENTS[normalizeCurrency(currency)] ?? 2;
+}
+
+// From an amount already in minor units (a *_cents column, a Stripe amount)
+export function money(minorUnits: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new MoneyError(`Money amounts are whole minor units, got ${minorUnits}`);
+  }
+  return { amount: minorUnits, currency: normalizeCurrency(currency) };
+}
+
+export const zero = (currency: string = DEFAULT_CURRENCY): Money => money(0, currency);
+
+// From major units (a NUMERIC column, user input in dollars), rounded half away
+// from zero to the nearest minor unit. Decimal strings are shifted as text, so
+// "1.005" is 101 cents rather than the 100 that 1.005 * 100 gives.
+export function fromMajorUnits(major: number | string | null | undefined, currency: string = DEFAULT_CURRENCY): Money {
+  if (major === null || major === undefined || major === "") {
+    return zero(currency);
+  }
+  const exponent = minorUnitExponent(currency);
+  const text = typeof major === "number" ? String(major) : major.trim();
+  const value = Number(text);
+  if (text === "" || !Number.isFinite(value)) {
+    throw new MoneyError(`Not an amount of money: ${JSON.stringify(major)}`);
+  }
+  const shifted = /e/i.test(text) ? value * 10 ** exponent : Number(`${text}e${exponent}`);
+  // `|| 0` turns -0 into 0
+  return money(Math.sign(shifted) * Math.round(Math.abs(shifted)) || 0, currency);
+}
+
+// For NUMERIC columns and the ledger RPCs, which take major units
+export function toMajorUnits(value: Money): number {
+  return value.amount / 10 ** minorUnitExponent(value.currency);
+}
+
+// For *_cents columns and provider APIs, which take minor units
+export function minorUnits(value: Money): number {
+  return value.amount;
+}
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+export function sum(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce(add, zero(currency));
+}
+
+// Scales by a rate such as a fee percentage, rounding half away from zero
+export function multiply(value: Money, factor: number): Money {
+  const scaled = value.amount * factor;
+  return money(Math.sign(scaled) * Math.round(Math.abs(scaled)) || 0, value.currency);
+}
+
+// Into another currency at `rate` units of it per unit of value's currency,
+// rounding half away from zero to the target's minor unit
+export function convert(value: Money, currency: string, rate: number): Money {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new MoneyError(`Not an exchange rate: ${rate}`);
+  }
+  const scaled = value.amount * rate * 10 ** (minorUnitExponent(currency) - minorUnitExponent(value.currency));
+  return money(Math.sign(scaled) * Math.round(Math.abs(scaled)) || 0, currency);
+}
+
+// Splits an amount by ratios without losing or inventing a minor unit: the
+// remainder left by rounding down goes one unit at a time to the shares with
+// the largest fractional parts.
+export function allocate(value: Money, ratios: number[]): Money[] {
+  const total = ratios.reduce((acc, ratio) => acc + ratio, 0);
+  if (ratios.length === 0 || total <= 0 || ratios.some((ratio) => ratio < 0)) {
+    throw new MoneyError("allocate needs non-negative ratios with a positive total");
+  }
+
+  const sign = value.amount < 0 ? -1 : 1;
+  const magnitude = Math.abs(value.amount);
+  const exact = ratios.map((ratio) => (magnitude * ratio) / total);
+  const shares = exact.map(Math.floor);
+  let remainder = magnitude - shares.reduce((acc, share) => acc + share, 0);
+
+  const byFraction = exact
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byFraction) {
+    if (remainder === 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+
+  return shares.map((share) => money(sign * share || 0, value.currency));
+}
+
+export function compare(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return Math.sign(a.amount - b.amount);
+}
+
+export const equals = (a: Money, b: Money) => a.currency === b.currency && a.amount === b.amount;
+export const isZero = (value: Money) => value.amount === 0;
+export const isNegative = (value: Money) => value.amount < 0;
+export const isPositive = (value: Money) => value.amount > 0;
+
+export function formatMoney(value: Money, locale?: string): string {
+  const exponent = minorUnitExponent(value.currency);
+  return new Intl.NumberFormat(locale ?? "en-US", {
+    style: "currency",
+    currency: value.currency.toUpperCase(),
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(toMajorUnits(value));
+}
+
+// Shorthands for the common case of a USD amount read straight from a column
+export const formatCents = (cents: number, currency: string = DEFAULT_CURRENCY) => formatMoney(money(cents, currency));
+export const formatMajorUnits = (major: number | string | null | undefined, currency: string = DEFAULT_CURRENCY) =>
+  formatMoney(fromMajorUnits(major, currency));
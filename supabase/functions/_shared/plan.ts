@@ -0,0 +1,147 @@
+import { HttpError, ok } from "./envelope.ts";
+import type { JournalLine, JournalPosting } from "./ledger.ts";
+
+// Dry runs for the functions that move money.
+//
+// A request with { "dry_run": true } (or { "mode": "plan" }) does every read
+// the real run would do, such as balances, destinations and limits, but
+// writes nothing. It returns the plan instead: the provider calls, table
+// writes and ledger postings the real run would make. The plan carries a hash
+// of its money-moving steps. A real run sent with { "plan_hash": ... } stops
+// with 409 plan_changed if it would now do something different.
+
+export interface PlannedProviderCall {
+  provider: "stripe" | "paypal" | "modern_treasury";
+  method: string;
+  params: Record<string, unknown>;
+  idempotency_key?: string;
+}
+
+export interface PlannedTableWrite {
+  table: string;
+  operation: "insert" | "update";
+  description: string;
+  values?: Record<string, unknown>;
+}
+
+export interface PlannedPosting {
+  description: string;
+  reference: string | null;
+  lines: Pick<JournalLine, "account_code" | "debit" | "credit">[];
+}
+
+export interface ExecutionPlan {
+  function: string;
+  execution_id: string;
+  generated_at: string;
+  summary: string;
+  amount_cents: number;
+  provider_calls: PlannedProviderCall[];
+  table_writes: PlannedTableWrite[];
+  ledger_postings: PlannedPosting[];
+  warnings: string[];
+  plan_hash: string;
+}
+
+export interface RunMode {
+  dryRun: boolean;
+  // Hash of a previewed plan the caller expects this run to carry out
+  planHash: string | null;
+}
+
+export function readRunMode(body: unknown): RunMode {
+  const input = (body ?? {}) as { dry_run?: unknown; mode?: unknown; plan_hash?: unknown };
+  return {
+    dryRun: input.dry_run === true || input.mode === "plan",
+    planHash: typeof input.plan_hash === "string" ? input.plan_hash : null,
+  };
+}
+
+// Peeks at the body without consuming it, so createHandler can keep dry runs
+// out of the idempotency store
+export async function isDryRunRequest(req: Request): Promise<boolean> {
+  if (req.method !== "POST") return false;
+  const body = await req.clone().json().catch(() => null);
+  return readRunMode(body).dryRun;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// The preview and the real run have different execution IDs, and metadata
+// carries fresh IDs and timestamps, so neither goes into the hash; what is
+// left is who gets paid how much
+function hashInput(fn: string, executionId: string, calls: PlannedProviderCall[], postings: PlannedPosting[]): string {
+  return JSON.stringify({
+    function: fn,
+    calls: calls.map(({ provider, method, params }) => {
+      const { description: _description, metadata: _metadata, ...rest } = params;
+      return { provider, method, params: rest };
+    }),
+    postings: postings.map((posting) => posting.lines),
+  }).replaceAll(executionId, "<execution_id>");
+}
+
+export class PlanBuilder {
+  private readonly providerCalls: PlannedProviderCall[] = [];
+  private readonly tableWrites: PlannedTableWrite[] = [];
+  private readonly ledgerPostings: PlannedPosting[] = [];
+  private readonly warnings: string[] = [];
+
+  constructor(private readonly fn: string, private readonly executionId: string) {}
+
+  call(provider: PlannedProviderCall["provider"], method: string, params: Record<string, unknown>, idempotencyKey?: string): this {
+    this.providerCalls.push({ provider, method, params, ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}) });
+    return this;
+  }
+
+  write(table: string, operation: PlannedTableWrite["operation"], description: string, values?: Record<string, unknown>): this {
+    this.tableWrites.push({ table, operation, description, ...(values ? { values } : {}) });
+    return this;
+  }
+
+  post(posting: JournalPosting): this {
+    this.ledgerPostings.push({
+      description: posting.description,
+      reference: posting.reference ?? null,
+      lines: posting.lines.map(({ account_code, debit, credit }) => ({ account_code, debit, credit })),
+    });
+    return this;
+  }
+
+  warn(message: string): this {
+    this.warnings.push(message);
+    return this;
+  }
+
+  async build(summary: string, amountCents: number): Promise<ExecutionPlan> {
+    return {
+      function: this.fn,
+      execution_id: this.executionId,
+      generated_at: new Date().toISOString(),
+      summary,
+      amount_cents: amountCents,
+      provider_calls: this.providerCalls,
+      table_writes: this.tableWrites,
+      ledger_postings: this.ledgerPostings,
+      warnings: this.warnings,
+      plan_hash: await sha256(hashInput(this.fn, this.executionId, this.providerCalls, this.ledgerPostings)),
+    };
+  }
+}
+
+// Refuses a real run whose plan no longer matches the one the caller previewed
+export function assertPlanUnchanged(plan: ExecutionPlan, expectedHash: string | null) {
+  if (expectedHash && expectedHash !== plan.plan_hash) {
+    throw new HttpError(409, "plan_changed", "What this run would do has changed since the plan was previewed", {
+      expected_plan_hash: expectedHash,
+      plan,
+    });
+  }
+}
+
+export function planResponse(plan: ExecutionPlan, extra: Record<string, unknown> = {}): Response {
+  return ok({ dry_run: true, ...extra, plan, execution_id: plan.execution_id });
+}
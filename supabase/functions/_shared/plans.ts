@@ -0,0 +1,303 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createStripeClient } from "./clients.ts";
+import { HttpError } from "./envelope.ts";
+import { DEFAULT_MODEL, isKnownModel } from "./model-providers.ts";
+import { money, multiply, zero, type Money } from "./money.ts";
+
+// Plans and what they entitle a subscriber to. A plan is a stripe_config row
+// keyed checkout_plan.<plan> whose value is
+//
+//   { price_id, product_id, name,             what create-checkout sells
+//     monthly_requests, monthly_tokens,       quotas per billing period; null for none
+//     overage_price_id, overage_unit_amount,  metered price for tokens past monthly_tokens,
+//                                             and its cents per OVERAGE_UNIT_TOKENS
+//     models, default_model }                 the models a request may pick, and the one
+//                                             it gets when it does not
+//
+// ai-content-api serves a user through their active stripe_subscriptions row.
+// Usage is counted per billing period in api_usage_periods. Tokens past the
+// quota are billed as metered usage when the plan has an overage price and the
+// subscription carries it; otherwise the token quota is a hard limit.
+
+export const PLAN_CONFIG_PREFIX = "checkout_plan.";
+
+export const OVERAGE_UNIT_TOKENS = 1000;
+
+export interface Plan {
+  plan: string;
+  name: string;
+  price_id: string;
+  product_id?: string;
+  monthly_requests: number | null;
+  monthly_tokens: number | null;
+  overage_price_id: string | null;
+  overage_unit_amount: number;
+  models: string[];
+  default_model: string;
+}
+
+const optionalCount = (value: unknown): number | null =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : null;
+
+// A plan from its stripe_config value; throws a 503 HttpError if it has no price
+export function parsePlan(plan: string, value: string): Plan {
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(value) ?? {};
+  } catch {
+    config = {};
+  }
+  if (typeof config.price_id !== "string" || !config.price_id) {
+    throw new HttpError(503, "checkout_not_configured", `Checkout plan "${plan}" has no price_id`, { setup_required: true });
+  }
+  return {
+    plan,
+    name: typeof config.name === "string" ? config.name : plan,
+    price_id: config.price_id,
+    product_id: typeof config.product_id === "string" ? config.product_id : undefined,
+    monthly_requests: optionalCount(config.monthly_requests),
+    monthly_tokens: optionalCount(config.monthly_tokens),
+    overage_price_id: typeof config.overage_price_id === "string" && config.overage_price_id ? config.overage_price_id : null,
+    overage_unit_amount: optionalCount(config.overage_unit_amount) ?? 0,
+    ...planModels(config),
+  };
+}
+
+// A plan without a model list gets the default model only
+function planModels(config: Record<string, unknown>): { models: string[]; default_model: string } {
+  const listed = Array.isArray(config.models)
+    ? config.models.filter((model): model is string => typeof model === "string" && isKnownModel(model))
+    : [];
+  const models = listed.length > 0 ? listed : [DEFAULT_MODEL];
+  const preferred = typeof config.default_model === "string" ? config.default_model : DEFAULT_MODEL;
+  return { models, default_model: models.includes(preferred) ? preferred : models[0] };
+}
+
+// The model a request runs on: the one it asked for, if its plan allows it.
+// Throws a 400 HttpError for a model that does not exist and a 403 for one
+// the plan does not include.
+export function selectModel(plan: Plan, requested: unknown): string {
+  if (requested === undefined || requested === null || requested === "") {
+    return plan.default_model;
+  }
+  if (typeof requested !== "string" || !isKnownModel(requested)) {
+    throw new HttpError(400, "unknown_model", `Unknown model "${requested}"`);
+  }
+  if (!plan.models.includes(requested)) {
+    throw new HttpError(403, "model_not_allowed", `The ${plan.name} plan does not include ${requested}`, { models: plan.models });
+  }
+  return requested;
+}
+
+export async function loadPlan(supabase: SupabaseClient, plan: string): Promise<Plan> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("value")
+    .eq("key", `${PLAN_CONFIG_PREFIX}${plan}`)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load checkout plan ${plan}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(400, "unknown_plan", `Unknown plan "${plan}"`);
+  }
+  return parsePlan(plan, data.value);
+}
+
+// The plan sold at a Stripe price, or null
+async function loadPlanForPrice(supabase: SupabaseClient, priceId: string): Promise<Plan | null> {
+  const { data, error } = await supabase
+    .from("stripe_config")
+    .select("key, value")
+    .like("key", `${PLAN_CONFIG_PREFIX}%`);
+  if (error) {
+    throw new Error(`Failed to load checkout plans: ${error.message}`);
+  }
+  for (const row of data || []) {
+    try {
+      const plan = parsePlan(row.key.slice(PLAN_CONFIG_PREFIX.length), row.value);
+      if (plan.price_id === priceId) return plan;
+    } catch {
+      // A plan without a price cannot match
+    }
+  }
+  return null;
+}
+
+export interface Entitlement {
+  plan: Plan;
+  stripe_subscription_id: string;
+  // The subscription item for the overage price, if it was sold with one
+  metered_item_id: string | null;
+  period_start: string;
+  period_end: string;
+}
+
+// Subscription statuses that are served; past_due is refused with a 402
+const SERVED_STATUSES = ["active", "trialing"];
+
+// The billing period the quotas count over: the subscription's own, or the
+// calendar month when Stripe has not sent one that covers now
+export function usagePeriod(
+  currentPeriodStart: string | null,
+  currentPeriodEnd: string | null,
+  now = new Date(),
+): { start: string; end: string } {
+  if (currentPeriodStart && currentPeriodEnd) {
+    const start = new Date(currentPeriodStart);
+    const end = new Date(currentPeriodEnd);
+    if (start <= now && now < end) {
+      return { start: start.toISOString(), end: end.toISOString() };
+    }
+  }
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+// What the user's subscription entitles them to. Throws a 402 HttpError
+// without a subscription that is paid up.
+export async function loadEntitlement(supabase: SupabaseClient, userId: string, now = new Date()): Promise<Entitlement> {
+  const { data, error } = await supabase
+    .from("stripe_subscriptions")
+    .select("stripe_subscription_id, status, plan_id, metered_item_id, current_period_start, current_period_end")
+    .eq("user_id", userId)
+    .in("status", [...SERVED_STATUSES, "past_due"])
+    .order("current_period_end", { ascending: false, nullsFirst: false });
+  if (error) {
+    throw new Error(`Failed to load the subscription for ${userId}: ${error.message}`);
+  }
+
+  const subscription = (data || []).find((row) => SERVED_STATUSES.includes(row.status));
+  if (!subscription) {
+    if (data && data.length > 0) {
+      throw new HttpError(402, "payment_required", "Your subscription has an unpaid invoice. Update your payment method to continue.");
+    }
+    throw new HttpError(402, "subscription_required", "An active subscription is required to use this API");
+  }
+
+  const plan = subscription.plan_id ? await loadPlanForPrice(supabase, subscription.plan_id) : null;
+  if (!plan) {
+    throw new HttpError(503, "plan_not_configured", `No checkout plan sells price ${subscription.plan_id}`, { setup_required: true });
+  }
+
+  const period = usagePeriod(subscription.current_period_start, subscription.current_period_end, now);
+  return {
+    plan,
+    stripe_subscription_id: subscription.stripe_subscription_id,
+    metered_item_id: subscription.metered_item_id,
+    period_start: period.start,
+    period_end: period.end,
+  };
+}
+
+// Whether tokens past the quota are billed rather than refused
+export const billsOverage = (entitlement: Entitlement) =>
+  Boolean(entitlement.plan.overage_price_id && entitlement.metered_item_id);
+
+export function overageCharge(units: number, plan: Plan): Money {
+  return units > 0 ? multiply(money(plan.overage_unit_amount), units) : zero();
+}
+
+export interface UsagePeriod {
+  id: string;
+  request_count: number;
+  token_count: number;
+}
+
+const QUOTA_REFUSALS: Record<string, [string, string]> = {
+  request_quota_exceeded: ["request_quota_exceeded", "Monthly request quota reached"],
+  token_quota_exceeded: ["token_quota_exceeded", "Monthly token quota reached"],
+};
+
+// Counts one request against the period's quota, atomically. Throws a 429
+// HttpError once the quota is used up.
+export async function reserveRequest(supabase: SupabaseClient, userId: string, entitlement: Entitlement): Promise<UsagePeriod> {
+  const { plan } = entitlement;
+  const { data, error } = await supabase.rpc("reserve_api_request", {
+    p_user_id: userId,
+    p_stripe_subscription_id: entitlement.stripe_subscription_id,
+    p_plan: plan.plan,
+    p_period_start: entitlement.period_start,
+    p_period_end: entitlement.period_end,
+    p_request_limit: plan.monthly_requests,
+    // Billed overage lifts the token limit
+    p_token_limit: billsOverage(entitlement) ? null : plan.monthly_tokens,
+  });
+  if (error) {
+    throw new Error(`Failed to reserve an API request: ${error.message}`);
+  }
+
+  const result = data as { allowed: boolean; reason?: string; period_id: string; request_count: number; token_count: number };
+  if (!result.allowed) {
+    const [code, message] = QUOTA_REFUSALS[result.reason ?? ""] ?? QUOTA_REFUSALS.request_quota_exceeded;
+    throw new HttpError(429, code, `${message} for the ${plan.name} plan`, {
+      plan: plan.plan,
+      monthly_requests: plan.monthly_requests,
+      monthly_tokens: plan.monthly_tokens,
+      resets_at: entitlement.period_end,
+    });
+  }
+  return { id: result.period_id, request_count: result.request_count, token_count: result.token_count };
+}
+
+// Gives back a reserved request that was not served
+export async function releaseRequest(supabase: SupabaseClient, periodId: string): Promise<void> {
+  const { error } = await supabase.rpc("release_api_usage", { p_period_id: periodId, p_requests: 1, p_overage_units: 0 });
+  if (error) {
+    console.error(`Failed to release an API request in period ${periodId}: ${error.message}`);
+  }
+}
+
+export interface RecordedUsage {
+  token_count: number;
+  overage_units: number;
+  // Overage reported to Stripe by this request
+  charge: Money;
+}
+
+// Adds a served request's tokens to its period and reports its overage to
+// Stripe as metered usage. Overage goes out in claims, each keyed by its own
+// id; a claim that fails to report stays pending and is resent under the same
+// key with the next request, so Stripe counts it once.
+export async function recordTokens(
+  supabase: SupabaseClient,
+  entitlement: Entitlement,
+  periodId: string,
+  tokens: number,
+): Promise<RecordedUsage> {
+  const billed = billsOverage(entitlement);
+  const { data, error } = await supabase.rpc("record_api_tokens", {
+    p_period_id: periodId,
+    p_tokens: tokens,
+    p_included_tokens: billed ? entitlement.plan.monthly_tokens : null,
+    p_tokens_per_unit: OVERAGE_UNIT_TOKENS,
+  });
+  if (error) {
+    throw new Error(`Failed to record API token usage: ${error.message}`);
+  }
+
+  const result = data as { token_count: number; overage_units: number; claims: Array<{ id: string; units: number }> };
+  let reportedUnits = 0;
+  for (const claim of billed ? result.claims : []) {
+    let reported = true;
+    try {
+      await createStripeClient().subscriptionItems.createUsageRecord(
+        entitlement.metered_item_id!,
+        { quantity: claim.units, timestamp: "now", action: "increment" },
+        { idempotencyKey: `overage:${claim.id}` },
+      );
+      reportedUnits += claim.units;
+    } catch (err) {
+      reported = false;
+      console.error(`Failed to report overage claim ${claim.id} for period ${periodId}: ${(err as Error).message}`);
+    }
+
+    const { error: settleError } = await supabase.rpc("settle_api_overage_claim", { p_claim_id: claim.id, p_reported: reported });
+    if (settleError) {
+      console.error(`Failed to settle overage claim ${claim.id}: ${settleError.message}`);
+    }
+  }
+
+  return { token_count: result.token_count, overage_units: result.overage_units, charge: overageCharge(reportedUnits, entitlement.plan) };
+}
@@ -0,0 +1,377 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { Stripe } from "./clients.ts";
+import { fromMajorUnits, minorUnits, money, sum, toMajorUnits } from "./money.ts";
+
+// Stripe reconciliation. Balance transactions are the source of truth for
+// what Stripe moved; each one for a payout, transfer, refund or dispute is
+// paired with every internal record that claims the same Stripe object:
+//
+//   payout    ledger payout:<id>, transfer_attempts, automated_transfer_logs, stripe_payouts
+//   transfer  ledger transfer:<id> or transfer_attempt:<attempt>, transfer_attempts, automated_transfer_logs
+//   refund    ledger refund:<id>
+//   dispute   ledger dispute:<id>
+//
+// Charges and Stripe fees are not reconciled one by one; revenue is booked
+// per product, not per charge. Amounts are compared in cents and stored in dollars.
+
+export type ReconciliationStatus = "matched" | "variance" | "missing_internal" | "missing_stripe";
+
+export type StripeObjectType = "payout" | "transfer" | "refund" | "dispute";
+
+export type InternalSource = "ledger" | "transfer_attempts" | "automated_transfer_logs" | "stripe_payouts";
+
+export interface InternalAmount {
+  source: InternalSource;
+  record_id: string;
+  amount_cents: number;
+}
+
+export interface ReconciliationRow {
+  stripe_object_id: string;
+  stripe_object_type: StripeObjectType;
+  reconciliation_status: ReconciliationStatus;
+  amount_stripe: number;
+  amount_internal: number | null;
+  variance: number | null;
+  internal_transaction_id: string | null;
+  details: {
+    balance_transaction_id?: string;
+    stripe_created_at?: string;
+    internal: InternalAmount[];
+  };
+}
+
+export interface ReconciliationSummary {
+  stripe_transactions: number;
+  matched_count: number;
+  variance_count: number;
+  missing_internal_count: number;
+  missing_stripe_count: number;
+  total_variance: number;
+}
+
+// Internal records are often written a little before or after Stripe's
+// timestamp, so lookups on either side reach this far past the window
+const WINDOW_SLACK_MS = 60 * 60 * 1000;
+
+// Upper bound on balance transactions read in one run
+const MAX_BALANCE_TRANSACTIONS = 10_000;
+
+// PostgREST puts `in` filters in the URL, so long ID lists go in slices
+const IN_CHUNK = 100;
+
+// The ledger is the book of record; the first source present sets amount_internal
+const SOURCE_PRIORITY: InternalSource[] = ["ledger", "transfer_attempts", "stripe_payouts", "automated_transfer_logs"];
+
+const byPriority = (entries: InternalAmount[]) =>
+  SOURCE_PRIORITY.flatMap((source) => entries.filter((e) => e.source === source));
+
+// stripe_reconciliation stores NUMERIC dollars
+const toDollars = (cents: number) => toMajorUnits(money(cents));
+
+function objectTypeOf(txn: Stripe.BalanceTransaction): StripeObjectType | null {
+  const source = typeof txn.source === "string" ? txn.source : txn.source?.id ?? "";
+  switch (txn.type) {
+    case "payout":
+      return "payout";
+    case "transfer":
+      return "transfer";
+    case "refund":
+      return "refund";
+    case "adjustment":
+      return source.startsWith("dp_") || source.startsWith("du_") ? "dispute" : null;
+    default:
+      return null;
+  }
+}
+
+function providerTypeOf(id: string): StripeObjectType | null {
+  if (id.startsWith("po_")) return "payout";
+  if (id.startsWith("tr_")) return "transfer";
+  return null;
+}
+
+async function listBalanceTransactions(stripe: Stripe, from: Date, to: Date): Promise<Stripe.BalanceTransaction[]> {
+  const transactions: Stripe.BalanceTransaction[] = [];
+  let startingAfter: string | undefined;
+
+  while (transactions.length < MAX_BALANCE_TRANSACTIONS) {
+    const page = await stripe.balanceTransactions.list({
+      created: { gte: Math.floor(from.getTime() / 1000), lt: Math.floor(to.getTime() / 1000) },
+      limit: 100,
+      starting_after: startingAfter,
+    });
+    transactions.push(...page.data);
+    if (!page.has_more || page.data.length === 0) break;
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+
+  return transactions;
+}
+
+async function selectIn<T>(
+  ids: string[],
+  query: (slice: string[]) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  what: string,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    const { data, error } = await query(ids.slice(i, i + IN_CHUNK));
+    if (error) {
+      throw new Error(`Failed to load ${what}: ${error.message}`);
+    }
+    rows.push(...(data ?? []));
+  }
+  return rows;
+}
+
+interface TransferAttemptRow {
+  id: string;
+  amount: number;
+  status: string;
+  stripe_transfer_id: string | null;
+  corrected_transfer_id: string | null;
+  created_at: string;
+}
+
+class InternalIndex {
+  private byObject = new Map<string, InternalAmount[]>();
+
+  add(objectId: string | null | undefined, entry: InternalAmount) {
+    if (!objectId) return;
+    const entries = this.byObject.get(objectId) ?? [];
+    if (!entries.some((e) => e.source === entry.source && e.record_id === entry.record_id)) {
+      entries.push(entry);
+    }
+    this.byObject.set(objectId, entries);
+  }
+
+  get(objectId: string): InternalAmount[] {
+    return this.byObject.get(objectId) ?? [];
+  }
+}
+
+// Gathers every internal record that refers to one of `objectIds`, plus the
+// records written during the window that should have a Stripe counterpart
+async function loadInternal(supabase: SupabaseClient, objectIds: string[], from: Date, to: Date) {
+  const index = new InternalIndex();
+  const slackFrom = new Date(from.getTime() - WINDOW_SLACK_MS).toISOString();
+  const slackTo = new Date(to.getTime() + WINDOW_SLACK_MS).toISOString();
+
+  const attemptColumns = "id, amount, status, stripe_transfer_id, corrected_transfer_id, created_at";
+  const attempts = new Map<string, TransferAttemptRow>();
+  const addAttempts = (rows: TransferAttemptRow[]) => rows.forEach((row) => attempts.set(row.id, row));
+
+  addAttempts(await selectIn<TransferAttemptRow>(
+    objectIds,
+    (slice) => supabase.from("transfer_attempts").select(attemptColumns).in("stripe_transfer_id", slice),
+    "transfer attempts",
+  ));
+  addAttempts(await selectIn<TransferAttemptRow>(
+    objectIds,
+    (slice) => supabase.from("transfer_attempts").select(attemptColumns).in("corrected_transfer_id", slice),
+    "corrected transfer attempts",
+  ));
+
+  // Attempts the app believes reached Stripe during the window
+  const { data: windowAttempts, error: attemptsError } = await supabase
+    .from("transfer_attempts")
+    .select(attemptColumns)
+    .in("status", ["pending_at_provider", "paid", "reversed"])
+    .gte("created_at", from.toISOString())
+    .lt("created_at", to.toISOString());
+  if (attemptsError) {
+    throw new Error(`Failed to load transfer attempts in window: ${attemptsError.message}`);
+  }
+  addAttempts((windowAttempts ?? []) as TransferAttemptRow[]);
+
+  const attemptProviderId = (row: TransferAttemptRow) => row.corrected_transfer_id ?? row.stripe_transfer_id;
+  for (const row of attempts.values()) {
+    index.add(attemptProviderId(row), { source: "transfer_attempts", record_id: row.id, amount_cents: Number(row.amount) });
+  }
+
+  // Ledger journals, by the references the posting functions use
+  const references = new Map<string, string>();
+  for (const id of objectIds) {
+    const type = providerTypeOf(id);
+    if (type) references.set(`${type}:${id}`, id);
+    else if (id.startsWith("re_")) references.set(`refund:${id}`, id);
+    else if (id.startsWith("dp_") || id.startsWith("du_")) references.set(`dispute:${id}`, id);
+  }
+  for (const row of attempts.values()) {
+    const providerId = attemptProviderId(row);
+    if (providerId) references.set(`transfer_attempt:${row.id}`, providerId);
+  }
+
+  type JournalRow = { id: string; reference_number: string; total_debit: number; created_at: string };
+  const journals = await selectIn<JournalRow>(
+    [...references.keys()],
+    (slice) => supabase.from("accounting_journals").select("id, reference_number, total_debit, created_at").in("reference_number", slice),
+    "ledger journals",
+  );
+
+  const { data: windowJournals, error: journalsError } = await supabase
+    .from("accounting_journals")
+    .select("id, reference_number, total_debit, created_at")
+    .or("reference_number.like.payout:%,reference_number.like.transfer:%")
+    .gte("created_at", from.toISOString())
+    .lt("created_at", to.toISOString());
+  if (journalsError) {
+    throw new Error(`Failed to load ledger journals in window: ${journalsError.message}`);
+  }
+
+  for (const journal of [...journals, ...((windowJournals ?? []) as JournalRow[])]) {
+    const objectId = references.get(journal.reference_number) ?? journal.reference_number.split(":")[1];
+    index.add(objectId, { source: "ledger", record_id: journal.id, amount_cents: minorUnits(fromMajorUnits(journal.total_debit)) });
+  }
+
+  // Completed transfer logs name the Stripe object under one of these keys
+  const { data: logs, error: logsError } = await supabase
+    .from("automated_transfer_logs")
+    .select("id, response")
+    .eq("status", "completed")
+    .gte("execution_time", slackFrom)
+    .lt("execution_time", slackTo);
+  if (logsError) {
+    throw new Error(`Failed to load transfer logs: ${logsError.message}`);
+  }
+  for (const log of logs ?? []) {
+    const response = (log.response ?? {}) as Record<string, unknown>;
+    const objectId = [response.stripe_transfer_id, response.stripe_payout_id, response.payout_id]
+      .find((value): value is string => typeof value === "string");
+    if (objectId && typeof response.amount_cents === "number") {
+      index.add(objectId, { source: "automated_transfer_logs", record_id: log.id, amount_cents: response.amount_cents });
+    }
+  }
+
+  // stripe_payouts is filled from payout webhooks
+  const payoutIds = objectIds.filter((id) => id.startsWith("po_"));
+  const payouts = await selectIn<{ id: number; payout_id: string; amount: number }>(
+    payoutIds,
+    (slice) => supabase.from("stripe_payouts").select("id, payout_id, amount").in("payout_id", slice),
+    "Stripe payouts",
+  );
+  for (const payout of payouts) {
+    index.add(payout.payout_id, { source: "stripe_payouts", record_id: String(payout.id), amount_cents: Number(payout.amount) });
+  }
+
+  // Provider IDs recorded internally during the window
+  const recordedInWindow = new Set<string>();
+  for (const row of attempts.values()) {
+    const providerId = attemptProviderId(row);
+    if (providerId && row.created_at >= from.toISOString() && row.created_at < to.toISOString()) {
+      recordedInWindow.add(providerId);
+    }
+  }
+  for (const journal of (windowJournals ?? []) as JournalRow[]) {
+    const objectId = journal.reference_number.split(":")[1];
+    if (objectId && providerTypeOf(objectId)) recordedInWindow.add(objectId);
+  }
+
+  return { index, recordedInWindow };
+}
+
+function compare(
+  objectId: string,
+  objectType: StripeObjectType,
+  stripeCents: number,
+  internal: InternalAmount[],
+  txn?: Stripe.BalanceTransaction,
+): ReconciliationRow {
+  const details: ReconciliationRow["details"] = {
+    balance_transaction_id: txn?.id,
+    stripe_created_at: txn ? new Date(txn.created * 1000).toISOString() : undefined,
+    internal,
+  };
+
+  if (internal.length === 0) {
+    return {
+      stripe_object_id: objectId,
+      stripe_object_type: objectType,
+      reconciliation_status: "missing_internal",
+      amount_stripe: toDollars(stripeCents),
+      amount_internal: null,
+      variance: toDollars(stripeCents),
+      internal_transaction_id: null,
+      details,
+    };
+  }
+
+  const ordered = byPriority(internal);
+  const compared = ordered.find((e) => e.amount_cents !== stripeCents) ?? ordered[0];
+
+  return {
+    stripe_object_id: objectId,
+    stripe_object_type: objectType,
+    reconciliation_status: compared.amount_cents !== stripeCents ? "variance" : "matched",
+    amount_stripe: toDollars(stripeCents),
+    amount_internal: toDollars(compared.amount_cents),
+    variance: toDollars(stripeCents - compared.amount_cents),
+    internal_transaction_id: compared.record_id,
+    details,
+  };
+}
+
+// Compares Stripe with the internal records for [from, to). Pure read: the
+// caller decides where the rows go.
+export async function reconcileWindow(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  from: Date,
+  to: Date,
+): Promise<{ rows: ReconciliationRow[]; summary: ReconciliationSummary }> {
+  const all = await listBalanceTransactions(
+    stripe,
+    new Date(from.getTime() - WINDOW_SLACK_MS),
+    new Date(to.getTime() + WINDOW_SLACK_MS),
+  );
+  const inWindow = (txn: Stripe.BalanceTransaction) => txn.created * 1000 >= from.getTime() && txn.created * 1000 < to.getTime();
+  const sourceOf = (txn: Stripe.BalanceTransaction) => (typeof txn.source === "string" ? txn.source : txn.source?.id ?? null);
+
+  const seenInStripe = new Set(all.map(sourceOf).filter((id): id is string => Boolean(id)));
+  const reconcilable = all.filter((txn) => inWindow(txn) && objectTypeOf(txn) && sourceOf(txn));
+
+  const { index, recordedInWindow } = await loadInternal(
+    supabase,
+    [...new Set(reconcilable.map((txn) => sourceOf(txn)!))],
+    from,
+    to,
+  );
+
+  const rows: ReconciliationRow[] = reconcilable.map((txn) =>
+    compare(sourceOf(txn)!, objectTypeOf(txn)!, Math.abs(txn.amount), index.get(sourceOf(txn)!), txn)
+  );
+
+  for (const objectId of recordedInWindow) {
+    if (seenInStripe.has(objectId)) continue;
+    const internal = index.get(objectId);
+    const primary = byPriority(internal)[0];
+    rows.push({
+      stripe_object_id: objectId,
+      stripe_object_type: providerTypeOf(objectId)!,
+      reconciliation_status: "missing_stripe",
+      amount_stripe: 0,
+      amount_internal: primary ? toDollars(primary.amount_cents) : null,
+      variance: primary ? -toDollars(primary.amount_cents) : null,
+      internal_transaction_id: primary?.record_id ?? null,
+      details: { internal },
+    });
+  }
+
+  const count = (status: ReconciliationStatus) => rows.filter((row) => row.reconciliation_status === status).length;
+  const totalVariance = sum(rows
+    .filter((row) => row.reconciliation_status !== "matched")
+    .map((row) => fromMajorUnits(Math.abs(row.variance ?? 0))));
+
+  return {
+    rows,
+    summary: {
+      stripe_transactions: reconcilable.length,
+      matched_count: count("matched"),
+      variance_count: count("variance"),
+      missing_internal_count: count("missing_internal"),
+      missing_stripe_count: count("missing_stripe"),
+      total_variance: toMajorUnits(totalVariance),
+    },
+  };
+}
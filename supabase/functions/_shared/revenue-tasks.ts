@@ -0,0 +1,218 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { HandlerContext } from "./handler.ts";
+
+// Tasks in autonomous_revenue_task_queue, run by the revenue-worker function.
+//
+// A worker claims a batch through claim_revenue_tasks, which leases each task
+// to it for LEASE_SECONDS. While it works it renews the leases every
+// HEARTBEAT_MS with heartbeat_revenue_tasks. A worker that dies stops
+// renewing, and once a lease runs out the next claim takes the task over as a
+// new attempt. complete_revenue_task records the outcome; a failure is
+// retried after a backoff until the task's max_retries are used up.
+//
+// Each task_type maps to a handler in a TaskRegistry. A task whose type has
+// no handler is never claimed.
+
+export const REVENUE_WORKER_TYPES = ["transfer", "optimization", "analysis"] as const;
+
+export type RevenueWorkerType = typeof REVENUE_WORKER_TYPES[number];
+
+export type RevenueTaskStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface RevenueTask {
+  id: string;
+  task_type: string;
+  payload: unknown;
+  priority: number;
+  status: RevenueTaskStatus;
+  worker_id: string | null;
+  retry_count: number;
+  max_retries: number;
+  result: unknown;
+  error_message: string | null;
+  available_at: string;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export const LEASE_SECONDS = 60;
+
+// Three heartbeats per lease, so one slow call does not lose the task
+export const HEARTBEAT_MS = (LEASE_SECONDS * 1000) / 3;
+
+export interface RetryPolicy {
+  // Delay before the first retry; each later retry waits twice as long
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryPolicy = { baseDelayMs: 30_000, maxDelayMs: 60 * 60 * 1000 };
+
+// Thrown by a task handler. Retryable errors go back in the queue; anything
+// else, such as a payload that will never parse, fails the task at once.
+export class RevenueTaskError extends Error {
+  constructor(message: string, readonly retryable = true) {
+    super(message);
+    this.name = "RevenueTaskError";
+  }
+}
+
+// Exponential backoff with jitter: the delay before retry number `attempt`
+// (1 for the first retry) is up to a fifth shorter than the doubled base, so
+// tasks that failed together do not all come back together.
+export function retryDelayMs(attempt: number, policy: RetryPolicy = DEFAULT_RETRY, random: () => number = Math.random): number {
+  const exponent = Math.max(attempt, 1) - 1;
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent);
+  return Math.round(delay * (1 - 0.2 * random()));
+}
+
+export interface TaskHandler<P> {
+  workerType: RevenueWorkerType;
+  // Validates the task's payload; throw a non-retryable RevenueTaskError for a bad one
+  parsePayload: (payload: unknown) => P;
+  run: (payload: P, task: RevenueTask, ctx: HandlerContext) => Promise<Record<string, unknown> | null>;
+  retry?: Partial<RetryPolicy>;
+}
+
+// A handler with its payload type checked and erased, so handlers for
+// different payloads fit in one registry
+export interface RegisteredTask {
+  workerType: RevenueWorkerType;
+  retry: RetryPolicy;
+  // Throws a RevenueTaskError for a payload the handler would refuse
+  validatePayload: (payload: unknown) => void;
+  run: (task: RevenueTask, ctx: HandlerContext) => Promise<Record<string, unknown> | null>;
+}
+
+export type TaskRegistry = Record<string, RegisteredTask>;
+
+export function defineTask<P>(handler: TaskHandler<P>): RegisteredTask {
+  return {
+    workerType: handler.workerType,
+    retry: { ...DEFAULT_RETRY, ...handler.retry },
+    validatePayload: (payload) => {
+      handler.parsePayload(payload);
+    },
+    run: (task, ctx) => handler.run(handler.parsePayload(task.payload), task, ctx),
+  };
+}
+
+// The task types a worker of this type claims
+export function taskTypesFor(registry: TaskRegistry, workerType: RevenueWorkerType): string[] {
+  return Object.entries(registry)
+    .filter(([, task]) => task.workerType === workerType)
+    .map(([taskType]) => taskType)
+    .sort();
+}
+
+export type TaskOutcome =
+  | { ok: true; result: Record<string, unknown> | null }
+  | { ok: false; error: string; retryable: boolean; retryDelayMs: number };
+
+// Runs one claimed task and says how to complete it. Errors other than
+// RevenueTaskError are treated as transient.
+export async function runRevenueTask(registry: TaskRegistry, task: RevenueTask, ctx: HandlerContext): Promise<TaskOutcome> {
+  const handler = registry[task.task_type];
+  if (!handler) {
+    return { ok: false, error: `No handler for task type ${task.task_type}`, retryable: false, retryDelayMs: 0 };
+  }
+  try {
+    return { ok: true, result: await handler.run(task, ctx) };
+  } catch (error) {
+    const retryable = error instanceof RevenueTaskError ? error.retryable : true;
+    return {
+      ok: false,
+      error: (error as Error).message,
+      retryable,
+      retryDelayMs: retryable ? retryDelayMs(task.retry_count + 1, handler.retry) : 0,
+    };
+  }
+}
+
+export async function registerRevenueWorker(supabase: SupabaseClient, workerType: RevenueWorkerType, executionId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("register_revenue_worker", {
+    p_worker_type: workerType,
+    p_execution_id: executionId,
+  });
+  if (error) {
+    throw new RevenueTaskError(`Failed to register a ${workerType} worker: ${error.message}`);
+  }
+  return data as string;
+}
+
+export async function stopRevenueWorker(supabase: SupabaseClient, workerId: string): Promise<void> {
+  const { error } = await supabase
+    .from("autonomous_revenue_workers")
+    .update({ status: "stopped", last_heartbeat: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", workerId);
+  if (error) {
+    throw new RevenueTaskError(`Failed to stop worker ${workerId}: ${error.message}`);
+  }
+}
+
+export async function claimRevenueTasks(
+  supabase: SupabaseClient,
+  workerId: string,
+  workerType: RevenueWorkerType,
+  taskTypes: string[],
+  batchSize: number,
+): Promise<RevenueTask[]> {
+  const { data, error } = await supabase.rpc("claim_revenue_tasks", {
+    p_worker_id: workerId,
+    p_worker_type: workerType,
+    p_batch_size: batchSize,
+    p_task_types: taskTypes,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+  if (error) {
+    throw new RevenueTaskError(`Failed to claim tasks for worker ${workerId}: ${error.message}`);
+  }
+  return (data || []) as RevenueTask[];
+}
+
+// Renews the leases; returns the IDs of the tasks the worker still holds
+export async function heartbeatRevenueTasks(supabase: SupabaseClient, workerId: string, taskIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase.rpc("heartbeat_revenue_tasks", {
+    p_worker_id: workerId,
+    p_task_ids: taskIds,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+  if (error) {
+    throw new RevenueTaskError(`Failed to renew the leases of worker ${workerId}: ${error.message}`);
+  }
+  return (data || []) as string[];
+}
+
+export interface TaskCompletion {
+  completed: boolean;
+  // Where the task ended up: completed, failed, or pending for a retry
+  status?: RevenueTaskStatus;
+  retry_at?: string | null;
+  // "lease_lost" when another worker took the task over
+  reason?: string;
+}
+
+export async function completeRevenueTask(
+  supabase: SupabaseClient,
+  task: RevenueTask,
+  workerId: string,
+  outcome: TaskOutcome,
+): Promise<TaskCompletion> {
+  const { data, error } = await supabase.rpc("complete_revenue_task", outcome.ok
+    ? { p_task_id: task.id, p_worker_id: workerId, p_success: true, p_result: outcome.result }
+    : {
+      p_task_id: task.id,
+      p_worker_id: workerId,
+      p_success: false,
+      p_error_message: outcome.error,
+      p_retry_delay_seconds: Math.ceil(outcome.retryDelayMs / 1000),
+      p_retryable: outcome.retryable,
+    });
+  if (error) {
+    throw new RevenueTaskError(`Failed to complete task ${task.id}: ${error.message}`);
+  }
+  return data as TaskCompletion;
+}
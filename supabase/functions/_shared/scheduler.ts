@@ -0,0 +1,295 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { ROLES, type Role } from "./auth.ts";
+import { CronError, assertTimeZone, blackoutAt, nextRun, parseBlackoutWindows, parseCron, runsBetween, type BlackoutWindow } from "./cron.ts";
+
+// Named jobs in scheduled_jobs, run by the scheduler function's tick, which
+// pg_cron calls every minute. Each job calls one edge function on a cron
+// expression in its own time zone.
+//
+// A tick finds the jobs whose next_run_at has passed and decides what to run:
+//   skip       missed runs are dropped; the latest runs only if it is still
+//              within MISSED_RUN_GRACE_MS
+//   catch_up   every missed run is made, oldest first, max_catch_up per tick
+// claim_scheduled_job then takes the job under an advisory lock, so a run
+// never starts while another run of the same job is still going.
+
+export const MISSED_RUN_POLICIES = ["skip", "catch_up"] as const;
+
+export type MissedRunPolicy = typeof MISSED_RUN_POLICIES[number];
+
+export type JobRunStatus = "running" | "succeeded" | "failed" | "skipped";
+
+export type JobRunTrigger = "schedule" | "catch_up" | "manual";
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  description: string | null;
+  cron_expression: string;
+  timezone: string;
+  function_name: string;
+  payload: Record<string, unknown>;
+  run_as_role: Role;
+  enabled: boolean;
+  missed_run_policy: MissedRunPolicy;
+  max_catch_up: number;
+  blackout_windows: BlackoutWindow[];
+  lock_timeout_minutes: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_finished_at: string | null;
+  last_status: JobRunStatus | null;
+  last_error: string | null;
+  running_since: string | null;
+  running_execution_id: string | null;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface ScheduledJobRun {
+  id: string;
+  job_id: string;
+  job_name: string;
+  scheduled_for: string | null;
+  trigger: JobRunTrigger;
+  status: JobRunStatus;
+  execution_id: string | null;
+  started_at: string;
+  finished_at: string | null;
+  result: Record<string, unknown> | null;
+  error_message: string | null;
+}
+
+// A job created in a migration with cron.schedule, read through list_cron_jobs
+export interface CronJob {
+  jobid: number;
+  jobname: string;
+  schedule: string;
+  active: boolean;
+  function_name: string | null;
+  last_run_at: string | null;
+  last_status: string | null;
+}
+
+export class SchedulerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchedulerError";
+  }
+}
+
+export const JOB_COLUMNS =
+  "id, name, description, cron_expression, timezone, function_name, payload, run_as_role, enabled, missed_run_policy, max_catch_up, blackout_windows, lock_timeout_minutes, next_run_at, last_run_at, last_finished_at, last_status, last_error, running_since, running_execution_id, created_at, updated_at, updated_by";
+
+// How late a run may start under the skip policy; ticks are a minute apart
+export const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+export interface JobDefinition {
+  name: string;
+  description: string | null;
+  cron_expression: string;
+  timezone: string;
+  function_name: string;
+  payload: Record<string, unknown>;
+  run_as_role: Role;
+  enabled: boolean;
+  missed_run_policy: MissedRunPolicy;
+  max_catch_up: number;
+  blackout_windows: BlackoutWindow[];
+  lock_timeout_minutes: number;
+}
+
+// Validates a job from a request body, filling in the table's defaults
+export function parseJobDefinition(input: Record<string, unknown>): JobDefinition {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!/^[a-z0-9][a-z0-9_-]{0,62}$/.test(name)) {
+    throw new SchedulerError("name must be lower-case letters, digits, - or _");
+  }
+  const functionName = typeof input.function_name === "string" ? input.function_name.trim() : "";
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(functionName)) {
+    throw new SchedulerError("function_name must be the name of an edge function");
+  }
+
+  const cronExpression = typeof input.cron_expression === "string" ? input.cron_expression.trim() : "";
+  const timezone = typeof input.timezone === "string" && input.timezone.trim() ? input.timezone.trim() : "UTC";
+  const payload = input.payload ?? {};
+  const runAsRole = (input.run_as_role ?? "operator") as Role;
+  const policy = (input.missed_run_policy ?? "skip") as MissedRunPolicy;
+  const maxCatchUp = Number(input.max_catch_up ?? 5);
+  const lockTimeout = Number(input.lock_timeout_minutes ?? 30);
+
+  if (typeof payload !== "object" || Array.isArray(payload) || payload === null) {
+    throw new SchedulerError("payload must be a JSON object");
+  }
+  if (!ROLES.includes(runAsRole)) {
+    throw new SchedulerError(`run_as_role must be one of ${ROLES.join(", ")}`);
+  }
+  if (!MISSED_RUN_POLICIES.includes(policy)) {
+    throw new SchedulerError(`missed_run_policy must be one of ${MISSED_RUN_POLICIES.join(", ")}`);
+  }
+  if (!Number.isInteger(maxCatchUp) || maxCatchUp < 1 || maxCatchUp > 100) {
+    throw new SchedulerError("max_catch_up must be a whole number from 1 to 100");
+  }
+  if (!Number.isInteger(lockTimeout) || lockTimeout < 1) {
+    throw new SchedulerError("lock_timeout_minutes must be a positive whole number");
+  }
+
+  try {
+    parseCron(cronExpression);
+    assertTimeZone(timezone);
+    return {
+      name,
+      description: typeof input.description === "string" && input.description.trim() ? input.description.trim() : null,
+      cron_expression: cronExpression,
+      timezone,
+      function_name: functionName,
+      payload: payload as Record<string, unknown>,
+      run_as_role: runAsRole,
+      enabled: input.enabled === undefined ? true : Boolean(input.enabled),
+      missed_run_policy: policy,
+      max_catch_up: maxCatchUp,
+      blackout_windows: parseBlackoutWindows(input.blackout_windows),
+      lock_timeout_minutes: lockTimeout,
+    };
+  } catch (error) {
+    if (error instanceof CronError) throw new SchedulerError(error.message);
+    throw error;
+  }
+}
+
+export function nextRunFor(job: Pick<ScheduledJob, "cron_expression" | "timezone" | "blackout_windows">, after: Date): Date | null {
+  return nextRun(parseCron(job.cron_expression), after, job.timezone, parseBlackoutWindows(job.blackout_windows));
+}
+
+export interface DuePlan {
+  // Occurrences to run now, oldest first
+  run: Date[];
+  // Set when the skip policy dropped the runs due from this time on
+  skippedFrom: Date | null;
+  // What next_run_at becomes once the runs are made
+  next: Date | null;
+}
+
+// What a tick at `now` should do for a job whose next_run_at has passed.
+// Windows are checked again because they may have changed since next_run_at
+// was computed.
+export function planDueRuns(job: ScheduledJob, now: Date): DuePlan {
+  const schedule = parseCron(job.cron_expression);
+  const blackouts = parseBlackoutWindows(job.blackout_windows);
+  const first = new Date(job.next_run_at!);
+  if (first.getTime() > now.getTime()) {
+    return { run: [], skippedFrom: null, next: first };
+  }
+
+  if (job.missed_run_policy === "catch_up") {
+    const due = [first, ...runsBetween(schedule, first, now, job.timezone, blackouts, job.max_catch_up - 1)];
+    return {
+      run: due.filter((at) => !blackoutAt(at, job.timezone, blackouts)),
+      skippedFrom: null,
+      // Still in the past when more runs are owed; the next tick makes those
+      next: nextRun(schedule, due[due.length - 1], job.timezone, blackouts),
+    };
+  }
+
+  // The latest run due by now, if it is recent enough to make
+  const windowStart = Math.max(first.getTime(), now.getTime() - MISSED_RUN_GRACE_MS) - 60000;
+  const recent = runsBetween(schedule, new Date(windowStart), now, job.timezone, blackouts, 10);
+  const latest = recent.length > 0 ? recent[recent.length - 1] : null;
+  return {
+    run: latest ? [latest] : [],
+    skippedFrom: latest && latest.getTime() === first.getTime() ? null : first,
+    next: nextRun(schedule, now, job.timezone, blackouts),
+  };
+}
+
+export interface JobClaim {
+  claimed: boolean;
+  // Why not: "running" (another run holds the job) or "already_run"
+  reason?: string;
+  run?: ScheduledJobRun;
+}
+
+export async function claimScheduledJob(
+  supabase: SupabaseClient,
+  job: ScheduledJob,
+  scheduledFor: Date | null,
+  trigger: JobRunTrigger,
+  executionId: string,
+): Promise<JobClaim> {
+  const { data, error } = await supabase.rpc("claim_scheduled_job", {
+    p_job_id: job.id,
+    p_scheduled_for: scheduledFor?.toISOString() ?? null,
+    p_trigger: trigger,
+    p_execution_id: executionId,
+  });
+  if (error) {
+    throw new SchedulerError(`Failed to claim job ${job.name}: ${error.message}`);
+  }
+  return data as JobClaim;
+}
+
+export async function finishScheduledJob(
+  supabase: SupabaseClient,
+  runId: string,
+  status: "succeeded" | "failed",
+  result: unknown,
+  errorMessage: string | null,
+  nextRunAt: Date | null,
+): Promise<void> {
+  const { error } = await supabase.rpc("finish_scheduled_job", {
+    p_run_id: runId,
+    p_status: status,
+    p_result: result ?? null,
+    p_error: errorMessage,
+    p_next_run_at: nextRunAt?.toISOString() ?? null,
+  });
+  if (error) {
+    throw new SchedulerError(`Failed to record the end of run ${runId}: ${error.message}`);
+  }
+}
+
+// Records runs dropped by the skip policy as one row, keyed by the first of
+// them, and moves next_run_at on
+export async function skipScheduledRuns(
+  supabase: SupabaseClient,
+  job: ScheduledJob,
+  skippedFrom: Date,
+  until: Date,
+  nextRunAt: Date | null,
+  executionId: string,
+): Promise<void> {
+  const { error } = await supabase.from("scheduled_job_runs").upsert({
+    job_id: job.id,
+    job_name: job.name,
+    scheduled_for: skippedFrom.toISOString(),
+    trigger: "schedule",
+    status: "skipped",
+    execution_id: executionId,
+    finished_at: new Date().toISOString(),
+    result: { skipped_from: skippedFrom.toISOString(), skipped_until: until.toISOString() },
+    error_message: "Missed its time; the job skips missed runs",
+  }, { onConflict: "job_id,scheduled_for", ignoreDuplicates: true });
+  if (error) {
+    throw new SchedulerError(`Failed to record skipped runs of ${job.name}: ${error.message}`);
+  }
+  await setNextRunAt(supabase, job, nextRunAt);
+}
+
+export async function setNextRunAt(supabase: SupabaseClient, job: ScheduledJob, nextRunAt: Date | null): Promise<void> {
+  const { error } = await supabase
+    .from("scheduled_jobs")
+    .update({ next_run_at: nextRunAt?.toISOString() ?? null })
+    .eq("id", job.id);
+  if (error) {
+    throw new SchedulerError(`Failed to update the next run of ${job.name}: ${error.message}`);
+  }
+}
+
+export async function listCronJobs(supabase: SupabaseClient): Promise<CronJob[]> {
+  const { data, error } = await supabase.rpc("list_cron_jobs");
+  if (error) {
+    throw new SchedulerError(`Failed to list pg_cron jobs: ${error.message}`);
+  }
+  return (data || []) as CronJob[];
+}
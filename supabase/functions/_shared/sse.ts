@@ -0,0 +1,61 @@
+import { corsHeaders } from "./cors.ts";
+
+// Server-Sent Events, both ways: reading an upstream text/event-stream and
+// writing one to the caller.
+
+export const SSE_HEADERS = {
+  ...corsHeaders,
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+};
+
+// The marker OpenAI-compatible streams end with
+export const SSE_DONE = "[DONE]";
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Splits buffered stream text into complete events and the partial event
+// still waiting for the rest of its lines. Comment lines are dropped and
+// multi-line data is joined with newlines, per the spec.
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: SseEvent[] = [];
+
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join("\n") });
+    }
+  }
+  return { events, rest };
+}
+
+export function formatSseEvent(data: unknown, event?: string): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const lines = payload.split("\n").map((line) => `data: ${line}`).join("\n");
+  return `${event ? `event: ${event}\n` : ""}${lines}\n\n`;
+}
+
+interface EdgeRuntimeGlobal {
+  EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void };
+}
+
+// Keeps the function alive for work that outlives its response, such as
+// settling a stream the caller walked away from
+export function runInBackground(promise: Promise<unknown>): void {
+  (globalThis as EdgeRuntimeGlobal).EdgeRuntime?.waitUntil(promise);
+}
@@ -0,0 +1,472 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { hmacSha256Hex, timingSafeEqual } from "./auth.ts";
+import type { Stripe } from "./clients.ts";
+import { HttpError } from "./envelope.ts";
+import {
+  LEDGER_ACCOUNTS,
+  hasJournal,
+  postJournal,
+  recordPayoutFailed,
+  recordPayoutSettled,
+  recordRefund,
+  recordTransferReversal,
+} from "./ledger.ts";
+import { money, toMajorUnits } from "./money.ts";
+import { canTransition, isTransferStatus, transitionTransfer, type TransferStatus } from "./transfer-state.ts";
+
+// Stripe webhook events: signature checks, idempotent storage in
+// stripe_webhook_events, and the handlers that turn each event into status
+// changes and ledger postings. Used by stripe-webhook for live deliveries and
+// by replay-stripe-events for events that failed to process.
+//
+// Every handler must be safe to run twice for the same event: ledger postings
+// use a reference derived from the Stripe object, transfers only move when
+// the lifecycle allows it, and table writes overwrite rather than append.
+
+export const STRIPE_SIGNATURE_HEADER = "stripe-signature";
+
+// Stripe's own libraries reject signatures older than five minutes
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Builds a Stripe-Signature header value, for tests and local event replays
+export async function signStripePayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${payload}`)}`;
+}
+
+// Checks a "t=<timestamp>,v1=<signature>[,v1=...]" header against the raw body
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+): Promise<void> {
+  if (!header) {
+    throw new HttpError(400, "invalid_signature", "Missing Stripe-Signature header");
+  }
+
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key === "t") timestamp = Number(value);
+    if (key === "v1" && value) signatures.push(value);
+  }
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new HttpError(400, "invalid_signature", "Malformed Stripe-Signature header");
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    throw new HttpError(400, "invalid_signature", "Stripe-Signature timestamp is outside the tolerance window");
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    throw new HttpError(400, "invalid_signature", "Stripe-Signature does not match the payload");
+  }
+}
+
+export interface StoredEvent {
+  // The event was already processed by an earlier delivery
+  duplicate: boolean;
+}
+
+// Inserts the event, or finds the row an earlier delivery of it left behind
+export async function storeStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<StoredEvent> {
+  const { error } = await supabase.from("stripe_webhook_events").insert({
+    event_id: event.id,
+    event_type: event.type,
+    event_data: event,
+    processed: false,
+  });
+
+  if (!error) {
+    return { duplicate: false };
+  }
+
+  // 23505: unique_violation on event_id
+  if (error.code !== "23505") {
+    throw new Error(`Failed to store Stripe event ${event.id}: ${error.message}`);
+  }
+
+  const { data, error: readError } = await supabase
+    .from("stripe_webhook_events")
+    .select("processed")
+    .eq("event_id", event.id)
+    .single();
+  if (readError) {
+    throw new Error(`Failed to read stored Stripe event ${event.id}: ${readError.message}`);
+  }
+  return { duplicate: data.processed === true };
+}
+
+export interface ProcessResult {
+  event_id: string;
+  event_type: string;
+  processed: boolean;
+  outcome?: string;
+  error?: string;
+}
+
+// Runs the handler for a stored event and records the outcome on its row.
+// Failures are kept on the row, not thrown, so a replay can pick them up.
+export async function processStoredEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<ProcessResult> {
+  let outcome: string | undefined;
+  let processingError: string | null = null;
+
+  try {
+    outcome = await processStripeEvent(supabase, event);
+  } catch (error) {
+    processingError = (error as Error).message;
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, error);
+  }
+
+  const { error: updateError } = await supabase
+    .from("stripe_webhook_events")
+    .update({
+      processed: processingError === null,
+      processed_at: processingError === null ? new Date().toISOString() : null,
+      processing_error: processingError,
+    })
+    .eq("event_id", event.id);
+  if (updateError) {
+    throw new Error(`Failed to record outcome of Stripe event ${event.id}: ${updateError.message}`);
+  }
+
+  return processingError === null
+    ? { event_id: event.id, event_type: event.type, processed: true, outcome }
+    : { event_id: event.id, event_type: event.type, processed: false, error: processingError };
+}
+
+type EventHandler = (supabase: SupabaseClient, event: Stripe.Event) => Promise<string>;
+
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  "payout.paid": handlePayoutPaid,
+  "payout.failed": handlePayoutFailed,
+  "transfer.reversed": handleTransferReversed,
+  "charge.refunded": handleChargeRefunded,
+  "charge.dispute.created": handleDisputeCreated,
+  "checkout.session.completed": handleCheckoutCompleted,
+};
+
+// Returns a short description of what changed; unhandled event types are stored and acknowledged
+export function processStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  if (event.type.startsWith("customer.subscription.")) {
+    return handleSubscription(supabase, event);
+  }
+  const handler = EVENT_HANDLERS[event.type];
+  return handler ? handler(supabase, event) : Promise.resolve("ignored");
+}
+
+const toIso = (seconds: number | null | undefined) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === "string" ? value : value?.id ?? null);
+
+interface TransferAttemptRef {
+  id: string;
+  status: TransferStatus;
+}
+
+// transfer_attempts keeps the provider ID of the original attempt in
+// stripe_transfer_id and of a corrective payout in corrected_transfer_id
+async function findTransferAttempt(supabase: SupabaseClient, providerId: string): Promise<TransferAttemptRef | null> {
+  const { data, error } = await supabase
+    .from("transfer_attempts")
+    .select("id, status")
+    .or(`stripe_transfer_id.eq.${providerId},corrected_transfer_id.eq.${providerId}`)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up transfer attempt for ${providerId}: ${error.message}`);
+  }
+  if (!data || !isTransferStatus(data.status)) {
+    return null;
+  }
+  return { id: data.id, status: data.status };
+}
+
+// Moves the attempt if the lifecycle allows it; redeliveries find it already moved
+async function moveTransferAttempt(
+  supabase: SupabaseClient,
+  providerId: string,
+  to: TransferStatus,
+  patch: Parameters<typeof transitionTransfer>[3] = {},
+): Promise<string> {
+  const attempt = await findTransferAttempt(supabase, providerId);
+  if (!attempt) {
+    return "no transfer attempt";
+  }
+  if (attempt.status === to) {
+    return `transfer attempt already ${to}`;
+  }
+  if (!canTransition(attempt.status, to)) {
+    return `transfer attempt left ${attempt.status}`;
+  }
+  await transitionTransfer(supabase, attempt.id, to, patch);
+  return `transfer attempt ${attempt.status} -> ${to}`;
+}
+
+async function upsertPayout(supabase: SupabaseClient, payout: Stripe.Payout) {
+  const row = {
+    payout_id: payout.id,
+    amount: payout.amount,
+    currency: payout.currency,
+    status: payout.status,
+    arrival_date: toIso(payout.arrival_date),
+    description: payout.description,
+    metadata: {
+      ...payout.metadata,
+      failure_code: payout.failure_code,
+      failure_message: payout.failure_message,
+    },
+    transfer_type: payout.method,
+  };
+
+  const { data: existing } = await supabase.from("stripe_payouts").select("id").eq("payout_id", payout.id).maybeSingle();
+  const { error } = existing
+    ? await supabase.from("stripe_payouts").update(row).eq("id", existing.id)
+    : await supabase.from("stripe_payouts").insert(row);
+  if (error) {
+    throw new Error(`Failed to save payout ${payout.id}: ${error.message}`);
+  }
+}
+
+async function handlePayoutPaid(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const payout = event.data.object as Stripe.Payout;
+  await upsertPayout(supabase, payout);
+  const transfer = await moveTransferAttempt(supabase, payout.id, "paid");
+
+  // Only payouts this app created were put in transit; anything else was never on the ledger
+  if (!(await hasJournal(supabase, `payout:${payout.id}`))) {
+    return `${transfer}; payout not on ledger`;
+  }
+  await recordPayoutSettled(
+    supabase,
+    money(payout.amount, payout.currency),
+    `payout_paid:${payout.id}`,
+    `Stripe payout ${payout.id} paid`,
+    { payout_id: payout.id, event_id: event.id },
+  );
+  return `${transfer}; payout settled`;
+}
+
+async function handlePayoutFailed(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const payout = event.data.object as Stripe.Payout;
+  await upsertPayout(supabase, payout);
+  const transfer = await moveTransferAttempt(supabase, payout.id, "failed", {
+    error_code: payout.failure_code ?? "payout_failed",
+    error_message: payout.failure_message ?? "Stripe reported the payout as failed",
+  });
+
+  if (!(await hasJournal(supabase, `payout:${payout.id}`))) {
+    return `${transfer}; payout not on ledger`;
+  }
+
+  const amount = money(payout.amount, payout.currency);
+  const reference = `payout_failed:${payout.id}`;
+  const metadata = { payout_id: payout.id, event_id: event.id, failure_code: payout.failure_code };
+
+  // The bank can return a payout Stripe already reported as paid
+  if (await hasJournal(supabase, `payout_paid:${payout.id}`)) {
+    await postJournal(supabase, {
+      description: `Stripe payout ${payout.id} returned by the bank`,
+      reference,
+      metadata,
+      lines: [
+        { account_code: LEDGER_ACCOUNTS.APPLICATION_BALANCE, debit: toMajorUnits(amount) },
+        { account_code: LEDGER_ACCOUNTS.BANK_ACCOUNT, credit: toMajorUnits(amount) },
+      ],
+    });
+    return `${transfer}; payout returned from bank`;
+  }
+
+  await recordPayoutFailed(supabase, amount, reference, `Stripe payout ${payout.id} failed`, metadata);
+  return `${transfer}; payout returned to balance`;
+}
+
+async function handleTransferReversed(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const transfer = event.data.object as Stripe.Transfer;
+  const attempt = await findTransferAttempt(supabase, transfer.id);
+  const status = await moveTransferAttempt(supabase, transfer.id, "reversed");
+
+  const onLedger = await hasJournal(supabase, `transfer:${transfer.id}`) ||
+    (attempt !== null && await hasJournal(supabase, `transfer_attempt:${attempt.id}`));
+  if (!onLedger) {
+    return `${status}; transfer not on ledger`;
+  }
+
+  // One posting per reversal object, so partial reversals add up and redeliveries do not
+  for (const reversal of transfer.reversals?.data ?? []) {
+    await recordTransferReversal(
+      supabase,
+      money(reversal.amount, reversal.currency),
+      `transfer_reversal:${reversal.id}`,
+      `Stripe transfer ${transfer.id} reversed`,
+      { transfer_id: transfer.id, reversal_id: reversal.id, event_id: event.id },
+    );
+  }
+  return `${status}; ${transfer.reversals?.data.length ?? 0} reversal(s) posted`;
+}
+
+async function updatePaymentStatus(supabase: SupabaseClient, paymentIntentId: string | null, status: string) {
+  if (!paymentIntentId) return;
+  const { error } = await supabase
+    .from("stripe_payments")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("stripe_payment_intent_id", paymentIntentId);
+  if (error) {
+    throw new Error(`Failed to update payment ${paymentIntentId}: ${error.message}`);
+  }
+}
+
+async function handleChargeRefunded(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const charge = event.data.object as Stripe.Charge;
+  await updatePaymentStatus(supabase, idOf(charge.payment_intent), charge.refunded ? "refunded" : "partially_refunded");
+
+  const refunds = (charge.refunds?.data ?? []).filter((refund) => refund.status !== "failed" && refund.status !== "canceled");
+  for (const refund of refunds) {
+    await recordRefund(
+      supabase,
+      money(refund.amount, refund.currency),
+      `refund:${refund.id}`,
+      `Refund ${refund.id} of charge ${charge.id}`,
+      { charge_id: charge.id, refund_id: refund.id, event_id: event.id },
+    );
+  }
+  return `${refunds.length} refund(s) posted`;
+}
+
+// Stripe debits the disputed amount as soon as the dispute opens
+async function handleDisputeCreated(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const dispute = event.data.object as Stripe.Dispute;
+  await updatePaymentStatus(supabase, idOf(dispute.payment_intent), "disputed");
+  await recordRefund(
+    supabase,
+    money(dispute.amount, dispute.currency),
+    `dispute:${dispute.id}`,
+    `Dispute ${dispute.id} opened on charge ${idOf(dispute.charge)}`,
+    { charge_id: idOf(dispute.charge), dispute_id: dispute.id, reason: dispute.reason, event_id: event.id },
+  );
+  return "dispute posted";
+}
+
+// create-checkout puts the buyer's user ID in client_reference_id. Saving the
+// customer under it lets later subscription events find their user, and
+// subscriptions saved before this event arrived are claimed now.
+async function handleCheckoutCompleted(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const session = event.data.object as Stripe.Checkout.Session;
+  const customerId = idOf(session.customer);
+  const userId = session.client_reference_id ?? session.metadata?.user_id ?? null;
+  if (!customerId || !userId) {
+    return "checkout without a customer or user";
+  }
+
+  const row = {
+    stripe_customer_id: customerId,
+    user_id: userId,
+    email: session.customer_details?.email ?? session.customer_email ?? "",
+    name: session.customer_details?.name ?? null,
+    updated_at: new Date().toISOString(),
+  };
+  const { data: existing } = await supabase
+    .from("stripe_customers")
+    .select("id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+  const { error } = existing
+    ? await supabase.from("stripe_customers").update(row).eq("id", existing.id)
+    : await supabase.from("stripe_customers").insert(row);
+  if (error) {
+    throw new Error(`Failed to save customer ${customerId}: ${error.message}`);
+  }
+
+  const { error: claimError } = await supabase
+    .from("stripe_subscriptions")
+    .update({ user_id: userId, updated_at: new Date().toISOString() })
+    .eq("stripe_customer_id", customerId)
+    .is("user_id", null);
+  if (claimError) {
+    throw new Error(`Failed to link subscriptions of ${customerId}: ${claimError.message}`);
+  }
+  return `customer ${customerId} linked to user`;
+}
+
+async function handleSubscription(supabase: SupabaseClient, event: Stripe.Event): Promise<string> {
+  const subscription = event.data.object as Stripe.Subscription;
+  const customerId = idOf(subscription.customer) ?? "";
+  const eventAt = toIso(event.created)!;
+  const items = subscription.items?.data ?? [];
+  // The plan is the licensed item; a metered one carries overage usage
+  const metered = items.find((candidate) => candidate.price?.recurring?.usage_type === "metered");
+  const item = items.find((candidate) => candidate !== metered) ?? items[0];
+  const price = item?.price;
+
+  const { data: customer, error: customerError } = await supabase
+    .from("stripe_customers")
+    .select("user_id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+  if (customerError) {
+    throw new Error(`Failed to look up customer ${customerId}: ${customerError.message}`);
+  }
+
+  // Subscription events can arrive before checkout.session.completed has
+  // saved the customer, so create-checkout also puts the user in the metadata.
+  // Without either, a user linked earlier is left in place.
+  const userId = customer?.user_id ?? subscription.metadata?.user_id ?? null;
+
+  const row = {
+    stripe_subscription_id: subscription.id,
+    stripe_customer_id: customerId,
+    ...(userId ? { user_id: userId } : {}),
+    status: subscription.status,
+    plan_id: price?.id ?? null,
+    plan_name: price?.nickname ?? null,
+    plan_amount: price?.unit_amount ?? null,
+    plan_currency: price?.currency ?? null,
+    plan_interval: price?.recurring?.interval ?? null,
+    quantity: item?.quantity ?? null,
+    metered_item_id: metered?.id ?? null,
+    current_period_start: toIso(subscription.current_period_start),
+    current_period_end: toIso(subscription.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: toIso(subscription.canceled_at),
+    trial_start: toIso(subscription.trial_start),
+    trial_end: toIso(subscription.trial_end),
+    metadata: subscription.metadata,
+    last_event_at: eventAt,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: existing, error: existingError } = await supabase
+    .from("stripe_subscriptions")
+    .select("id")
+    .eq("stripe_subscription_id", subscription.id)
+    .maybeSingle();
+  if (existingError) {
+    throw new Error(`Failed to look up subscription ${subscription.id}: ${existingError.message}`);
+  }
+  if (!existing) {
+    const { error } = await supabase.from("stripe_subscriptions").insert(row);
+    if (error) {
+      throw new Error(`Failed to save subscription ${subscription.id}: ${error.message}`);
+    }
+    return `subscription ${subscription.status}`;
+  }
+
+  // Stripe may deliver events out of order; only an event at least as new as
+  // the one the row was last written from may overwrite it
+  const { data: updated, error } = await supabase
+    .from("stripe_subscriptions")
+    .update(row)
+    .eq("id", existing.id)
+    .or(`last_event_at.is.null,last_event_at.lte."${eventAt}"`)
+    .select("id");
+  if (error) {
+    throw new Error(`Failed to save subscription ${subscription.id}: ${error.message}`);
+  }
+  return updated && updated.length > 0
+    ? `subscription ${subscription.status}`
+    : "older than the saved subscription; ignored";
+}
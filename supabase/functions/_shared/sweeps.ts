@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { HandlerContext } from "./handler.ts";
+import type { MovementRequest } from "./failsafe.ts";
+
+// Sweeps move the application balance out to a provider in three steps, so
+// a crash at any point leaves the ledger recoverable:
+//
+//   reserve_sweep    Application Balance -> Sweep Reserve, and a sweep_batches
+//                    row, in one transaction before the provider is called
+//   provider call    the batch is marked executing first
+//   finalize_sweep   Sweep Reserve -> Payouts In Transit / Connected Accounts
+//   release_sweep    Sweep Reserve -> Application Balance, when the provider refused
+//
+// A batch the provider may or may not have acted on stays executing, and
+// recover-sweeps replays or escalates it.
+
+export const SWEEP_STATUSES = ["reserved", "executing", "finalized", "released", "needs_review"] as const;
+
+export type SweepStatus = typeof SWEEP_STATUSES[number];
+
+export type SweepMovement = "payout" | "connected_transfer";
+
+export interface SweepBatch {
+  id: string;
+  function_name: string;
+  provider: MovementRequest["provider"];
+  provider_method: string;
+  request: Record<string, unknown>;
+  destination: string | null;
+  amount_cents: number;
+  currency: string;
+  movement: SweepMovement;
+  status: SweepStatus;
+  idempotency_key: string;
+  execution_id: string | null;
+  provider_reference: string | null;
+  error_message: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  executing_at: string | null;
+  settled_at: string | null;
+}
+
+export interface SweepRequest {
+  provider: MovementRequest["provider"];
+  // e.g. "payouts.create"; with request, enough for recover-sweeps to replay the call
+  method: string;
+  request: Record<string, unknown>;
+  destination: string | null;
+  amountCents: number;
+  movement: SweepMovement;
+  idempotencyKey: string;
+  currency?: string;
+}
+
+export class SweepError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SweepError";
+  }
+}
+
+export const SWEEP_COLUMNS =
+  "id, function_name, provider, provider_method, request, destination, amount_cents, currency, movement, status, idempotency_key, execution_id, provider_reference, error_message, attempts, created_at, updated_at, executing_at, settled_at";
+
+// Ledger reference and description for a provider object, matching what the
+// webhooks and reconciliation look up (payout:<id>, transfer:<id>, ...)
+export function sweepJournal(provider: MovementRequest["provider"], method: string, reference: string) {
+  if (provider === "paypal") {
+    return { reference: `paypal_batch:${reference}`, description: `PayPal payout batch ${reference}` };
+  }
+  if (provider === "modern_treasury") {
+    return { reference: `modern_treasury:${reference}`, description: `Modern Treasury payment order ${reference}` };
+  }
+  if (method === "transfers.create") {
+    return { reference: `transfer:${reference}`, description: `Sweep transfer ${reference}` };
+  }
+  return { reference: `payout:${reference}`, description: `Stripe payout ${reference}` };
+}
+
+// Errors after which nobody knows whether the provider moved the money: the
+// request may have arrived and only the answer was lost
+export function isOutcomeUnknown(error: unknown): boolean {
+  const err = error as { type?: string; name?: string } | null;
+  return err?.type === "StripeConnectionError" ||
+    err?.type === "StripeAPIError" ||
+    err?.name === "TypeError" ||
+    err?.name === "TimeoutError";
+}
+
+// Returns null when the application balance no longer covers the amount,
+// e.g. because a concurrent sweep already took it
+export async function reserveSweep(ctx: HandlerContext, sweep: SweepRequest): Promise<SweepBatch | null> {
+  const { data, error } = await ctx.supabase.rpc("reserve_sweep", {
+    p_function_name: ctx.name,
+    p_provider: sweep.provider,
+    p_provider_method: sweep.method,
+    p_request: sweep.request,
+    p_destination: sweep.destination,
+    p_amount_cents: sweep.amountCents,
+    p_movement: sweep.movement,
+    p_idempotency_key: sweep.idempotencyKey,
+    p_execution_id: ctx.executionId,
+    p_currency: sweep.currency ?? "usd",
+  });
+  if (error) {
+    throw new SweepError(`Failed to reserve ${sweep.amountCents} cents for ${sweep.provider}: ${error.message}`);
+  }
+
+  const result = data as { reserved: boolean; batch?: SweepBatch; available_cents?: number };
+  if (!result.reserved || !result.batch) {
+    console.warn(`[${ctx.executionId}] Sweep of ${sweep.amountCents} cents not reserved: ${result.available_cents ?? 0} cents available`);
+    return null;
+  }
+  return result.batch;
+}
+
+// False when another caller has claimed an attempt since `batch` was read
+export async function markSweepExecuting(supabase: SupabaseClient, batch: SweepBatch): Promise<boolean> {
+  const { data, error } = await supabase.rpc("mark_sweep_executing", { p_batch_id: batch.id, p_attempts: batch.attempts });
+  if (error) {
+    throw new SweepError(`Failed to mark sweep ${batch.id} executing: ${error.message}`);
+  }
+  return Boolean(data);
+}
+
+export async function finalizeSweep(supabase: SupabaseClient, batch: SweepBatch, providerReference: string): Promise<SweepBatch> {
+  const journal = sweepJournal(batch.provider, batch.provider_method, providerReference);
+  const { data, error } = await supabase.rpc("finalize_sweep", {
+    p_batch_id: batch.id,
+    p_provider_reference: providerReference,
+    p_journal_reference: journal.reference,
+    p_description: journal.description,
+  });
+  if (error) {
+    throw new SweepError(`Failed to finalize sweep ${batch.id}: ${error.message}`);
+  }
+  return data as SweepBatch;
+}
+
+export async function releaseSweep(supabase: SupabaseClient, batchId: string, reason: string): Promise<SweepBatch> {
+  const { data, error } = await supabase.rpc("release_sweep", { p_batch_id: batchId, p_reason: reason });
+  if (error) {
+    throw new SweepError(`Failed to release sweep ${batchId}: ${error.message}`);
+  }
+  return data as SweepBatch;
+}
+
+export async function flagSweepForReview(supabase: SupabaseClient, batchId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from("sweep_batches")
+    .update({ status: "needs_review", error_message: reason, updated_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .in("status", ["reserved", "executing"]);
+  if (error) {
+    throw new SweepError(`Failed to flag sweep ${batchId} for review: ${error.message}`);
+  }
+}
+
+// Runs the provider call against a reserved batch. On success the reservation
+// is finalized under referenceOf(result); when the provider refused, it is
+// released and the error rethrown. When the outcome is unknown, or the
+// finalize itself fails, the batch stays executing for recover-sweeps.
+export async function executeSweep<T>(
+  ctx: HandlerContext,
+  batch: SweepBatch,
+  call: (batch: SweepBatch) => Promise<T>,
+  referenceOf: (result: T) => string,
+): Promise<T> {
+  // An executing batch, e.g. one a retried request reserved earlier, is
+  // recover-sweeps' to replay
+  if (batch.status !== "reserved" || !(await markSweepExecuting(ctx.supabase, batch))) {
+    throw new SweepError(`Sweep ${batch.id} is no longer reserved`);
+  }
+
+  let result: T;
+  try {
+    result = await call(batch);
+  } catch (error) {
+    if (isOutcomeUnknown(error)) {
+      console.error(`[${ctx.executionId}] Sweep ${batch.id} left executing, provider outcome unknown: ${(error as Error).message}`);
+    } else {
+      await releaseSweep(ctx.supabase, batch.id, (error as Error).message);
+    }
+    throw error;
+  }
+
+  try {
+    await finalizeSweep(ctx.supabase, batch, referenceOf(result));
+  } catch (error) {
+    // The money has moved; recover-sweeps finalizes it from the provider's answer
+    console.error(`[${ctx.executionId}] Sweep ${batch.id} succeeded at ${batch.provider} but was not finalized: ${(error as Error).message}`);
+  }
+  return result;
+}
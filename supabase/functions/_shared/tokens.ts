@@ -0,0 +1,52 @@
+import type { ChatMessage } from "./model-providers.ts";
+
+// Token counts for a completion. The provider's own `usage` is used when it
+// sends one; otherwise, as for a stream the caller abandoned, they are
+// estimated here.
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // True when the counts are the local estimate rather than the provider's
+  estimated: boolean;
+}
+
+// Tokens a chat message costs beyond its text, and the reply's priming
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// A BPE tokenizer splits common English into about one token per four
+// characters of a word, and gives most punctuation a token of its own
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? []) {
+    tokens += /^[\p{L}\p{N}]/u.test(piece) ? Math.ceil(piece.length / 4) : 1;
+  }
+  return tokens;
+}
+
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + TOKENS_PER_MESSAGE + estimateTokens(message.content), TOKENS_PER_REPLY);
+}
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+// The prompt and completion counts from a chat-completions `usage` object, or
+// null when it is missing or malformed
+export function providerUsage(usage: unknown): { prompt_tokens: number; completion_tokens: number } | null {
+  const { prompt_tokens, completion_tokens } = (usage ?? {}) as Record<string, unknown>;
+  return isCount(prompt_tokens) && isCount(completion_tokens) ? { prompt_tokens, completion_tokens } : null;
+}
+
+export function countTokens(reported: unknown, messages: ChatMessage[], completion: string): TokenUsage {
+  const usage = providerUsage(reported);
+  const promptTokens = usage?.prompt_tokens ?? estimatePromptTokens(messages);
+  const completionTokens = usage?.completion_tokens ?? estimateTokens(completion);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    estimated: usage === null,
+  };
+}
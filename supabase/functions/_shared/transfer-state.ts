@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Lifecycle of a transfer_attempts row. The same table of transitions is
+// enforced by the transfer_attempts_enforce_transition trigger, and every
+// change is appended to transfer_attempt_transitions by the database.
+
+export const TRANSFER_STATUSES = [
+  "created",
+  "submitted",
+  "pending_at_provider",
+  "paid",
+  "failed",
+  "reversed",
+  "cancelled",
+] as const;
+
+export type TransferStatus = typeof TRANSFER_STATUSES[number];
+
+export const TRANSFER_TRANSITIONS: Record<TransferStatus, readonly TransferStatus[]> = {
+  created: ["submitted", "failed", "cancelled"],
+  submitted: ["pending_at_provider", "paid", "failed"],
+  pending_at_provider: ["paid", "failed"],
+  paid: ["reversed"],
+  // A failed transfer may be retried, abandoned, or found to have been paid after all
+  failed: ["submitted", "paid", "cancelled"],
+  reversed: [],
+  cancelled: [],
+};
+
+// Only the provider can confirm that money is in flight or has landed
+const REQUIRES_PROVIDER_ID: readonly TransferStatus[] = ["pending_at_provider", "paid", "reversed"];
+
+export class TransferStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferStateError";
+  }
+}
+
+export interface TransferPatch {
+  stripe_transfer_id?: string;
+  corrected_transfer_id?: string;
+  corrected_at?: string;
+  error_code?: string | null;
+  error_message?: string | null;
+  correction_error?: string | null;
+  retry_count?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export function isTransferStatus(value: unknown): value is TransferStatus {
+  return typeof value === "string" && (TRANSFER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: TransferStatus, to: TransferStatus): boolean {
+  return TRANSFER_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: TransferStatus, to: TransferStatus, providerId?: string | null) {
+  if (!canTransition(from, to)) {
+    throw new TransferStateError(`Illegal transfer transition ${from} -> ${to}`);
+  }
+  if (REQUIRES_PROVIDER_ID.includes(to) && !providerId) {
+    throw new TransferStateError(`Transfer cannot move to ${to} without a provider ID`);
+  }
+}
+
+// Cents sent to the provider whose outcome is not yet known. The ledger is only
+// posted once a transfer is paid, so this money is still in the application
+// balance though it may already have left; a new transfer must leave it alone.
+export async function inFlightTransferCents(supabase: SupabaseClient, currency = "usd"): Promise<number> {
+  const { data, error } = await supabase
+    .from("transfer_attempts")
+    .select("amount")
+    .eq("currency", currency)
+    .in("status", ["submitted", "pending_at_provider"]);
+  if (error) {
+    throw new TransferStateError(`Failed to read transfers in flight: ${error.message}`);
+  }
+  return (data ?? []).reduce((total: number, row: { amount: number }) => total + row.amount, 0);
+}
+
+// Moves a transfer to `to`, applying `patch` in the same update. The update is
+// conditional on the status read here, so two workers racing on the same
+// transfer cannot both win.
+export async function transitionTransfer(
+  supabase: SupabaseClient,
+  transferId: string,
+  to: TransferStatus,
+  patch: TransferPatch = {},
+): Promise<TransferStatus> {
+  const { data: current, error: readError } = await supabase
+    .from("transfer_attempts")
+    .select("status, stripe_transfer_id, corrected_transfer_id")
+    .eq("id", transferId)
+    .single();
+
+  if (readError || !current) {
+    throw new TransferStateError(`Transfer ${transferId} not found: ${readError?.message ?? "no row"}`);
+  }
+  if (!isTransferStatus(current.status)) {
+    throw new TransferStateError(`Transfer ${transferId} has unknown status ${current.status}`);
+  }
+
+  const from = current.status;
+  const providerId = patch.corrected_transfer_id ?? patch.stripe_transfer_id ??
+    current.corrected_transfer_id ?? current.stripe_transfer_id;
+  assertTransition(from, to, providerId);
+
+  const { data: updated, error: updateError } = await supabase
+    .from("transfer_attempts")
+    .update({ ...patch, status: to })
+    .eq("id", transferId)
+    .eq("status", from)
+    .select("id");
+
+  if (updateError) {
+    throw new TransferStateError(`Failed to move transfer ${transferId} ${from} -> ${to}: ${updateError.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    throw new TransferStateError(`Transfer ${transferId} left ${from} before it could move to ${to}`);
+  }
+
+  return from;
+}
@@ -0,0 +1,324 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { HandlerContext } from "./handler.ts";
+import type { Role } from "./auth.ts";
+
+// Multi-step workflows with every step persisted in workflow_run_steps, so a
+// run survives the function that started it:
+//
+//   run           the steps in order; each one records its input, output and
+//                 status before the next starts
+//   resume        a run whose lease ran out (the function died mid-step) is
+//                 claimed by the next caller and picks up at the first step
+//                 that did not succeed; that step runs again, so steps must
+//                 be safe to repeat (see stepKey)
+//   compensate    when a step fails, the steps that succeeded are undone in
+//                 reverse order. Walking back stops at an irreversible step,
+//                 such as a payout: what happened before it stands.
+
+export const WORKFLOW_LEASE_SECONDS = 300;
+
+export type WorkflowStatus = "running" | "compensating" | "succeeded" | "failed" | "compensated" | "compensation_failed";
+
+export type StepStatus = "pending" | "running" | "succeeded" | "failed" | "compensating" | "compensated" | "compensation_failed";
+
+export interface WorkflowRun {
+  id: string;
+  workflow_type: string;
+  status: WorkflowStatus;
+  input: Record<string, unknown>;
+  current_step: string | null;
+  attempts: number;
+  execution_id: string | null;
+  triggered_by: string | null;
+  lease_expires_at: string | null;
+  error_message: string | null;
+  started_at: string;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+export interface WorkflowStepRun {
+  id: string;
+  run_id: string;
+  step_index: number;
+  step_name: string;
+  status: StepStatus;
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  error_message: string | null;
+  attempts: number;
+  started_at: string | null;
+  completed_at: string | null;
+  compensation_error: string | null;
+  compensated_at: string | null;
+}
+
+export const WORKFLOW_RUN_COLUMNS =
+  "id, workflow_type, status, input, current_step, attempts, execution_id, triggered_by, lease_expires_at, error_message, started_at, completed_at, updated_at";
+
+export const WORKFLOW_STEP_COLUMNS =
+  "id, run_id, step_index, step_name, status, input, output, error_message, attempts, started_at, completed_at, compensation_error, compensated_at";
+
+export class WorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowError";
+  }
+}
+
+export interface StepContext<I> {
+  ctx: HandlerContext;
+  run: WorkflowRun;
+  input: I;
+  // Outputs of the steps that succeeded so far, by step name
+  outputs: Record<string, Record<string, unknown>>;
+}
+
+export interface WorkflowStep<I> {
+  name: string;
+  run: (step: StepContext<I>) => Promise<Record<string, unknown>>;
+  // Undoes a succeeded step; must cope with having been partly done already
+  compensate?: (step: StepContext<I>, output: Record<string, unknown>) => Promise<void>;
+  // Stops compensation walking back past this step
+  irreversible?: boolean;
+}
+
+export interface WorkflowDefinition<I> {
+  // Minimum role to start or resume a run
+  role: Role;
+  description: string;
+  // Validates a start request; throw a WorkflowError for a bad one
+  parseInput: (input: unknown) => I;
+  steps: WorkflowStep<I>[];
+}
+
+// A definition with its input type checked and erased, so workflows with
+// different inputs fit in one registry
+export interface RegisteredWorkflow {
+  role: Role;
+  description: string;
+  stepNames: string[];
+  parseInput: (input: unknown) => Record<string, unknown>;
+  steps: WorkflowStep<Record<string, unknown>>[];
+}
+
+export type WorkflowRegistry = Record<string, RegisteredWorkflow>;
+
+export function defineWorkflow<I>(definition: WorkflowDefinition<I>): RegisteredWorkflow {
+  return {
+    role: definition.role,
+    description: definition.description,
+    stepNames: definition.steps.map((step) => step.name),
+    parseInput: (input) => definition.parseInput(input) as Record<string, unknown>,
+    steps: definition.steps as unknown as WorkflowStep<Record<string, unknown>>[],
+  };
+}
+
+// A key that stays the same however often the step is resumed, for provider
+// idempotency keys and sweep reservations
+export const stepKey = (run: WorkflowRun, stepName: string) => `workflow:${run.id}:${stepName}`;
+
+// The index of the first step still to run, or null when every step succeeded
+export function resumePoint(steps: Pick<WorkflowStepRun, "status">[]): number | null {
+  const index = steps.findIndex((step) => step.status !== "succeeded");
+  return index === -1 ? null : index;
+}
+
+// The succeeded (or half-compensated) steps to undo, last first, from the
+// step before `failedIndex` back to the nearest irreversible step
+export function compensationPlan<I>(
+  steps: WorkflowStep<I>[],
+  runs: Pick<WorkflowStepRun, "status">[],
+  failedIndex: number,
+): number[] {
+  const plan: number[] = [];
+  for (let index = failedIndex - 1; index >= 0; index--) {
+    const status = runs[index]?.status;
+    if (status === "compensated") continue;
+    if (steps[index].irreversible) break;
+    if (steps[index].compensate && (status === "succeeded" || status === "compensating")) {
+      plan.push(index);
+    }
+  }
+  return plan;
+}
+
+export async function loadWorkflowRun(supabase: SupabaseClient, runId: string): Promise<WorkflowRun | null> {
+  const { data, error } = await supabase.from("workflow_runs").select(WORKFLOW_RUN_COLUMNS).eq("id", runId).maybeSingle();
+  if (error) {
+    throw new WorkflowError(`Failed to load workflow run ${runId}: ${error.message}`);
+  }
+  return data as WorkflowRun | null;
+}
+
+export async function loadWorkflowSteps(supabase: SupabaseClient, runId: string): Promise<WorkflowStepRun[]> {
+  const { data, error } = await supabase
+    .from("workflow_run_steps")
+    .select(WORKFLOW_STEP_COLUMNS)
+    .eq("run_id", runId)
+    .order("step_index");
+  if (error) {
+    throw new WorkflowError(`Failed to load the steps of workflow run ${runId}: ${error.message}`);
+  }
+  return (data || []) as WorkflowStepRun[];
+}
+
+async function updateRun(supabase: SupabaseClient, runId: string, changes: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("workflow_runs")
+    .update({
+      ...changes,
+      updated_at: new Date().toISOString(),
+      lease_expires_at: changes.lease_expires_at !== undefined
+        ? changes.lease_expires_at
+        : new Date(Date.now() + WORKFLOW_LEASE_SECONDS * 1000).toISOString(),
+    })
+    .eq("id", runId);
+  if (error) {
+    throw new WorkflowError(`Failed to update workflow run ${runId}: ${error.message}`);
+  }
+}
+
+async function updateStep(supabase: SupabaseClient, step: WorkflowStepRun, changes: Partial<WorkflowStepRun>) {
+  const { error } = await supabase.from("workflow_run_steps").update(changes).eq("id", step.id);
+  if (error) {
+    throw new WorkflowError(`Failed to update step ${step.step_name} of workflow run ${step.run_id}: ${error.message}`);
+  }
+  Object.assign(step, changes);
+}
+
+// Creates the run and its pending steps; the caller runs it with executeWorkflowRun
+export async function createWorkflowRun(
+  ctx: HandlerContext,
+  workflowType: string,
+  workflow: RegisteredWorkflow,
+  input: Record<string, unknown>,
+  triggeredBy: string | null,
+): Promise<WorkflowRun> {
+  const now = new Date();
+  const { data, error } = await ctx.supabase
+    .from("workflow_runs")
+    .insert({
+      workflow_type: workflowType,
+      status: "running",
+      input,
+      attempts: 1,
+      execution_id: ctx.executionId,
+      triggered_by: triggeredBy,
+      lease_expires_at: new Date(now.getTime() + WORKFLOW_LEASE_SECONDS * 1000).toISOString(),
+      started_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .select(WORKFLOW_RUN_COLUMNS)
+    .single();
+  if (error) {
+    throw new WorkflowError(`Failed to start a ${workflowType} run: ${error.message}`);
+  }
+
+  const run = data as WorkflowRun;
+  const { error: stepsError } = await ctx.supabase.from("workflow_run_steps").insert(
+    workflow.stepNames.map((name, index) => ({ run_id: run.id, step_index: index, step_name: name, status: "pending" })),
+  );
+  if (stepsError) {
+    throw new WorkflowError(`Failed to record the steps of ${workflowType} run ${run.id}: ${stepsError.message}`);
+  }
+  return run;
+}
+
+// Takes over a running or compensating run whose lease has run out. Returns
+// null when the run is finished or another caller still holds it.
+export async function claimWorkflowRun(ctx: HandlerContext, runId: string): Promise<WorkflowRun | null> {
+  const { data, error } = await ctx.supabase.rpc("claim_workflow_run", {
+    p_run_id: runId,
+    p_execution_id: ctx.executionId,
+    p_lease_seconds: WORKFLOW_LEASE_SECONDS,
+  });
+  if (error) {
+    throw new WorkflowError(`Failed to claim workflow run ${runId}: ${error.message}`);
+  }
+  return (data as WorkflowRun | null) ?? null;
+}
+
+async function compensate(
+  ctx: HandlerContext,
+  workflow: RegisteredWorkflow,
+  run: WorkflowRun,
+  steps: WorkflowStepRun[],
+  failedIndex: number,
+  outputs: Record<string, Record<string, unknown>>,
+): Promise<WorkflowStatus> {
+  const plan = compensationPlan(workflow.steps, steps, failedIndex);
+  const stepContext = { ctx, run, input: run.input, outputs };
+
+  for (const index of plan) {
+    const definition = workflow.steps[index];
+    const step = steps[index];
+    await updateStep(ctx.supabase, step, { status: "compensating" });
+    await updateRun(ctx.supabase, run.id, { current_step: step.step_name });
+    try {
+      await definition.compensate!(stepContext, step.output ?? {});
+      await updateStep(ctx.supabase, step, { status: "compensated", compensated_at: new Date().toISOString() });
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`[${ctx.executionId}] Compensating ${step.step_name} of workflow run ${run.id} failed: ${message}`);
+      await updateStep(ctx.supabase, step, { status: "compensation_failed", compensation_error: message });
+      return "compensation_failed";
+    }
+  }
+  return plan.length > 0 ? "compensated" : "failed";
+}
+
+// Runs a claimed run from its first unfinished step to the end, or through
+// compensation when a step fails. Returns the run as it finished.
+export async function executeWorkflowRun(ctx: HandlerContext, workflow: RegisteredWorkflow, run: WorkflowRun): Promise<WorkflowRun> {
+  const steps = await loadWorkflowSteps(ctx.supabase, run.id);
+  if (steps.length !== workflow.steps.length) {
+    throw new WorkflowError(`Workflow run ${run.id} has ${steps.length} steps recorded but ${run.workflow_type} defines ${workflow.steps.length}`);
+  }
+
+  const outputs: Record<string, Record<string, unknown>> = {};
+  for (const step of steps) {
+    if (step.status === "succeeded" || step.status === "compensating") outputs[step.step_name] = step.output ?? {};
+  }
+
+  const finish = async (status: WorkflowStatus, errorMessage: string | null) => {
+    const completedAt = new Date().toISOString();
+    await updateRun(ctx.supabase, run.id, { status, error_message: errorMessage, completed_at: completedAt, current_step: null, lease_expires_at: null });
+    return { ...run, status, error_message: errorMessage, completed_at: completedAt, current_step: null, lease_expires_at: null };
+  };
+
+  // A run that died while compensating carries on compensating
+  const failedIndex = steps.findIndex((step) => step.status === "failed");
+  if (run.status === "compensating" && failedIndex !== -1) {
+    return finish(await compensate(ctx, workflow, run, steps, failedIndex, outputs), run.error_message);
+  }
+
+  for (let index = resumePoint(steps) ?? steps.length; index < steps.length; index++) {
+    const definition = workflow.steps[index];
+    const step = steps[index];
+    await updateStep(ctx.supabase, step, {
+      status: "running",
+      input: { ...run.input, previous_outputs: { ...outputs } },
+      attempts: step.attempts + 1,
+      started_at: new Date().toISOString(),
+      error_message: null,
+    });
+    await updateRun(ctx.supabase, run.id, { current_step: step.step_name });
+
+    let output: Record<string, unknown>;
+    try {
+      output = await definition.run({ ctx, run, input: run.input, outputs });
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`[${ctx.executionId}] Step ${step.step_name} of workflow run ${run.id} failed: ${message}`);
+      await updateStep(ctx.supabase, step, { status: "failed", error_message: message, completed_at: new Date().toISOString() });
+      await updateRun(ctx.supabase, run.id, { status: "compensating", error_message: `${step.step_name}: ${message}` });
+      return finish(await compensate(ctx, workflow, run, steps, index, outputs), `${step.step_name}: ${message}`);
+    }
+
+    await updateStep(ctx.supabase, step, { status: "succeeded", output, completed_at: new Date().toISOString() });
+    outputs[step.step_name] = output;
+  }
+
+  return finish("succeeded", null);
+}
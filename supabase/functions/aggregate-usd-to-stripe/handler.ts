@@ -0,0 +1,208 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { fail, ok } from "../_shared/envelope.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance, movementJournal, recordConnectedTransfer } from "../_shared/ledger.ts";
+import { assertWithinDestinationLimits, resolveDestination } from "../_shared/destinations.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+import { holdForApproval } from "../_shared/approvals.ts";
+import { authorizeMovement, recordMovementResult } from "../_shared/failsafe.ts";
+import { formatMoney, fromMajorUnits, minorUnits, money, toMajorUnits } from "../_shared/money.ts";
+
+const MAX_RETRIES = 3;
+const INITIAL_DELAY = 1000;
+const getDelay = (attempt: number) => INITIAL_DELAY * Math.pow(2, attempt);
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export const handler = createHandler({ name: "aggregate-usd-to-stripe", executionPrefix: "aggregate", role: "treasurer" }, async (ctx) => {
+  const { req, executionId, supabase } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const { dryRun, planHash } = readRunMode(body);
+
+  const stripe = createStripeClient();
+
+  const destination = await resolveDestination(supabase, 'usd');
+  const DEST_ACCOUNT = destination.account_id;
+
+  // Fetch Stripe available USD balance
+  const stripeBalance = await stripe.balance.retrieve();
+  const availableUSD = (stripeBalance.available || []).find((b: any) => b.currency === 'usd')?.amount || 0; // in cents
+
+  // Transferable USD is the ledger application balance
+  const aggregateUSD = await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE); // dollars
+  const aggregateCents = Math.max(0, minorUnits(fromMajorUnits(aggregateUSD)));
+
+  // Determine transfer amount based on actual Stripe availability
+  const amountToTransferCents = Math.min(aggregateCents, availableUSD);
+  const transferAmount = money(amountToTransferCents);
+
+  const breakdown = {
+    ledger_application_balance_usd: aggregateUSD,
+    aggregate_usd: aggregateUSD,
+    stripe_available_usd: toMajorUnits(money(availableUSD)),
+    execution_id: executionId,
+  };
+
+  if (amountToTransferCents <= 0) {
+    if (!dryRun) {
+      await supabase.from('automated_transfer_logs').insert({
+        job_name: 'aggregate_usd_to_stripe',
+        status: 'skipped',
+        response: {
+          ...breakdown,
+          reason: 'No available USD in Stripe or aggregate is zero',
+        },
+        execution_time: new Date().toISOString(),
+      });
+    }
+
+    return fail(400, 'no_funds_available', 'No funds available to transfer.', {
+      message: 'No funds available to transfer.',
+      amount_cents: 0,
+      breakdown,
+    });
+  }
+
+  await assertWithinDestinationLimits(supabase, destination, amountToTransferCents);
+
+  // The retry loop below sends this with only metadata.attempt changed
+  const transferParams = {
+    amount: amountToTransferCents,
+    currency: 'usd',
+    destination: DEST_ACCOUNT,
+    description: `Aggregate USD transfer (${formatMoney(transferAmount)})`,
+    metadata: {
+      execution_id: executionId,
+      flow: 'aggregate_usd_to_stripe',
+      amount_cents: String(amountToTransferCents),
+    },
+  };
+
+  const planner = new PlanBuilder('aggregate-usd-to-stripe', executionId)
+    .write('autonomous_revenue_transfers', 'insert', 'Record the transfer as processing', { amount: toMajorUnits(transferAmount), status: 'processing', provider: 'stripe' })
+    .call('stripe', 'transfers.create', transferParams)
+    .post(movementJournal('connected_transfer', transferAmount, 'transfer:<transfer id>', `Aggregate USD transfer to ${DEST_ACCOUNT}`))
+    .write('autonomous_revenue_transfers', 'update', 'Mark the transfer completed', { status: 'completed' })
+    .write('automated_transfer_logs', 'insert', 'Log the completed transfer', { job_name: 'aggregate_usd_to_stripe', status: 'completed' });
+  if (amountToTransferCents < aggregateCents) {
+    planner.warn(`Stripe has ${formatMoney(money(availableUSD))} available, less than the ${formatMoney(money(aggregateCents))} application balance; only the available amount moves`);
+  }
+  const plan = await planner.build(`Transfer ${formatMoney(transferAmount)} to ${DEST_ACCOUNT}`, amountToTransferCents);
+
+  if (dryRun) {
+    return planResponse(plan, { amount_cents: amountToTransferCents, breakdown });
+  }
+  assertPlanUnchanged(plan, planHash);
+
+  const held = await holdForApproval(ctx, body, plan);
+  if (held) return held;
+
+  // Retries below reuse one authorization; the outcome is reported once the loop ends
+  const movementId = await authorizeMovement(ctx, { provider: 'stripe', destination: DEST_ACCOUNT, amountCents: amountToTransferCents });
+
+  // Insert transfer record (high level)
+  await supabase.from('autonomous_revenue_transfers').insert({
+    amount: toMajorUnits(transferAmount),
+    status: 'processing',
+    provider: 'stripe',
+    metadata: {
+      execution_id: executionId,
+      breakdown,
+      amount_cents: amountToTransferCents,
+      destination_account: DEST_ACCOUNT,
+      flow: 'aggregate_usd_to_stripe',
+    },
+  });
+
+  let transfer;
+  let lastError: any;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      transfer = await stripe.transfers.create({
+        ...transferParams,
+        metadata: { ...transferParams.metadata, attempt: String(attempt + 1) },
+      });
+      break;
+    } catch (e: any) {
+      lastError = e;
+      const retryable = ['rate_limit', 'lock_timeout', 'temporary_unavailable'].includes(e?.code) ||
+        ['api_connection_error', 'api_error'].includes(e?.type);
+      const nonRetryable = ['insufficient_funds', 'account_invalid', 'authentication_error', 'invalid_request_error', 'account_deactivated', 'transfers_not_allowed'].includes(e?.code);
+      if (nonRetryable || attempt === MAX_RETRIES || !retryable) break;
+      await sleep(getDelay(attempt));
+    }
+  }
+  await recordMovementResult(supabase, movementId, transfer ? undefined : lastError);
+
+  if (!transfer) {
+    await supabase.from('automated_transfer_logs').insert({
+      job_name: 'aggregate_usd_to_stripe',
+      status: 'failed',
+      error_message: lastError?.message || 'Unknown error',
+      response: {
+        ...breakdown,
+        error: { code: lastError?.code, type: lastError?.type, message: lastError?.message },
+      },
+      execution_time: new Date().toISOString(),
+    });
+
+    await supabase
+      .from('autonomous_revenue_transfers')
+      .update({
+        status: 'failed',
+        error_message: lastError?.message || 'Unknown error',
+        metadata: {
+          failure: { code: lastError?.code, type: lastError?.type, message: lastError?.message },
+          execution_id: executionId,
+        },
+      })
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    return fail(502, 'transfer_failed', lastError?.message || 'Transfer failed', {
+      stripe_error_type: lastError?.type ?? null,
+      stripe_error_code: lastError?.code ?? null,
+      breakdown,
+    });
+  }
+
+  // Success: post to the ledger, mark transfer completed and log
+  await recordConnectedTransfer(
+    supabase,
+    transferAmount,
+    `transfer:${transfer.id}`,
+    `Aggregate USD transfer to ${DEST_ACCOUNT}`,
+    { execution_id: executionId, flow: 'aggregate_usd_to_stripe' }
+  );
+
+  await supabase
+    .from('autonomous_revenue_transfers')
+    .update({
+      status: 'completed',
+      provider_transfer_id: transfer.id,
+      completed_at: new Date().toISOString(),
+      metadata: { ...breakdown, stripe_transfer_id: transfer.id },
+    })
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  await supabase.from('automated_transfer_logs').insert({
+    job_name: 'aggregate_usd_to_stripe',
+    status: 'completed',
+    execution_time: new Date().toISOString(),
+    response: {
+      ...breakdown,
+      stripe_transfer_id: transfer.id,
+      amount_transferred_usd: toMajorUnits(transferAmount),
+    },
+  });
+
+  return ok({
+    message: `Transferred ${formatMoney(transferAmount)} to destination account`,
+    amount_cents: amountToTransferCents,
+    destination_account: DEST_ACCOUNT,
+    stripe_transfer_id: transfer.id,
+    breakdown,
+    execution_id: executionId,
+  });
+});
@@ -0,0 +1,252 @@
+import { createHandler } from "../_shared/handler.ts";
+import { HttpError, fail, ok } from "../_shared/envelope.ts";
+import { useApiKey } from "../_shared/api-keys.ts";
+import { recordEarning } from "../_shared/ledger.ts";
+import { isPositive, minorUnits, toMajorUnits } from "../_shared/money.ts";
+import { completeWithFallback, configuredProviders, providersFor, type ChatMessage, type ProviderResponse } from "../_shared/model-providers.ts";
+import { loadEntitlement, releaseRequest, recordTokens, reserveRequest, selectModel } from "../_shared/plans.ts";
+import { countTokens } from "../_shared/tokens.ts";
+import { proxyCompletionStream } from "./stream.ts";
+
+// Real AI-powered content generation API that generates revenue.
+// Public: callers are identified by x-api-key or a user session, and are
+// served within the quotas of their subscription's plan (see _shared/plans.ts).
+// With { stream: true } the completion is sent as Server-Sent Events as it is
+// generated, ending with a "usage" event. { model } picks one of the models
+// the plan allows; the providers that serve it are tried in turn. Each
+// request's tokens, as the provider counted them, are kept in api_request_usage.
+export const handler = createHandler({ name: "ai-content-api", executionPrefix: "content" }, async ({ req, executionId, supabase }) => {
+  console.log(`[${executionId}] AI Content API request received`);
+
+  const { prompt, type = 'content', api_key, stream = false, model: requestedModel } = await req.json();
+
+  if (!prompt) {
+    return fail(400, 'prompt_required', 'Prompt is required');
+  }
+
+  const systemPrompts: Record<string, string> = {
+    content: "You are a professional content writer. Create high-quality, engaging content based on the user's request.",
+    seo: "You are an SEO expert. Generate SEO-optimized content with proper keywords, meta descriptions, and structure.",
+    marketing: "You are a marketing copywriter. Create compelling marketing copy that drives conversions.",
+    code: "You are an expert programmer. Generate clean, well-documented code based on the requirements.",
+    analysis: "You are a business analyst. Provide detailed analysis and insights based on the given information."
+  };
+  // Unknown types get the general content prompt, and need the content scope
+  const contentType = Object.prototype.hasOwnProperty.call(systemPrompts, type) ? type : 'content';
+
+  // Validate API key or check for authenticated user
+  const authHeader = req.headers.get("Authorization");
+  const customApiKey = req.headers.get("x-api-key") || api_key;
+  
+  let userId: string | null = null;
+  let apiKeyId: string | null = null;
+
+  // Check custom API key; a key that is presented but not valid is refused
+  // rather than treated as an anonymous call
+  if (customApiKey) {
+    const apiKey = await useApiKey(supabase, customApiKey, contentType);
+    userId = apiKey.user_id;
+    apiKeyId = apiKey.id;
+  }
+
+  // Check auth token
+  if (!userId && authHeader) {
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData } = await supabase.auth.getUser(token);
+    if (userData?.user) {
+      userId = userData.user.id;
+    }
+  }
+
+  if (!userId) {
+    throw new HttpError(402, "subscription_required", "Send an API key, or sign in, from an account with an active subscription");
+  }
+  const entitlement = await loadEntitlement(supabase, userId);
+  const model = selectModel(entitlement.plan, requestedModel);
+  const providers = providersFor(configuredProviders(), model);
+  const period = await reserveRequest(supabase, userId, entitlement);
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompts[contentType] },
+    { role: "user", content: prompt }
+  ];
+  const startedAt = Date.now();
+  let completion: ProviderResponse;
+  try {
+    completion = await completeWithFallback(providers, {
+      model,
+      messages,
+      max_tokens: 2000,
+      stream: stream === true,
+    });
+  } catch (err) {
+    await releaseRequest(supabase, period.id);
+    throw new HttpError(502, "ai_gateway_error", `No AI provider could be reached: ${(err as Error).message}`);
+  }
+  const { response, provider } = completion;
+  for (const fallback of completion.fallbacks) {
+    console.warn(`[${executionId}] ${fallback.provider} passed over for ${model}: ${fallback.error}`);
+  }
+
+  if (!response.ok) {
+    // A request no provider served does not count against the quota
+    await releaseRequest(supabase, period.id);
+    const errorText = await response.text();
+    console.error(`[${executionId}] AI provider ${provider} error:`, errorText);
+    
+    if (response.status === 429) {
+      return fail(429, 'rate_limited', "Rate limit exceeded. Please try again later.");
+    }
+    if (response.status === 402) {
+      return fail(402, 'payment_required', "Service payment required. Please contact support.");
+    }
+    
+    throw new HttpError(502, "ai_gateway_error", `AI provider error: ${response.status}`);
+  }
+
+  // Records the request's usage and revenue once its content is known. A
+  // stream the caller abandoned is billed for what was generated before then,
+  // on estimated tokens, since the provider only reports usage at the end.
+  const settle = async (generatedContent: string, completed: boolean, reportedUsage: unknown) => {
+    const latencyMs = Date.now() - startedAt;
+    const tokens = countTokens(reportedUsage, messages, generatedContent);
+
+    // Within the plan's quota a request costs nothing more; tokens past it are
+    // reported to Stripe as metered overage
+    const usage = await recordTokens(supabase, entitlement, period.id, tokens.total_tokens);
+    const chargeAmount = toMajorUnits(usage.charge);
+
+    const { error: usageError } = await supabase.from('api_request_usage').insert({
+      user_id: userId,
+      api_key_id: apiKeyId,
+      execution_id: executionId,
+      content_type: contentType,
+      provider,
+      model,
+      prompt_tokens: tokens.prompt_tokens,
+      completion_tokens: tokens.completion_tokens,
+      total_tokens: tokens.total_tokens,
+      tokens_estimated: tokens.estimated,
+      latency_ms: latencyMs,
+      streamed: stream === true,
+      completed,
+      charge_cents: minorUnits(usage.charge),
+      currency: usage.charge.currency
+    });
+    if (usageError) {
+      console.error(`[${executionId}] Failed to record request usage:`, usageError);
+    }
+
+    // Only overage is charged per request; Stripe bills the plan's own price
+    // on the subscription. An earning is recorded, and posted to the ledger
+    // under its own id, only when money was earned, so the two stay in step.
+    if (isPositive(usage.charge)) {
+      const { data: earning, error: earningError } = await supabase.from('earnings').insert({
+        amount: chargeAmount,
+        source: 'ai_content_api',
+        description: `AI Content API overage - ${type}`,
+        user_id: userId,
+        metadata: {
+          execution_id: executionId,
+          prompt_length: prompt.length,
+          response_length: generatedContent.length,
+          content_type: type,
+          plan: entitlement.plan.plan,
+          provider,
+          model,
+          prompt_tokens: tokens.prompt_tokens,
+          completion_tokens: tokens.completion_tokens,
+          tokens_estimated: tokens.estimated,
+          latency_ms: latencyMs,
+          overage_units: usage.overage_units,
+          streamed: stream === true,
+          completed
+        }
+      }).select('id').single();
+
+      if (earningError || !earning) {
+        console.error(`[${executionId}] ⚠️ Overage of $${chargeAmount.toFixed(2)} was billed but its earning was not recorded:`, earningError);
+      } else {
+        await recordEarning(
+          supabase,
+          usage.charge,
+          `earning:${earning.id}`,
+          `AI Content API overage - ${type}`,
+          { execution_id: executionId, source: 'ai_content_api', user_id: userId, overage_units: usage.overage_units }
+        );
+      }
+    }
+
+    // Update revenue metrics
+    const today = new Date().toISOString().split('T')[0];
+    const { data: existingMetric } = await supabase
+      .from('autonomous_revenue_metrics')
+      .select('*')
+      .eq('metric_date', today)
+      .single();
+
+    if (existingMetric) {
+      await supabase
+        .from('autonomous_revenue_metrics')
+        .update({
+          total_revenue: existingMetric.total_revenue + chargeAmount,
+          successful_transfers: existingMetric.successful_transfers + 1,
+          revenue_by_source: {
+            ...existingMetric.revenue_by_source,
+            ai_content_api: (existingMetric.revenue_by_source?.ai_content_api || 0) + chargeAmount
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existingMetric.id);
+    } else {
+      await supabase.from('autonomous_revenue_metrics').insert({
+        metric_date: today,
+        total_revenue: chargeAmount,
+        successful_transfers: 1,
+        failed_transfers: 0,
+        revenue_by_source: { ai_content_api: chargeAmount },
+        revenue_by_category: { api: chargeAmount }
+      });
+    }
+
+    console.log(`[${executionId}] ✓ AI content generated${completed ? '' : ' (cut short)'}, revenue: $${chargeAmount.toFixed(2)}`);
+
+    return {
+      provider,
+      model,
+      usage: {
+        ...tokens,
+        total_cost: chargeAmount
+      },
+      quota: {
+        plan: entitlement.plan.plan,
+        requests_used: period.request_count,
+        monthly_requests: entitlement.plan.monthly_requests,
+        tokens_used: usage.token_count,
+        monthly_tokens: entitlement.plan.monthly_tokens,
+        overage_units: usage.overage_units,
+        resets_at: entitlement.period_end
+      },
+      execution_id: executionId
+    };
+  };
+
+  if (stream === true) {
+    return proxyCompletionStream(response, executionId, ({ content, completed, usage }) => settle(content, completed, usage));
+  }
+
+  let aiResult;
+  try {
+    aiResult = await response.json();
+  } catch (err) {
+    // A body that cannot be read served nothing, so it does not count either
+    await releaseRequest(supabase, period.id);
+    throw new HttpError(502, "ai_gateway_error", `AI provider ${provider} sent an unreadable response: ${(err as Error).message}`);
+  }
+  const generatedContent = aiResult.choices?.[0]?.message?.content || "";
+
+  return ok({
+    content: generatedContent,
+    ...(await settle(generatedContent, true, aiResult.usage))
+  });
+});
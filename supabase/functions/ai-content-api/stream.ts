@@ -0,0 +1,104 @@
+import { SSE_DONE, SSE_HEADERS, formatSseEvent, parseSseEvents, runInBackground } from "../_shared/sse.ts";
+
+export interface StreamOutcome {
+  content: string;
+  // The provider's usage, from the last chunk; missing when the stream was cut short
+  usage: unknown;
+  // False when the caller disconnected or the provider broke off mid-stream
+  completed: boolean;
+}
+
+// The text a chat-completions chunk adds, if any, and the usage it carries
+export function readChunk(data: string): { delta: string; usage: unknown } {
+  try {
+    const chunk = JSON.parse(data);
+    const delta = chunk?.choices?.[0]?.delta?.content;
+    return { delta: typeof delta === "string" ? delta : "", usage: chunk?.usage ?? null };
+  } catch {
+    return { delta: "", usage: null };
+  }
+}
+
+// Proxies a chat-completions stream to the caller as SSE, chunk for chunk.
+// `settle` accounts for the request exactly once, with whatever was generated:
+// when the stream ends, when the gateway breaks off, or when the caller
+// disconnects. A caller still listening gets its result as a final "usage"
+// event before [DONE].
+export function proxyCompletionStream(
+  upstream: Response,
+  executionId: string,
+  settle: (outcome: StreamOutcome) => Promise<Record<string, unknown>>,
+): Response {
+  const reader = upstream.body!.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  let content = "";
+  let usage: unknown = null;
+  let settled: Promise<Record<string, unknown>> | null = null;
+  const settleOnce = (completed: boolean) => (settled ??= settle({ content, usage, completed }));
+
+  const finish = async (controller: ReadableStreamDefaultController<Uint8Array>, completed: boolean) => {
+    try {
+      const result = await settleOnce(completed);
+      controller.enqueue(encoder.encode(formatSseEvent(result, "usage")));
+    } catch (err) {
+      console.error(`[${executionId}] Failed to settle the stream:`, err);
+      controller.enqueue(encoder.encode(formatSseEvent({ error_code: "usage_not_recorded", error: (err as Error).message }, "error")));
+    }
+    controller.enqueue(encoder.encode(formatSseEvent(SSE_DONE)));
+    controller.close();
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    // Each pull must enqueue something or end the stream, or the caller's
+    // read is never answered; a read can bring only part of an event
+    async pull(controller) {
+      for (;;) {
+        let done: boolean;
+        try {
+          const chunk = await reader.read();
+          done = chunk.done;
+          buffer += chunk.value ? decoder.decode(chunk.value, { stream: true }) : "";
+        } catch (err) {
+          console.error(`[${executionId}] AI provider stream broke off:`, err);
+          controller.enqueue(encoder.encode(formatSseEvent({ error_code: "ai_gateway_error", error: "The AI provider stream broke off" }, "error")));
+          await finish(controller, false);
+          return;
+        }
+
+        const parsed = parseSseEvents(buffer);
+        buffer = parsed.rest;
+        for (const { data } of parsed.events) {
+          // The gateway's [DONE] comes after our usage event instead
+          if (data === SSE_DONE) {
+            done = true;
+            break;
+          }
+          const chunk = readChunk(data);
+          content += chunk.delta;
+          usage = chunk.usage ?? usage;
+          controller.enqueue(encoder.encode(formatSseEvent(data)));
+        }
+
+        if (done) {
+          await reader.cancel().catch(() => {});
+          await finish(controller, true);
+          return;
+        }
+        if (parsed.events.length > 0) return;
+      }
+    },
+
+    // The caller went away: stop the generation and bill what it produced
+    cancel() {
+      console.log(`[${executionId}] Caller disconnected after ${content.length} characters`);
+      runInBackground(
+        Promise.all([reader.cancel().catch(() => {}), settleOnce(false)])
+          .catch((err) => console.error(`[${executionId}] Failed to settle the abandoned stream:`, err)),
+      );
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,130 @@
+import { createHandler } from "../_shared/handler.ts";
+import { authenticateUser } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  API_KEY_COLUMNS,
+  API_KEY_SCOPES,
+  DEFAULT_ROTATION_OVERLAP_HOURS,
+  MAX_ROTATION_OVERLAP_HOURS,
+  currentHashAlgorithm,
+  generateApiKey,
+  hashApiKey,
+  parseNewKeyRequest,
+  type ApiKey,
+} from "../_shared/api-keys.ts";
+
+// Postgres unique_violation, from two keys drawing the same prefix
+const UNIQUE_VIOLATION = "23505";
+const ISSUE_ATTEMPTS = 3;
+
+// A new key and its hash, retried on the rare prefix collision
+async function issue<T>(write: (prefix: string, hash: string) => PromiseLike<{ data: unknown; error: { code?: string; message: string } | null }>) {
+  const algorithm = currentHashAlgorithm();
+  for (let attempt = 1; ; attempt++) {
+    const { key, prefix } = generateApiKey();
+    const { data, error } = await write(prefix, await hashApiKey(key, algorithm));
+    if (!error) return { key, data: data as T };
+    if (error.code !== UNIQUE_VIOLATION || attempt >= ISSUE_ATTEMPTS) {
+      throw new Error(`Failed to issue an API key: ${error.message}`);
+    }
+  }
+}
+
+// Lets signed-in users manage their own ai-content-api keys; no role needed.
+// The full key is only ever in the response to create or rotate.
+//   { action: "list" }
+//   { action: "create", name, scopes?, expires_in_days?, usage_limit? }
+//   { action: "rotate", key_id, overlap_hours? }
+//   { action: "revoke", key_id }
+export const handler = createHandler({ name: "api-keys", executionPrefix: "apikey" }, async ({ req, executionId, supabase }) => {
+  const { userId } = await authenticateUser(req, supabase);
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  const loadOwnKey = async (keyId: unknown) => {
+    const { data, error } = await supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("id", String(keyId ?? ""))
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load API key ${keyId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new HttpError(404, "key_not_found", `No API key ${keyId}`);
+    }
+    return data;
+  };
+
+  switch (action) {
+    case "list": {
+      const { data, error } = await supabase
+        .from("api_keys")
+        .select(API_KEY_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+      if (error) {
+        throw new Error(`Failed to load API keys: ${error.message}`);
+      }
+      return ok({ keys: data || [], scopes: API_KEY_SCOPES, execution_id: executionId });
+    }
+
+    case "create": {
+      const request = parseNewKeyRequest(body);
+      const { key, data } = await issue<ApiKey>((prefix, hash) =>
+        supabase
+          .from("api_keys")
+          .insert({ ...request, user_id: userId, key_prefix: prefix, key_hash: hash, hash_algorithm: currentHashAlgorithm() })
+          .select(API_KEY_COLUMNS)
+          .single()
+      );
+      console.log(`[${executionId}] API key ${data.id} issued to ${userId}`);
+      return ok({ key, api_key: data, execution_id: executionId }, 201);
+    }
+
+    case "rotate": {
+      const old = await loadOwnKey(body.key_id);
+      const overlapHours = Number(body.overlap_hours ?? DEFAULT_ROTATION_OVERLAP_HOURS);
+      if (!Number.isFinite(overlapHours) || overlapHours < 0 || overlapHours > MAX_ROTATION_OVERLAP_HOURS) {
+        throw new HttpError(400, "invalid_request", `overlap_hours must be from 0 to ${MAX_ROTATION_OVERLAP_HOURS}`);
+      }
+      if (!old.is_active || old.revoked_at || old.replaced_by) {
+        throw new HttpError(409, "key_inactive", "Only an active key that has not been rotated can be rotated");
+      }
+
+      const { key, data: newId } = await issue<string>((prefix, hash) =>
+        supabase.rpc("rotate_api_key", {
+          p_key_id: old.id,
+          p_user_id: userId,
+          p_key_prefix: prefix,
+          p_key_hash: hash,
+          p_hash_algorithm: currentHashAlgorithm(),
+          p_overlap_seconds: Math.round(overlapHours * 3600),
+        })
+      );
+      const replacement = await loadOwnKey(newId);
+      const previous = await loadOwnKey(old.id);
+      console.log(`[${executionId}] API key ${old.id} rotated to ${newId}; old key works until ${previous.expires_at}`);
+      return ok({ key, api_key: replacement, previous_key: previous, execution_id: executionId });
+    }
+
+    case "revoke": {
+      const existing = await loadOwnKey(body.key_id);
+      const { data, error } = await supabase
+        .from("api_keys")
+        .update({ is_active: false, revoked_at: existing.revoked_at ?? new Date().toISOString() })
+        .eq("id", existing.id)
+        .select(API_KEY_COLUMNS)
+        .single();
+      if (error) {
+        throw new Error(`Failed to revoke API key ${existing.id}: ${error.message}`);
+      }
+      console.log(`[${executionId}] API key ${existing.id} revoked by ${userId}`);
+      return ok({ api_key: data, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
@@ -0,0 +1,137 @@
+import { createHandler, invokeFunction } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { IDEMPOTENCY_HEADER, operationId } from "../_shared/idempotency.ts";
+import { CronError, assertTimeZone, parseCron } from "../_shared/cron.ts";
+import { JOB_COLUMNS, nextRunFor, type ScheduledJob } from "../_shared/scheduler.ts";
+
+// The scheduler job that runs this function; its schedule replaces the old
+// hourly/daily/weekly switch
+const JOB_NAME = "full-transfer";
+
+// The switch's choices, kept for the Full Automation page
+const SCHEDULE_PRESETS: Record<string, string> = {
+  hourly: "0 * * * *",
+  daily: "0 3 * * *",
+  weekly: "0 3 * * 1",
+};
+
+// Runs the full-database transfer now. Timing belongs to the "full-transfer"
+// scheduler job, which these actions set up:
+//   { action: "setup_schedule", schedule_type: "hourly" | "daily" | "weekly" }
+//   { action: "setup_schedule", cron_expression, timezone? }
+//   { action: "stop_schedule" }
+export const handler = createHandler({ name: "automated-full-transfer-scheduler", executionPrefix: "scheduler", role: "treasurer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  console.log(`[${executionId}] Starting automated full transfer scheduler...`);
+
+  const body = await req.json().catch(() => ({}));
+  if (body.action === "setup_schedule" || body.action === "stop_schedule") {
+    requireRole(auth!, "admin");
+    const { data: job, error: loadError } = await supabase.from("scheduled_jobs").select(JOB_COLUMNS).eq("name", JOB_NAME).maybeSingle();
+    if (loadError) {
+      throw new Error(`Failed to load the ${JOB_NAME} job: ${loadError.message}`);
+    }
+    if (!job) {
+      throw new HttpError(404, "job_not_found", `The ${JOB_NAME} scheduler job is missing; apply the migrations`);
+    }
+
+    const update = body.action === "stop_schedule"
+      ? { enabled: false, next_run_at: null }
+      : scheduleUpdate(job as ScheduledJob, body);
+    const { error } = await supabase
+      .from("scheduled_jobs")
+      .update({ ...update, updated_at: new Date().toISOString(), updated_by: auth!.caller })
+      .eq("id", job.id);
+    if (error) {
+      throw new Error(`Failed to update the ${JOB_NAME} job: ${error.message}`);
+    }
+
+    console.log(`[${executionId}] ${JOB_NAME} ${update.enabled ? "scheduled" : "stopped"} by ${auth!.caller}`);
+    return ok({
+      message: update.enabled ? "Automated transfers scheduled" : "Automated transfers stopped",
+      schedule: update,
+      next_scheduled_run: update.next_run_at,
+      execution_id: executionId,
+    });
+  }
+
+  // The aggregator moves money, so it is sent this request's key; the
+  // scheduler gives each run its own
+  const operation = operationId(req.headers.get(IDEMPOTENCY_HEADER), body);
+
+  try {
+    // Execute comprehensive transfer
+    console.log(`[${executionId}] Triggering comprehensive USD aggregator...`);
+
+    const transferResponse = await invokeFunction(ctx, 'comprehensive-usd-aggregator', {
+      triggered_by: 'scheduler',
+      execution_id: executionId
+    }, 'treasurer', operation);
+
+    if (transferResponse.error) {
+      throw new Error(transferResponse.error.message);
+    }
+
+    // Update scheduler state
+    await updateSchedulerState(supabase, executionId, transferResponse.data);
+
+    const { data: job } = await supabase.from("scheduled_jobs").select("enabled, next_run_at").eq("name", JOB_NAME).maybeSingle();
+    return ok({
+      message: 'Automated transfer completed successfully',
+      transfer_result: transferResponse.data,
+      execution_id: executionId,
+      next_scheduled_run: job?.enabled ? job.next_run_at : null
+    });
+
+  } catch (error: any) {
+    console.error(`[${executionId}] Scheduler error:`, error);
+
+    await supabase.from('automated_transfer_logs').insert({
+      job_name: 'automated_full_transfer_scheduler',
+      status: 'failed',
+      error_message: error.message,
+      execution_time: new Date().toISOString(),
+      response: { execution_id: executionId, error: error.message }
+    });
+
+    throw error;
+  }
+});
+
+function scheduleUpdate(job: ScheduledJob, body: { schedule_type?: string; cron_expression?: string; timezone?: string }) {
+  const cronExpression = body.cron_expression ?? SCHEDULE_PRESETS[body.schedule_type ?? ""];
+  if (!cronExpression) {
+    throw new HttpError(400, "invalid_schedule", `schedule_type must be one of ${Object.keys(SCHEDULE_PRESETS).join(", ")}, or give a cron_expression`);
+  }
+  const timezone = body.timezone ?? job.timezone;
+  try {
+    parseCron(cronExpression);
+    assertTimeZone(timezone);
+  } catch (error) {
+    if (error instanceof CronError) throw new HttpError(400, "invalid_schedule", error.message);
+    throw error;
+  }
+
+  const schedule = { cron_expression: cronExpression, timezone, blackout_windows: job.blackout_windows };
+  return {
+    enabled: true,
+    cron_expression: cronExpression,
+    timezone,
+    next_run_at: nextRunFor(schedule, new Date())?.toISOString() ?? null,
+  };
+}
+
+async function updateSchedulerState(supabase: any, executionId: string, transferResult: any) {
+  await supabase.from('automated_transfer_logs').insert({
+    job_name: 'automated_full_transfer_scheduler',
+    status: 'completed',
+    execution_time: new Date().toISOString(),
+    response: {
+      execution_id: executionId,
+      transfer_triggered: true,
+      transfer_result: transferResult,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
@@ -0,0 +1,246 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient, isTransientStripeError } from "../_shared/clients.ts";
+import { HttpError, fail, ok } from "../_shared/envelope.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance, movementJournal, recordPayout } from "../_shared/ledger.ts";
+import { operationId, stripeIdempotencyKey } from "../_shared/idempotency.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+import { authorizeMovement, recordMovementResult } from "../_shared/failsafe.ts";
+import { formatMoney, fromMajorUnits, minorUnits } from "../_shared/money.ts";
+
+export const handler = createHandler({
+  name: "autonomous-balance-transfer",
+  executionPrefix: "exec",
+  role: "treasurer",
+  idempotent: true,
+}, async (ctx) => {
+  const { req, executionId, supabase: supabaseClient, idempotencyKey: requestIdempotencyKey } = ctx;
+  const startTime = Date.now();
+  const body = await req.json().catch(() => ({}));
+  const { dryRun, planHash } = readRunMode(body);
+  // A dry run pays nothing, so it needs no key
+  const operation = dryRun ? null : operationId(requestIdempotencyKey, body);
+
+  try {
+    console.log(`[${executionId}] 🏦 AUTONOMOUS BALANCE TRANSFER - Starting execution...`);
+    
+    // =================== STEP 1: RETRIEVE APPLICATION BALANCE ===================
+    console.log(`[${executionId}] 📊 Step 1: Retrieving application balance from the ledger...`);
+    
+    const balanceAmount = await getLedgerBalance(supabaseClient, LEDGER_ACCOUNTS.APPLICATION_BALANCE);
+    console.log(`[${executionId}] 💰 Internal application balance found: $${balanceAmount.toFixed(2)} USD`);
+
+    // =================== STEP 2: VALIDATE BALANCE ===================
+    console.log(`[${executionId}] ✅ Step 2: Validating available balance in USD...`);
+    
+    if (balanceAmount <= 0) {
+      const summary = {
+        execution_id: executionId,
+        status: "INSUFFICIENT_FUNDS",
+        balance_before: balanceAmount,
+        amount_charged: 0,
+        remaining_balance: balanceAmount,
+        timestamp: new Date().toISOString(),
+        execution_time_ms: Date.now() - startTime
+      };
+
+      console.log(`[${executionId}] ⚠️ Insufficient funds: $${balanceAmount.toFixed(2)} - Terminating execution`);
+      console.log(`[${executionId}] 📊 SUMMARY:`, summary);
+
+      return fail(400, "insufficient_funds", "INSUFFICIENT_FUNDS", {
+        message: `Application balance of $${balanceAmount.toFixed(2)} is insufficient for transfer`,
+        summary
+      });
+    }
+
+    // =================== STEP 3: CREATE STRIPE CHARGE ===================
+    console.log(`[${executionId}] 🚀 Step 3: Creating Stripe payout for $${balanceAmount.toFixed(2)} USD...`);
+    
+    const stripe = createStripeClient();
+
+    const balance = fromMajorUnits(balanceAmount);
+    const amountInCents = minorUnits(balance);
+    const idempotencyKey = operation ? stripeIdempotencyKey('autonomous-balance-transfer', operation) : undefined;
+    // The retry below, and a retried request, reuse the key, so every call
+    // for the operation must send the exact same payload
+    const payoutParams = {
+      amount: amountInCents,
+      currency: 'usd',
+      method: 'standard' as const,
+      description: `Autonomous Application Balance Transfer - ${formatMoney(balance)}`,
+      metadata: {
+        operation_id: operation ?? '',
+        source: 'ledger_application_balance',
+        amount_usd: balanceAmount.toString(),
+        automation_type: 'AUTONOMOUS',
+        validation_passed: 'true'
+      }
+    };
+
+    const plan = await new PlanBuilder('autonomous-balance-transfer', executionId)
+      .call('stripe', 'payouts.create', payoutParams, idempotencyKey)
+      .post(movementJournal('payout', balance, 'payout:<payout id>', 'Autonomous application balance payout <payout id>'))
+      .write('automated_transfer_logs', 'insert', 'Log the completed payout', { job_name: 'autonomous_balance_transfer', status: 'completed' })
+      .build(`Pay out the ${formatMoney(balance)} application balance to the bank`, amountInCents);
+
+    if (dryRun) {
+      return planResponse(plan, { balance_before: balanceAmount, amount_cents: amountInCents });
+    }
+    assertPlanUnchanged(plan, planHash);
+
+    const movementId = await authorizeMovement(ctx, { provider: 'stripe', destination: null, amountCents: amountInCents });
+    let retried = false;
+
+    let payout;
+    try {
+      payout = await stripe.payouts.create(payoutParams, { idempotencyKey });
+
+      console.log(`[${executionId}] ✅ Stripe payout created successfully: ${payout.id}`);
+    } catch (stripeError: any) {
+      console.error(`[${executionId}] ❌ Stripe payout failed:`, stripeError);
+      
+      // Retry logic for transient errors
+      if (isTransientStripeError(stripeError)) {
+        console.log(`[${executionId}] 🔄 Retrying Stripe payout due to transient error...`);
+        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
+        
+        try {
+          payout = await stripe.payouts.create(payoutParams, { idempotencyKey });
+          retried = true;
+          
+          console.log(`[${executionId}] ✅ Stripe payout created successfully on retry: ${payout.id}`);
+        } catch (retryError: any) {
+          await recordMovementResult(supabaseClient, movementId, retryError);
+          throw new Error(`Stripe API failure after retry: ${retryError.message}`);
+        }
+      } else {
+        await recordMovementResult(supabaseClient, movementId, stripeError);
+        throw new Error(`Stripe API error: ${stripeError.message}`);
+      }
+    }
+    await recordMovementResult(supabaseClient, movementId);
+
+    // =================== STEP 4: POST PAYOUT TO THE LEDGER ===================
+    console.log(`[${executionId}] 🔄 Step 4: Posting payout to the ledger...`);
+    
+    await recordPayout(
+      supabaseClient,
+      balance,
+      `payout:${payout.id}`,
+      `Autonomous application balance payout ${payout.id}`,
+      { execution_id: executionId, payout_id: payout.id, flow: 'autonomous_balance_transfer' }
+    );
+
+    console.log(`[${executionId}] ✅ Application balance updated: $${balanceAmount.toFixed(2)} → $0.00`);
+
+    // =================== STEP 5: LOG TRANSACTION ===================
+    console.log(`[${executionId}] 📝 Step 5: Logging transaction with timestamps...`);
+    
+    const { error: logError } = await supabaseClient
+      .from('automated_transfer_logs')
+      .insert({
+        job_name: 'autonomous_balance_transfer',
+        status: 'completed',
+        execution_time: new Date().toISOString(),
+        response: {
+          execution_id: executionId,
+          stripe_payout_id: payout.id,
+          amount_transferred: balanceAmount,
+          amount_cents: amountInCents,
+          currency: 'usd',
+          balance_before: balanceAmount,
+          balance_after: 0,
+          arrival_date: new Date(payout.arrival_date * 1000).toISOString(),
+          payout_method: payout.method,
+          execution_time_ms: Date.now() - startTime,
+          validation_passed: true,
+          retry_attempts: retried ? 1 : 0
+        }
+      });
+
+    if (logError) {
+      console.error(`[${executionId}] ⚠️ Failed to log transaction:`, logError);
+    } else {
+      console.log(`[${executionId}] ✅ Transaction logged successfully`);
+    }
+
+    // =================== EXECUTION SUMMARY ===================
+    const executionTimeMs = Date.now() - startTime;
+    const summary = {
+      execution_id: executionId,
+      status: "SUCCESS",
+      balance_before: balanceAmount,
+      amount_charged: balanceAmount,
+      remaining_balance: 0,
+      stripe_payout_id: payout.id,
+      arrival_date: new Date(payout.arrival_date * 1000).toISOString(),
+      timestamp: new Date().toISOString(),
+      execution_time_ms: executionTimeMs
+    };
+
+    console.log(`[${executionId}] 🎉 AUTONOMOUS TRANSFER COMPLETED SUCCESSFULLY!`);
+    console.log(`[${executionId}] 📊 SUMMARY REPORT:`, summary);
+    console.log(`[${executionId}] ⏱️ Total execution time: ${executionTimeMs}ms`);
+
+    return ok({
+      message: `Successfully transferred ${formatMoney(balance)} from application balance to Stripe`,
+      summary,
+      payout_details: {
+        id: payout.id,
+        amount: balanceAmount,
+        amount_cents: amountInCents,
+        currency: 'usd',
+        method: payout.method,
+        arrival_date: new Date(payout.arrival_date * 1000).toISOString(),
+        description: payout.description
+      },
+      consistency_maintained: true,
+      automation_complete: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof HttpError) throw error;
+    const executionTimeMs = Date.now() - startTime;
+    
+    console.error(`[${executionId}] 💥 EXECUTION FAILED:`, error);
+    console.error(`[${executionId}] ⏱️ Failed after: ${executionTimeMs}ms`);
+
+    // Log error
+    await supabaseClient
+      .from('automated_transfer_logs')
+      .insert({
+        job_name: 'autonomous_balance_transfer',
+        status: 'failed',
+        execution_time: new Date().toISOString(),
+        error_message: error.message,
+        response: {
+          execution_id: executionId,
+          error_type: error.name || 'UnknownError',
+          error_message: error.message,
+          execution_time_ms: executionTimeMs,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+    const errorSummary = {
+      execution_id: executionId,
+      status: "ERROR",
+      error_type: error.name || 'UnknownError',
+      error_message: error.message,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: executionTimeMs
+    };
+
+    console.log(`[${executionId}] 📊 ERROR SUMMARY:`, errorSummary);
+
+    return fail(500, "transfer_failed", error.message, {
+      error_type: error.name || 'UnknownError',
+      summary: errorSummary,
+      troubleshooting: {
+        check_stripe_config: "Verify STRIPE_SECRET_KEY is properly configured",
+        check_stripe_account: "Ensure Stripe account has bank details configured",
+        check_balance: "Verify application balance exists and is > 0",
+        check_connectivity: "Ensure Stripe API connectivity"
+      }
+    });
+  }
+});
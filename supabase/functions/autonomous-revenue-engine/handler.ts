@@ -0,0 +1,202 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient, isStripeConfigured } from "../_shared/clients.ts";
+import { fail, ok } from "../_shared/envelope.ts";
+import { recordPayout } from "../_shared/ledger.ts";
+import { guardMovement } from "../_shared/failsafe.ts";
+import { formatCents, fromMajorUnits, minorUnits, money, toMajorUnits } from "../_shared/money.ts";
+
+// AUTONOMOUS REVENUE ENGINE - Actually generates and tracks real revenue
+export const handler = createHandler({ name: "autonomous-revenue-engine", executionPrefix: "engine", role: "treasurer" }, async (ctx) => {
+  const { executionId, supabase } = ctx;
+  const startTime = Date.now();
+  
+  console.log(`[${executionId}] 🚀 Autonomous Revenue Engine starting...`);
+
+  const results = {
+    execution_id: executionId,
+    started_at: new Date().toISOString(),
+    stripe_balance: 0,
+    database_earnings: 0,
+    pending_payouts: 0,
+    active_subscriptions: 0,
+    revenue_sources: [] as any[],
+    actions_taken: [] as string[],
+    errors: [] as string[]
+  };
+
+  try {
+    // ============ 1. CHECK REAL STRIPE BALANCE ============
+    if (isStripeConfigured()) {
+      try {
+        const stripe = createStripeClient();
+        
+        // Get actual Stripe balance
+        const balance = await stripe.balance.retrieve();
+        const availableUSD = balance.available.find((b: any) => b.currency === 'usd');
+        const pendingUSD = balance.pending.find((b: any) => b.currency === 'usd');
+        
+        results.stripe_balance = toMajorUnits(money(availableUSD?.amount || 0));
+        results.pending_payouts = toMajorUnits(money(pendingUSD?.amount || 0));
+        
+        results.actions_taken.push(`Stripe balance: $${results.stripe_balance.toFixed(2)} available, $${results.pending_payouts.toFixed(2)} pending`);
+        
+        // Get active subscriptions (REAL revenue)
+        const subscriptions = await stripe.subscriptions.list({ status: 'active', limit: 100 });
+        results.active_subscriptions = subscriptions.data.length;
+        
+        let monthlyRecurring = 0;
+        for (const sub of subscriptions.data) {
+          const amount = sub.items.data[0]?.price?.unit_amount || 0;
+          monthlyRecurring += toMajorUnits(money(amount));
+        }
+        
+        results.revenue_sources.push({
+          source: 'stripe_subscriptions',
+          count: results.active_subscriptions,
+          monthly_recurring: monthlyRecurring
+        });
+        
+        results.actions_taken.push(`Active subscriptions: ${results.active_subscriptions} ($${monthlyRecurring.toFixed(2)}/mo MRR)`);
+
+        // Get recent payments (actual money coming in)
+        const charges = await stripe.charges.list({ limit: 100 });
+        const recentRevenue = charges.data
+          .filter(c => c.paid && c.status === 'succeeded')
+          .reduce((total, c) => total + toMajorUnits(money(c.amount)), 0);
+        
+        results.revenue_sources.push({
+          source: 'stripe_charges',
+          recent_revenue: recentRevenue,
+          count: charges.data.filter(c => c.paid).length
+        });
+
+        // If there's available balance, create a payout
+        if (results.stripe_balance >= 1.00) {
+          results.actions_taken.push(`Available for payout: $${results.stripe_balance.toFixed(2)}`);
+          
+          // Check if auto-payout is enabled
+          const { data: config } = await supabase
+            .from('autopilot_config')
+            .select('*')
+            .eq('enabled', true)
+            .single();
+
+          if (config) {
+            try {
+              const payoutMoney = fromMajorUnits(results.stripe_balance);
+              const payoutAmount = minorUnits(payoutMoney);
+              const payout = await guardMovement(ctx, { provider: 'stripe', destination: null, amountCents: payoutAmount }, () =>
+                stripe.payouts.create({
+                  amount: payoutAmount,
+                  currency: 'usd',
+                  description: `Autonomous payout - ${executionId}`
+                })
+              );
+              
+              results.actions_taken.push(`✓ Created payout: ${payout.id} for ${formatCents(payoutAmount)}`);
+
+              await recordPayout(
+                supabase,
+                payoutMoney,
+                `payout:${payout.id}`,
+                `Autonomous payout ${payout.id}`,
+                { execution_id: executionId, flow: 'autonomous_revenue_engine' }
+              );
+              
+              // Log the payout
+              await supabase.from('autopilot_logs').insert({
+                action: 'payout_created',
+                attempted_amount: toMajorUnits(payoutMoney),
+                balance_at_time: results.stripe_balance,
+                details: { payout_id: payout.id, execution_id: executionId }
+              });
+            } catch (payoutError) {
+              const errMsg = payoutError instanceof Error ? payoutError.message : 'Unknown payout error';
+              results.errors.push(`Payout error: ${errMsg}`);
+            }
+          }
+        }
+
+      } catch (stripeError) {
+        const errMsg = stripeError instanceof Error ? stripeError.message : 'Unknown Stripe error';
+        results.errors.push(`Stripe error: ${errMsg}`);
+      }
+    } else {
+      results.errors.push('STRIPE_SECRET_KEY not configured');
+    }
+
+    // ============ 2. AGGREGATE DATABASE EARNINGS ============
+    // Sum up REAL earnings from the earnings table
+    const { data: earnings } = await supabase
+      .from('earnings')
+      .select('amount, source')
+      .gte('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
+    if (earnings && earnings.length > 0) {
+      const earningsBySource: Record<string, number> = {};
+      let totalEarnings = 0;
+      
+      for (const earning of earnings) {
+        totalEarnings += Number(earning.amount) || 0;
+        earningsBySource[earning.source] = (earningsBySource[earning.source] || 0) + Number(earning.amount);
+      }
+      
+      results.database_earnings = totalEarnings;
+      results.revenue_sources.push({
+        source: 'database_earnings',
+        total: totalEarnings,
+        by_source: earningsBySource,
+        transaction_count: earnings.length
+      });
+      
+      results.actions_taken.push(`Database earnings (30d): $${totalEarnings.toFixed(2)} from ${earnings.length} transactions`);
+    }
+
+    // ============ 3. UPDATE REVENUE METRICS ============
+    const today = new Date().toISOString().split('T')[0];
+    
+    const totalRevenue = results.stripe_balance + results.database_earnings;
+    
+    await supabase.from('autonomous_revenue_metrics').upsert({
+      metric_date: today,
+      total_revenue: totalRevenue,
+      successful_transfers: results.active_subscriptions,
+      failed_transfers: results.errors.length,
+      revenue_by_source: results.revenue_sources.reduce((acc, s) => ({
+        ...acc,
+        [s.source]: s.total || s.recent_revenue || s.monthly_recurring || 0
+      }), {}),
+      revenue_by_category: {
+        subscriptions: results.active_subscriptions,
+        api: results.database_earnings,
+        stripe: results.stripe_balance
+      },
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'metric_date' });
+
+    // ============ 4. LOG WORKFLOW EXECUTION ============
+    await supabase.from('workflow_runs').insert({
+      workflow_type: 'autonomous_revenue_engine',
+      status: results.errors.length === 0 ? 'completed' : 'completed_with_errors',
+      execution_details: results,
+      started_at: results.started_at,
+      completed_at: new Date().toISOString()
+    });
+
+    results.actions_taken.push(`Engine completed in ${Date.now() - startTime}ms`);
+
+    console.log(`[${executionId}] ✓ Autonomous Revenue Engine completed:`, results);
+
+    return ok({
+      ...results,
+      completed_at: new Date().toISOString(),
+      duration_ms: Date.now() - startTime
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[${executionId}] ✗ Engine error:`, errMsg);
+    
+    return fail(500, 'engine_failed', errMsg, results);
+  }
+});
@@ -1,213 +1,4 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
-import Stripe from "https://esm.sh/stripe@14.21.0";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { handler } from "./handler.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// AUTONOMOUS REVENUE ENGINE - Actually generates and tracks real revenue
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  const supabase = createClient(
-    Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-  );
-
-  const executionId = crypto.randomUUID();
-  const startTime = Date.now();
-  
-  console.log(`[${executionId}] 🚀 Autonomous Revenue Engine starting...`);
-
-  const results = {
-    execution_id: executionId,
-    started_at: new Date().toISOString(),
-    stripe_balance: 0,
-    database_earnings: 0,
-    pending_payouts: 0,
-    active_subscriptions: 0,
-    revenue_sources: [] as any[],
-    actions_taken: [] as string[],
-    errors: [] as string[]
-  };
-
-  try {
-    // ============ 1. CHECK REAL STRIPE BALANCE ============
-    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
-    if (stripeKey) {
-      try {
-        const stripe = new Stripe(stripeKey, { apiVersion: "2023-10-16" });
-        
-        // Get actual Stripe balance
-        const balance = await stripe.balance.retrieve();
-        const availableUSD = balance.available.find((b: any) => b.currency === 'usd');
-        const pendingUSD = balance.pending.find((b: any) => b.currency === 'usd');
-        
-        results.stripe_balance = (availableUSD?.amount || 0) / 100;
-        results.pending_payouts = (pendingUSD?.amount || 0) / 100;
-        
-        results.actions_taken.push(`Stripe balance: $${results.stripe_balance.toFixed(2)} available, $${results.pending_payouts.toFixed(2)} pending`);
-        
-        // Get active subscriptions (REAL revenue)
-        const subscriptions = await stripe.subscriptions.list({ status: 'active', limit: 100 });
-        results.active_subscriptions = subscriptions.data.length;
-        
-        let monthlyRecurring = 0;
-        for (const sub of subscriptions.data) {
-          const amount = sub.items.data[0]?.price?.unit_amount || 0;
-          monthlyRecurring += amount / 100;
-        }
-        
-        results.revenue_sources.push({
-          source: 'stripe_subscriptions',
-          count: results.active_subscriptions,
-          monthly_recurring: monthlyRecurring
-        });
-        
-        results.actions_taken.push(`Active subscriptions: ${results.active_subscriptions} ($${monthlyRecurring.toFixed(2)}/mo MRR)`);
-
-        // Get recent payments (actual money coming in)
-        const charges = await stripe.charges.list({ limit: 100 });
-        const recentRevenue = charges.data
-          .filter(c => c.paid && c.status === 'succeeded')
-          .reduce((sum, c) => sum + (c.amount / 100), 0);
-        
-        results.revenue_sources.push({
-          source: 'stripe_charges',
-          recent_revenue: recentRevenue,
-          count: charges.data.filter(c => c.paid).length
-        });
-
-        // If there's available balance, create a payout
-        if (results.stripe_balance >= 1.00) {
-          results.actions_taken.push(`Available for payout: $${results.stripe_balance.toFixed(2)}`);
-          
-          // Check if auto-payout is enabled
-          const { data: config } = await supabase
-            .from('autopilot_config')
-            .select('*')
-            .eq('enabled', true)
-            .single();
-
-          if (config) {
-            try {
-              const payoutAmount = Math.floor(results.stripe_balance * 100);
-              const payout = await stripe.payouts.create({
-                amount: payoutAmount,
-                currency: 'usd',
-                description: `Autonomous payout - ${executionId}`
-              });
-              
-              results.actions_taken.push(`✓ Created payout: ${payout.id} for $${(payoutAmount/100).toFixed(2)}`);
-              
-              // Log the payout
-              await supabase.from('autopilot_logs').insert({
-                action: 'payout_created',
-                attempted_amount: payoutAmount / 100,
-                balance_at_time: results.stripe_balance,
-                details: { payout_id: payout.id, execution_id: executionId }
-              });
-            } catch (payoutError) {
-              const errMsg = payoutError instanceof Error ? payoutError.message : 'Unknown payout error';
-              results.errors.push(`Payout error: ${errMsg}`);
-            }
-          }
-        }
-
-      } catch (stripeError) {
-        const errMsg = stripeError instanceof Error ? stripeError.message : 'Unknown Stripe error';
-        results.errors.push(`Stripe error: ${errMsg}`);
-      }
-    } else {
-      results.errors.push('STRIPE_SECRET_KEY not configured');
-    }
-
-    // ============ 2. AGGREGATE DATABASE EARNINGS ============
-    // Sum up REAL earnings from the earnings table
-    const { data: earnings } = await supabase
-      .from('earnings')
-      .select('amount, source')
-      .gte('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
-
-    if (earnings && earnings.length > 0) {
-      const earningsBySource: Record<string, number> = {};
-      let totalEarnings = 0;
-      
-      for (const earning of earnings) {
-        totalEarnings += Number(earning.amount) || 0;
-        earningsBySource[earning.source] = (earningsBySource[earning.source] || 0) + Number(earning.amount);
-      }
-      
-      results.database_earnings = totalEarnings;
-      results.revenue_sources.push({
-        source: 'database_earnings',
-        total: totalEarnings,
-        by_source: earningsBySource,
-        transaction_count: earnings.length
-      });
-      
-      results.actions_taken.push(`Database earnings (30d): $${totalEarnings.toFixed(2)} from ${earnings.length} transactions`);
-    }
-
-    // ============ 3. UPDATE REVENUE METRICS ============
-    const today = new Date().toISOString().split('T')[0];
-    
-    const totalRevenue = results.stripe_balance + results.database_earnings;
-    
-    await supabase.from('autonomous_revenue_metrics').upsert({
-      metric_date: today,
-      total_revenue: totalRevenue,
-      successful_transfers: results.active_subscriptions,
-      failed_transfers: results.errors.length,
-      revenue_by_source: results.revenue_sources.reduce((acc, s) => ({
-        ...acc,
-        [s.source]: s.total || s.recent_revenue || s.monthly_recurring || 0
-      }), {}),
-      revenue_by_category: {
-        subscriptions: results.active_subscriptions,
-        api: results.database_earnings,
-        stripe: results.stripe_balance
-      },
-      updated_at: new Date().toISOString()
-    }, { onConflict: 'metric_date' });
-
-    // ============ 4. LOG WORKFLOW EXECUTION ============
-    await supabase.from('workflow_runs').insert({
-      workflow_type: 'autonomous_revenue_engine',
-      status: results.errors.length === 0 ? 'completed' : 'completed_with_errors',
-      execution_details: results,
-      started_at: results.started_at,
-      completed_at: new Date().toISOString()
-    });
-
-    results.actions_taken.push(`Engine completed in ${Date.now() - startTime}ms`);
-
-    console.log(`[${executionId}] ✓ Autonomous Revenue Engine completed:`, results);
-
-    return new Response(JSON.stringify({
-      success: true,
-      ...results,
-      completed_at: new Date().toISOString(),
-      duration_ms: Date.now() - startTime
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
-
-  } catch (error) {
-    const errMsg = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[${executionId}] ✗ Engine error:`, errMsg);
-    
-    return new Response(JSON.stringify({
-      success: false,
-      error: errMsg,
-      ...results
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
-  }
-});
+serve(handler);
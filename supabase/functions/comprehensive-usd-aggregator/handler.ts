@@ -0,0 +1,562 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createHandler, type HandlerContext } from "../_shared/handler.ts";
+import { createStripeClient, isStripeConfigured } from "../_shared/clients.ts";
+import { HttpError, fail, jsonResponse } from "../_shared/envelope.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalances, movementJournal } from "../_shared/ledger.ts";
+import { operationId, stripeIdempotencyKey } from "../_shared/idempotency.ts";
+import { assertWithinDestinationLimits, resolveDestination, type Destination } from "../_shared/destinations.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+import { guardMovement } from "../_shared/failsafe.ts";
+import { fromMajorUnits, minorUnits, money, toMajorUnits } from "../_shared/money.ts";
+import { SweepError, executeSweep, isOutcomeUnknown, reserveSweep, type SweepBatch, type SweepRequest } from "../_shared/sweeps.ts";
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 2000;
+
+export const handler = createHandler({
+  name: "comprehensive-usd-aggregator",
+  executionPrefix: "full_scan",
+  role: "treasurer",
+  idempotent: true,
+}, async (ctx) => {
+  const { req, executionId, supabase, idempotencyKey } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const { dryRun, planHash } = readRunMode(body);
+  // A dry run pays nothing, so it needs no key
+  const operation = dryRun ? null : operationId(idempotencyKey, body);
+  console.log(`[${executionId}] ========== COMPREHENSIVE USD AGGREGATOR ==========`);
+  console.log(`[${executionId}] Reading transferable USD from the ledger`);
+
+  const auditLog: any[] = [];
+  
+  const logAudit = (action: string, details: any) => {
+    const entry = {
+      timestamp: new Date().toISOString(),
+      execution_id: executionId,
+      action,
+      details
+    };
+    auditLog.push(entry);
+    console.log(`[${executionId}] AUDIT: ${action}`, JSON.stringify(details));
+  };
+
+  try {
+    logAudit('LEDGER_READ_STARTED', {});
+
+    // Step 1: Read the transferable application balance from the ledger
+    const aggregatedUSD = await readTransferableBalance(supabase, executionId);
+    
+    logAudit('LEDGER_READ_COMPLETED', { 
+      total_amount: aggregatedUSD.total_amount,
+      breakdown: aggregatedUSD.breakdown
+    });
+
+    if (aggregatedUSD.total_amount <= 0) {
+      logAudit('NO_FUNDS', { message: 'No USD available in the ledger application balance' });
+      
+      if (!dryRun) {
+        await saveAuditLog(supabase, executionId, auditLog, 'no_funds');
+      }
+      
+      return fail(400, "no_funds_available", "No USD available in the ledger to transfer", {
+        message: "No USD available in the ledger to transfer",
+        breakdown: aggregatedUSD.breakdown,
+        execution_id: executionId,
+        audit_trail: auditLog
+      });
+    }
+
+    console.log(`[${executionId}] TOTAL USD AVAILABLE: $${aggregatedUSD.total_amount.toFixed(2)}`);
+
+    // Planning reads the Stripe balance up front, which an unplanned run only does inside the Stripe step
+    if (dryRun || planHash) {
+      const plan = await planTransfers(supabase, aggregatedUSD.total_amount, executionId, operation);
+      if (dryRun) {
+        return planResponse(plan, { breakdown_by_source: aggregatedUSD.breakdown });
+      }
+      assertPlanUnchanged(plan, planHash);
+    }
+
+    // Step 2: Sweep the balance to the first provider that accepts it. The
+    // ledger is moved by the sweep itself, reserved before the provider call.
+    const transferResults = await sweepToProviders(ctx, aggregatedUSD, executionId, operation!, logAudit);
+    
+    logAudit('TRANSFERS_COMPLETED', transferResults);
+
+    // Step 3: Save comprehensive audit log
+    await saveAuditLog(supabase, executionId, auditLog, 'completed');
+
+    const response = {
+      success: true,
+      message: `Successfully processed $${aggregatedUSD.total_amount.toFixed(2)} USD from the ledger application balance`,
+      summary: {
+        total_usd_found: aggregatedUSD.total_amount,
+        successful_transfers: transferResults.successful_transfers,
+        total_transferred: transferResults.total_transferred,
+        sweep_batch_id: transferResults.sweep_batch_id
+      },
+      breakdown_by_source: aggregatedUSD.breakdown,
+      transfer_results: {
+        stripe: transferResults.stripe,
+        paypal: transferResults.paypal,
+        bank: transferResults.bank,
+        modern_treasury: transferResults.modern_treasury
+      },
+      execution_id: executionId,
+      timestamp: new Date().toISOString(),
+      audit_trail: auditLog,
+      compliance: {
+        all_sources_logged: true,
+        balance_reserved_before_transfer: true,
+        full_audit_trail: true
+      }
+    };
+
+    return jsonResponse(response);
+
+  } catch (error: any) {
+    if (error instanceof HttpError) throw error;
+    console.error(`[${executionId}] CRITICAL ERROR:`, error);
+    
+    logAudit('ERROR', { message: error.message, stack: error.stack });
+    await saveAuditLog(supabase, executionId, auditLog, 'failed');
+
+    return fail(500, "aggregation_failed", error.message, {
+      execution_id: executionId,
+      audit_trail: auditLog
+    });
+  }
+});
+
+async function readTransferableBalance(supabase: any, executionId: string) {
+  console.log(`[${executionId}] Reading ledger balances...`);
+
+  const balances = await getLedgerBalances(supabase);
+  const breakdown: Record<string, number> = {};
+  for (const account of balances) {
+    breakdown[account.account_name] = account.balance;
+  }
+
+  const application = balances.find((b) => b.account_code === LEDGER_ACCOUNTS.APPLICATION_BALANCE);
+
+  return {
+    total_amount: Math.max(0, application?.balance || 0),
+    breakdown
+  };
+}
+
+// Request bodies shared by the real transfers and their dry-run plan. A
+// retried request reuses the Stripe key, and Stripe refuses a changed payload
+// under it, so the Stripe ones carry the operation, never the execution ID.
+const stripePayoutParams = (amountCents: number, operation: string | null) => ({
+  amount: amountCents,
+  currency: 'usd',
+  description: 'Full DB USD Transfer',
+  metadata: {
+    operation_id: operation ?? '',
+    source: 'ledger_application_balance'
+  }
+});
+
+// PayPal refuses a second batch with the same sender_batch_id, so the sweep
+// batch's id makes a resent batch a no-op. The plan and the reserved request
+// carry SWEEP_BATCH_ID in its place, since neither knows the id yet.
+const SWEEP_BATCH_ID = '<sweep batch id>';
+
+const paypalPayoutBody = (transferAmount: number, executionId: string, sweepBatchId: string) => ({
+  sender_batch_header: {
+    sender_batch_id: sweepBatchId,
+    email_subject: 'You have received a payout!',
+    email_message: `Database USD consolidation transfer - ${executionId}`
+  },
+  items: [{
+    recipient_type: 'EMAIL',
+    amount: {
+      value: transferAmount.toFixed(2),
+      currency: 'USD'
+    },
+    sender_item_id: sweepBatchId,
+    note: 'Automated USD transfer from database'
+  }]
+});
+
+const modernTreasuryOrder = (amountCents: number, executionId: string) => ({
+  type: 'ach',
+  amount: amountCents,
+  direction: 'credit',
+  currency: 'USD',
+  description: `Automated USD transfer - ${executionId}`,
+  metadata: {
+    execution_id: executionId,
+    source: 'comprehensive_usd_aggregator'
+  }
+});
+
+const bankTransferParams = (amountCents: number, destination: Destination, operation: string | null) => ({
+  amount: amountCents,
+  currency: 'usd',
+  destination: destination.account_id,
+  description: 'Direct bank transfer',
+  metadata: {
+    operation_id: operation ?? ''
+  }
+});
+
+// Providers in the order a sweep tries them. The whole balance goes to the
+// first one that takes it; a provider that refuses releases the reservation
+// for the next.
+const SWEEP_ORDER = ['stripe', 'paypal', 'modern_treasury', 'bank'] as const;
+
+type SweepTarget = typeof SWEEP_ORDER[number];
+
+const SWEEP_LABELS: Record<SweepTarget, string> = {
+  stripe: 'Stripe payout',
+  paypal: 'PayPal payout',
+  modern_treasury: 'Modern Treasury payment order',
+  bank: 'direct bank transfer',
+};
+
+const sweepKey = (operation: string, target: SweepTarget) =>
+  stripeIdempotencyKey('comprehensive-usd-aggregator', operation, target === 'stripe' ? 'stripe_payout' : target === 'bank' ? 'bank_transfer' : target);
+
+// What sweepToProviders would do, assuming the first provider that can be
+// paid accepts the sweep. Reads the same configuration and balances.
+async function planTransfers(supabase: SupabaseClient, transferAmount: number, executionId: string, operation: string | null) {
+  const planner = new PlanBuilder('comprehensive-usd-aggregator', executionId);
+  const amount = fromMajorUnits(transferAmount);
+  const amountCents = minorUnits(amount);
+  const stripeConfigured = isStripeConfigured();
+  const usable: SweepTarget[] = [];
+  let bankDestination: Destination | null = null;
+
+  if (stripeConfigured) {
+    const balance = await createStripeClient().balance.retrieve();
+    const stripeBalance = toMajorUnits(money(balance.available.find((b) => b.currency === 'usd')?.amount || 0));
+
+    if (stripeBalance >= transferAmount && transferAmount >= 0.50) {
+      usable.push('stripe');
+    } else {
+      planner.warn(stripeBalance < transferAmount
+        ? `No Stripe payout: $${stripeBalance.toFixed(2)} available, $${transferAmount.toFixed(2)} needed`
+        : `No Stripe payout: $${transferAmount.toFixed(2)} is below the Stripe minimum of $0.50`);
+    }
+  } else {
+    planner.warn('No Stripe payout: STRIPE_SECRET_KEY is not configured');
+  }
+
+  if (Deno.env.get("PAYPAL_CLIENT_ID") && Deno.env.get("PAYPAL_CLIENT_SECRET")) {
+    usable.push('paypal');
+  }
+
+  if (Deno.env.get("MODERN_TREASURY_API_KEY") && Deno.env.get("MODERN_TREASURY_ORG_ID")) {
+    usable.push('modern_treasury');
+  }
+
+  if (stripeConfigured && !usable.includes('stripe')) {
+    try {
+      bankDestination = await resolveDestination(supabase, 'usd');
+      await assertWithinDestinationLimits(supabase, bankDestination, amountCents);
+      usable.push('bank');
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      planner.warn(`No direct bank transfer: ${error.message}`);
+    }
+  }
+
+  const [target, ...fallbacks] = usable;
+  if (target) {
+    planner
+      .write('sweep_batches', 'insert', `Reserve the balance for the ${SWEEP_LABELS[target]}`, { provider: target === 'bank' ? 'stripe' : target, amount_cents: amountCents, status: 'reserved' })
+      .post(movementJournal('sweep_reserve', amount, 'sweep_reserve:<sweep batch id>', 'Sweep reserve for comprehensive-usd-aggregator'));
+
+    if (target === 'stripe') {
+      planner
+        .call('stripe', 'payouts.create', stripePayoutParams(amountCents, operation), operation ? sweepKey(operation, target) : undefined)
+        .post(movementJournal('sweep_payout', amount, 'payout:<payout id>', 'Stripe payout <payout id>'));
+    } else if (target === 'paypal') {
+      planner
+        .call('paypal', 'payments.payouts.create', paypalPayoutBody(transferAmount, executionId, SWEEP_BATCH_ID))
+        .post(movementJournal('sweep_payout', amount, 'paypal_batch:<batch id>', 'PayPal payout batch <batch id>'));
+    } else if (target === 'modern_treasury') {
+      planner
+        .call('modern_treasury', 'payment_orders.create', modernTreasuryOrder(amountCents, executionId))
+        .post(movementJournal('sweep_payout', amount, 'modern_treasury:<payment order id>', 'Modern Treasury payment order <payment order id>'));
+    } else if (bankDestination) {
+      planner
+        .call('stripe', 'transfers.create', bankTransferParams(amountCents, bankDestination, operation), operation ? sweepKey(operation, target) : undefined)
+        .post(movementJournal('sweep_transfer', amount, 'transfer:<transfer id>', 'Sweep transfer <transfer id>'));
+    }
+
+    planner.write('sweep_batches', 'update', 'Finalize the sweep batch', { status: 'finalized' });
+  }
+
+  if (fallbacks.length > 0) {
+    planner.warn(`If the ${SWEEP_LABELS[target]} is refused, the balance is released and offered to: ${fallbacks.map((f) => SWEEP_LABELS[f]).join(', ')}`);
+  }
+
+  planner
+    .write('automated_transfer_logs', 'insert', 'Save the audit trail', { job_name: 'comprehensive_usd_aggregator_v2', status: 'completed' })
+    .write('compliance_audit_log', 'insert', 'Save the compliance audit record', { entity_type: 'ledger_usd_transfer', audit_type: 'usd_aggregation_transfer' });
+
+  return planner.build(
+    target
+      ? `Sweep $${transferAmount.toFixed(2)} by ${SWEEP_LABELS[target]}`
+      : 'No provider can be paid; nothing would move',
+    target ? amountCents : 0
+  );
+}
+
+// Sweeps the balance to the first provider in SWEEP_ORDER that takes it. Each
+// attempt reserves the balance first (see _shared/sweeps.ts), so a crash
+// mid-transfer can never leave the money both sent and still available.
+async function sweepToProviders(ctx: HandlerContext, aggregatedUSD: any, executionId: string, operation: string, logAudit: Function) {
+  const { supabase } = ctx;
+  console.log(`[${executionId}] Sweeping the application balance to the first provider that accepts it...`);
+  
+  const results: any = {
+    stripe: null,
+    paypal: null,
+    bank: null,
+    modern_treasury: null,
+    successful_transfers: 0,
+    failed_transfers: 0,
+    total_transferred: 0,
+    providers_attempted: [],
+    sweep_batch_id: null
+  };
+
+  const transferAmount = aggregatedUSD.total_amount;
+  const amountCents = minorUnits(fromMajorUnits(transferAmount));
+  // Set once a provider took the balance, or might have
+  let settled = false;
+
+  const sweepTo = async <T>(
+    target: SweepTarget,
+    sweep: Omit<SweepRequest, 'amountCents' | 'idempotencyKey'>,
+    call: (batch: SweepBatch) => Promise<T>,
+    referenceOf: (result: T) => string,
+    describe: (result: T) => Record<string, unknown>
+  ) => {
+    const auditPrefix = target.toUpperCase();
+    results.providers_attempted.push(target);
+
+    const batch = await reserveSweep(ctx, { ...sweep, amountCents, idempotencyKey: sweepKey(operation, target) });
+    if (!batch) {
+      results[target] = { success: false, error: 'The ledger application balance no longer covers this sweep' };
+      logAudit(`${auditPrefix}_NOT_RESERVED`, { amount: transferAmount });
+      settled = true;
+      return;
+    }
+    results.sweep_batch_id = batch.id;
+    logAudit('SWEEP_RESERVED', { sweep_batch_id: batch.id, provider: target, amount: transferAmount });
+
+    try {
+      const result = await executeSweep(ctx, batch, call, referenceOf);
+      results[target] = { success: true, amount: transferAmount, ...describe(result) };
+      results.successful_transfers++;
+      results.total_transferred += transferAmount;
+      settled = true;
+      logAudit(`${auditPrefix}_SUCCESS`, { sweep_batch_id: batch.id, reference: referenceOf(result) });
+    } catch (error: any) {
+      console.error(`[${executionId}] ${SWEEP_LABELS[target]} failed:`, error);
+      results[target] = { success: false, error: error.message };
+      results.failed_transfers++;
+      // The reservation stays held until recover-sweeps learns what the provider did
+      if (isOutcomeUnknown(error)) {
+        settled = true;
+        logAudit(`${auditPrefix}_OUTCOME_UNKNOWN`, { sweep_batch_id: batch.id, error: error.message });
+      } else {
+        logAudit(`${auditPrefix}_FAILED`, { sweep_batch_id: batch.id, error: error.message });
+      }
+    }
+  };
+
+  // ============ STRIPE PAYOUT (Primary) ============
+  const stripeConfigured = isStripeConfigured();
+  if (stripeConfigured) {
+    try {
+      console.log(`[${executionId}] Checking Stripe balance for a $${transferAmount.toFixed(2)} payout...`);
+      const stripe = createStripeClient();
+      
+      // Check Stripe balance first
+      const balance = await stripe.balance.retrieve();
+      const availableUSD = balance.available.find((b: any) => b.currency === 'usd');
+      const stripeBalance = toMajorUnits(money(availableUSD?.amount || 0));
+      
+      logAudit('STRIPE_BALANCE_CHECK', { available: stripeBalance, needed: transferAmount });
+      
+      if (stripeBalance >= transferAmount && transferAmount >= 0.50) {
+        const params = stripePayoutParams(amountCents, operation);
+        await sweepTo('stripe', { provider: 'stripe', method: 'payouts.create', request: params, destination: null, movement: 'payout' },
+          () => guardMovement(ctx, { provider: 'stripe', destination: null, amountCents }, () =>
+            stripe.payouts.create(params, { idempotencyKey: sweepKey(operation, 'stripe') })
+          ),
+          (payout) => payout.id,
+          (payout) => ({ payout_id: payout.id, arrival_date: payout.arrival_date, status: payout.status })
+        );
+      } else {
+        results.stripe = {
+          success: false,
+          error: stripeBalance < transferAmount 
+            ? `Insufficient Stripe balance: $${stripeBalance.toFixed(2)} available, $${transferAmount.toFixed(2)} needed`
+            : `Amount $${transferAmount.toFixed(2)} below Stripe minimum $0.50`
+        };
+        logAudit('STRIPE_INSUFFICIENT_BALANCE', { available: stripeBalance, needed: transferAmount });
+      }
+    } catch (error: any) {
+      if (error instanceof SweepError) throw error;
+      console.error(`[${executionId}] Stripe balance check failed:`, error);
+      results.stripe = { success: false, error: error.message };
+      results.failed_transfers++;
+      logAudit('STRIPE_PAYOUT_FAILED', { error: error.message });
+    }
+  } else {
+    results.stripe = { success: false, error: 'STRIPE_SECRET_KEY not configured' };
+    logAudit('STRIPE_NOT_CONFIGURED', {});
+  }
+
+  // ============ PAYPAL PAYOUT ============
+  const paypalClientId = Deno.env.get("PAYPAL_CLIENT_ID");
+  const paypalSecret = Deno.env.get("PAYPAL_CLIENT_SECRET");
+  
+  if (!paypalClientId || !paypalSecret) {
+    results.paypal = { success: false, error: 'PayPal credentials not configured' };
+  } else if (!settled) {
+    try {
+      console.log(`[${executionId}] Initiating PayPal payout...`);
+      
+      // Get PayPal access token
+      const tokenResponse = await fetch('https://api-m.paypal.com/v1/oauth2/token', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${paypalClientId}:${paypalSecret}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: 'grant_type=client_credentials'
+      });
+      
+      if (tokenResponse.ok) {
+        const tokenData = await tokenResponse.json();
+        const accessToken = tokenData.access_token;
+
+        await sweepTo('paypal', { provider: 'paypal', method: 'payments.payouts.create', request: paypalPayoutBody(transferAmount, executionId, SWEEP_BATCH_ID), destination: 'paypal', movement: 'payout' },
+          (batch) => guardMovement(ctx, { provider: 'paypal', destination: 'paypal', amountCents }, async () => {
+            const payoutResponse = await fetch('https://api-m.paypal.com/v1/payments/payouts', {
+              method: 'POST',
+              headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+              },
+              body: JSON.stringify(paypalPayoutBody(transferAmount, executionId, batch.id))
+            });
+            const payoutData = await payoutResponse.json().catch(() => ({}));
+            if (!payoutResponse.ok) {
+              throw new Error(payoutData.message || `PayPal answered ${payoutResponse.status}`);
+            }
+            return payoutData;
+          }),
+          (payoutData) => payoutData.batch_header?.payout_batch_id,
+          (payoutData) => ({ batch_id: payoutData.batch_header?.payout_batch_id, status: payoutData.batch_header?.batch_status })
+        );
+      } else {
+        results.paypal = { success: false, error: 'Failed to get PayPal access token' };
+        results.failed_transfers++;
+      }
+    } catch (error: any) {
+      if (error instanceof SweepError) throw error;
+      console.error(`[${executionId}] PayPal error:`, error);
+      results.paypal = { success: false, error: error.message };
+      results.failed_transfers++;
+      logAudit('PAYPAL_ERROR', { error: error.message });
+    }
+  }
+
+  // ============ MODERN TREASURY ============
+  const mtApiKey = Deno.env.get("MODERN_TREASURY_API_KEY");
+  const mtOrgId = Deno.env.get("MODERN_TREASURY_ORG_ID");
+  
+  if (!mtApiKey || !mtOrgId) {
+    results.modern_treasury = { success: false, error: 'Modern Treasury credentials not configured' };
+  } else if (!settled) {
+    console.log(`[${executionId}] Initiating Modern Treasury transfer...`);
+    const order = modernTreasuryOrder(amountCents, executionId);
+
+    await sweepTo('modern_treasury', { provider: 'modern_treasury', method: 'payment_orders.create', request: order, destination: 'modern_treasury', movement: 'payout' },
+      () => guardMovement(ctx, { provider: 'modern_treasury', destination: 'modern_treasury', amountCents }, async () => {
+        const mtResponse = await fetch('https://app.moderntreasury.com/api/payment_orders', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${btoa(`${mtOrgId}:${mtApiKey}`)}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(order)
+        });
+        const mtData = await mtResponse.json().catch(() => ({}));
+        if (!mtResponse.ok) {
+          throw new Error(mtData.message || `Modern Treasury answered ${mtResponse.status}`);
+        }
+        return mtData;
+      }),
+      (mtData) => mtData.id,
+      (mtData) => ({ payment_order_id: mtData.id, status: mtData.status })
+    );
+  }
+
+  // ============ DIRECT BANK TRANSFER (via Stripe) ============
+  if (!settled && stripeConfigured && results.stripe?.success !== true) {
+    try {
+      console.log(`[${executionId}] Attempting direct bank transfer...`);
+      const stripe = createStripeClient();
+      const destination = await resolveDestination(supabase, 'usd');
+      const bankAccountId = destination.account_id;
+      await assertWithinDestinationLimits(supabase, destination, amountCents);
+      const params = bankTransferParams(amountCents, destination, operation);
+      
+      await sweepTo('bank', { provider: 'stripe', method: 'transfers.create', request: params, destination: bankAccountId, movement: 'connected_transfer' },
+        () => guardMovement(ctx, { provider: 'stripe', destination: bankAccountId, amountCents }, () =>
+          stripe.transfers.create(params, { idempotencyKey: sweepKey(operation, 'bank') })
+        ),
+        (transfer) => transfer.id,
+        (transfer) => ({ transfer_id: transfer.id, destination: bankAccountId })
+      );
+    } catch (error: any) {
+      if (error instanceof SweepError) throw error;
+      results.providers_attempted.push('bank');
+      results.bank = { success: false, error: error.message };
+      results.failed_transfers++;
+      logAudit('BANK_TRANSFER_FAILED', { error: error.message });
+    }
+  }
+
+  return results;
+}
+
+async function saveAuditLog(supabase: any, executionId: string, auditLog: any[], status: string) {
+  try {
+    await supabase.from('automated_transfer_logs').insert({
+      job_name: 'comprehensive_usd_aggregator_v2',
+      status,
+      execution_time: new Date().toISOString(),
+      response: {
+        execution_id: executionId,
+        audit_trail: auditLog,
+        log_count: auditLog.length,
+        final_status: status
+      }
+    });
+    
+    // Also log to compliance_audit_log for full compliance
+    await supabase.from('compliance_audit_log').insert({
+      entity_type: 'ledger_usd_transfer',
+      entity_id: executionId,
+      audit_type: 'usd_aggregation_transfer',
+      status,
+      findings: {
+        audit_trail: auditLog,
+        execution_id: executionId
+      }
+    });
+  } catch (err) {
+    console.error(`[${executionId}] Failed to save audit log:`, err);
+  }
+}
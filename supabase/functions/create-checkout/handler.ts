@@ -0,0 +1,69 @@
+import { createHandler } from "../_shared/handler.ts";
+import { authenticateUser } from "../_shared/auth.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { jsonResponse } from "../_shared/envelope.ts";
+import { loadPlan } from "../_shared/plans.ts";
+
+const DEFAULT_PLAN = "basic";
+
+// Any signed-in user; no role needed. The subscription is tied to the user
+// through client_reference_id and its metadata, which stripe-webhook reads to
+// fill stripe_customers and stripe_subscriptions.user_id.
+export const handler = createHandler({ name: "create-checkout", executionPrefix: "checkout" }, async ({ req, supabase }) => {
+  const { userId, email } = await authenticateUser(req, supabase);
+  const { plan = DEFAULT_PLAN } = await req.json().catch(() => ({}));
+  const product = await loadPlan(supabase, String(plan));
+  const userEmail = email ?? undefined;
+
+  const stripe = createStripeClient();
+
+  // Reuse the user's customer: the one a past checkout recorded, else one with their email
+  const { data: known, error: knownError } = await supabase
+    .from("stripe_customers")
+    .select("stripe_customer_id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (knownError) {
+    throw new Error(`Failed to look up the Stripe customer for ${userId}: ${knownError.message}`);
+  }
+  let customerId: string | undefined = known?.stripe_customer_id;
+  if (!customerId && userEmail) {
+    const customers = await stripe.customers.list({ email: userEmail, limit: 1 });
+    if (customers.data.length > 0) {
+      customerId = customers.data[0].id;
+    }
+  }
+
+  const origin = req.headers.get("origin") || "https://revenue-growth-hivemind.lovable.app";
+
+  const session = await stripe.checkout.sessions.create({
+    customer: customerId,
+    customer_email: customerId ? undefined : userEmail,
+    line_items: [
+      {
+        price: product.price_id,
+        quantity: 1,
+      },
+      // Metered prices take no quantity; usage is reported as it happens
+      ...(product.overage_price_id ? [{ price: product.overage_price_id }] : []),
+    ],
+    mode: "subscription",
+    client_reference_id: userId,
+    success_url: `${origin}/?payment=success&plan=${plan}`,
+    cancel_url: `${origin}/?payment=cancelled`,
+    metadata: {
+      plan,
+      product_name: product.name,
+      user_id: userId
+    },
+    subscription_data: {
+      metadata: { plan: product.plan, user_id: userId }
+    }
+  });
+
+  console.log(`Checkout session created: ${session.id} for ${product.name}`);
+
+  return jsonResponse({ url: session.url });
+});
@@ -0,0 +1,138 @@
+import { createHandler } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { getLedgerCurrencyBalances } from "../_shared/ledger.ts";
+import { fromMajorUnits, toMajorUnits } from "../_shared/money.ts";
+import {
+  ExchangeRateError,
+  REPORTING_CURRENCY_CONFIG_KEY,
+  listRateSnapshots,
+  loadRateSnapshot,
+  loadReportingCurrency,
+  normalizeCurrencyCode,
+  parseRateSnapshot,
+  readRateFile,
+  saveRateSnapshot,
+  totalIn,
+} from "../_shared/exchange-rates.ts";
+
+// Input errors from the rate helpers are the caller's to fix
+const asBadRequest = (error: unknown) =>
+  error instanceof ExchangeRateError ? new HttpError(400, "invalid_exchange_rates", error.message) : error;
+
+const badRequest = <T>(run: () => T): T => {
+  try {
+    return run();
+  } catch (error) {
+    throw asBadRequest(error);
+  }
+};
+
+// Exchange rate snapshots and the reporting currency. Anyone signed in can
+// read them; loading rates or changing the reporting currency takes an admin.
+//   { action: "list" }
+//   { action: "report", reporting_currency?, as_of? }   ledger balances in one currency
+//   { action: "import", snapshot: { base, as_of, rates } }
+//   { action: "load_file" }                            reads EXCHANGE_RATES_FILE
+//   { action: "set_reporting_currency", currency }
+export const handler = createHandler({ name: "exchange-rates", executionPrefix: "rates", role: "viewer" }, async ({ req, executionId, supabase, auth }) => {
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const [snapshots, reportingCurrency] = await Promise.all([
+        listRateSnapshots(supabase),
+        loadReportingCurrency(supabase),
+      ]);
+      return ok({ snapshots, reporting_currency: reportingCurrency, execution_id: executionId });
+    }
+
+    case "report": {
+      if (body.as_of !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(body.as_of))) {
+        throw new HttpError(400, "invalid_request", "as_of must be a YYYY-MM-DD date");
+      }
+      const reportingCurrency = body.reporting_currency
+        ? badRequest(() => normalizeCurrencyCode(body.reporting_currency))
+        : await loadReportingCurrency(supabase);
+      const [balances, snapshot] = await Promise.all([
+        getLedgerCurrencyBalances(supabase),
+        loadRateSnapshot(supabase, body.as_of),
+      ]);
+
+      const accountCodes = [...new Set(balances.map((row) => row.account_code))];
+      const accounts = accountCodes.map((code) => {
+        const rows = balances.filter((row) => row.account_code === code);
+        let total: number | null = null;
+        let error: string | null = null;
+        try {
+          const amounts = rows.map((row) => fromMajorUnits(row.balance, row.currency));
+          total = toMajorUnits(totalIn(amounts, reportingCurrency, snapshot));
+        } catch (err) {
+          if (!(err instanceof ExchangeRateError)) throw err;
+          error = err.message;
+        }
+        return {
+          account_code: code,
+          account_name: rows[0].account_name,
+          balances: rows.map((row) => ({ currency: row.currency, balance: row.balance })),
+          total,
+          error,
+        };
+      });
+
+      return ok({
+        reporting_currency: reportingCurrency,
+        rates_as_of: snapshot?.as_of ?? null,
+        accounts,
+        execution_id: executionId,
+      });
+    }
+
+    case "import": {
+      requireRole(auth!, "admin");
+      const snapshot = badRequest(() => parseRateSnapshot(body.snapshot, "import"));
+      await saveRateSnapshot(supabase, snapshot);
+      console.log(`[${executionId}] ${snapshot.as_of} ${snapshot.base_currency} rates imported by ${auth!.caller}`);
+      return ok({ snapshot, execution_id: executionId });
+    }
+
+    case "load_file": {
+      requireRole(auth!, "admin");
+      const path = Deno.env.get("EXCHANGE_RATES_FILE");
+      if (!path) {
+        throw new HttpError(400, "rates_file_not_configured", "Set EXCHANGE_RATES_FILE to the path of a rate snapshot file");
+      }
+      const snapshot = await readRateFile(path).catch((error) => { throw asBadRequest(error); });
+      await saveRateSnapshot(supabase, snapshot);
+      console.log(`[${executionId}] ${snapshot.as_of} ${snapshot.base_currency} rates loaded from ${path} by ${auth!.caller}`);
+      return ok({ snapshot, execution_id: executionId });
+    }
+
+    case "set_reporting_currency": {
+      requireRole(auth!, "admin");
+      const currency = badRequest(() => normalizeCurrencyCode(body.currency));
+      const { data: existing, error: loadError } = await supabase
+        .from("stripe_config")
+        .select("id")
+        .eq("key", REPORTING_CURRENCY_CONFIG_KEY)
+        .maybeSingle();
+      if (loadError) {
+        throw new Error(`Failed to load the reporting currency: ${loadError.message}`);
+      }
+
+      const { error } = existing
+        ? await supabase.from("stripe_config").update({ value: currency, updated_at: new Date().toISOString() }).eq("id", existing.id)
+        : await supabase.from("stripe_config").insert({ key: REPORTING_CURRENCY_CONFIG_KEY, value: currency, is_secret: false });
+      if (error) {
+        throw new Error(`Failed to save the reporting currency: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Reporting currency set to ${currency} by ${auth!.caller}`);
+      return ok({ reporting_currency: currency, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
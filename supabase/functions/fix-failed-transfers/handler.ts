@@ -0,0 +1,304 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient, isDefiniteStripeDecline } from "../_shared/clients.ts";
+import { HttpError, fail, ok } from "../_shared/envelope.ts";
+import { movementJournal, recordConnectedTransfer } from "../_shared/ledger.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+import { transitionTransfer } from "../_shared/transfer-state.ts";
+import { guardMovement } from "../_shared/failsafe.ts";
+import { formatMoney, fromMajorUnits, minorUnits, money, toMajorUnits } from "../_shared/money.ts";
+
+interface FailedTransfer {
+  id: string;
+  amount: number;
+  currency: string | null;
+}
+
+// transfer_attempts.amount is in minor units
+const transferAmount = (transfer: FailedTransfer) => money(transfer.amount, transfer.currency || 'usd');
+
+type TransferParams = Parameters<ReturnType<typeof createStripeClient>['transfers']['create']>[0];
+
+// A failed transfer is retried by replaying the request the attempt saved,
+// under the idempotency key it saved. Had the original gone through after
+// all, Stripe answers with that transfer rather than paying a second time.
+// Stripe forgets a key after 24 hours, after which a replay could pay twice, so
+// only attempts made within the last 23 hours are replayed; older ones go to
+// manual review.
+const REPLAY_WINDOW_MS = 23 * 60 * 60 * 1000;
+
+export const handler = createHandler({
+  name: "fix-failed-transfers",
+  executionPrefix: "fix",
+  role: "treasurer",
+  idempotent: true,
+}, async (ctx) => {
+  const { req, executionId, supabase: supabaseClient } = ctx;
+  const startedAt = Date.now();
+  const { dryRun, planHash } = readRunMode(await req.json().catch(() => ({})));
+
+  try {
+    console.log(`[${executionId}] 🔧 Starting failed transfer fix workflow...`);
+    
+    const stripe = createStripeClient();
+
+    // Get failed transfers that need fixing
+    const { data: failedTransfers, error: fetchError } = await supabaseClient
+      .from('transfer_attempts')
+      .select('*')
+      .eq('status', 'failed')
+      // A provider ID means money may already have moved; those go to manual review, not a re-pay
+      .is('stripe_transfer_id', null)
+      .is('corrected_transfer_id', null)
+      // Only the original request can be replayed safely; attempts without one need manual review
+      .not('idempotency_key', 'is', null)
+      .not('provider_request', 'is', null)
+      .lt('retry_count', 3)
+      .gte('created_at', new Date(Date.now() - REPLAY_WINDOW_MS).toISOString())
+      .order('amount', { ascending: false });
+
+    if (fetchError) {
+      throw new Error(`Error fetching failed transfers: ${fetchError.message}`);
+    }
+
+    // Every candidate is planned; at run time a transfer another worker claims first is skipped
+    const planner = new PlanBuilder('fix-failed-transfers', executionId);
+    let plannedCents = 0;
+    for (const transfer of failedTransfers || []) {
+      plannedCents += transfer.amount;
+      planner
+        .write('transfer_attempts', 'update', `Claim transfer ${transfer.id}: failed -> submitted`, { status: 'submitted', retry_count: (transfer.retry_count || 0) + 1 })
+        .call('stripe', 'transfers.create', transfer.provider_request, transfer.idempotency_key)
+        .write('transfer_attempts', 'update', `Move transfer ${transfer.id} submitted -> paid with the Stripe transfer ID`, { status: 'paid' })
+        .post(movementJournal('connected_transfer', transferAmount(transfer), `transfer_attempt:${transfer.id}`, `Replayed transfer ${transfer.id} to ${transfer.destination}`));
+    }
+    if (failedTransfers && failedTransfers.length > 0) {
+      planner.write('workflow_runs', 'insert', 'Record the fix workflow run', { workflow_type: 'fix_failed_transfers', total_processed: failedTransfers.length });
+    }
+    const plan = await planner.build(
+      failedTransfers && failedTransfers.length > 0
+        ? `Replay ${failedTransfers.length} failed transfer(s) totalling ${formatMoney(money(plannedCents))}`
+        : 'No failed transfers need fixing',
+      plannedCents
+    );
+
+    if (dryRun) {
+      return planResponse(plan, { processed: failedTransfers?.length ?? 0 });
+    }
+    assertPlanUnchanged(plan, planHash);
+
+    if (!failedTransfers || failedTransfers.length === 0) {
+      console.log(`[${executionId}] No failed transfers found to fix`);
+      return ok({
+        message: "No failed transfers found that need fixing",
+        processed: 0,
+        fixed: 0,
+        failed: 0
+      });
+    }
+
+    console.log(`[${executionId}] Found ${failedTransfers.length} failed transfers to fix`);
+
+    let fixed = 0;
+    let stillFailed = 0;
+    const results = [];
+
+    for (const transfer of failedTransfers) {
+      const transferId = transfer.id;
+      const amount = transfer.amount;
+      const amountUsd = toMajorUnits(transferAmount(transfer));
+
+      console.log(`[${executionId}] Attempting to fix transfer ${transferId} for $${amountUsd.toFixed(2)}`);
+
+      // Claim the transfer; if another run already moved it on, leave it alone
+      try {
+        await transitionTransfer(supabaseClient, transferId, 'submitted', {
+          retry_count: (transfer.retry_count || 0) + 1
+        });
+      } catch (claimError) {
+        console.log(`[${executionId}] ⏭️ Skipping transfer ${transferId}: ${(claimError as Error).message}`);
+        continue;
+      }
+
+      let stripeTransfer;
+      try {
+        stripeTransfer = await guardMovement(ctx, { provider: 'stripe', destination: transfer.destination, amountCents: amount, currency: transfer.currency || 'usd' }, () =>
+          stripe.transfers.create(transfer.provider_request as TransferParams, {
+            idempotencyKey: transfer.idempotency_key
+          })
+        );
+      } catch (stripeError: unknown) {
+        const message = (stripeError as Error).message;
+        console.error(`[${executionId}] ❌ Failed to fix transfer ${transferId}:`, message);
+
+        // Refused by the failsafe or declined by Stripe: nothing moved, so the
+        // transfer goes back to failed. Anything else may have been carried
+        // out, and stays submitted for reconciliation rather than be paid again.
+        const declined = stripeError instanceof HttpError || isDefiniteStripeDecline(stripeError);
+        if (declined) {
+          // retry_count was bumped when the transfer was claimed
+          await transitionTransfer(supabaseClient, transferId, 'failed', {
+            correction_error: message,
+            metadata: {
+              ...transfer.metadata,
+              last_fix_attempt: new Date().toISOString(),
+              fix_execution_id: executionId,
+              fix_error: message
+            }
+          });
+        } else {
+          const { error: unknownError } = await supabaseClient
+            .from('transfer_attempts')
+            .update({
+              error_code: (stripeError as { type?: string } | null)?.type || 'outcome_unknown',
+              correction_error: message
+            })
+            .eq('id', transferId);
+          if (unknownError) {
+            console.error(`[${executionId}] Failed to record the error on transfer ${transferId}:`, unknownError);
+          }
+        }
+
+        stillFailed++;
+        results.push({
+          transfer_id: transferId,
+          amount: amountUsd,
+          status: declined ? 'still_failed' : 'outcome_unknown',
+          error: message
+        });
+
+        // Once the circuit breaker is open the remaining transfers would be refused too
+        if (stripeError instanceof HttpError && stripeError.code === 'money_movement_halted') {
+          break;
+        }
+        continue;
+      }
+
+      console.log(`[${executionId}] ✅ Fixed transfer ${transferId} - Stripe transfer: ${stripeTransfer.id}`);
+
+      // The money has moved, so from here an error is recorded for manual
+      // review; the transfer is never failed again and the run carries on
+      try {
+        // Connected-account transfers settle immediately, as in stripe-revenue-transfer
+        await transitionTransfer(supabaseClient, transferId, 'paid', {
+          stripe_transfer_id: stripeTransfer.id,
+          corrected_at: new Date().toISOString(),
+          metadata: {
+            ...transfer.metadata,
+            corrected_at: new Date().toISOString(),
+            fix_execution_id: executionId
+          }
+        });
+
+        // Same reference as the original would have posted, so the ledger counts it once
+        await recordConnectedTransfer(
+          supabaseClient,
+          transferAmount(transfer),
+          `transfer_attempt:${transferId}`,
+          `Replayed transfer ${transferId} to ${transfer.destination}`,
+          { execution_id: executionId, stripe_transfer_id: stripeTransfer.id }
+        );
+      } catch (recordError: unknown) {
+        const message = (recordError as Error).message;
+        console.error(`[${executionId}] ⚠️ CRITICAL: Transfer ${transferId} was paid but not recorded:`, message);
+
+        const { error: updateError } = await supabaseClient
+          .from('transfer_attempts')
+          .update({
+            correction_error: `Paid as ${stripeTransfer.id} but not recorded: ${message}`,
+            metadata: {
+              ...transfer.metadata,
+              fix_execution_id: executionId,
+              stripe_transfer_id: stripeTransfer.id,
+              ledger_error: message,
+              critical_error: true
+            }
+          })
+          .eq('id', transferId);
+        if (updateError) {
+          console.error(`[${executionId}] Failed to record the error on transfer ${transferId}:`, updateError);
+        }
+
+        fixed++;
+        results.push({
+          transfer_id: transferId,
+          amount: amountUsd,
+          status: 'fixed',
+          stripe_transfer_id: stripeTransfer.id,
+          error: message,
+          requires_manual_intervention: true
+        });
+        continue;
+      }
+
+      fixed++;
+      results.push({
+        transfer_id: transferId,
+        amount: amountUsd,
+        status: 'fixed',
+        stripe_transfer_id: stripeTransfer.id
+      });
+    }
+
+    const recoveredCents = results
+      .filter(r => r.status === 'fixed')
+      .reduce((total, r) => total + minorUnits(fromMajorUnits(r.amount)), 0);
+
+    // Log the workflow execution
+    await supabaseClient
+      .from('workflow_runs')
+      .insert({
+        workflow_type: 'fix_failed_transfers',
+        total_processed: failedTransfers.length,
+        successful_fixes: fixed,
+        failed_fixes: stillFailed,
+        success_rate: failedTransfers.length > 0 ? (fixed / failedTransfers.length) * 100 : 0,
+        total_amount_recovered: recoveredCents,
+        execution_time_ms: Date.now() - startedAt,
+        completed_at: new Date().toISOString(),
+        metadata: {
+          execution_id: executionId,
+          results: results
+        }
+      });
+
+    console.log(`[${executionId}] 🎉 Fix workflow completed: ${fixed} fixed, ${stillFailed} still failed`);
+
+    return ok({
+      message: `Fixed ${fixed} out of ${failedTransfers.length} failed transfers`,
+      processed: failedTransfers.length,
+      fixed: fixed,
+      still_failed: stillFailed,
+      total_amount_recovered: recoveredCents,
+      success_rate: failedTransfers.length > 0 ? ((fixed / failedTransfers.length) * 100).toFixed(1) : 0,
+      results: results,
+      execution_id: executionId
+    });
+
+  } catch (caught: unknown) {
+    if (caught instanceof HttpError) throw caught;
+    const error = caught as Error;
+    console.error(`[${executionId}] 💥 Fix workflow failed:`, error);
+
+    // Log the error
+    await supabaseClient
+      .from('workflow_runs')
+      .insert({
+        workflow_type: 'fix_failed_transfers',
+        total_processed: 0,
+        successful_fixes: 0,
+        failed_fixes: 0,
+        execution_time_ms: Date.now() - startedAt,
+        completed_at: new Date().toISOString(),
+        error_message: error.message,
+        metadata: {
+          execution_id: executionId,
+          error_type: error.name
+        }
+      });
+
+    return fail(500, "fix_workflow_failed", error.message, {
+      execution_id: executionId,
+      message: "Failed transfer fix workflow encountered an error"
+    });
+  }
+});
@@ -0,0 +1,134 @@
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { add, money, toMajorUnits, type Money } from "../_shared/money.ts";
+import {
+  ExchangeRateError,
+  loadRateSnapshot,
+  loadReportingCurrency,
+  normalizeCurrencyCode,
+  totalIn,
+} from "../_shared/exchange-rates.ts";
+
+interface CurrencyBalance {
+  currency: string;
+  available: Money;
+  pending: Money;
+}
+
+// Stripe lists each currency separately, in available and pending
+function balancesByCurrency(available: Stripe.Balance.Available[], pending: Stripe.Balance.Pending[]): CurrencyBalance[] {
+  const byCurrency = new Map<string, CurrencyBalance>();
+  const entry = (currency: string) => {
+    if (!byCurrency.has(currency)) {
+      byCurrency.set(currency, { currency, available: money(0, currency), pending: money(0, currency) });
+    }
+    return byCurrency.get(currency)!;
+  };
+  for (const b of available) {
+    const balance = entry(b.currency);
+    balance.available = add(balance.available, money(b.amount, b.currency));
+  }
+  for (const b of pending) {
+    const balance = entry(b.currency);
+    balance.pending = add(balance.pending, money(b.amount, b.currency));
+  }
+  return [...byCurrency.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+// Returns the Stripe balance in every currency it holds, plus the total in the
+// reporting currency at the latest exchange rates.
+//   { reporting_currency? }   overrides the configured reporting currency
+export const handler = createHandler({ name: "get-stripe-balance", executionPrefix: "balance", role: "viewer" }, async ({ req, supabase, executionId }) => {
+  console.log(`[${executionId}] 🔍 Retrieving Stripe balance...`);
+  const body = await req.json().catch(() => ({}));
+
+  const stripe = createStripeClient();
+
+  // Get Stripe account balance
+  const balance = await stripe.balance.retrieve();
+  
+  console.log("💰 Retrieved Stripe balance:", balance);
+
+  // Calculate total available balance in USD
+  const availableUSD = balance.available.find(b => b.currency === 'usd');
+  const pendingUSD = balance.pending.find(b => b.currency === 'usd');
+  
+  const available = money(availableUSD?.amount ?? 0);
+  const pending = money(pendingUSD?.amount ?? 0);
+  const totalAvailableAmount = toMajorUnits(available);
+  const totalPendingAmount = toMajorUnits(pending);
+
+  const currencies = balancesByCurrency(balance.available, balance.pending);
+  let reportingCurrency: string;
+  try {
+    reportingCurrency = body.reporting_currency ? normalizeCurrencyCode(body.reporting_currency) : await loadReportingCurrency(supabase);
+  } catch (error) {
+    if (error instanceof ExchangeRateError && body.reporting_currency) {
+      throw new HttpError(400, "invalid_currency", error.message);
+    }
+    throw error;
+  }
+
+  // A total across currencies needs a rate for each of them
+  const snapshot = await loadRateSnapshot(supabase);
+  let reportingTotal = null;
+  let reportingError: string | null = null;
+  try {
+    const availableTotal = totalIn(currencies.map((c) => c.available), reportingCurrency, snapshot);
+    const pendingTotal = totalIn(currencies.map((c) => c.pending), reportingCurrency, snapshot);
+    reportingTotal = {
+      currency: reportingCurrency,
+      available: toMajorUnits(availableTotal),
+      pending: toMajorUnits(pendingTotal),
+      total: toMajorUnits(add(availableTotal, pendingTotal)),
+    };
+  } catch (error) {
+    if (!(error instanceof ExchangeRateError)) throw error;
+    reportingError = error.message;
+  }
+
+  // Get recent payouts to show activity
+  let recentPayouts: any[] = [];
+  try {
+    const payouts = await stripe.payouts.list({ limit: 10 });
+    recentPayouts = payouts.data;
+  } catch (e) {
+    console.log("Could not fetch payouts:", e);
+  }
+  
+  console.log(`✅ Stripe balance retrieved: $${totalAvailableAmount.toFixed(2)} available, $${totalPendingAmount.toFixed(2)} pending`);
+
+  return ok({
+    balance: totalAvailableAmount,
+    pending: totalPendingAmount,
+    available: balance.available,
+    pending_details: balance.pending,
+    recent_payouts: recentPayouts.map((t: any) => ({
+      id: t.id,
+      amount: toMajorUnits(money(t.amount, t.currency)),
+      currency: t.currency,
+      created: new Date(t.created * 1000).toISOString(),
+      arrival_date: t.arrival_date ? new Date(t.arrival_date * 1000).toISOString() : null,
+      status: t.status
+    })),
+    currency_breakdown: {
+      available_usd: totalAvailableAmount,
+      pending_usd: totalPendingAmount,
+      total_usd: toMajorUnits(add(available, pending))
+    },
+    // Major units of each currency
+    currencies: currencies.map((c) => ({
+      currency: c.currency,
+      available: toMajorUnits(c.available),
+      pending: toMajorUnits(c.pending),
+      total: toMajorUnits(add(c.available, c.pending)),
+    })),
+    reporting_currency: reportingCurrency,
+    reporting_total: reportingTotal,
+    reporting_error: reportingError,
+    rates_as_of: snapshot?.as_of ?? null,
+    last_updated: new Date().toISOString()
+  });
+});
@@ -0,0 +1,263 @@
+import { createHandler } from "../_shared/handler.ts";
+import { ok } from "../_shared/envelope.ts";
+import { getLedgerCutover, recordEarning } from "../_shared/ledger.ts";
+import { fromMajorUnits, isPositive } from "../_shared/money.ts";
+
+export const handler = createHandler({ name: "hyper-revenue-generator", executionPrefix: "revenue", role: "operator" }, async ({ executionId, supabase }) => {
+  console.log(`[${executionId}] Starting production revenue aggregation - NO MOCK DATA`);
+
+  // PRODUCTION: Aggregate REAL revenue from all sources
+  const revenueStreams = await Promise.all([
+    aggregateRealAPIRevenue(supabase, executionId),
+    aggregateRealSubscriptionRevenue(supabase, executionId),
+    aggregateRealMarketplaceRevenue(supabase, executionId),
+    aggregateRealAffiliateRevenue(supabase, executionId),
+    aggregateRealDirectPayments(supabase, executionId),
+    aggregateRealContentLicensing(supabase, executionId),
+    aggregateRealCryptoRevenue(supabase, executionId),
+    aggregateRealDataMonetization(supabase, executionId)
+  ]);
+
+  const totalAmount = revenueStreams.reduce((sum, stream) => sum + stream.amount, 0);
+  const totalTransactions = revenueStreams.reduce((sum, stream) => sum + stream.count, 0);
+
+  // Only update if there's real revenue
+  if (totalAmount > 0) {
+    // Post each completed transaction to the ledger once; re-runs are no-ops
+    await postRevenueToLedger(supabase, executionId);
+
+    // Update revenue streams metrics
+    for (const stream of revenueStreams) {
+      if (stream.amount > 0) {
+        await supabase
+          .from('autonomous_revenue_streams')
+          .upsert({
+            name: stream.name,
+            strategy: stream.strategy,
+            status: 'active',
+            metrics: {
+              total_revenue: stream.amount,
+              transaction_count: stream.count,
+              peak_transaction: stream.peak,
+              last_aggregated: new Date().toISOString(),
+              source: 'production_real_data'
+            }
+          }, { onConflict: 'name' });
+      }
+    }
+  }
+
+  console.log(`[${executionId}] Aggregated $${totalAmount.toFixed(2)} from ${totalTransactions} real transactions`);
+
+  return ok({
+    total_amount: totalAmount,
+    transaction_count: totalTransactions,
+    revenue_streams: revenueStreams.filter(s => s.amount > 0).length,
+    execution_id: executionId,
+    streams: revenueStreams,
+    production_mode: true,
+    no_mock_data: true
+  });
+});
+
+// Only transactions since the cutover: older ones are in the opening balance
+async function postRevenueToLedger(supabase: any, executionId: string) {
+  const cutover = await getLedgerCutover(supabase);
+  const { data: transactions, error } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('id, amount, metadata')
+    .eq('status', 'completed')
+    .gte('created_at', cutover);
+  if (error) {
+    throw new Error(`Failed to load revenue transactions: ${error.message}`);
+  }
+
+  for (const transaction of transactions || []) {
+    const amount = fromMajorUnits(transaction.amount);
+    if (!isPositive(amount)) continue;
+
+    await recordEarning(
+      supabase,
+      amount,
+      `autonomous_revenue_transaction:${transaction.id}`,
+      `Autonomous revenue (${transaction.metadata?.strategy || 'unknown'})`,
+      { execution_id: executionId, transaction_id: transaction.id }
+    );
+  }
+}
+
+// Aggregate REAL API revenue from existing transactions
+async function aggregateRealAPIRevenue(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'api_usage' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'API Premium Services',
+    strategy: 'api_usage',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL subscription revenue
+async function aggregateRealSubscriptionRevenue(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'subscription' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Subscription Services',
+    strategy: 'subscription',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL marketplace revenue
+async function aggregateRealMarketplaceRevenue(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'marketplace' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Marketplace Sales',
+    strategy: 'marketplace',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL affiliate revenue
+async function aggregateRealAffiliateRevenue(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'affiliate_marketing' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Affiliate Commissions',
+    strategy: 'affiliate_marketing',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL direct payments
+async function aggregateRealDirectPayments(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'direct_payment' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Direct Client Payments',
+    strategy: 'direct_payment',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL content licensing
+async function aggregateRealContentLicensing(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'content_licensing' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Content Licensing',
+    strategy: 'content_licensing',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL crypto revenue
+async function aggregateRealCryptoRevenue(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'crypto_services' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Crypto Services',
+    strategy: 'crypto_services',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
+
+// Aggregate REAL data monetization
+async function aggregateRealDataMonetization(supabase: any, executionId: string) {
+  const { data: transactions } = await supabase
+    .from('autonomous_revenue_transactions')
+    .select('*')
+    .eq('status', 'completed')
+    .contains('metadata', { strategy: 'data_monetization' });
+
+  const totalAmount = (transactions || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+  const peakTransaction = transactions?.length > 0 
+    ? Math.max(...transactions.map((t: any) => Number(t.amount)))
+    : 0;
+
+  return {
+    name: 'Data Monetization',
+    strategy: 'data_monetization',
+    amount: totalAmount,
+    count: transactions?.length || 0,
+    peak: peakTransaction
+  };
+}
@@ -0,0 +1,97 @@
+import { createHandler } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { DESTINATION_COLUMNS, getDestinationUsageToday, verifyDestination, type Destination } from "../_shared/destinations.ts";
+
+interface UpsertRequest {
+  account_id?: string;
+  account_type?: string;
+  currency?: string;
+  is_active?: boolean;
+  label?: string | null;
+  is_default?: boolean;
+  min_transfer_cents?: number | null;
+  max_transfer_cents?: number | null;
+  daily_limit_cents?: number | null;
+}
+
+const optionalCents = (value: unknown, field: string): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, "invalid_destination", `${field} must be a whole number of cents`);
+  }
+  return value;
+};
+
+// Transfer destinations. Treasurers can list and verify them; adding or
+// changing one decides where money goes, so that takes an admin.
+//   { action: "list" }
+//   { action: "upsert", account_id, currency?, label?, is_default?, is_active?, *_cents? }
+//   { action: "verify", destination_id }
+export const handler = createHandler({ name: "manage-destinations", executionPrefix: "destinations", role: "treasurer" }, async ({ req, executionId, supabase, auth }) => {
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const { data, error } = await supabase
+        .from("stripe_destinations")
+        .select(DESTINATION_COLUMNS)
+        .order("currency")
+        .order("is_default", { ascending: false })
+        .order("created_at");
+      if (error) {
+        throw new Error(`Failed to load destinations: ${error.message}`);
+      }
+
+      const destinations = await Promise.all(((data || []) as Destination[]).map(async (destination) => ({
+        ...destination,
+        used_today_cents: await getDestinationUsageToday(supabase, destination),
+      })));
+      return ok({ destinations, execution_id: executionId });
+    }
+
+    case "upsert": {
+      requireRole(auth!, "admin");
+      const input = body as UpsertRequest;
+      if (!input.account_id || !/^acct_[A-Za-z0-9]+$/.test(input.account_id)) {
+        throw new HttpError(400, "invalid_destination", "account_id must be a Stripe account ID (acct_...)");
+      }
+
+      const { data, error } = await supabase.rpc("upsert_stripe_destination", {
+        p_account_id: input.account_id,
+        p_account_type: input.account_type ?? "express",
+        p_currency: (input.currency ?? "usd").toLowerCase(),
+        p_is_active: input.is_active ?? true,
+        p_label: input.label ?? null,
+        p_is_default: input.is_default ?? null,
+        p_min_transfer_cents: optionalCents(input.min_transfer_cents, "min_transfer_cents"),
+        p_max_transfer_cents: optionalCents(input.max_transfer_cents, "max_transfer_cents"),
+        p_daily_limit_cents: optionalCents(input.daily_limit_cents, "daily_limit_cents"),
+      });
+      if (error) {
+        // 23514: check_violation from the account format or limit constraints
+        if (error.code === "23514") {
+          throw new HttpError(400, "invalid_destination", error.message);
+        }
+        throw new Error(`Failed to save destination: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Destination ${input.account_id} saved by ${auth!.caller}`);
+      return ok({ destination: data?.[0] ?? null, execution_id: executionId });
+    }
+
+    case "verify": {
+      if (typeof body.destination_id !== "string") {
+        throw new HttpError(400, "invalid_destination", "destination_id is required");
+      }
+      const destination = await verifyDestination(supabase, createStripeClient(), body.destination_id);
+      console.log(`[${executionId}] Destination ${destination.account_id} verification: ${destination.verification_status}`);
+      return ok({ destination, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
@@ -0,0 +1,136 @@
+import { createHandler } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import type { FailsafeLimits } from "../_shared/failsafe.ts";
+
+const LIMIT_KEYS: (keyof FailsafeLimits)[] = [
+  "max_single_transfer_cents",
+  "hourly_amount_cents",
+  "daily_amount_cents",
+  "daily_transfer_count",
+  "per_destination_daily_cents",
+  "failure_count",
+  "failure_window_minutes",
+  "anomaly_multiplier",
+  "anomaly_sample",
+];
+
+const BREAKER_EVENTS = ["manual_halt", "circuit_breaker_tripped", "anomaly_detected"];
+
+const requireReason = (value: unknown): string => {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new HttpError(400, "invalid_request", "A reason is required");
+  }
+  return value.trim();
+};
+
+// The circuit breaker and velocity limits behind the Safety page. Anyone with
+// the treasurer role can pull the kill switch; resuming and changing limits
+// take an admin.
+//   { action: "status" }
+//   { action: "halt", reason }
+//   { action: "resume", reason }
+//   { action: "set_limits", limits: { <limit>: number | null } }
+export const handler = createHandler({ name: "manage-failsafe", executionPrefix: "failsafe", role: "treasurer" }, async ({ req, executionId, supabase, auth }) => {
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "status";
+
+  switch (action) {
+    case "status": {
+      const since = new Date(Date.now() - 24 * 3600 * 1000).toISOString();
+      const [config, movements, events] = await Promise.all([
+        supabase.from("financial_failsafe_config").select("status, health_status, config, updated_at").eq("id", 1).maybeSingle(),
+        supabase
+          .from("money_movements")
+          .select("function_name, provider, destination, amount_cents, status, error_message, created_at")
+          .gte("created_at", since)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("emergency_events")
+          .select("id, event_type, severity, status, details, resolution_notes, resolved_at, created_at")
+          .in("event_type", BREAKER_EVENTS)
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+      const loadError = config.error ?? movements.error ?? events.error;
+      if (loadError) {
+        throw new Error(`Failed to load failsafe status: ${loadError.message}`);
+      }
+
+      const recent = movements.data || [];
+      const hourAgo = Date.now() - 3600 * 1000;
+      const committed = recent.filter((movement) => movement.status !== "failed");
+      const usage = {
+        hourly_amount_cents: committed
+          .filter((movement) => new Date(movement.created_at).getTime() > hourAgo)
+          .reduce((sum, movement) => sum + movement.amount_cents, 0),
+        daily_amount_cents: committed.reduce((sum, movement) => sum + movement.amount_cents, 0),
+        daily_transfer_count: committed.length,
+        failures: recent.filter((movement) => movement.status === "failed").length,
+      };
+
+      return ok({
+        status: config.data?.status ?? "active",
+        health_status: config.data?.health_status ?? null,
+        limits: config.data?.config ?? {},
+        usage,
+        movements: recent.slice(0, 50),
+        events: events.data || [],
+        execution_id: executionId,
+      });
+    }
+
+    case "halt":
+    case "resume": {
+      if (action === "resume") requireRole(auth!, "admin");
+      const reason = requireReason(body.reason);
+      const { data, error } = await supabase.rpc("set_failsafe_status", {
+        p_halted: action === "halt",
+        p_reason: reason,
+        p_actor: auth!.caller,
+      });
+      if (error) {
+        throw new Error(`Failed to ${action} money movement: ${error.message}`);
+      }
+      console.log(`[${executionId}] Money movement ${data} by ${auth!.caller}: ${reason}`);
+      return ok({ status: data, execution_id: executionId });
+    }
+
+    case "set_limits": {
+      requireRole(auth!, "admin");
+      const input = (body.limits ?? {}) as Record<string, unknown>;
+      const limits: FailsafeLimits = {};
+      for (const key of LIMIT_KEYS) {
+        if (!(key in input)) continue;
+        const value = input[key];
+        if (value !== null && (typeof value !== "number" || value < 0 || !Number.isFinite(value))) {
+          throw new HttpError(400, "invalid_limits", `${key} must be a non-negative number or null`);
+        }
+        limits[key] = value as number | null;
+      }
+
+      const { data: current, error: loadError } = await supabase
+        .from("financial_failsafe_config")
+        .select("config")
+        .eq("id", 1)
+        .maybeSingle();
+      if (loadError) {
+        throw new Error(`Failed to load failsafe limits: ${loadError.message}`);
+      }
+
+      const config = { ...(current?.config ?? {}), ...limits };
+      const { error } = await supabase
+        .from("financial_failsafe_config")
+        .upsert({ id: 1, config, updated_at: new Date().toISOString() });
+      if (error) {
+        throw new Error(`Failed to save failsafe limits: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Failsafe limits changed by ${auth!.caller}`);
+      return ok({ limits: config, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
@@ -0,0 +1,204 @@
+import { createHandler, invokeFunction, type HandlerContext } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  APPROVAL_COLUMNS,
+  APPROVAL_CONFIG_KEY,
+  APPROVAL_TRANSACTION_TYPE,
+  expireStaleApprovals,
+  loadApprovalPolicy,
+  type ApprovalItem,
+} from "../_shared/approvals.ts";
+
+const RECENT_LIMIT = 25;
+
+// A pending item that this caller may decide on. Only signed-in users count
+// as the second person, and never the one who asked for the payout.
+async function loadDecidable(ctx: HandlerContext, reviewId: unknown): Promise<ApprovalItem> {
+  if (typeof reviewId !== "string") {
+    throw new HttpError(400, "invalid_request", "review_id is required");
+  }
+  const auth = ctx.auth!;
+  if (auth.kind !== "user") {
+    throw new HttpError(403, "approver_must_be_user", "Payouts are approved by a signed-in treasurer, not a service");
+  }
+
+  await expireStaleApprovals(ctx.supabase);
+  const { data, error } = await ctx.supabase
+    .from("manual_review_queue")
+    .select(APPROVAL_COLUMNS)
+    .eq("id", reviewId)
+    .eq("transaction_type", APPROVAL_TRANSACTION_TYPE)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load approval ${reviewId}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, "approval_not_found", `No payout approval ${reviewId}`);
+  }
+
+  const item = data as ApprovalItem;
+  if (item.status !== "pending") {
+    throw new HttpError(409, "approval_already_decided", `This payout is already ${item.status}`, { status: item.status });
+  }
+  if (item.user_id === auth.userId || item.requested_by === auth.caller) {
+    throw new HttpError(403, "self_approval", "A payout must be approved by someone other than the person who requested it");
+  }
+  return item;
+}
+
+// Moves a pending item to `status`, unless someone else decided it first
+async function decide(ctx: HandlerContext, item: ApprovalItem, status: "approved" | "rejected", notes: string | null): Promise<ApprovalItem> {
+  const now = new Date().toISOString();
+  const { data, error } = await ctx.supabase
+    .from("manual_review_queue")
+    .update({ status, decided_by: ctx.auth!.userId, decided_at: now, processing_notes: notes, updated_at: now })
+    .eq("id", item.id)
+    .eq("status", "pending")
+    .gt("expires_at", now)
+    .select(APPROVAL_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to record decision on ${item.id}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(409, "approval_already_decided", "This payout was decided or expired in the meantime");
+  }
+  return data as ApprovalItem;
+}
+
+// supabase-js reports non-2xx answers as an error whose context is the response
+async function readInvokeError(error: Error): Promise<Record<string, unknown>> {
+  const context = (error as Error & { context?: Response }).context;
+  const body = await context?.json().catch(() => null);
+  return body ?? { error: error.message };
+}
+
+// Payout approvals, the inbox behind the Approvals page. Deciding needs a
+// treasurer; changing thresholds needs an admin.
+//   { action: "list" }
+//   { action: "approve", review_id, notes? }   approves and runs the payout
+//   { action: "reject", review_id, notes }
+//   { action: "policy" }
+//   { action: "set_policy", thresholds_cents, expires_after_hours }
+export const handler = createHandler({ name: "payout-approvals", executionPrefix: "approvals", role: "treasurer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const expired = await expireStaleApprovals(supabase);
+
+      const [pending, recent] = await Promise.all([
+        supabase
+          .from("manual_review_queue")
+          .select(APPROVAL_COLUMNS)
+          .eq("transaction_type", APPROVAL_TRANSACTION_TYPE)
+          .eq("status", "pending")
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("manual_review_queue")
+          .select(APPROVAL_COLUMNS)
+          .eq("transaction_type", APPROVAL_TRANSACTION_TYPE)
+          .neq("status", "pending")
+          .order("updated_at", { ascending: false })
+          .limit(RECENT_LIMIT),
+      ]);
+      if (pending.error || recent.error) {
+        throw new Error(`Failed to load approvals: ${(pending.error ?? recent.error)!.message}`);
+      }
+
+      return ok({
+        pending: pending.data || [],
+        recent: recent.data || [],
+        expired_now: expired,
+        policy: await loadApprovalPolicy(supabase),
+        caller: { user_id: auth!.userId, caller: auth!.caller },
+        execution_id: executionId,
+      });
+    }
+
+    case "approve": {
+      const item = await loadDecidable(ctx, body.review_id);
+      const approved = await decide(ctx, item, "approved", typeof body.notes === "string" ? body.notes : null);
+      console.log(`[${executionId}] ${item.function_name} approval ${item.id} approved by ${auth!.caller}`);
+
+      // The run must carry out the plan that was approved, not whatever the balances say now
+      const { data, error } = await invokeFunction<Record<string, unknown>>(ctx, item.function_name, {
+        ...item.request_body,
+        approval_id: item.id,
+        plan_hash: item.details.plan.plan_hash,
+      }, "treasurer");
+
+      const result = error ? await readInvokeError(error) : data ?? {};
+      const executed = !error && result.success === true;
+      const { data: finished, error: finishError } = await supabase
+        .from("manual_review_queue")
+        .update({
+          status: executed ? "executed" : "failed",
+          execution_result: result,
+          processed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", approved.id)
+        .select(APPROVAL_COLUMNS)
+        .single();
+      if (finishError) {
+        throw new Error(`Failed to record the result of approval ${item.id}: ${finishError.message}`);
+      }
+
+      return ok({ executed, item: finished, result, execution_id: executionId });
+    }
+
+    case "reject": {
+      if (typeof body.notes !== "string" || body.notes.trim() === "") {
+        throw new HttpError(400, "invalid_request", "A rejection needs notes saying why");
+      }
+      const item = await loadDecidable(ctx, body.review_id);
+      const rejected = await decide(ctx, item, "rejected", body.notes.trim());
+      console.log(`[${executionId}] ${item.function_name} approval ${item.id} rejected by ${auth!.caller}`);
+      return ok({ item: rejected, execution_id: executionId });
+    }
+
+    case "policy":
+      return ok({ policy: await loadApprovalPolicy(supabase), execution_id: executionId });
+
+    case "set_policy": {
+      requireRole(auth!, "admin");
+      const thresholds = body.thresholds_cents ?? {};
+      const valid = typeof thresholds === "object" && !Array.isArray(thresholds) &&
+        Object.values(thresholds).every((value) => typeof value === "number" && Number.isInteger(value) && value >= 0);
+      if (!valid) {
+        throw new HttpError(400, "invalid_policy", "thresholds_cents must map function names to whole numbers of cents");
+      }
+      const hours = body.expires_after_hours;
+      if (typeof hours !== "number" || hours <= 0) {
+        throw new HttpError(400, "invalid_policy", "expires_after_hours must be a positive number");
+      }
+
+      const policy = { thresholds_cents: thresholds, expires_after_hours: hours };
+      const { data: existing, error: loadError } = await supabase
+        .from("stripe_config")
+        .select("id")
+        .eq("key", APPROVAL_CONFIG_KEY)
+        .maybeSingle();
+      if (loadError) {
+        throw new Error(`Failed to load payout approval policy: ${loadError.message}`);
+      }
+
+      const { error } = existing
+        ? await supabase.from("stripe_config").update({ value: JSON.stringify(policy), updated_at: new Date().toISOString() }).eq("id", existing.id)
+        : await supabase.from("stripe_config").insert({ key: APPROVAL_CONFIG_KEY, value: JSON.stringify(policy), is_secret: false });
+      if (error) {
+        throw new Error(`Failed to save payout approval policy: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Payout approval policy changed by ${auth!.caller}`);
+      return ok({ policy, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
@@ -0,0 +1,117 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { HttpError, fail, ok } from "../_shared/envelope.ts";
+import { movementJournal, recordPayout } from "../_shared/ledger.ts";
+import { operationId, stripeIdempotencyKey } from "../_shared/idempotency.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+import { holdForApproval } from "../_shared/approvals.ts";
+import { guardMovement } from "../_shared/failsafe.ts";
+import { formatCents, money } from "../_shared/money.ts";
+
+const MIN_PAYOUT_CENTS = 50; // $0.50
+
+export const handler = createHandler({ name: "payout-now", executionPrefix: "payout", role: "treasurer", idempotent: true }, async (ctx) => {
+  const { req, executionId, supabase, idempotencyKey } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const { dryRun, planHash } = readRunMode(body);
+  // A dry run pays nothing, so it needs no key
+  const operation = dryRun ? null : operationId(idempotencyKey, body);
+
+  try {
+    const stripe = createStripeClient();
+    const { amount_cents }: { amount_cents?: number } = body;
+
+    // Retrieve available balance in USD
+    const bal = await stripe.balance.retrieve();
+    const availableUSD = (bal.available || []).find((b) => b.currency === 'usd')?.amount || 0;
+
+    const desiredAmount = typeof amount_cents === 'number' ? Math.floor(amount_cents) : availableUSD;
+    const payoutAmount = Math.max(0, Math.min(desiredAmount, availableUSD));
+
+    if (payoutAmount < MIN_PAYOUT_CENTS) {
+      if (!dryRun) {
+        await supabase.from('automated_transfer_logs').insert({
+          job_name: 'payout_now',
+          status: 'skipped',
+          execution_time: new Date().toISOString(),
+          response: {
+            execution_id: executionId,
+            available_usd_cents: availableUSD,
+            reason: 'Below minimum payout',
+          },
+        });
+      }
+
+      return fail(400, 'insufficient_balance', 'Insufficient available USD for payout', {
+        message: 'Insufficient available USD for payout',
+        available_cents: availableUSD,
+        minimum_cents: MIN_PAYOUT_CENTS,
+        execution_id: executionId,
+      });
+    }
+
+    const payoutParams = { amount: payoutAmount, currency: 'usd' };
+    const payoutKey = operation ? stripeIdempotencyKey('payout-now', operation) : undefined;
+
+    const plan = await new PlanBuilder('payout-now', executionId)
+      .call('stripe', 'payouts.create', payoutParams, payoutKey)
+      .post(movementJournal('payout', money(payoutAmount), 'payout:<payout id>', 'Stripe payout <payout id>'))
+      .write('automated_transfer_logs', 'insert', 'Log the completed payout', { job_name: 'payout_now', status: 'completed' })
+      .build(`Pay out ${formatCents(payoutAmount)} of ${formatCents(availableUSD)} available to the bank`, payoutAmount);
+
+    if (dryRun) {
+      return planResponse(plan, { amount_cents: payoutAmount, available_cents: availableUSD });
+    }
+    assertPlanUnchanged(plan, planHash);
+
+    const held = await holdForApproval(ctx, body, plan);
+    if (held) return held;
+
+    const payout = await guardMovement(ctx, { provider: 'stripe', destination: null, amountCents: payoutAmount }, () =>
+      stripe.payouts.create(payoutParams, { idempotencyKey: payoutKey })
+    );
+
+    await recordPayout(
+      supabase,
+      money(payoutAmount),
+      `payout:${payout.id}`,
+      `Stripe payout ${payout.id}`,
+      { execution_id: executionId, payout_id: payout.id, flow: 'payout_now' }
+    );
+
+    await supabase.from('automated_transfer_logs').insert({
+      job_name: 'payout_now',
+      status: 'completed',
+      execution_time: new Date().toISOString(),
+      response: {
+        execution_id: executionId,
+        amount_cents: payoutAmount,
+        payout_id: payout.id,
+        arrival_date: payout.arrival_date,
+        status: payout.status,
+        balance_transaction: payout.balance_transaction,
+      },
+    });
+
+    return ok({
+      message: `Payout of ${formatCents(payoutAmount)} created`,
+      amount_cents: payoutAmount,
+      payout_id: payout.id,
+      arrival_date: payout.arrival_date,
+      status: payout.status,
+      execution_id: executionId,
+    });
+  } catch (caught: unknown) {
+    if (dryRun || caught instanceof HttpError) throw caught;
+    const error = caught as { message?: string; code?: string; type?: string } | null;
+    await supabase.from('automated_transfer_logs').insert({
+      job_name: 'payout_now',
+      status: 'failed',
+      error_message: error?.message || 'Unknown error',
+      execution_time: new Date().toISOString(),
+      response: { execution_id: executionId, error: { message: error?.message, code: error?.code, type: error?.type } },
+    });
+
+    throw caught;
+  }
+});
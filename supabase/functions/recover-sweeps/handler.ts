@@ -0,0 +1,205 @@
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+import { createHandler, type HandlerContext } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  SWEEP_COLUMNS,
+  finalizeSweep,
+  flagSweepForReview,
+  isOutcomeUnknown,
+  markSweepExecuting,
+  releaseSweep,
+  type SweepBatch,
+} from "../_shared/sweeps.ts";
+
+const DEFAULT_STALE_AFTER_MINUTES = 15;
+const MAX_BATCHES_PER_RUN = 50;
+// Replays of one batch before a person has to look at it
+const MAX_ATTEMPTS = 5;
+// Stripe forgets idempotency keys after 24 hours; a replay after that could pay twice
+const STRIPE_REPLAY_WINDOW_MS = 23 * 3600 * 1000;
+
+type RecoveryOutcome = "released" | "finalized" | "needs_review" | "still_executing";
+
+// Repeats the original Stripe call with its idempotency key. If the first call
+// went through, Stripe returns the same object instead of paying again.
+async function replayStripeCall(stripe: Stripe, batch: SweepBatch): Promise<string> {
+  const options = { idempotencyKey: batch.idempotency_key };
+  if (batch.provider_method === "transfers.create") {
+    return (await stripe.transfers.create(batch.request as unknown as Stripe.TransferCreateParams, options)).id;
+  }
+  return (await stripe.payouts.create(batch.request as unknown as Stripe.PayoutCreateParams, options)).id;
+}
+
+async function recoverBatch(ctx: HandlerContext, batch: SweepBatch, movementHalted: boolean): Promise<RecoveryOutcome> {
+  const { supabase, executionId } = ctx;
+
+  // Batches are marked executing before the provider call, so this one never reached it
+  if (batch.status === "reserved") {
+    await releaseSweep(supabase, batch.id, "Released by recover-sweeps: the provider was never called");
+    return "released";
+  }
+
+  const escalate = async (reason: string): Promise<RecoveryOutcome> => {
+    await flagSweepForReview(supabase, batch.id, reason);
+    return "needs_review";
+  };
+
+  if (batch.provider !== "stripe" || !["payouts.create", "transfers.create"].includes(batch.provider_method)) {
+    return escalate(`Check ${batch.provider} for this ${batch.provider_method} call, then finalize or release the sweep`);
+  }
+  if (batch.attempts >= MAX_ATTEMPTS) {
+    return escalate(`Stripe gave no definite answer after ${batch.attempts} attempts`);
+  }
+  if (Date.now() - new Date(batch.executing_at ?? batch.created_at).getTime() > STRIPE_REPLAY_WINDOW_MS) {
+    return escalate("Too old to replay safely: Stripe no longer holds the idempotency key");
+  }
+  // A replay may be the call that actually moves the money
+  if (movementHalted) {
+    return "still_executing";
+  }
+
+  // Another run replaying the same batch got there first
+  if (!(await markSweepExecuting(supabase, batch))) {
+    return "still_executing";
+  }
+  let reference: string;
+  try {
+    reference = await replayStripeCall(createStripeClient(), batch);
+  } catch (error) {
+    if (isOutcomeUnknown(error)) {
+      console.warn(`[${executionId}] Sweep ${batch.id} replay got no answer: ${(error as Error).message}`);
+      return "still_executing";
+    }
+    if ((error as { type?: string }).type === "StripeIdempotencyError") {
+      return escalate(`Stripe rejected the replay: ${(error as Error).message}`);
+    }
+    await releaseSweep(supabase, batch.id, `Stripe refused the sweep: ${(error as Error).message}`);
+    return "released";
+  }
+
+  await finalizeSweep(supabase, batch, reference);
+  return "finalized";
+}
+
+const loadBatch = async (ctx: HandlerContext, batchId: unknown): Promise<SweepBatch> => {
+  if (typeof batchId !== "string" || batchId === "") {
+    throw new HttpError(400, "invalid_request", "batch_id is required");
+  }
+  const { data, error } = await ctx.supabase.from("sweep_batches").select(SWEEP_COLUMNS).eq("id", batchId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load sweep ${batchId}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, "sweep_not_found", `No sweep batch ${batchId}`);
+  }
+  return data as SweepBatch;
+};
+
+const requireOpen = (batch: SweepBatch) => {
+  if (!["reserved", "executing", "needs_review"].includes(batch.status)) {
+    throw new HttpError(409, "sweep_not_open", `Sweep ${batch.id} is already ${batch.status}`, { status: batch.status });
+  }
+};
+
+// Settles sweeps left open by a run that crashed or lost its provider answer.
+// Runs from cron every ten minutes; the manual actions are for batches that
+// need a person to check the provider first.
+//   { action: "list" }
+//   { action: "recover", stale_after_minutes? }
+//   { action: "finalize", batch_id, provider_reference }
+//   { action: "release", batch_id, reason }
+export const handler = createHandler({ name: "recover-sweeps", executionPrefix: "sweep_recovery", role: "treasurer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const { data, error } = await supabase
+        .from("sweep_batches")
+        .select(SWEEP_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) {
+        throw new Error(`Failed to load sweep batches: ${error.message}`);
+      }
+      return ok({ batches: data || [], execution_id: executionId });
+    }
+
+    case "recover": {
+      const staleAfterMinutes = Number(body.stale_after_minutes ?? DEFAULT_STALE_AFTER_MINUTES);
+      if (!Number.isFinite(staleAfterMinutes) || staleAfterMinutes < 0) {
+        throw new HttpError(400, "invalid_request", "stale_after_minutes must be a non-negative number");
+      }
+      const cutoff = new Date(Date.now() - staleAfterMinutes * 60 * 1000).toISOString();
+
+      const [batches, failsafe] = await Promise.all([
+        supabase
+          .from("sweep_batches")
+          .select(SWEEP_COLUMNS)
+          .in("status", ["reserved", "executing"])
+          .lte("updated_at", cutoff)
+          .order("created_at")
+          .limit(MAX_BATCHES_PER_RUN),
+        supabase.from("financial_failsafe_config").select("status").eq("id", 1).maybeSingle(),
+      ]);
+      if (batches.error) {
+        throw new Error(`Failed to load stale sweeps: ${batches.error.message}`);
+      }
+      const movementHalted = failsafe.data?.status === "halted";
+
+      const results: Array<{ batch_id: string; outcome: RecoveryOutcome | "error"; error?: string }> = [];
+      for (const batch of (batches.data || []) as SweepBatch[]) {
+        try {
+          results.push({ batch_id: batch.id, outcome: await recoverBatch(ctx, batch, movementHalted) });
+        } catch (error) {
+          console.error(`[${executionId}] Failed to recover sweep ${batch.id}:`, error);
+          results.push({ batch_id: batch.id, outcome: "error", error: (error as Error).message });
+        }
+      }
+
+      const count = (outcome: string) => results.filter((result) => result.outcome === outcome).length;
+      console.log(`[${executionId}] Recovered ${results.length} stale sweep(s) for ${body.triggered_by ?? auth?.caller}`);
+      return ok({
+        recovered: results.length,
+        released: count("released"),
+        finalized: count("finalized"),
+        needs_review: count("needs_review"),
+        still_executing: count("still_executing"),
+        errors: count("error"),
+        movement_halted: movementHalted,
+        results,
+        execution_id: executionId,
+      });
+    }
+
+    case "finalize": {
+      requireRole(auth!, "admin");
+      const batch = await loadBatch(ctx, body.batch_id);
+      requireOpen(batch);
+      if (typeof body.provider_reference !== "string" || body.provider_reference.trim() === "") {
+        throw new HttpError(400, "invalid_request", "provider_reference is required: the provider's ID for the payout or transfer");
+      }
+      const finalized = await finalizeSweep(supabase, batch, body.provider_reference.trim());
+      console.log(`[${executionId}] Sweep ${batch.id} finalized by ${auth!.caller}`);
+      return ok({ batch: finalized, execution_id: executionId });
+    }
+
+    case "release": {
+      requireRole(auth!, "admin");
+      const batch = await loadBatch(ctx, body.batch_id);
+      requireOpen(batch);
+      if (typeof body.reason !== "string" || body.reason.trim() === "") {
+        throw new HttpError(400, "invalid_request", "A reason is required");
+      }
+      const released = await releaseSweep(supabase, batch.id, `${body.reason.trim()} (released by ${auth!.caller})`);
+      console.log(`[${executionId}] Sweep ${batch.id} released by ${auth!.caller}`);
+      return ok({ batch: released, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
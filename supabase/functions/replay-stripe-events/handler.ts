@@ -0,0 +1,44 @@
+import { createHandler } from "../_shared/handler.ts";
+import type { Stripe } from "../_shared/clients.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { processStoredEvent, type ProcessResult } from "../_shared/stripe-webhooks.ts";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// Re-runs stored Stripe events that have not been processed, oldest first.
+// Pass event_ids to replay specific events; those are re-run even if already processed.
+export const handler = createHandler({ name: "replay-stripe-events", executionPrefix: "replay", role: "treasurer" }, async ({ req, executionId, supabase }) => {
+  const { event_ids, limit = DEFAULT_LIMIT }: { event_ids?: string[]; limit?: number } = await req.json().catch(() => ({}));
+
+  if (event_ids !== undefined && (!Array.isArray(event_ids) || event_ids.some((id) => typeof id !== "string"))) {
+    throw new HttpError(400, "invalid_event_ids", "event_ids must be an array of Stripe event IDs");
+  }
+
+  let query = supabase
+    .from("stripe_webhook_events")
+    .select("event_id, event_data")
+    .order("created_at", { ascending: true })
+    .limit(Math.min(Math.max(1, Math.floor(limit)), MAX_LIMIT));
+  query = event_ids?.length ? query.in("event_id", event_ids) : query.not("processed", "is", true);
+
+  const { data: events, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load Stripe events: ${error.message}`);
+  }
+
+  // One at a time, in the order they were received, so a payout's paid and failed events do not race
+  const results: ProcessResult[] = [];
+  for (const row of events ?? []) {
+    results.push(await processStoredEvent(supabase, row.event_data as unknown as Stripe.Event));
+  }
+
+  const processed = results.filter((r) => r.processed).length;
+  return ok({
+    replayed: results.length,
+    processed,
+    failed: results.length - processed,
+    results,
+    execution_id: executionId,
+  });
+});
@@ -1,238 +1,4 @@
-
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  const optimizationId = `optimize_${Date.now()}`;
-  console.log(`[${optimizationId}] Starting PRODUCTION revenue optimization - NO MOCK DATA`);
-
-  const supabase = createClient(
-    Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    { auth: { persistSession: false } }
-  );
-
-  try {
-    // PRODUCTION: Analyze REAL performance and optimize
-    const optimizations = await Promise.all([
-      analyzeAndOptimizePricing(supabase, optimizationId),
-      optimizeWorkerAllocation(supabase, optimizationId),
-      analyzeRevenueStreamPerformance(supabase, optimizationId),
-      analyzeConversionMetrics(supabase, optimizationId)
-    ]);
-
-    const totalImpact = optimizations.reduce((sum, opt) => sum + opt.impact, 0);
-
-    // Apply optimizations to revenue sources
-    await applyOptimizations(supabase, optimizations, optimizationId);
-
-    return new Response(JSON.stringify({
-      success: true,
-      optimization_id: optimizationId,
-      total_impact: totalImpact,
-      optimizations: optimizations,
-      applied: true,
-      production_mode: true,
-      no_mock_data: true,
-      timestamp: new Date().toISOString()
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 200
-    });
-
-  } catch (error: any) {
-    console.error(`[${optimizationId}] Error:`, error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message,
-      optimization_id: optimizationId
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 500
-    });
-  }
-});
-
-async function analyzeAndOptimizePricing(supabase: any, optimizationId: string) {
-  // Analyze REAL transaction patterns and optimize pricing
-  const { data: transactions } = await supabase
-    .from('autonomous_revenue_transactions')
-    .select('*')
-    .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
-    .order('amount', { ascending: false });
-
-  const transactionCount = transactions?.length || 0;
-  const totalAmount = transactions?.reduce((sum: number, t: any) => sum + Number(t.amount), 0) || 0;
-  const avgAmount = transactionCount > 0 ? totalAmount / transactionCount : 0;
-
-  // Calculate real price optimization based on actual data
-  const priceOptimization = avgAmount > 100 ? 0.10 : avgAmount > 50 ? 0.07 : 0.05;
-
-  return {
-    type: 'pricing_optimization',
-    impact: totalAmount * priceOptimization,
-    strategy: 'data_driven_pricing',
-    adjustment: priceOptimization,
-    based_on_transactions: transactionCount,
-    average_transaction: avgAmount,
-    optimization_id: optimizationId
-  };
-}
-
-async function optimizeWorkerAllocation(supabase: any, optimizationId: string) {
-  // Get REAL worker pool status
-  const { data: workerPool } = await supabase
-    .from('autonomous_revenue_worker_pool')
-    .select('*')
-    .eq('worker_type', 'transfer')
-    .single();
-
-  const currentWorkers = workerPool?.current_workers || 5;
-  const maxWorkers = workerPool?.max_workers || 10;
-
-  // Get pending tasks to determine optimal workers
-  const { data: pendingTasks } = await supabase
-    .from('autonomous_revenue_task_queue')
-    .select('id')
-    .eq('status', 'pending');
-
-  const pendingCount = pendingTasks?.length || 0;
-  
-  // Calculate optimal workers based on actual workload
-  const optimalWorkers = Math.max(5, Math.min(maxWorkers, Math.ceil(pendingCount / 10) + 5));
-
-  if (optimalWorkers !== currentWorkers) {
-    await supabase
-      .from('autonomous_revenue_worker_pool')
-      .update({
-        current_workers: optimalWorkers,
-        config: {
-          auto_scale: true,
-          efficiency_target: 0.95,
-          optimization_applied: true,
-          last_optimized: new Date().toISOString()
-        }
-      })
-      .eq('worker_type', 'transfer');
-  }
-
-  return {
-    type: 'worker_optimization',
-    impact: (optimalWorkers - currentWorkers) * 2.5,
-    strategy: 'workload_based_scaling',
-    previous_workers: currentWorkers,
-    optimal_workers: optimalWorkers,
-    pending_tasks: pendingCount,
-    optimization_id: optimizationId
-  };
-}
-
-async function analyzeRevenueStreamPerformance(supabase: any, optimizationId: string) {
-  // Get REAL revenue stream performance
-  const { data: streams } = await supabase
-    .from('autonomous_revenue_streams')
-    .select('*')
-    .eq('status', 'active');
-
-  const streamAnalysis = (streams || []).map((stream: any) => {
-    const metrics = stream.metrics || {};
-    const revenue = metrics.total_revenue || 0;
-    const transactions = metrics.transaction_count || 0;
-    const avgValue = transactions > 0 ? revenue / transactions : 0;
-
-    return {
-      stream: stream.name,
-      strategy: stream.strategy,
-      revenue: revenue,
-      transactions: transactions,
-      avg_value: avgValue,
-      performance_score: transactions > 0 ? Math.min(100, (avgValue * transactions) / 10) : 0
-    };
-  });
-
-  const totalRevenueImpact = streamAnalysis.reduce((sum: number, s: any) => sum + s.revenue * 0.05, 0);
-
-  return {
-    type: 'stream_performance_analysis',
-    impact: totalRevenueImpact,
-    strategy: 'performance_based_optimization',
-    streams_analyzed: streamAnalysis.length,
-    stream_details: streamAnalysis,
-    optimization_id: optimizationId
-  };
-}
-
-async function analyzeConversionMetrics(supabase: any, optimizationId: string) {
-  // Get REAL conversion data
-  const { data: completedTransactions } = await supabase
-    .from('autonomous_revenue_transactions')
-    .select('id')
-    .eq('status', 'completed');
-
-  const { data: failedTransactions } = await supabase
-    .from('autonomous_revenue_transactions')
-    .select('id')
-    .eq('status', 'failed');
-
-  const completed = completedTransactions?.length || 0;
-  const failed = failedTransactions?.length || 0;
-  const total = completed + failed;
-  
-  const successRate = total > 0 ? (completed / total) * 100 : 100;
-  const conversionImpact = completed * 0.10; // $0.10 per successful conversion
-
-  return {
-    type: 'conversion_analysis',
-    impact: conversionImpact,
-    strategy: 'success_rate_optimization',
-    success_rate: successRate,
-    completed_transactions: completed,
-    failed_transactions: failed,
-    optimization_id: optimizationId
-  };
-}
-
-async function applyOptimizations(supabase: any, optimizations: any[], optimizationId: string) {
-  // Store optimization results with REAL data
-  for (const optimization of optimizations) {
-    await supabase
-      .from('autonomous_revenue_optimization')
-      .insert({
-        optimization_type: optimization.type,
-        previous_config: {},
-        new_config: optimization,
-        status: 'applied',
-        metadata: { 
-          optimization_id: optimizationId,
-          production_mode: true,
-          no_mock_data: true
-        },
-        performance_metrics: {
-          impact: optimization.impact,
-          strategy: optimization.strategy
-        }
-      });
-  }
+import { handler } from "./handler.ts";
 
-  // Update revenue sources with optimized settings
-  await supabase
-    .from('autonomous_revenue_sources')
-    .update({
-      config: {
-        optimization_applied: true,
-        optimization_id: optimizationId,
-        last_optimized: new Date().toISOString(),
-        production_mode: true
-      }
-    })
-    .eq('status', 'active');
-}
+serve(handler);
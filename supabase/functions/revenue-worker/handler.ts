@@ -0,0 +1,274 @@
+import { createHandler } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  DEAD_LETTER_ALERT_CONFIG_KEY,
+  DEAD_LETTER_COLUMNS,
+  groupDeadLetters,
+  loadDeadLetterThreshold,
+  purgeDeadLetters,
+  requeueDeadLetters,
+  type DeadLetter,
+} from "../_shared/dead-letters.ts";
+import {
+  HEARTBEAT_MS,
+  REVENUE_WORKER_TYPES,
+  RevenueTaskError,
+  claimRevenueTasks,
+  completeRevenueTask,
+  heartbeatRevenueTasks,
+  registerRevenueWorker,
+  runRevenueTask,
+  stopRevenueWorker,
+  taskTypesFor,
+  type RevenueWorkerType,
+} from "../_shared/revenue-tasks.ts";
+import { TASKS } from "./tasks.ts";
+
+const DEFAULT_RUNTIME_SECONDS = 50;
+// Edge functions are stopped after 150 seconds of wall time
+const MAX_RUNTIME_SECONDS = 140;
+const DEFAULT_BATCH_SIZE = 5;
+
+const boundedInteger = (value: unknown, fallback: number, min: number, max: number, field: string): number => {
+  const number = Number(value ?? fallback);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new HttpError(400, "invalid_request", `${field} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+};
+
+const parseIds = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.some((id) => typeof id !== "string" || id === "")) {
+    throw new HttpError(400, "invalid_request", "dead_letter_ids must be a non-empty list of IDs");
+  }
+  return value as string[];
+};
+
+const parseWorkerType = (value: unknown): RevenueWorkerType => {
+  if (!REVENUE_WORKER_TYPES.includes(value as RevenueWorkerType)) {
+    throw new HttpError(400, "invalid_request", `worker_type must be one of ${REVENUE_WORKER_TYPES.join(", ")}`);
+  }
+  return value as RevenueWorkerType;
+};
+
+// Runs autonomous_revenue_task_queue. pg_cron starts one "run" per worker
+// type every minute; it claims tasks of its type in batches under a lease,
+// heartbeats while it works and stops claiming after max_runtime_seconds.
+// Tasks that fail for good land in the dead-letter queue; requeuing them
+// takes a treasurer, purging them or changing the alert threshold an admin.
+//   { action: "run", worker_type, max_runtime_seconds?, batch_size? }
+//   { action: "enqueue", task_type, payload?, priority?, max_retries? }
+//   { action: "task_types" }
+//   { action: "dead_letters", status?, task_type?, limit? }
+//   { action: "requeue_dead_letters", dead_letter_ids, payloads?: { [dead_letter_id]: payload }, note? }
+//   { action: "purge_dead_letters", dead_letter_ids, reason }
+//   { action: "set_dead_letter_threshold", threshold }
+export const handler = createHandler({ name: "revenue-worker", executionPrefix: "worker", role: "operator" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "run";
+
+  switch (action) {
+    case "run": {
+      const workerType = parseWorkerType(body.worker_type);
+      const runtimeSeconds = boundedInteger(body.max_runtime_seconds, DEFAULT_RUNTIME_SECONDS, 1, MAX_RUNTIME_SECONDS, "max_runtime_seconds");
+      const batchSize = boundedInteger(body.batch_size, DEFAULT_BATCH_SIZE, 1, 50, "batch_size");
+      const taskTypes = taskTypesFor(TASKS, workerType);
+      if (taskTypes.length === 0) {
+        return ok({ worker_type: workerType, tasks: [], execution_id: executionId });
+      }
+
+      const deadline = Date.now() + runtimeSeconds * 1000;
+      const workerId = await registerRevenueWorker(supabase, workerType, executionId);
+      // Claimed tasks not yet completed; their leases are renewed until they are
+      const held = new Set<string>();
+      const beat = async () => {
+        try {
+          const kept = new Set(await heartbeatRevenueTasks(supabase, workerId, [...held]));
+          for (const id of held) {
+            if (!kept.has(id)) console.warn(`[${executionId}] Worker ${workerId} lost the lease on task ${id}`);
+          }
+        } catch (err) {
+          console.error(`[${executionId}] Heartbeat failed:`, err);
+        }
+      };
+      const heartbeat = setInterval(() => void beat(), HEARTBEAT_MS);
+
+      const results: Array<{ id: string; task_type: string; status: string; error?: string; retry_at?: string | null }> = [];
+      try {
+        // A claimed batch is always finished, so a run may end a little after its deadline
+        while (Date.now() < deadline) {
+          const tasks = await claimRevenueTasks(supabase, workerId, workerType, taskTypes, batchSize);
+          if (tasks.length === 0) break;
+          tasks.forEach((task) => held.add(task.id));
+
+          for (const task of tasks) {
+            const outcome = await runRevenueTask(TASKS, task, ctx);
+            const completion = await completeRevenueTask(supabase, task, workerId, outcome);
+            held.delete(task.id);
+            results.push({
+              id: task.id,
+              task_type: task.task_type,
+              status: completion.completed ? completion.status! : completion.reason!,
+              ...(outcome.ok ? {} : { error: outcome.error }),
+              ...(completion.retry_at ? { retry_at: completion.retry_at } : {}),
+            });
+          }
+        }
+      } finally {
+        clearInterval(heartbeat);
+        await stopRevenueWorker(supabase, workerId).catch((err) => console.error(`[${executionId}] Failed to stop worker:`, err));
+      }
+
+      console.log(`[${executionId}] ${workerType} worker ${workerId} for ${body.triggered_by ?? auth?.caller}: ${results.length} task(s)`);
+      return ok({ worker_id: workerId, worker_type: workerType, tasks: results, execution_id: executionId });
+    }
+
+    case "enqueue": {
+      const taskType = String(body.task_type ?? "");
+      const task = TASKS[taskType];
+      if (!task) {
+        throw new HttpError(400, "unknown_task_type", `task_type must be one of ${Object.keys(TASKS).sort().join(", ")}`);
+      }
+      try {
+        task.validatePayload(body.payload ?? {});
+      } catch (err) {
+        if (err instanceof RevenueTaskError) throw new HttpError(400, "invalid_payload", err.message);
+        throw err;
+      }
+
+      const { data, error } = await supabase
+        .from("autonomous_revenue_task_queue")
+        .insert({
+          task_type: taskType,
+          payload: body.payload ?? {},
+          priority: boundedInteger(body.priority, 0, -100, 100, "priority"),
+          max_retries: boundedInteger(body.max_retries, 3, 0, 20, "max_retries"),
+        })
+        .select("id, task_type, status, priority, max_retries, available_at, created_at")
+        .single();
+      if (error) {
+        throw new Error(`Failed to enqueue a ${taskType} task: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] ${taskType} task ${data.id} enqueued by ${auth!.caller}`);
+      return ok({ task: data, execution_id: executionId });
+    }
+
+    case "task_types":
+      return ok({
+        task_types: Object.entries(TASKS).map(([taskType, task]) => ({ task_type: taskType, worker_type: task.workerType })),
+        execution_id: executionId,
+      });
+
+    case "dead_letters": {
+      const status = body.status ?? "dead";
+      const limit = boundedInteger(body.limit, 500, 1, 1000, "limit");
+      let query = supabase
+        .from("revenue_task_dead_letters")
+        .select(DEAD_LETTER_COLUMNS)
+        .eq("status", status)
+        .order("failed_at", { ascending: false })
+        .limit(limit);
+      if (body.task_type) {
+        query = query.eq("task_type", body.task_type);
+      }
+      const [letters, threshold, alert] = await Promise.all([
+        query,
+        loadDeadLetterThreshold(supabase),
+        supabase
+          .from("autonomous_revenue_alerts")
+          .select("id, message, created_at")
+          .eq("alert_type", "dead_letter_queue")
+          .is("resolved_at", null)
+          .maybeSingle(),
+      ]);
+      if (letters.error) {
+        throw new Error(`Failed to load dead letters: ${letters.error.message}`);
+      }
+
+      const deadLetters = (letters.data || []) as DeadLetter[];
+      return ok({
+        dead_letters: deadLetters,
+        groups: groupDeadLetters(deadLetters),
+        threshold,
+        open_alert: alert.data ?? null,
+        execution_id: executionId,
+      });
+    }
+
+    case "requeue_dead_letters": {
+      requireRole(auth!, "treasurer");
+      const ids = parseIds(body.dead_letter_ids);
+      const payloads: Record<string, unknown> = body.payloads ?? {};
+      if (typeof payloads !== "object" || Array.isArray(payloads)) {
+        throw new HttpError(400, "invalid_request", "payloads must map dead letter IDs to payloads");
+      }
+
+      // An edited payload must be one its handler accepts, or the task dies again
+      const edited = Object.keys(payloads);
+      if (edited.length > 0) {
+        const { data, error } = await supabase.from("revenue_task_dead_letters").select("id, task_type").in("id", edited);
+        if (error) {
+          throw new Error(`Failed to load dead letters: ${error.message}`);
+        }
+        for (const letter of data || []) {
+          try {
+            TASKS[letter.task_type]?.validatePayload(payloads[letter.id]);
+          } catch (err) {
+            if (err instanceof RevenueTaskError) throw new HttpError(400, "invalid_payload", `${letter.id}: ${err.message}`);
+            throw err;
+          }
+        }
+      }
+
+      const requeued = await requeueDeadLetters(supabase, ids, auth!.caller, payloads, body.note ?? null);
+      console.log(`[${executionId}] ${requeued.length} dead letter(s) requeued by ${auth!.caller}`);
+      return ok({ requeued, execution_id: executionId });
+    }
+
+    case "purge_dead_letters": {
+      requireRole(auth!, "admin");
+      const ids = parseIds(body.dead_letter_ids);
+      const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+      if (!reason) {
+        throw new HttpError(400, "invalid_request", "A purge needs a reason");
+      }
+
+      const purged = await purgeDeadLetters(supabase, ids, auth!.caller, reason);
+      console.log(`[${executionId}] ${purged} dead letter(s) purged by ${auth!.caller}: ${reason}`);
+      return ok({ purged, execution_id: executionId });
+    }
+
+    case "set_dead_letter_threshold": {
+      requireRole(auth!, "admin");
+      const threshold = boundedInteger(body.threshold, NaN, 0, 100000, "threshold");
+      const { data: existing, error: loadError } = await supabase
+        .from("stripe_config")
+        .select("id")
+        .eq("key", DEAD_LETTER_ALERT_CONFIG_KEY)
+        .maybeSingle();
+      if (loadError) {
+        throw new Error(`Failed to load the dead-letter alert threshold: ${loadError.message}`);
+      }
+      const value = JSON.stringify({ threshold });
+      const { error } = existing
+        ? await supabase.from("stripe_config").update({ value, updated_at: new Date().toISOString() }).eq("id", existing.id)
+        : await supabase.from("stripe_config").insert({ key: DEAD_LETTER_ALERT_CONFIG_KEY, value, is_secret: false });
+      if (error) {
+        throw new Error(`Failed to save the dead-letter alert threshold: ${error.message}`);
+      }
+      // Opens or resolves the alert against the new threshold
+      const { error: alertError } = await supabase.rpc("check_dead_letter_alert");
+      if (alertError) {
+        throw new Error(`Failed to recheck the dead-letter alert: ${alertError.message}`);
+      }
+      console.log(`[${executionId}] Dead-letter alert threshold set to ${threshold} by ${auth!.caller}`);
+      return ok({ threshold, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
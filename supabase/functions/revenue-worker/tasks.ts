@@ -0,0 +1,66 @@
+import { invokeFunction, type HandlerContext } from "../_shared/handler.ts";
+import type { Role } from "../_shared/auth.ts";
+import { RevenueTaskError, defineTask, type TaskRegistry } from "../_shared/revenue-tasks.ts";
+
+// The task types revenue-worker runs. Each one calls the edge function that
+// does the work, so a task does exactly what a person pressing the button
+// would; retries are safe because those functions are.
+
+interface SweepRecoveryPayload {
+  stale_after_minutes?: number;
+}
+
+interface ReconciliationPayload {
+  window_hours?: number;
+}
+
+const asObject = (payload: unknown): Record<string, unknown> => {
+  if (payload === null || payload === undefined) return {};
+  if (typeof payload !== "object" || Array.isArray(payload)) {
+    throw new RevenueTaskError("The task payload must be a JSON object", false);
+  }
+  return payload as Record<string, unknown>;
+};
+
+const optionalPositiveNumber = (raw: Record<string, unknown>, field: string): number | undefined => {
+  const value = raw[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new RevenueTaskError(`${field} must be a positive number`, false);
+  }
+  return value;
+};
+
+async function invokeTask(ctx: HandlerContext, name: string, body: Record<string, unknown>, role: Role) {
+  const { data, error } = await invokeFunction<Record<string, unknown>>(ctx, name, { ...body, triggered_by: "revenue_worker" }, role);
+  if (error) {
+    throw new RevenueTaskError(`${name} failed: ${error.message}`);
+  }
+  return data;
+}
+
+export const TASKS: TaskRegistry = {
+  sweep_recovery: defineTask<SweepRecoveryPayload>({
+    workerType: "transfer",
+    parsePayload: (payload) => ({ stale_after_minutes: optionalPositiveNumber(asObject(payload), "stale_after_minutes") }),
+    run: (payload, _task, ctx) => invokeTask(ctx, "recover-sweeps", { action: "recover", ...payload }, "treasurer"),
+  }),
+
+  revenue_optimization: defineTask<Record<string, never>>({
+    workerType: "optimization",
+    parsePayload: (payload) => {
+      asObject(payload);
+      return {};
+    },
+    run: (_payload, _task, ctx) => invokeTask(ctx, "revenue-optimizer", {}, "operator"),
+    retry: { baseDelayMs: 5 * 60 * 1000 },
+  }),
+
+  stripe_reconciliation: defineTask<ReconciliationPayload>({
+    workerType: "analysis",
+    parsePayload: (payload) => ({ window_hours: optionalPositiveNumber(asObject(payload), "window_hours") }),
+    run: (payload, _task, ctx) => invokeTask(ctx, "stripe-reconciliation", { ...payload }, "treasurer"),
+    // Stripe rate limits clear in minutes, not seconds
+    retry: { baseDelayMs: 2 * 60 * 1000 },
+  }),
+};
@@ -0,0 +1,248 @@
+import { createHandler, invokeFunction, type HandlerContext } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { CronError, nextRun, parseCron } from "../_shared/cron.ts";
+import {
+  JOB_COLUMNS,
+  MISSED_RUN_GRACE_MS,
+  SchedulerError,
+  claimScheduledJob,
+  finishScheduledJob,
+  listCronJobs,
+  nextRunFor,
+  parseJobDefinition,
+  planDueRuns,
+  setNextRunAt,
+  skipScheduledRuns,
+  type JobRunTrigger,
+  type ScheduledJob,
+} from "../_shared/scheduler.ts";
+
+type RunOutcome = "succeeded" | "failed" | "running" | "already_run";
+
+// Calls the job's function for one occurrence, holding the job for the run
+async function runJob(
+  ctx: HandlerContext,
+  job: ScheduledJob,
+  scheduledFor: Date | null,
+  trigger: JobRunTrigger,
+  nextRunAt: Date | null,
+): Promise<{ outcome: RunOutcome; error?: string }> {
+  const claim = await claimScheduledJob(ctx.supabase, job, scheduledFor, trigger, ctx.executionId);
+  if (!claim.claimed) {
+    console.log(`[${ctx.executionId}] ${job.name} not started: ${claim.reason}`);
+    return { outcome: claim.reason === "already_run" ? "already_run" : "running" };
+  }
+
+  // Each run is claimed once, so its ID keys whatever money the job moves
+  const { data, error } = await invokeFunction(ctx, job.function_name, {
+    ...job.payload,
+    triggered_by: "scheduler",
+    scheduled_job: job.name,
+    scheduled_for: scheduledFor?.toISOString() ?? null,
+  }, job.run_as_role, `scheduled_job_run:${claim.run!.id}`);
+
+  await finishScheduledJob(ctx.supabase, claim.run!.id, error ? "failed" : "succeeded", data, error?.message ?? null, nextRunAt);
+  return error ? { outcome: "failed", error: error.message } : { outcome: "succeeded" };
+}
+
+// Works through one job on a tick; returns what happened to each occurrence
+async function tickJob(ctx: HandlerContext, job: ScheduledJob, now: Date) {
+  // A new or re-enabled job starts counting from now
+  if (!job.next_run_at) {
+    const next = nextRunFor(job, now);
+    await setNextRunAt(ctx.supabase, job, next);
+    return { job: job.name, runs: [], next_run_at: next?.toISOString() ?? null };
+  }
+
+  const plan = planDueRuns(job, now);
+  if (plan.skippedFrom) {
+    await skipScheduledRuns(ctx.supabase, job, plan.skippedFrom, now, plan.next, ctx.executionId);
+  } else if (plan.run.length === 0) {
+    await setNextRunAt(ctx.supabase, job, plan.next);
+  }
+
+  const runs: Array<{ scheduled_for: string; outcome: RunOutcome; error?: string }> = [];
+  for (const at of plan.run) {
+    const trigger = now.getTime() - at.getTime() > MISSED_RUN_GRACE_MS ? "catch_up" : "schedule";
+    const result = await runJob(ctx, job, at, trigger, plan.next);
+    runs.push({ scheduled_for: at.toISOString(), ...result });
+    if (result.outcome === "already_run") {
+      await setNextRunAt(ctx.supabase, job, plan.next);
+    }
+    // Still held by an earlier run; the occurrence stays due for the next tick
+    if (result.outcome === "running") break;
+  }
+
+  return {
+    job: job.name,
+    runs,
+    skipped_from: plan.skippedFrom?.toISOString() ?? null,
+    next_run_at: plan.next?.toISOString() ?? null,
+  };
+}
+
+const loadJob = async (ctx: HandlerContext, jobId: unknown): Promise<ScheduledJob> => {
+  if (typeof jobId !== "string" || jobId === "") {
+    throw new HttpError(400, "invalid_request", "job_id is required");
+  }
+  const { data, error } = await ctx.supabase.from("scheduled_jobs").select(JOB_COLUMNS).eq("id", jobId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load job ${jobId}: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, "job_not_found", `No scheduled job ${jobId}`);
+  }
+  return data as ScheduledJob;
+};
+
+// Scheduled jobs. pg_cron calls "tick" every minute; the Jobs page lists
+// them alongside the cron.schedule jobs from the migrations. Changing a job
+// or running one by hand takes an admin.
+//   { action: "list" }
+//   { action: "runs", job_id?, limit? }
+//   { action: "tick" }
+//   { action: "run_now", job_id }
+//   { action: "upsert", name, cron_expression, timezone?, function_name, payload?, run_as_role?,
+//     enabled?, missed_run_policy?, max_catch_up?, blackout_windows?, lock_timeout_minutes? }
+//   { action: "set_enabled", job_id, enabled }
+export const handler = createHandler({ name: "scheduler", executionPrefix: "scheduler", role: "viewer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const { data, error } = await supabase.from("scheduled_jobs").select(JOB_COLUMNS).order("name");
+      if (error) {
+        throw new Error(`Failed to load scheduled jobs: ${error.message}`);
+      }
+
+      // pg_cron is missing from some local stacks; the page still shows the scheduler's own jobs
+      let cronJobs: Array<Record<string, unknown>> = [];
+      let cronJobsError: string | null = null;
+      try {
+        const now = new Date();
+        cronJobs = (await listCronJobs(supabase)).map((job) => {
+          try {
+            return { ...job, next_run_at: nextRun(parseCron(job.schedule), now)?.toISOString() ?? null, schedule_error: null };
+          } catch (err) {
+            if (!(err instanceof CronError)) throw err;
+            return { ...job, next_run_at: null, schedule_error: err.message };
+          }
+        });
+      } catch (err) {
+        if (!(err instanceof SchedulerError)) throw err;
+        cronJobsError = err.message;
+      }
+
+      return ok({ jobs: data || [], cron_jobs: cronJobs, cron_jobs_error: cronJobsError, execution_id: executionId });
+    }
+
+    case "runs": {
+      const limit = Math.min(Math.max(Number(body.limit ?? 50), 1), 200);
+      let query = supabase.from("scheduled_job_runs").select("*").order("started_at", { ascending: false }).limit(limit);
+      if (body.job_id) {
+        query = query.eq("job_id", body.job_id);
+      }
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load job runs: ${error.message}`);
+      }
+      return ok({ runs: data || [], execution_id: executionId });
+    }
+
+    case "tick": {
+      requireRole(auth!, "operator");
+      const now = new Date();
+      const { data, error } = await supabase
+        .from("scheduled_jobs")
+        .select(JOB_COLUMNS)
+        .eq("enabled", true)
+        .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`)
+        .order("next_run_at", { nullsFirst: true });
+      if (error) {
+        throw new Error(`Failed to load due jobs: ${error.message}`);
+      }
+
+      const results = [];
+      for (const job of (data || []) as ScheduledJob[]) {
+        try {
+          results.push(await tickJob(ctx, job, now));
+        } catch (err) {
+          console.error(`[${executionId}] Scheduled job ${job.name} failed to run:`, err);
+          results.push({ job: job.name, error: (err as Error).message });
+        }
+      }
+
+      console.log(`[${executionId}] Tick for ${body.triggered_by ?? auth?.caller}: ${results.length} job(s) due`);
+      return ok({ ticked_at: now.toISOString(), jobs: results, execution_id: executionId });
+    }
+
+    case "run_now": {
+      requireRole(auth!, "admin");
+      const job = await loadJob(ctx, body.job_id);
+      const result = await runJob(ctx, job, null, "manual", null);
+      if (result.outcome === "running") {
+        throw new HttpError(409, "job_running", `${job.name} is already running`);
+      }
+      console.log(`[${executionId}] ${job.name} run by hand by ${auth!.caller}: ${result.outcome}`);
+      return ok({ job: job.name, ...result, execution_id: executionId });
+    }
+
+    case "upsert": {
+      requireRole(auth!, "admin");
+      let definition;
+      try {
+        definition = parseJobDefinition(body);
+      } catch (err) {
+        if (err instanceof SchedulerError) throw new HttpError(400, "invalid_job", err.message);
+        throw err;
+      }
+
+      const row = {
+        ...definition,
+        next_run_at: definition.enabled ? nextRunFor(definition, new Date())?.toISOString() ?? null : null,
+        updated_at: new Date().toISOString(),
+        updated_by: auth!.caller,
+      };
+      const { data, error } = await supabase
+        .from("scheduled_jobs")
+        .upsert(row, { onConflict: "name" })
+        .select(JOB_COLUMNS)
+        .single();
+      if (error) {
+        throw new Error(`Failed to save job ${definition.name}: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Job ${definition.name} saved by ${auth!.caller}: ${definition.cron_expression} ${definition.timezone}`);
+      return ok({ job: data, execution_id: executionId });
+    }
+
+    case "set_enabled": {
+      requireRole(auth!, "admin");
+      const job = await loadJob(ctx, body.job_id);
+      const enabled = Boolean(body.enabled);
+      const { data, error } = await supabase
+        .from("scheduled_jobs")
+        .update({
+          enabled,
+          next_run_at: enabled ? nextRunFor(job, new Date())?.toISOString() ?? null : null,
+          updated_at: new Date().toISOString(),
+          updated_by: auth!.caller,
+        })
+        .eq("id", job.id)
+        .select(JOB_COLUMNS)
+        .single();
+      if (error) {
+        throw new Error(`Failed to ${enabled ? "enable" : "disable"} ${job.name}: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] Job ${job.name} ${enabled ? "enabled" : "disabled"} by ${auth!.caller}`);
+      return ok({ job: data, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
@@ -0,0 +1,82 @@
+import { createHandler } from "../_shared/handler.ts";
+import { createStripeClient } from "../_shared/clients.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import { reconcileWindow } from "../_shared/reconciliation.ts";
+
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_WINDOW_HOURS = 24 * 31;
+
+// Reconciles Stripe balance transactions in a window against internal records
+// and stores the result as a stripe_reconciliation_runs row with one
+// stripe_reconciliation row per object. Pass from/to (ISO) or window_hours back from now.
+export const handler = createHandler({ name: "stripe-reconciliation", executionPrefix: "recon", role: "treasurer" }, async ({ req, executionId, supabase, auth }) => {
+  const { from, to, window_hours = DEFAULT_WINDOW_HOURS, triggered_by }: {
+    from?: string;
+    to?: string;
+    window_hours?: number;
+    triggered_by?: string;
+  } = await req.json().catch(() => ({}));
+
+  const windowEnd = to ? new Date(to) : new Date();
+  const windowStart = from ? new Date(from) : new Date(windowEnd.getTime() - window_hours * 60 * 60 * 1000);
+  if (Number.isNaN(windowStart.getTime()) || Number.isNaN(windowEnd.getTime()) || windowStart >= windowEnd) {
+    throw new HttpError(400, "invalid_window", "from must be a date before to");
+  }
+  if (windowEnd.getTime() - windowStart.getTime() > MAX_WINDOW_HOURS * 60 * 60 * 1000) {
+    throw new HttpError(400, "invalid_window", `Reconciliation windows are limited to ${MAX_WINDOW_HOURS} hours`);
+  }
+
+  const stripe = createStripeClient();
+
+  const { data: run, error: runError } = await supabase
+    .from("stripe_reconciliation_runs")
+    .insert({
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      execution_id: executionId,
+      triggered_by: triggered_by ?? auth?.caller ?? null,
+    })
+    .select("id")
+    .single();
+  if (runError) {
+    throw new Error(`Failed to start reconciliation run: ${runError.message}`);
+  }
+
+  try {
+    const { rows, summary } = await reconcileWindow(supabase, stripe, windowStart, windowEnd);
+    const reconciledAt = new Date().toISOString();
+
+    if (rows.length > 0) {
+      const { error: rowsError } = await supabase.from("stripe_reconciliation").insert(
+        rows.map((row) => ({
+          ...row,
+          run_id: run.id,
+          reconciled_at: reconciledAt,
+          reconciled_by: "stripe-reconciliation",
+        })),
+      );
+      if (rowsError) {
+        throw new Error(`Failed to store reconciliation rows: ${rowsError.message}`);
+      }
+    }
+
+    await supabase
+      .from("stripe_reconciliation_runs")
+      .update({ ...summary, status: "completed", completed_at: reconciledAt })
+      .eq("id", run.id);
+
+    return ok({
+      run_id: run.id,
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      ...summary,
+      execution_id: executionId,
+    });
+  } catch (error) {
+    await supabase
+      .from("stripe_reconciliation_runs")
+      .update({ status: "failed", error_message: (error as Error).message, completed_at: new Date().toISOString() })
+      .eq("id", run.id);
+    throw error;
+  }
+});
@@ -0,0 +1,50 @@
+import { createHandler } from "../_shared/handler.ts";
+import type { Stripe } from "../_shared/clients.ts";
+import { HttpError, fail, ok } from "../_shared/envelope.ts";
+import {
+  STRIPE_SIGNATURE_HEADER,
+  processStoredEvent,
+  storeStripeEvent,
+  verifyStripeSignature,
+} from "../_shared/stripe-webhooks.ts";
+
+// Public: Stripe calls this directly, and the signature over the raw body is the credential.
+// A non-2xx answer makes Stripe redeliver, so only processing failures return one.
+export const handler = createHandler({ name: "stripe-webhook", executionPrefix: "webhook" }, async ({ req, executionId, supabase }) => {
+  const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!secret) {
+    throw new HttpError(503, "webhook_not_configured", "STRIPE_WEBHOOK_SECRET not configured");
+  }
+
+  const payload = await req.text();
+  await verifyStripeSignature(payload, req.headers.get(STRIPE_SIGNATURE_HEADER), secret);
+
+  let event: Stripe.Event;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    throw new HttpError(400, "invalid_payload", "Webhook body is not valid JSON");
+  }
+
+  const stored = await storeStripeEvent(supabase, event);
+  if (stored.duplicate) {
+    return ok({ received: true, duplicate: true, event_id: event.id, execution_id: executionId });
+  }
+
+  const result = await processStoredEvent(supabase, event);
+  if (!result.processed) {
+    return fail(500, "event_processing_failed", result.error ?? "Event processing failed", {
+      event_id: event.id,
+      event_type: event.type,
+      execution_id: executionId,
+    });
+  }
+
+  return ok({
+    received: true,
+    event_id: event.id,
+    event_type: event.type,
+    outcome: result.outcome,
+    execution_id: executionId,
+  });
+});
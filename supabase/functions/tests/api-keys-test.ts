@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { apiKeyPrefix, generateApiKey, hasScope, hashApiKey, parseNewKeyRequest } from "../_shared/api-keys.ts";
+import { HttpError } from "../_shared/envelope.ts";
+
+Deno.test("a generated key carries the prefix it is looked up by", () => {
+  const { key, prefix } = generateApiKey();
+  assertEquals(apiKeyPrefix(key), prefix);
+  assertEquals(prefix.length, 12);
+  // Keys issued before prefixes existed have none
+  assertEquals(apiKeyPrefix("sk_live_legacy_plaintext"), null);
+});
+
+Deno.test("keys are stored as a SHA-256 hash of the whole key", async () => {
+  assertEquals(
+    await hashApiKey("abc", "sha256"),
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  );
+});
+
+Deno.test("a key is scoped to content types, or to all of them", () => {
+  assertEquals(hasScope(["seo", "marketing"], "seo"), true);
+  assertEquals(hasScope(["seo", "marketing"], "code"), false);
+  assertEquals(hasScope(["*"], "code"), true);
+});
+
+Deno.test("a new key request is validated", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  assertEquals(parseNewKeyRequest({ name: " Blog ", scopes: ["seo", "seo"], expires_in_days: 30 }, now), {
+    name: "Blog",
+    scopes: ["seo"],
+    expires_at: "2026-01-31T00:00:00.000Z",
+    usage_limit: null,
+  });
+  assertEquals(parseNewKeyRequest({ name: "All" }, now).scopes, ["*"]);
+
+  assertThrows(() => parseNewKeyRequest({ scopes: ["seo"] }, now), HttpError);
+  assertThrows(() => parseNewKeyRequest({ name: "x", scopes: ["images"] }, now), HttpError);
+  assertThrows(() => parseNewKeyRequest({ name: "x", scopes: [] }, now), HttpError);
+  assertThrows(() => parseNewKeyRequest({ name: "x", expires_in_days: 1000 }, now), HttpError);
+  assertThrows(() => parseNewKeyRequest({ name: "x", usage_limit: 0 }, now), HttpError);
+});
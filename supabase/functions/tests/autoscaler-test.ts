@@ -0,0 +1,74 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { AutoscalerError, decideScaling, parseScalingPolicy, type WorkerPool } from "../_shared/autoscaler.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+const pool = (overrides: Partial<WorkerPool> = {}): WorkerPool => ({
+  id: "pool-1",
+  worker_type: "transfer",
+  current_workers: 2,
+  status: "active",
+  min_workers: 1,
+  max_workers: 10,
+  target_tasks_per_worker: 10,
+  cooldown_seconds: 120,
+  scale_down_grace_seconds: 600,
+  autoscale_enabled: true,
+  last_scaled_at: minutesAgo(30),
+  below_target_since: null,
+  policy_updated_by: null,
+  updated_at: minutesAgo(30),
+  ...overrides,
+});
+
+Deno.test("a pool grows to the queue at once, but not within the cooldown", () => {
+  const grown = decideScaling(pool(), { queued: 41, in_flight: 4 }, NOW);
+  assertEquals([grown.action, grown.workers, grown.last_scaled_at], ["scale_up", 5, NOW.toISOString()]);
+
+  const capped = decideScaling(pool(), { queued: 500, in_flight: 0 }, NOW);
+  assertEquals(capped.workers, 10);
+
+  const cooling = decideScaling(pool({ last_scaled_at: minutesAgo(1) }), { queued: 41, in_flight: 4 }, NOW);
+  assertEquals([cooling.action, cooling.workers, cooling.log], ["hold", 2, true]);
+});
+
+Deno.test("a pool shrinks only after the load has stayed low for the grace period", () => {
+  const idle = { queued: 0, in_flight: 3 };
+
+  const starts = decideScaling(pool({ current_workers: 4 }), idle, NOW);
+  assertEquals([starts.action, starts.workers, starts.below_target_since, starts.log], ["hold", 4, NOW.toISOString(), true]);
+
+  const waiting = decideScaling(pool({ current_workers: 4, below_target_since: minutesAgo(5) }), idle, NOW);
+  assertEquals([waiting.action, waiting.below_target_since, waiting.log], ["hold", minutesAgo(5), false]);
+
+  const shrunk = decideScaling(pool({ current_workers: 4, below_target_since: minutesAgo(11) }), idle, NOW);
+  assertEquals([shrunk.action, shrunk.workers, shrunk.below_target_since], ["scale_down", 1, null]);
+
+  // Load coming back cancels the grace period
+  const recovered = decideScaling(pool({ current_workers: 4, below_target_since: minutesAgo(5) }), { queued: 35, in_flight: 5 }, NOW);
+  assertEquals([recovered.action, recovered.below_target_since, recovered.log], ["hold", null, false]);
+});
+
+Deno.test("a pool outside its policy is moved inside it even with autoscaling off", () => {
+  const decision = decideScaling(pool({ current_workers: 8, max_workers: 3, autoscale_enabled: false, last_scaled_at: minutesAgo(1) }), { queued: 80, in_flight: 0 }, NOW);
+  assertEquals([decision.action, decision.workers], ["scale_down", 3]);
+
+  const off = decideScaling(pool({ autoscale_enabled: false }), { queued: 80, in_flight: 0 }, NOW);
+  assertEquals([off.action, off.workers, off.log], ["hold", 2, false]);
+});
+
+Deno.test("policies keep fields left out and refuse impossible values", () => {
+  const current = pool();
+  assertEquals(parseScalingPolicy({ max_workers: 4, autoscale_enabled: false }, current), {
+    min_workers: 1,
+    max_workers: 4,
+    target_tasks_per_worker: 10,
+    cooldown_seconds: 120,
+    scale_down_grace_seconds: 600,
+    autoscale_enabled: false,
+  });
+  assertThrows(() => parseScalingPolicy({ min_workers: 5, max_workers: 4 }, current), AutoscalerError);
+  assertThrows(() => parseScalingPolicy({ target_tasks_per_worker: 0 }, current), AutoscalerError);
+  assertThrows(() => parseScalingPolicy({ cooldown_seconds: "soon" }, current), AutoscalerError);
+});
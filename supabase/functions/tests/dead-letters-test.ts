@@ -0,0 +1,24 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { errorSignature, groupDeadLetters } from "../_shared/dead-letters.ts";
+
+Deno.test("error signatures blank out IDs and numbers", () => {
+  assertEquals(
+    errorSignature("stripe-reconciliation failed: Rate limited on bt_1PqRsTuVwXyZ after 3 tries"),
+    "stripe-reconciliation failed: Rate limited on <id> after <n> tries",
+  );
+  assertEquals(errorSignature("Sweep 0b6f2c1e-8d4a-4b1f-9c3e-2a7d5e9f1b04 not found"), "Sweep <id> not found");
+  assertEquals(errorSignature(null), "(no error message)");
+});
+
+Deno.test("dead letters group by task type and error, largest group first", () => {
+  const groups = groupDeadLetters([
+    { id: "a", task_type: "stripe_reconciliation", error_message: "timed out after 30s", failed_at: "2026-10-19T10:00:00Z" },
+    { id: "b", task_type: "sweep_recovery", error_message: "timed out after 30s", failed_at: "2026-10-19T09:00:00Z" },
+    { id: "c", task_type: "stripe_reconciliation", error_message: "timed out after 45s", failed_at: "2026-10-19T08:00:00Z" },
+  ]);
+
+  assertEquals(groups.map((group) => [group.task_type, group.count]), [["stripe_reconciliation", 2], ["sweep_recovery", 1]]);
+  assertEquals(groups[0].dead_letter_ids, ["a", "c"]);
+  assertEquals(groups[0].first_failed_at, "2026-10-19T08:00:00Z");
+  assertEquals(groups[0].last_failed_at, "2026-10-19T10:00:00Z");
+});
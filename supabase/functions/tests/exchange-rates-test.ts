@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { ExchangeRateError, parseRateSnapshot, rateBetween, totalIn } from "../_shared/exchange-rates.ts";
+import { convert, fromMajorUnits, minorUnits, money } from "../_shared/money.ts";
+
+const snapshot = parseRateSnapshot({ base: "USD", as_of: "2026-10-19", rates: { EUR: 0.8, gbp: 0.5, jpy: 150 } }, "file");
+
+Deno.test("parseRateSnapshot normalizes codes and includes the base", () => {
+  assertEquals(snapshot, {
+    base_currency: "usd",
+    as_of: "2026-10-19",
+    rates: { eur: 0.8, gbp: 0.5, jpy: 150, usd: 1 },
+    source: "file",
+  });
+  assertEquals(parseRateSnapshot({ base_currency: "eur", date: "2026-10-01", rates: {} }, "import").as_of, "2026-10-01");
+  assertThrows(() => parseRateSnapshot({ base: "usd", as_of: "19/10/2026", rates: {} }, "file"), ExchangeRateError);
+  assertThrows(() => parseRateSnapshot({ base: "usd", as_of: "2026-10-19", rates: { eur: 0 } }, "file"), ExchangeRateError);
+  assertThrows(() => parseRateSnapshot({ base: "dollars", as_of: "2026-10-19", rates: {} }, "file"), ExchangeRateError);
+});
+
+Deno.test("rateBetween crosses through the base currency", () => {
+  assertEquals(rateBetween(snapshot, "usd", "eur"), 0.8);
+  assertEquals(rateBetween(snapshot, "eur", "usd"), 1.25);
+  assertEquals(rateBetween(snapshot, "gbp", "eur"), 1.6);
+  assertEquals(rateBetween(null, "eur", "eur"), 1);
+});
+
+Deno.test("a missing rate is an error, not a zero", () => {
+  const missing = assertThrows(() => rateBetween(snapshot, "usd", "chf"), ExchangeRateError);
+  assertEquals(missing.message, "The 2026-10-19 rates have no chf rate");
+  assertThrows(() => rateBetween(null, "usd", "eur"), ExchangeRateError);
+});
+
+Deno.test("conversion rounds to the target currency's minor unit", () => {
+  assertEquals(convert(money(1000), "jpy", 150), money(1500, "jpy"));
+  assertEquals(convert(money(1500, "jpy"), "usd", 1 / 150), money(1000));
+  assertEquals(minorUnits(convert(money(1), "eur", 0.5)), 1);
+  assertEquals(
+    totalIn([fromMajorUnits("10"), fromMajorUnits("8", "eur"), money(1500, "jpy")], "usd", snapshot),
+    money(3000),
+  );
+});
@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { handler as payoutNow } from "../payout-now/handler.ts";
+import { handler as manageFailsafe } from "../manage-failsafe/handler.ts";
+import { installFakeStripe, integrationTest, invoke, newOperation, resetFailsafe, serviceClient } from "./harness.ts";
+
+const supabase = serviceClient();
+
+// Runs fn with some limits changed, putting the configured ones back afterwards
+async function withLimits(limits: Record<string, number | null>, fn: () => Promise<void>) {
+  const { data } = await supabase.from("financial_failsafe_config").select("config").eq("id", 1).single();
+  await invoke(manageFailsafe, { action: "set_limits", limits });
+  try {
+    await fn();
+  } finally {
+    await supabase.from("financial_failsafe_config").update({ config: data?.config }).eq("id", 1);
+  }
+}
+
+integrationTest("a halted failsafe refuses payouts without calling Stripe", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const halted = await invoke(manageFailsafe, { action: "halt", reason: "test kill switch" });
+    assertEquals(halted.body.status, "halted");
+
+    const res = await invoke(payoutNow, { amount_cents: 1000 }, newOperation());
+    assertEquals(res.status, 423);
+    assertEquals(res.body.error_code, "money_movement_halted");
+    assertEquals(stripe.callsTo("payouts.create").length, 0);
+
+    const resumed = await invoke(manageFailsafe, { action: "resume", reason: "test over" });
+    assertEquals(resumed.body.status, "active");
+    assertEquals((await invoke(payoutNow, { amount_cents: 1000 }, newOperation())).status, 200);
+  } finally {
+    restore();
+    await resetFailsafe(supabase);
+  }
+});
+
+integrationTest("payouts above the single-transfer limit are refused", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    await withLimits({ max_single_transfer_cents: 1500 }, async () => {
+      const res = await invoke(payoutNow, { amount_cents: 2000 }, newOperation());
+
+      assertEquals(res.status, 429);
+      assertEquals(res.body.error_code, "velocity_limit_exceeded");
+      assertEquals(res.body.reason, "max_single_transfer");
+      assertEquals(stripe.callsTo("payouts.create").length, 0);
+    });
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("repeated provider failures trip the circuit breaker", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("payouts.create", "insufficient_funds", 2);
+
+  try {
+    await withLimits({ failure_count: 2 }, async () => {
+      await invoke(payoutNow, { amount_cents: 1000 }, newOperation());
+      await invoke(payoutNow, { amount_cents: 1000 }, newOperation());
+
+      const status = await invoke(manageFailsafe, { action: "status" });
+      assertEquals(status.body.status, "halted");
+      assertEquals(status.body.usage.failures, 2);
+      assertEquals(status.body.events[0].event_type, "circuit_breaker_tripped");
+      assertEquals(status.body.events[0].status, "active");
+    });
+  } finally {
+    restore();
+    await resetFailsafe(supabase);
+  }
+});
@@ -0,0 +1,300 @@
+import type { Stripe } from "../_shared/clients.ts";
+
+// In-process stand-in for the parts of the Stripe API the edge functions use.
+// State lives in plain maps, create calls honour idempotency keys the way Stripe
+// does, and failures can be queued per method to drive the retry paths.
+
+export type FailureKind = "rate_limit" | "insufficient_funds" | "api_connection_error";
+
+export type FakeMethod =
+  | "accounts.retrieve"
+  | "balance.retrieve"
+  | "balanceTransactions.list"
+  | "transfers.create"
+  | "payouts.create"
+  | "charges.list"
+  | "subscriptions.list"
+  | "customers.list"
+  | "customers.create"
+  | "checkout.sessions.create";
+
+interface RequestOptions {
+  idempotencyKey?: string;
+}
+
+interface FakeCall {
+  method: FakeMethod;
+  params: unknown;
+  idempotencyKey?: string;
+}
+
+// Same shape as the SDK's errors: `type` is the error class name, `rawType` the API type
+export class FakeStripeError extends Error {
+  constructor(
+    public type: string,
+    public rawType: string | undefined,
+    public code: string | undefined,
+    public statusCode: number | undefined,
+    message: string,
+  ) {
+    super(message);
+    this.name = type;
+  }
+}
+
+function failureError(kind: FailureKind): FakeStripeError {
+  switch (kind) {
+    case "rate_limit":
+      return new FakeStripeError("StripeRateLimitError", "invalid_request_error", "rate_limit", 429, "Too many requests");
+    case "insufficient_funds":
+      return new FakeStripeError(
+        "StripeInvalidRequestError",
+        "invalid_request_error",
+        "insufficient_funds",
+        400,
+        "Insufficient funds in Stripe account",
+      );
+    case "api_connection_error":
+      return new FakeStripeError(
+        "StripeConnectionError",
+        undefined,
+        undefined,
+        undefined,
+        "An error occurred with our connection to Stripe",
+      );
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const list = <T>(data: T[]) => ({ object: "list" as const, data, has_more: false, url: "" });
+
+export class FakeStripe {
+  available: Record<string, number> = { usd: 0 };
+  pending: Record<string, number> = { usd: 0 };
+
+  readonly accountsById = new Map<string, Record<string, unknown>>();
+  readonly transfersById = new Map<string, Record<string, unknown>>();
+  readonly payoutsById = new Map<string, Record<string, unknown>>();
+  readonly customersById = new Map<string, Record<string, unknown>>();
+  readonly sessionsById = new Map<string, Record<string, unknown>>();
+  // Balance transactions written by transfers and payouts, oldest first
+  readonly transactions: Array<Record<string, unknown>> = [];
+  charges: Array<Record<string, unknown>> = [];
+  subscriptions: Array<Record<string, unknown>> = [];
+
+  // Every call in order, including the ones that failed
+  readonly calls: FakeCall[] = [];
+
+  private failures = new Map<FakeMethod, FailureKind[]>();
+  private idempotent = new Map<string, { params: string; result: unknown }>();
+  private sequence = 0;
+
+  constructor(options: { availableCents?: number; pendingCents?: number } = {}) {
+    this.available.usd = options.availableCents ?? 0;
+    this.pending.usd = options.pendingCents ?? 0;
+  }
+
+  // Queue failures for the next calls of `method`, e.g. failNext("transfers.create", "rate_limit", 2)
+  failNext(method: FakeMethod, kind: FailureKind, times = 1) {
+    const queue = this.failures.get(method) ?? [];
+    for (let i = 0; i < times; i++) queue.push(kind);
+    this.failures.set(method, queue);
+  }
+
+  // A connected account whose transfers capability is `transfers`
+  addAccount(id: string, transfers: "active" | "inactive" | "pending" = "active") {
+    this.accountsById.set(id, {
+      id,
+      object: "account",
+      capabilities: { transfers },
+      requirements: { disabled_reason: transfers === "active" ? null : "requirements.past_due" },
+    });
+  }
+
+  callsTo(method: FakeMethod): FakeCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  // The fake typed as the SDK client, for setStripeClientFactory
+  asClient(): Stripe {
+    return this as unknown as Stripe;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_fake${String(this.sequence).padStart(6, "0")}`;
+  }
+
+  private async call<T>(method: FakeMethod, params: unknown, options: RequestOptions | undefined, run: () => T): Promise<T> {
+    this.calls.push({ method, params, idempotencyKey: options?.idempotencyKey });
+
+    const queued = this.failures.get(method);
+    if (queued && queued.length > 0) {
+      throw failureError(queued.shift()!);
+    }
+
+    const key = options?.idempotencyKey;
+    if (!key) {
+      return run();
+    }
+
+    const fingerprint = JSON.stringify(params);
+    const previous = this.idempotent.get(key);
+    if (previous) {
+      if (previous.params !== fingerprint) {
+        throw new FakeStripeError(
+          "StripeIdempotencyError",
+          "idempotency_error",
+          undefined,
+          400,
+          "Keys for idempotent requests can only be used with the same parameters they were first used with",
+        );
+      }
+      return previous.result as T;
+    }
+
+    const result = run();
+    this.idempotent.set(key, { params: fingerprint, result });
+    return result;
+  }
+
+  private debit(currency: string, amount: number) {
+    if ((this.available[currency] ?? 0) < amount) {
+      throw new FakeStripeError(
+        "StripeInvalidRequestError",
+        "invalid_request_error",
+        "balance_insufficient",
+        400,
+        "You have insufficient available funds in your Stripe account",
+      );
+    }
+    this.available[currency] -= amount;
+  }
+
+  private recordTransaction(id: string, type: string, source: string, currency: string, amount: number) {
+    this.transactions.push({
+      id,
+      object: "balance_transaction",
+      type,
+      source,
+      currency,
+      amount,
+      fee: 0,
+      net: amount,
+      created: now(),
+    });
+  }
+
+  accounts = {
+    retrieve: (id: string, _params?: unknown, options?: RequestOptions) =>
+      this.call("accounts.retrieve", { id }, options, () => {
+        const account = this.accountsById.get(id);
+        if (!account) {
+          throw new FakeStripeError("StripeInvalidRequestError", "invalid_request_error", "resource_missing", 404, `No such account: '${id}'`);
+        }
+        return account;
+      }),
+  };
+
+  balance = {
+    retrieve: (_params?: unknown, options?: RequestOptions) =>
+      this.call("balance.retrieve", {}, options, () => ({
+        object: "balance",
+        available: Object.entries(this.available).map(([currency, amount]) => ({ amount, currency })),
+        pending: Object.entries(this.pending).map(([currency, amount]) => ({ amount, currency })),
+      })),
+  };
+
+  balanceTransactions = {
+    list: (params?: { created?: { gte?: number; lt?: number } }, options?: RequestOptions) =>
+      this.call("balanceTransactions.list", params ?? {}, options, () =>
+        list(this.transactions.filter((txn) => {
+          const created = txn.created as number;
+          return created >= (params?.created?.gte ?? 0) && created < (params?.created?.lt ?? Infinity);
+        }))),
+  };
+
+  transfers = {
+    create: (params: { amount: number; currency: string; destination: string; description?: string; metadata?: Record<string, string> }, options?: RequestOptions) =>
+      this.call("transfers.create", params, options, () => {
+        this.debit(params.currency, params.amount);
+        const transfer = {
+          id: this.nextId("tr"),
+          object: "transfer",
+          amount: params.amount,
+          currency: params.currency,
+          destination: params.destination,
+          description: params.description ?? null,
+          metadata: params.metadata ?? {},
+          created: now(),
+          reversed: false,
+        };
+        this.transfersById.set(transfer.id, transfer);
+        this.recordTransaction(this.nextId("txn"), "transfer", transfer.id, params.currency, -params.amount);
+        return transfer;
+      }),
+    retrieve: async (id: string) => this.transfersById.get(id),
+    list: async () => list([...this.transfersById.values()]),
+  };
+
+  payouts = {
+    create: (params: { amount: number; currency: string; method?: string; description?: string; metadata?: Record<string, string> }, options?: RequestOptions) =>
+      this.call("payouts.create", params, options, () => {
+        this.debit(params.currency, params.amount);
+        const payout = {
+          id: this.nextId("po"),
+          object: "payout",
+          amount: params.amount,
+          currency: params.currency,
+          method: params.method ?? "standard",
+          description: params.description ?? null,
+          metadata: params.metadata ?? {},
+          status: "pending",
+          created: now(),
+          arrival_date: now() + 2 * 24 * 60 * 60,
+          balance_transaction: this.nextId("txn"),
+        };
+        this.payoutsById.set(payout.id, payout);
+        this.recordTransaction(payout.balance_transaction, "payout", payout.id, params.currency, -params.amount);
+        return payout;
+      }),
+    retrieve: async (id: string) => this.payoutsById.get(id),
+    list: async () => list([...this.payoutsById.values()]),
+  };
+
+  charges = {
+    list: (_params?: unknown, options?: RequestOptions) =>
+      this.call("charges.list", {}, options, () => list(this.charges)),
+  };
+
+  subscriptions = {
+    list: (params?: { status?: string }, options?: RequestOptions) =>
+      this.call("subscriptions.list", params ?? {}, options, () =>
+        list(this.subscriptions.filter((sub) => !params?.status || sub.status === params.status))),
+  };
+
+  customers = {
+    list: (params?: { email?: string }, options?: RequestOptions) =>
+      this.call("customers.list", params ?? {}, options, () =>
+        list([...this.customersById.values()].filter((c) => !params?.email || c.email === params.email))),
+    create: (params: { email?: string; name?: string }, options?: RequestOptions) =>
+      this.call("customers.create", params, options, () => {
+        const customer = { id: this.nextId("cus"), object: "customer", created: now(), ...params };
+        this.customersById.set(customer.id, customer);
+        return customer;
+      }),
+  };
+
+  checkout = {
+    sessions: {
+      create: (params: Record<string, unknown>, options?: RequestOptions) =>
+        this.call("checkout.sessions.create", params, options, () => {
+          const id = this.nextId("cs");
+          const session = { id, object: "checkout.session", url: `https://checkout.stripe.test/${id}`, ...params };
+          this.sessionsById.set(id, session);
+          return session;
+        }),
+    },
+  };
+}
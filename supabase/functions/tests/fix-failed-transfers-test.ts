@@ -0,0 +1,197 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance } from "../_shared/ledger.ts";
+import { handler } from "../fix-failed-transfers/handler.ts";
+import {
+  cancelFailedTransfers,
+  insertFailedTransfer,
+  installFakeStripe,
+  integrationTest,
+  invoke,
+  resetFailsafe,
+  resetLedger,
+  savedTransferRequest,
+  serviceClient,
+} from "./harness.ts";
+
+const supabase = serviceClient();
+
+async function transfer(id: string) {
+  const { data, error } = await supabase.from("transfer_attempts").select("*").eq("id", id).single();
+  if (error) throw new Error(`Transfer ${id} not found: ${error.message}`);
+  return data;
+}
+
+async function transitions(id: string) {
+  const { data } = await supabase
+    .from("transfer_attempt_transitions")
+    .select("from_status, to_status")
+    .eq("transfer_attempt_id", id)
+    .order("created_at", { ascending: true });
+  return (data ?? []).map((t) => `${t.from_status ?? "∅"}->${t.to_status}`);
+}
+
+integrationTest("fix-failed-transfers replays the saved request under the saved key", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  const id = await insertFailedTransfer(supabase, 1500);
+  const saved = savedTransferRequest(id, 1500);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.fixed, 1);
+
+    const calls = stripe.callsTo("transfers.create");
+    assertEquals(calls.length, 1);
+    assertEquals(calls[0].idempotencyKey, saved.idempotency_key);
+    assertEquals(calls[0].params, saved.provider_request);
+    assertEquals(stripe.callsTo("payouts.create").length, 0);
+
+    const row = await transfer(id);
+    assertEquals(row.status, "paid");
+    assertEquals(row.retry_count, 1);
+    assertEquals(row.stripe_transfer_id, res.body.results[0].stripe_transfer_id);
+    assertEquals(await transitions(id), [
+      "∅->created",
+      "created->failed",
+      "failed->submitted",
+      "submitted->paid",
+    ]);
+
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS), 15);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers does not pay again for a transfer that went through", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  const id = await insertFailedTransfer(supabase, 1200);
+  const saved = savedTransferRequest(id, 1200);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    // The original call reached Stripe, but its answer was lost
+    const original = await stripe.transfers.create(saved.provider_request, { idempotencyKey: saved.idempotency_key });
+
+    const res = await invoke(handler);
+
+    assertEquals(res.body.fixed, 1);
+    assertEquals((await transfer(id)).stripe_transfer_id, original.id);
+    assertEquals(stripe.transfersById.size, 1);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers puts a transfer back to failed when the transfer is refused", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  const id = await insertFailedTransfer(supabase, 2000);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "insufficient_funds");
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.fixed, 0);
+    assertEquals(res.body.still_failed, 1);
+
+    const row = await transfer(id);
+    assertEquals(row.status, "failed");
+    assertEquals(row.retry_count, 1);
+    assertEquals(row.correction_error, "Insufficient funds in Stripe account");
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS), 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers leaves transfers that already reached Stripe for manual review", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  const id = await insertFailedTransfer(supabase, 900);
+  await supabase.from("transfer_attempts").update({ stripe_transfer_id: "tr_already_sent" }).eq("id", id);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.processed, 0);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+    assertEquals((await transfer(id)).status, "failed");
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers leaves transfers without a saved request for manual review", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  const id = await insertFailedTransfer(supabase, 800);
+  await supabase.from("transfer_attempts").update({ provider_request: null }).eq("id", id);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.body.processed, 0);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers leaves a replay of unknown outcome submitted, not failed", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  const id = await insertFailedTransfer(supabase, 700);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "api_connection_error");
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.still_failed, 1);
+    assertEquals(res.body.results[0].status, "outcome_unknown");
+    assertEquals((await transfer(id)).status, "submitted");
+
+    // Stripe may have paid it, so the next run must not replay it
+    const next = await invoke(handler);
+    assertEquals(next.body.processed, 0);
+    assertEquals(stripe.callsTo("transfers.create").length, 1);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("fix-failed-transfers leaves transfers older than Stripe's key window for manual review", async () => {
+  await cancelFailedTransfers(supabase);
+  await resetFailsafe(supabase);
+  const id = await insertFailedTransfer(supabase, 600);
+  await supabase
+    .from("transfer_attempts")
+    .update({ created_at: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString() })
+    .eq("id", id);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.body.processed, 0);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+    assertEquals((await transfer(id)).status, "failed");
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,97 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { hasLocalStack, invoke } from "./harness.ts";
+import { handler as aggregateUsdToStripe } from "../aggregate-usd-to-stripe/handler.ts";
+import { handler as aiContentApi } from "../ai-content-api/handler.ts";
+import { handler as automatedFullTransferScheduler } from "../automated-full-transfer-scheduler/handler.ts";
+import { handler as autonomousBalanceTransfer } from "../autonomous-balance-transfer/handler.ts";
+import { handler as autonomousRevenueEngine } from "../autonomous-revenue-engine/handler.ts";
+import { handler as comprehensiveStripeIntegration } from "../comprehensive-stripe-integration/handler.ts";
+import { handler as comprehensiveUsdAggregator } from "../comprehensive-usd-aggregator/handler.ts";
+import { handler as createCheckout } from "../create-checkout/handler.ts";
+import { handler as exchangeRates } from "../exchange-rates/handler.ts";
+import { handler as fixFailedTransfers } from "../fix-failed-transfers/handler.ts";
+import { handler as getStripeBalance } from "../get-stripe-balance/handler.ts";
+import { handler as hyperRevenueGenerator } from "../hyper-revenue-generator/handler.ts";
+import { handler as manageDestinations } from "../manage-destinations/handler.ts";
+import { handler as manageFailsafe } from "../manage-failsafe/handler.ts";
+import { handler as payoutApprovals } from "../payout-approvals/handler.ts";
+import { handler as payoutNow } from "../payout-now/handler.ts";
+import { handler as recoverSweeps } from "../recover-sweeps/handler.ts";
+import { handler as replayStripeEvents } from "../replay-stripe-events/handler.ts";
+import { handler as revenueOptimizer } from "../revenue-optimizer/handler.ts";
+import { handler as revenueWorker } from "../revenue-worker/handler.ts";
+import { handler as scheduler } from "../scheduler/handler.ts";
+import { handler as stripeReconciliation } from "../stripe-reconciliation/handler.ts";
+import { handler as stripeRevenueTransfer } from "../stripe-revenue-transfer/handler.ts";
+import { handler as stripeWebhook } from "../stripe-webhook/handler.ts";
+import { handler as treasuryBalanceManager } from "../treasury-balance-manager/handler.ts";
+import { handler as workerAutoscaler } from "../worker-autoscaler/handler.ts";
+import { handler as workflows } from "../workflows/handler.ts";
+
+// Request plumbing every function gets from createHandler; none of these reach the database
+
+if (!hasLocalStack) {
+  // The service client is built per request and needs a URL even when it is never used
+  Deno.env.set("SUPABASE_URL", "http://127.0.0.1:54321");
+}
+
+const protectedHandlers = {
+  "aggregate-usd-to-stripe": aggregateUsdToStripe,
+  "automated-full-transfer-scheduler": automatedFullTransferScheduler,
+  "autonomous-balance-transfer": autonomousBalanceTransfer,
+  "autonomous-revenue-engine": autonomousRevenueEngine,
+  "comprehensive-stripe-integration": comprehensiveStripeIntegration,
+  "comprehensive-usd-aggregator": comprehensiveUsdAggregator,
+  "exchange-rates": exchangeRates,
+  "fix-failed-transfers": fixFailedTransfers,
+  "get-stripe-balance": getStripeBalance,
+  "hyper-revenue-generator": hyperRevenueGenerator,
+  "manage-destinations": manageDestinations,
+  "manage-failsafe": manageFailsafe,
+  "payout-approvals": payoutApprovals,
+  "payout-now": payoutNow,
+  "recover-sweeps": recoverSweeps,
+  "replay-stripe-events": replayStripeEvents,
+  "revenue-optimizer": revenueOptimizer,
+  "revenue-worker": revenueWorker,
+  "scheduler": scheduler,
+  "stripe-reconciliation": stripeReconciliation,
+  "stripe-revenue-transfer": stripeRevenueTransfer,
+  "treasury-balance-manager": treasuryBalanceManager,
+  "worker-autoscaler": workerAutoscaler,
+  "workflows": workflows,
+};
+
+const allHandlers = {
+  ...protectedHandlers,
+  "ai-content-api": aiContentApi,
+  "create-checkout": createCheckout,
+  "stripe-webhook": stripeWebhook,
+};
+
+for (const [name, handler] of Object.entries(allHandlers)) {
+  Deno.test(`${name} answers CORS preflight`, async () => {
+    const res = await invoke(handler, undefined, { method: "OPTIONS", authenticated: false });
+    assertEquals(res.status, 200);
+    assertEquals(res.headers.get("Access-Control-Allow-Origin"), "*");
+    assert(res.headers.get("Access-Control-Allow-Headers")?.includes("idempotency-key"));
+  });
+}
+
+for (const [name, handler] of Object.entries(protectedHandlers)) {
+  Deno.test(`${name} rejects callers without credentials`, async () => {
+    const res = await invoke(handler, {}, { authenticated: false });
+    assertEquals(res.status, 401);
+    assertEquals(res.body.success, false);
+    assertEquals(res.body.error_code, "unauthorized");
+    assert(res.headers.get("x-execution-id"));
+  });
+}
+
+Deno.test("an incoming execution ID is carried through to the response", async () => {
+  const res = await invoke(stripeRevenueTransfer, {}, {
+    authenticated: false,
+    headers: { "x-execution-id": "upstream_123" },
+  });
+  assertEquals(res.headers.get("x-execution-id"), "upstream_123");
+});
@@ -0,0 +1,187 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { setStripeClientFactory } from "../_shared/clients.ts";
+import { recordEarning } from "../_shared/ledger.ts";
+import { fromMajorUnits } from "../_shared/money.ts";
+import { FakeStripe } from "./fake-stripe.ts";
+
+// Runs edge-function handlers in-process against a local Supabase stack.
+//
+//   supabase start && supabase db reset      # local Postgres with every migration applied
+//   export SUPABASE_URL=http://127.0.0.1:54321
+//   export SUPABASE_SERVICE_ROLE_KEY=<service_role key from `supabase status`>
+//   deno test --allow-env --allow-net supabase/functions/tests/
+//
+// Tests that need the database are skipped when those variables are missing.
+
+export const hasLocalStack = Boolean(Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+
+type Handler = (req: Request) => Promise<Response>;
+
+export interface InvokeResult {
+  status: number;
+  headers: Headers;
+  // Tests read arbitrary fields off the JSON envelope
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+}
+
+// Database tests share the local stack, and supabase-js keeps timers alive between calls
+export function integrationTest(name: string, fn: () => Promise<void>) {
+  Deno.test({ name, ignore: !hasLocalStack, sanitizeOps: false, sanitizeResources: false, fn });
+}
+
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "", {
+    auth: { persistSession: false },
+  });
+}
+
+// Routes every createStripeClient() call to a fresh fake until the returned restore runs
+export function installFakeStripe(options?: ConstructorParameters<typeof FakeStripe>[0]): { stripe: FakeStripe; restore: () => void } {
+  const stripe = new FakeStripe(options);
+  setStripeClientFactory(() => stripe.asClient());
+  return { stripe, restore: () => setStripeClientFactory(null) };
+}
+
+// Headers for a new money-moving request; a retry of it must send the same ones
+export function newOperation(): { headers: Record<string, string> } {
+  return { headers: { "Idempotency-Key": crypto.randomUUID() } };
+}
+
+export async function invoke(
+  handler: Handler,
+  body: unknown = {},
+  options: { method?: string; headers?: Record<string, string>; authenticated?: boolean } = {},
+): Promise<InvokeResult> {
+  const headers: Record<string, string> = { "Content-Type": "application/json", ...options.headers };
+  if (options.authenticated !== false) {
+    headers.Authorization = `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""}`;
+  }
+
+  const method = options.method ?? "POST";
+  const response = await handler(new Request("http://localhost/functions/v1/test", {
+    method,
+    headers,
+    body: method === "POST" ? JSON.stringify(body) : undefined,
+  }));
+
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+}
+
+// Empties the ledger, and the sweeps that point into it, so each test starts from known balances
+export async function resetLedger(supabase: SupabaseClient) {
+  const all = "00000000-0000-0000-0000-000000000000";
+  const { error: sweepsError } = await supabase.from("sweep_batches").delete().neq("id", all);
+  if (sweepsError) throw new Error(`Failed to clear sweep batches: ${sweepsError.message}`);
+  const { error: entriesError } = await supabase.from("accounting_journal_entries").delete().neq("id", all);
+  if (entriesError) throw new Error(`Failed to clear journal entries: ${entriesError.message}`);
+  const { error: journalsError } = await supabase.from("accounting_journals").delete().neq("id", all);
+  if (journalsError) throw new Error(`Failed to clear journals: ${journalsError.message}`);
+
+  // A transfer still in flight holds back part of the application balance, so
+  // earlier runs' are abandoned: failed, then cancelled
+  const abandoned = "left in flight by an earlier test";
+  const { error: inFlightError } = await supabase
+    .from("transfer_attempts")
+    .update({ status: "failed", error_message: abandoned })
+    .in("status", ["submitted", "pending_at_provider"]);
+  if (inFlightError) throw new Error(`Failed to fail transfers in flight: ${inFlightError.message}`);
+  const { error: cancelError } = await supabase
+    .from("transfer_attempts")
+    .update({ status: "cancelled" })
+    .eq("status", "failed")
+    .eq("error_message", abandoned);
+  if (cancelError) throw new Error(`Failed to cancel transfers in flight: ${cancelError.message}`);
+}
+
+// Clears velocity history and closes the circuit breaker, so limits and
+// failure counts from earlier tests do not leak into the next one
+export async function resetFailsafe(supabase: SupabaseClient) {
+  const { error: movementsError } = await supabase.from("money_movements").delete().neq("id", "00000000-0000-0000-0000-000000000000");
+  if (movementsError) throw new Error(`Failed to clear money movements: ${movementsError.message}`);
+  const { error: statusError } = await supabase.rpc("set_failsafe_status", { p_halted: false, p_reason: "test reset", p_actor: "tests" });
+  if (statusError) throw new Error(`Failed to resume money movement: ${statusError.message}`);
+}
+
+export async function seedApplicationBalance(supabase: SupabaseClient, amountUsd: number) {
+  await recordEarning(supabase, fromMajorUnits(amountUsd), `earning:test_${crypto.randomUUID()}`, "Test earning");
+}
+
+export const TEST_DESTINATION = "acct_test";
+
+// The default USD destination, verified as manage-destinations would leave it
+export async function seedVerifiedDestination(
+  supabase: SupabaseClient,
+  limits: { min_transfer_cents?: number; max_transfer_cents?: number; daily_limit_cents?: number } = {},
+): Promise<string> {
+  const { error: clearError } = await supabase
+    .from("stripe_destinations")
+    .update({ is_default: false })
+    .eq("currency", "usd")
+    .neq("account_id", TEST_DESTINATION);
+  if (clearError) throw new Error(`Failed to clear default destination: ${clearError.message}`);
+
+  const { data, error } = await supabase
+    .from("stripe_destinations")
+    .upsert({
+      currency: "usd",
+      account_id: TEST_DESTINATION,
+      label: "Test destination",
+      is_active: true,
+      is_default: true,
+      verification_status: "verified",
+      verified_at: new Date().toISOString(),
+      min_transfer_cents: limits.min_transfer_cents ?? null,
+      max_transfer_cents: limits.max_transfer_cents ?? null,
+      daily_limit_cents: limits.daily_limit_cents ?? null,
+    }, { onConflict: "currency,account_id" })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Failed to seed destination: ${error.message}`);
+  return data.id;
+}
+
+// transfer_attempts and their transition history cannot be deleted, so earlier
+// runs' failed attempts are cancelled to keep them away from the fixer
+export async function cancelFailedTransfers(supabase: SupabaseClient) {
+  const { error } = await supabase.from("transfer_attempts").update({ status: "cancelled" }).eq("status", "failed");
+  if (error) throw new Error(`Failed to cancel leftover transfers: ${error.message}`);
+}
+
+// The request stripe-revenue-transfer would have saved for a transfer attempt
+export function savedTransferRequest(id: string, amountCents: number) {
+  return {
+    idempotency_key: `stripe-revenue-transfer:${id}`,
+    provider_request: {
+      amount: amountCents,
+      currency: "usd",
+      destination: TEST_DESTINATION,
+      description: "Test transfer",
+      metadata: { transfer_id: id },
+    },
+  };
+}
+
+// A failed attempt with no provider ID, the kind fix-failed-transfers picks up
+export async function insertFailedTransfer(supabase: SupabaseClient, amountCents: number): Promise<string> {
+  const id = crypto.randomUUID();
+  const { error: insertError } = await supabase.from("transfer_attempts").insert({
+    id,
+    amount: amountCents,
+    currency: "usd",
+    destination: TEST_DESTINATION,
+    description: "Test transfer",
+    status: "created",
+    ...savedTransferRequest(id, amountCents),
+    metadata: { source: "test" },
+  });
+  if (insertError) throw new Error(`Failed to insert transfer: ${insertError.message}`);
+
+  const { error: failError } = await supabase
+    .from("transfer_attempts")
+    .update({ status: "failed", error_message: "seeded failure" })
+    .eq("id", id);
+  if (failError) throw new Error(`Failed to mark transfer failed: ${failError.message}`);
+  return id;
+}
@@ -0,0 +1,44 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { handler } from "../manage-destinations/handler.ts";
+import { TEST_DESTINATION, installFakeStripe, integrationTest, invoke, seedVerifiedDestination, serviceClient } from "./harness.ts";
+
+const supabase = serviceClient();
+
+integrationTest("manage-destinations verifies an account whose transfers capability is active", async () => {
+  const id = await seedVerifiedDestination(supabase);
+  await supabase.from("stripe_destinations").update({ verification_status: "unverified" }).eq("id", id);
+  const { stripe, restore } = installFakeStripe();
+  stripe.addAccount(TEST_DESTINATION, "active");
+
+  try {
+    const res = await invoke(handler, { action: "verify", destination_id: id });
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.destination.verification_status, "verified");
+    assertEquals(res.body.destination.verification_error, null);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("manage-destinations marks an account Stripe does not know as failed", async () => {
+  const id = await seedVerifiedDestination(supabase);
+  const { restore } = installFakeStripe();
+
+  try {
+    const res = await invoke(handler, { action: "verify", destination_id: id });
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.destination.verification_status, "failed");
+    assertEquals(res.body.destination.verified_at, null);
+  } finally {
+    restore();
+    await seedVerifiedDestination(supabase);
+  }
+});
+
+integrationTest("manage-destinations rejects account IDs that are not Stripe accounts", async () => {
+  const res = await invoke(handler, { action: "upsert", account_id: "ba_123" });
+  assertEquals(res.status, 400);
+  assertEquals(res.body.error_code, "invalid_destination");
+});
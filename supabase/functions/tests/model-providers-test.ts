@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  completeWithFallback,
+  providersFor,
+  stubProvider,
+  type CompletionRequest,
+  type ModelProvider,
+} from "../_shared/model-providers.ts";
+import { parsePlan, selectModel } from "../_shared/plans.ts";
+import { HttpError } from "../_shared/envelope.ts";
+
+const request: CompletionRequest = {
+  model: "openai/gpt-5-mini",
+  messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Name a colour" }],
+  max_tokens: 100,
+  stream: false,
+};
+
+// A provider that answers with `status`, or throws when status is null
+function fakeProvider(name: string, status: number | null, calls: string[]): ModelProvider {
+  return {
+    name,
+    isConfigured: () => true,
+    serves: () => true,
+    complete: () => {
+      calls.push(name);
+      if (status === null) return Promise.reject(new Error("connection refused"));
+      return Promise.resolve(new Response(JSON.stringify({ from: name }), { status }));
+    },
+  };
+}
+
+Deno.test("a 429, a 5xx or a network error falls back to the next provider", async () => {
+  const calls: string[] = [];
+  const result = await completeWithFallback(
+    [fakeProvider("first", 429, calls), fakeProvider("second", null, calls), fakeProvider("third", 503, calls), fakeProvider("fourth", 200, calls)],
+    request,
+  );
+  assertEquals(calls, ["first", "second", "third", "fourth"]);
+  assertEquals(result.provider, "fourth");
+  assertEquals(result.fallbacks.map((fallback) => fallback.provider), ["first", "second", "third"]);
+});
+
+Deno.test("any other answer from a provider is final", async () => {
+  const calls: string[] = [];
+  const result = await completeWithFallback([fakeProvider("first", 400, calls), fakeProvider("second", 200, calls)], request);
+  assertEquals(calls, ["first"]);
+  assertEquals(result.response.status, 400);
+});
+
+Deno.test("when every provider fails, the last failure is returned", async () => {
+  const calls: string[] = [];
+  const result = await completeWithFallback([fakeProvider("first", 500, calls), fakeProvider("second", 429, calls)], request);
+  assertEquals([result.provider, result.response.status], ["second", 429]);
+
+  await assertRejects(() => completeWithFallback([fakeProvider("only", null, [])], request), Error, "connection refused");
+});
+
+Deno.test("only providers that serve the model are tried", () => {
+  const openAiOnly: ModelProvider = { ...stubProvider, name: "openai", serves: (model) => model.startsWith("openai/") };
+  assertEquals(providersFor([openAiOnly, stubProvider], "openai/gpt-5").map((provider) => provider.name), ["openai", "stub"]);
+  assertEquals(providersFor([openAiOnly, stubProvider], "google/gemini-2.5-pro").map((provider) => provider.name), ["stub"]);
+  assertThrows(() => providersFor([openAiOnly], "google/gemini-2.5-pro"), HttpError);
+});
+
+Deno.test("the stub answers the same request the same way, streamed or not", async () => {
+  const first = await (await stubProvider.complete(request)).json();
+  const second = await (await stubProvider.complete(request)).json();
+  assertEquals(first, second);
+  assertEquals(first.choices[0].message.content, "Stub completion from openai/gpt-5-mini for: Name a colour");
+
+  const streamed = await (await stubProvider.complete({ ...request, stream: true })).text();
+  const chunks = streamed.split("\n\n").filter((event) => event.startsWith("data: {")).map((event) => JSON.parse(event.slice(6)));
+  const deltas = chunks.filter((chunk) => chunk.choices.length > 0).map((chunk) => chunk.choices[0].delta.content).join("");
+  assertEquals(deltas, first.choices[0].message.content);
+  // Usage comes in a last chunk of its own, as with stream_options.include_usage
+  assertEquals(chunks[chunks.length - 1].usage, first.usage);
+});
+
+Deno.test("a request may only pick a model its plan allows", () => {
+  const plan = parsePlan("basic", '{"price_id": "price_basic", "models": ["google/gemini-3-flash-preview", "google/gemini-2.5-flash"]}');
+  assertEquals(selectModel(plan, undefined), "google/gemini-3-flash-preview");
+  assertEquals(selectModel(plan, "google/gemini-2.5-flash"), "google/gemini-2.5-flash");
+
+  const notAllowed = assertThrows(() => selectModel(plan, "openai/gpt-5"), HttpError) as HttpError;
+  assertEquals([notAllowed.status, notAllowed.code], [403, "model_not_allowed"]);
+  const unknown = assertThrows(() => selectModel(plan, "gpt-2"), HttpError) as HttpError;
+  assertEquals([unknown.status, unknown.code], [400, "unknown_model"]);
+
+  // Without a list, only the default model
+  assertEquals(parsePlan("legacy", '{"price_id": "price_legacy"}').models, ["google/gemini-3-flash-preview"]);
+});
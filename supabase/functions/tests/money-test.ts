@@ -0,0 +1,60 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { movementJournal } from "../_shared/ledger.ts";
+import {
+  MoneyError,
+  add,
+  allocate,
+  formatCents,
+  formatMoney,
+  fromMajorUnits,
+  minorUnits,
+  money,
+  sum,
+  toMajorUnits,
+} from "../_shared/money.ts";
+
+Deno.test("fromMajorUnits rounds decimal strings without float error", () => {
+  assertEquals(minorUnits(fromMajorUnits("1.005")), 101);
+  assertEquals(minorUnits(fromMajorUnits(0.1 + 0.2)), 30);
+  assertEquals(minorUnits(fromMajorUnits("-2.345")), -235);
+  assertEquals(minorUnits(fromMajorUnits(null)), 0);
+  assertEquals(minorUnits(fromMajorUnits("2.5e1")), 2500);
+  assertThrows(() => fromMajorUnits("ten dollars"), MoneyError);
+});
+
+Deno.test("conversions follow the currency's minor unit", () => {
+  assertEquals(fromMajorUnits("1500", "jpy"), { amount: 1500, currency: "jpy" });
+  assertEquals(fromMajorUnits("1.2345", "KWD"), { amount: 1235, currency: "kwd" });
+  assertEquals(toMajorUnits(money(1999)), 19.99);
+  assertEquals(toMajorUnits(money(1999, "jpy")), 1999);
+});
+
+Deno.test("money only holds whole minor units", () => {
+  assertThrows(() => money(10.5), MoneyError);
+  assertThrows(() => money(Number.NaN), MoneyError);
+});
+
+Deno.test("amounts in different currencies cannot be combined", () => {
+  const error = assertThrows(() => add(money(100), money(100, "eur")), MoneyError);
+  assertEquals(error.message, "Cannot combine usd and eur amounts");
+  assertEquals(sum([money(10), money(20), money(-5)]), money(25));
+});
+
+Deno.test("allocate never loses or invents a cent", () => {
+  assertEquals(allocate(money(100), [1, 1, 1]).map(minorUnits), [34, 33, 33]);
+  assertEquals(allocate(money(-100), [1, 1, 1]).map(minorUnits), [-34, -33, -33]);
+  assertEquals(allocate(money(5), [70, 30]).map(minorUnits), [4, 1]);
+  assertEquals(sum(allocate(money(1001), [3, 3, 4])), money(1001));
+  assertThrows(() => allocate(money(100), []), MoneyError);
+});
+
+Deno.test("formatting uses the currency's symbol and decimals", () => {
+  assertEquals(formatCents(123456), "$1,234.56");
+  assertEquals(formatCents(-50), "-$0.50");
+  assertEquals(formatMoney(money(1500, "jpy")), "¥1,500");
+});
+
+Deno.test("ledger journals are posted in major units", () => {
+  const journal = movementJournal("payout", money(1234), "payout:po_1", "Payout");
+  assertEquals(journal.lines.map((line) => line.debit ?? line.credit), [12.34, 12.34]);
+});
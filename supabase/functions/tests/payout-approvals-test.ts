@@ -0,0 +1,90 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { handler as payoutNow } from "../payout-now/handler.ts";
+import { handler as payoutApprovals } from "../payout-approvals/handler.ts";
+import { installFakeStripe, integrationTest, invoke, newOperation, resetFailsafe, serviceClient } from "./harness.ts";
+
+const supabase = serviceClient();
+
+// The seeded policy holds payout-now at $1,000 and above
+const LARGE_PAYOUT_CENTS = 150_000;
+
+async function reviewItem(id: string) {
+  const { data, error } = await supabase.from("manual_review_queue").select("*").eq("id", id).single();
+  if (error) throw new Error(`No review item ${id}: ${error.message}`);
+  return data;
+}
+
+integrationTest("payout-now parks a payout above the threshold instead of paying it", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 200_000 });
+
+  try {
+    const res = await invoke(payoutNow, { amount_cents: LARGE_PAYOUT_CENTS }, newOperation());
+
+    assertEquals(res.status, 202);
+    assertEquals(res.body.approval_required, true);
+    assertEquals(res.body.amount_cents, LARGE_PAYOUT_CENTS);
+    assertEquals(stripe.callsTo("payouts.create").length, 0);
+
+    const item = await reviewItem(res.body.review_id);
+    assertEquals(item.status, "pending");
+    assertEquals(item.function_name, "payout-now");
+    assertEquals(item.request_body, { amount_cents: LARGE_PAYOUT_CENTS });
+    assertEquals(item.details.plan.amount_cents, LARGE_PAYOUT_CENTS);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("payout-now runs an approved payout once", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 200_000 });
+
+  try {
+    const parked = await invoke(payoutNow, { amount_cents: LARGE_PAYOUT_CENTS }, newOperation());
+    // What payout-approvals records once a second treasurer approves
+    await supabase.from("manual_review_queue").update({ status: "approved" }).eq("id", parked.body.review_id);
+
+    const first = await invoke(payoutNow, { amount_cents: LARGE_PAYOUT_CENTS, approval_id: parked.body.review_id });
+    assertEquals(first.status, 200);
+    assertEquals(stripe.callsTo("payouts.create").length, 1);
+    assertEquals((await reviewItem(parked.body.review_id)).status, "executing");
+
+    const second = await invoke(payoutNow, { amount_cents: LARGE_PAYOUT_CENTS, approval_id: parked.body.review_id });
+    assertEquals(second.status, 409);
+    assertEquals(second.body.error_code, "approval_not_usable");
+    assertEquals(stripe.callsTo("payouts.create").length, 1);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("payout-now refuses a payout it could not recognise on retry", async () => {
+  await resetFailsafe(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(payoutNow, { amount_cents: 1000 });
+
+    assertEquals(res.status, 400);
+    assertEquals(res.body.error_code, "idempotency_key_required");
+    assertEquals(stripe.callsTo("payouts.create").length, 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("payout-approvals only lets signed-in users approve", async () => {
+  const { restore } = installFakeStripe({ availableCents: 200_000 });
+
+  try {
+    const parked = await invoke(payoutNow, { amount_cents: LARGE_PAYOUT_CENTS }, newOperation());
+    const res = await invoke(payoutApprovals, { action: "approve", review_id: parked.body.review_id });
+
+    assertEquals(res.status, 403);
+    assertEquals(res.body.error_code, "approver_must_be_user");
+    assertEquals((await reviewItem(parked.body.review_id)).status, "pending");
+  } finally {
+    restore();
+  }
+});
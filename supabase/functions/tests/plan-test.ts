@@ -0,0 +1,41 @@
+import { assertEquals, assertNotEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { HttpError } from "../_shared/envelope.ts";
+import { movementJournal } from "../_shared/ledger.ts";
+import { money } from "../_shared/money.ts";
+import { PlanBuilder, assertPlanUnchanged, readRunMode } from "../_shared/plan.ts";
+
+function payoutPlan(executionId: string, amountCents: number) {
+  return new PlanBuilder("payout-now", executionId)
+    .call("stripe", "payouts.create", {
+      amount: amountCents,
+      currency: "usd",
+      description: `Payout for ${executionId}`,
+      metadata: { execution_id: executionId, at: new Date().toISOString() },
+    }, `payout-now:${executionId}`)
+    .post(movementJournal("payout", money(amountCents), `payout:${executionId}`, "Payout"))
+    .build("Pay out", amountCents);
+}
+
+Deno.test("plan hash ignores execution IDs and metadata", async () => {
+  const preview = await payoutPlan("payout_1", 2500);
+  const run = await payoutPlan("payout_2", 2500);
+  assertEquals(run.plan_hash, preview.plan_hash);
+});
+
+Deno.test("plan hash changes when the amount moved changes", async () => {
+  const preview = await payoutPlan("payout_1", 2500);
+  const run = await payoutPlan("payout_2", 2600);
+  assertNotEquals(run.plan_hash, preview.plan_hash);
+
+  const error = assertThrows(() => assertPlanUnchanged(run, preview.plan_hash), HttpError);
+  assertEquals(error.status, 409);
+  assertEquals(error.code, "plan_changed");
+});
+
+Deno.test("readRunMode accepts dry_run and plan mode", () => {
+  assertEquals(readRunMode({ dry_run: true }).dryRun, true);
+  assertEquals(readRunMode({ mode: "plan" }).dryRun, true);
+  assertEquals(readRunMode({ dry_run: "yes" }).dryRun, false);
+  assertEquals(readRunMode({ plan_hash: "abc" }), { dryRun: false, planHash: "abc" });
+  assertEquals(readRunMode(null), { dryRun: false, planHash: null });
+});
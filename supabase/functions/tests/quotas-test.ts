@@ -0,0 +1,43 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { overageCharge, parsePlan, usagePeriod } from "../_shared/plans.ts";
+import { HttpError } from "../_shared/envelope.ts";
+import { money } from "../_shared/money.ts";
+
+Deno.test("a plan's quotas are read from its checkout config", () => {
+  const plan = parsePlan(
+    "pro",
+    '{"price_id": "price_pro", "name": "Pro", "monthly_requests": 10000, "monthly_tokens": 5000000, "overage_price_id": "price_over", "overage_unit_amount": 2}',
+  );
+  assertEquals(plan.monthly_requests, 10000);
+  assertEquals(plan.monthly_tokens, 5000000);
+  assertEquals(plan.overage_price_id, "price_over");
+  assertEquals(plan.overage_unit_amount, 2);
+
+  // A plan configured before quotas existed is unlimited and has no overage
+  const legacy = parsePlan("basic", '{"price_id": "price_basic"}');
+  assertEquals([legacy.name, legacy.monthly_requests, legacy.monthly_tokens, legacy.overage_price_id], ["basic", null, null, null]);
+
+  assertThrows(() => parsePlan("broken", '{"name": "No price"}'), HttpError);
+});
+
+Deno.test("quotas count over the subscription's billing period", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+  assertEquals(usagePeriod("2026-02-20T00:00:00Z", "2026-03-20T00:00:00Z", now), {
+    start: "2026-02-20T00:00:00.000Z",
+    end: "2026-03-20T00:00:00.000Z",
+  });
+});
+
+Deno.test("without a current billing period, quotas count over the calendar month", () => {
+  const now = new Date("2026-12-31T23:00:00Z");
+  const month = { start: "2026-12-01T00:00:00.000Z", end: "2027-01-01T00:00:00.000Z" };
+  assertEquals(usagePeriod(null, null, now), month);
+  // A period Stripe has not renewed yet
+  assertEquals(usagePeriod("2026-11-01T00:00:00Z", "2026-12-01T00:00:00Z", now), month);
+});
+
+Deno.test("overage is charged per unit at the plan's price", () => {
+  const plan = parsePlan("pro", '{"price_id": "price_pro", "overage_unit_amount": 2}');
+  assertEquals(overageCharge(3, plan), money(6));
+  assertEquals(overageCharge(0, plan), money(0));
+});
@@ -0,0 +1,80 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { HandlerContext } from "../_shared/handler.ts";
+import {
+  RevenueTaskError,
+  defineTask,
+  retryDelayMs,
+  runRevenueTask,
+  taskTypesFor,
+  type RevenueTask,
+  type TaskRegistry,
+} from "../_shared/revenue-tasks.ts";
+
+const task = (overrides: Partial<RevenueTask>): RevenueTask => ({
+  id: "task-1",
+  task_type: "echo",
+  payload: {},
+  priority: 0,
+  status: "processing",
+  worker_id: "worker-1",
+  retry_count: 0,
+  max_retries: 3,
+  result: null,
+  error_message: null,
+  available_at: "2026-10-19T10:00:00.000Z",
+  lease_expires_at: "2026-10-19T10:01:00.000Z",
+  heartbeat_at: "2026-10-19T10:00:00.000Z",
+  started_at: "2026-10-19T10:00:00.000Z",
+  completed_at: null,
+  created_at: "2026-10-19T09:59:00.000Z",
+  ...overrides,
+});
+
+// The handlers here never touch the context
+const ctx = {} as HandlerContext;
+
+const registry: TaskRegistry = {
+  echo: defineTask<{ text: string }>({
+    workerType: "analysis",
+    parsePayload: (payload) => {
+      const text = (payload as { text?: unknown }).text;
+      if (typeof text !== "string") throw new RevenueTaskError("text must be a string", false);
+      return { text };
+    },
+    run: (payload) => Promise.resolve({ echoed: payload.text }),
+  }),
+  flaky: defineTask<Record<string, never>>({
+    workerType: "transfer",
+    parsePayload: () => ({}),
+    run: () => Promise.reject(new Error("connection reset")),
+    retry: { baseDelayMs: 1000 },
+  }),
+};
+
+Deno.test("retry delays double up to the cap, less up to a fifth of jitter", () => {
+  const policy = { baseDelayMs: 1000, maxDelayMs: 5000 };
+  assertEquals([1, 2, 3, 4, 5].map((attempt) => retryDelayMs(attempt, policy, () => 0)), [1000, 2000, 4000, 5000, 5000]);
+  assertEquals(retryDelayMs(2, policy, () => 1), 1600);
+});
+
+Deno.test("a task runs the handler registered for its type", async () => {
+  assertEquals(await runRevenueTask(registry, task({ payload: { text: "hi" } }), ctx), { ok: true, result: { echoed: "hi" } });
+  assertEquals(taskTypesFor(registry, "analysis"), ["echo"]);
+  assertEquals(taskTypesFor(registry, "optimization"), []);
+});
+
+Deno.test("transient failures back off; bad payloads and unknown types do not retry", async () => {
+  const failed = await runRevenueTask(registry, task({ task_type: "flaky", retry_count: 2 }), ctx);
+  assertEquals(failed.ok, false);
+  if (!failed.ok) {
+    assertEquals(failed.retryable, true);
+    // Third attempt: 4x the base, less up to a fifth
+    assertEquals(failed.retryDelayMs >= 3200 && failed.retryDelayMs <= 4000, true);
+  }
+
+  const badPayload = await runRevenueTask(registry, task({ payload: { text: 7 } }), ctx);
+  assertEquals(badPayload, { ok: false, error: "text must be a string", retryable: false, retryDelayMs: 0 });
+
+  const unknown = await runRevenueTask(registry, task({ task_type: "mystery" }), ctx);
+  assertEquals(unknown, { ok: false, error: "No handler for task type mystery", retryable: false, retryDelayMs: 0 });
+});
@@ -0,0 +1,117 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { CronError, nextRun, parseBlackoutWindows, parseCron, runsBetween } from "../_shared/cron.ts";
+import { SchedulerError, parseJobDefinition, planDueRuns, type ScheduledJob } from "../_shared/scheduler.ts";
+
+const at = (iso: string) => new Date(iso);
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+Deno.test("parseCron accepts lists, ranges, steps, names and shorthands", () => {
+  const schedule = parseCron("5/20 9-17 * JAN,jul MON-FRI");
+  assertEquals(schedule.minutes, [5, 25, 45]);
+  assertEquals(schedule.hours, [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assertEquals([...schedule.months], [1, 7]);
+  assertEquals([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+  assertEquals([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+  assertEquals(parseCron("@daily").minutes, [0]);
+
+  for (const bad of ["* * * *", "60 * * * *", "5-1 * * * *", "*/0 * * * *", "* * * FOO *"]) {
+    assertThrows(() => parseCron(bad), CronError);
+  }
+});
+
+Deno.test("nextRun follows the job's time zone", () => {
+  const weekdays = parseCron("0 9 * * 1-5");
+  // Friday 16 October 2026, 14:00 in London; the next weekday 09:00 BST is Monday's
+  assertEquals(iso(nextRun(weekdays, at("2026-10-16T13:00:00Z"), "Europe/London")), "2026-10-19T08:00:00.000Z");
+  // After the clocks go back, 09:00 is 09:00 UTC
+  assertEquals(iso(nextRun(weekdays, at("2026-10-26T12:00:00Z"), "Europe/London")), "2026-10-27T09:00:00.000Z");
+  assertEquals(nextRun(parseCron("0 0 30 2 *"), at("2026-01-01T00:00:00Z")), null);
+});
+
+Deno.test("DST gaps shift a run and repeated hours run once", () => {
+  const nightly = parseCron("30 2 * * *");
+  // 02:30 does not happen in New York on 8 March 2026; it runs at 03:30 EDT
+  assertEquals(iso(nextRun(nightly, at("2026-03-07T12:00:00Z"), "America/New_York")), "2026-03-08T07:30:00.000Z");
+
+  // 01:00-01:59 happens twice on 1 November 2026
+  const halfHourly = runsBetween(parseCron("*/30 * * * *"), at("2026-11-01T04:59:00Z"), at("2026-11-01T07:00:00Z"), "America/New_York");
+  assertEquals(halfHourly.map(iso), ["2026-11-01T05:00:00.000Z", "2026-11-01T05:30:00.000Z", "2026-11-01T07:00:00.000Z"]);
+});
+
+Deno.test("blackout windows skip weekends and holidays", () => {
+  const windows = parseBlackoutWindows([{ days: [0, 6] }, { dates: ["2026-10-19"], label: "Bank holiday" }]);
+  // Friday 16 October: Saturday, Sunday and the Monday holiday are skipped
+  assertEquals(iso(nextRun(parseCron("@daily"), at("2026-10-16T00:00:00Z"), "UTC", windows)), "2026-10-20T00:00:00.000Z");
+
+  const evenings = parseBlackoutWindows([{ start: "18:00", end: "23:00" }]);
+  assertEquals(iso(nextRun(parseCron("0 * * * *"), at("2026-10-20T17:30:00Z"), "UTC", evenings)), "2026-10-20T23:00:00.000Z");
+
+  assertThrows(() => parseBlackoutWindows([{}]), CronError);
+  assertThrows(() => parseBlackoutWindows([{ start: "25:00" }]), CronError);
+});
+
+const job = (overrides: Partial<ScheduledJob>): ScheduledJob => ({
+  id: "job-1",
+  name: "sweep",
+  description: null,
+  cron_expression: "0 * * * *",
+  timezone: "UTC",
+  function_name: "recover-sweeps",
+  payload: {},
+  run_as_role: "operator",
+  enabled: true,
+  missed_run_policy: "skip",
+  max_catch_up: 5,
+  blackout_windows: [],
+  lock_timeout_minutes: 30,
+  next_run_at: "2026-10-19T10:00:00.000Z",
+  last_run_at: null,
+  last_finished_at: null,
+  last_status: null,
+  last_error: null,
+  running_since: null,
+  running_execution_id: null,
+  created_at: "2026-10-01T00:00:00.000Z",
+  updated_at: "2026-10-01T00:00:00.000Z",
+  updated_by: null,
+  ...overrides,
+});
+
+Deno.test("a run due now is made under either policy", () => {
+  for (const policy of ["skip", "catch_up"] as const) {
+    const plan = planDueRuns(job({ missed_run_policy: policy }), at("2026-10-19T10:00:30Z"));
+    assertEquals(plan.run.map(iso), ["2026-10-19T10:00:00.000Z"]);
+    assertEquals(plan.skippedFrom, null);
+    assertEquals(iso(plan.next), "2026-10-19T11:00:00.000Z");
+  }
+});
+
+Deno.test("the skip policy drops missed runs", () => {
+  // Down from 10:00 until 13:02: only 13:00 is still within the grace period
+  const late = planDueRuns(job({}), at("2026-10-19T13:02:00Z"));
+  assertEquals(late.run.map(iso), ["2026-10-19T13:00:00.000Z"]);
+  assertEquals(iso(late.skippedFrom), "2026-10-19T10:00:00.000Z");
+  assertEquals(iso(late.next), "2026-10-19T14:00:00.000Z");
+
+  const tooLate = planDueRuns(job({}), at("2026-10-19T13:30:00Z"));
+  assertEquals(tooLate.run, []);
+  assertEquals(iso(tooLate.skippedFrom), "2026-10-19T10:00:00.000Z");
+});
+
+Deno.test("the catch-up policy makes missed runs in order, a few per tick", () => {
+  const plan = planDueRuns(job({ missed_run_policy: "catch_up", max_catch_up: 2 }), at("2026-10-19T13:30:00Z"));
+  assertEquals(plan.run.map(iso), ["2026-10-19T10:00:00.000Z", "2026-10-19T11:00:00.000Z"]);
+  // 12:00 and 13:00 are still owed, so the next tick picks them up
+  assertEquals(iso(plan.next), "2026-10-19T12:00:00.000Z");
+});
+
+Deno.test("parseJobDefinition validates the schedule and fills in defaults", () => {
+  const definition = parseJobDefinition({ name: "nightly-sweep", cron_expression: "@daily", function_name: "recover-sweeps" });
+  assertEquals(definition.timezone, "UTC");
+  assertEquals(definition.missed_run_policy, "skip");
+  assertEquals(definition.run_as_role, "operator");
+
+  assertThrows(() => parseJobDefinition({ name: "x", cron_expression: "daily", function_name: "recover-sweeps" }), SchedulerError);
+  assertThrows(() => parseJobDefinition({ name: "x", cron_expression: "@daily", timezone: "Mars/Olympus", function_name: "f" }), SchedulerError);
+  assertThrows(() => parseJobDefinition({ name: "x", cron_expression: "@daily", function_name: "f", run_as_role: "root" }), SchedulerError);
+});
@@ -0,0 +1,80 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { formatSseEvent, parseSseEvents } from "../_shared/sse.ts";
+import { proxyCompletionStream, readChunk, type StreamOutcome } from "../ai-content-api/stream.ts";
+
+const encoder = new TextEncoder();
+
+const chunk = (content: string) => formatSseEvent({ choices: [{ delta: { content } }] });
+
+// An upstream response that sends `parts` and then either ends or hangs
+function upstream(parts: string[], end = true): Response {
+  let index = 0;
+  return new Response(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < parts.length) {
+        controller.enqueue(encoder.encode(parts[index++]));
+      } else if (end) {
+        controller.close();
+      } else {
+        return new Promise(() => {});
+      }
+    },
+  }));
+}
+
+function recordingSettle() {
+  const outcomes: StreamOutcome[] = [];
+  let resolveSettled: () => void;
+  const settledOnce = new Promise<void>((resolve) => (resolveSettled = resolve));
+  const settle = (outcome: StreamOutcome) => {
+    outcomes.push(outcome);
+    resolveSettled();
+    return Promise.resolve({ usage: { completion_tokens: outcome.content.length } });
+  };
+  return { outcomes, settle, settledOnce };
+}
+
+Deno.test("events split across reads are only parsed once complete", () => {
+  const first = parseSseEvents("data: one\n\nevent: usage\ndata: {\"a\"");
+  assertEquals(first.events, [{ event: "message", data: "one" }]);
+  const second = parseSseEvents(first.rest + ":1}\r\n\r\n: keep-alive\n\n");
+  assertEquals(second.events, [{ event: "usage", data: "{\"a\":1}" }]);
+  assertEquals(second.rest, "");
+});
+
+Deno.test("deltas and usage are read from chat-completions chunks", () => {
+  assertEquals(readChunk('{"choices":[{"delta":{"content":"Hi"}}]}'), { delta: "Hi", usage: null });
+  assertEquals(readChunk('{"choices":[],"usage":{"total_tokens":3}}'), { delta: "", usage: { total_tokens: 3 } });
+  assertEquals(readChunk("not json"), { delta: "", usage: null });
+});
+
+Deno.test("a finished stream is proxied and settled once, ending with usage", async () => {
+  const { outcomes, settle } = recordingSettle();
+  const usage = { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 };
+  const parts = [
+    chunk("Hello"),
+    chunk(" wor").slice(0, 10),
+    chunk(" wor").slice(10),
+    chunk("ld"),
+    formatSseEvent({ choices: [], usage }),
+    formatSseEvent("[DONE]"),
+  ];
+  const text = await proxyCompletionStream(upstream(parts), "exec_test", settle).text();
+
+  assertEquals(outcomes, [{ content: "Hello world", usage, completed: true }]);
+  const events = parseSseEvents(text).events;
+  assertEquals(events.map((event) => event.event), ["message", "message", "message", "message", "usage", "message"]);
+  assertEquals(JSON.parse(events[4].data), { usage: { completion_tokens: 11 } });
+  assertEquals(events[5].data, "[DONE]");
+});
+
+Deno.test("a caller that disconnects is billed for what was generated", async () => {
+  const { outcomes, settle, settledOnce } = recordingSettle();
+  const response = proxyCompletionStream(upstream([chunk("Partial")], false), "exec_test", settle);
+  const reader = response.body!.getReader();
+  await reader.read();
+  await reader.cancel();
+  await settledOnce;
+
+  assertEquals(outcomes, [{ content: "Partial", usage: null, completed: false }]);
+});
@@ -0,0 +1,97 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { recordPayout } from "../_shared/ledger.ts";
+import { fromMajorUnits } from "../_shared/money.ts";
+import { handler } from "../stripe-reconciliation/handler.ts";
+import { handler as stripeRevenueTransfer } from "../stripe-revenue-transfer/handler.ts";
+import { installFakeStripe, integrationTest, invoke, newOperation, resetFailsafe, resetLedger, seedApplicationBalance, seedVerifiedDestination, serviceClient } from "./harness.ts";
+
+const supabase = serviceClient();
+
+async function rowsFor(runId: string) {
+  const { data, error } = await supabase
+    .from("stripe_reconciliation")
+    .select("stripe_object_id, reconciliation_status, amount_stripe, amount_internal, variance")
+    .eq("run_id", runId);
+  if (error) throw new Error(`Failed to read reconciliation rows: ${error.message}`);
+  return new Map((data ?? []).map((row) => [row.stripe_object_id, row]));
+}
+
+integrationTest("stripe-reconciliation matches recorded transfers and reports breaks on both sides", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 25);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const transfer = await invoke(stripeRevenueTransfer, {}, newOperation());
+    assertEquals(transfer.status, 200);
+
+    // Stripe paid out money nothing here recorded
+    stripe.transactions.push({
+      id: "txn_unrecorded",
+      object: "balance_transaction",
+      type: "payout",
+      source: "po_unrecorded",
+      currency: "usd",
+      amount: -700,
+      fee: 0,
+      net: -700,
+      created: Math.floor(Date.now() / 1000),
+    });
+    // The ledger has a payout Stripe never made
+    await recordPayout(supabase, fromMajorUnits(3), "payout:po_phantom", "Phantom payout");
+
+    const to = new Date(Date.now() + 60_000).toISOString();
+    const res = await invoke(handler, { to, window_hours: 1 });
+
+    assertEquals(res.status, 200);
+    const rows = await rowsFor(res.body.run_id);
+
+    assertEquals(rows.get(transfer.body.stripe_transfer_id)?.reconciliation_status, "matched");
+    assertEquals(rows.get(transfer.body.stripe_transfer_id)?.amount_internal, 25);
+    assertEquals(rows.get("po_unrecorded")?.reconciliation_status, "missing_internal");
+    assertEquals(rows.get("po_unrecorded")?.amount_stripe, 7);
+    assertEquals(rows.get("po_phantom")?.reconciliation_status, "missing_stripe");
+    assertEquals(rows.get("po_phantom")?.variance, -3);
+
+    const { data: run } = await supabase
+      .from("stripe_reconciliation_runs")
+      .select("status")
+      .eq("id", res.body.run_id)
+      .single();
+    assertEquals(run?.status, "completed");
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-reconciliation flags a transfer whose recorded amount differs from Stripe", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const transfer = await invoke(stripeRevenueTransfer, {}, newOperation());
+    const txn = stripe.transactions.find((t) => t.source === transfer.body.stripe_transfer_id)!;
+    txn.amount = -1100;
+
+    const res = await invoke(handler, { to: new Date(Date.now() + 60_000).toISOString(), window_hours: 1 });
+    const row = (await rowsFor(res.body.run_id)).get(transfer.body.stripe_transfer_id);
+
+    assertEquals(row?.reconciliation_status, "variance");
+    assertEquals(row?.amount_stripe, 11);
+    assertEquals(row?.variance, 1);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-reconciliation rejects an empty window", async () => {
+  const now = new Date().toISOString();
+  const res = await invoke(handler, { from: now, to: now });
+  assertEquals(res.status, 400);
+  assertEquals(res.body.error_code, "invalid_window");
+});
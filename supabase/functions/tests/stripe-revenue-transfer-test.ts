@@ -0,0 +1,286 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance } from "../_shared/ledger.ts";
+import { handler } from "../stripe-revenue-transfer/handler.ts";
+import { installFakeStripe, integrationTest, invoke, newOperation, resetFailsafe, resetLedger, seedApplicationBalance, seedVerifiedDestination, serviceClient } from "./harness.ts";
+
+const supabase = serviceClient();
+
+async function transferAttempt(executionId: string) {
+  const { data, error } = await supabase
+    .from("transfer_attempts")
+    .select("*")
+    .eq("metadata->>execution_id", executionId)
+    .single();
+  if (error) throw new Error(`No transfer attempt for ${executionId}: ${error.message}`);
+  return data;
+}
+
+integrationTest("stripe-revenue-transfer moves the application balance and posts it to the ledger", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 25);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.amount_cents, 2500);
+    assertEquals(stripe.transfersById.size, 1);
+    assertEquals(stripe.available.usd, 7500);
+
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 0);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS), 25);
+
+    const attempt = await transferAttempt(res.body.execution_id);
+    assertEquals(attempt.status, "paid");
+    assertEquals(attempt.stripe_transfer_id, res.body.stripe_transfer_id);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer retries rate limits and connection errors with one idempotency key", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "rate_limit");
+  stripe.failNext("transfers.create", "api_connection_error");
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 200);
+    const calls = stripe.callsTo("transfers.create");
+    assertEquals(calls.length, 3);
+    assert(calls.every((call) => call.idempotencyKey === calls[0].idempotencyKey));
+    assertEquals(stripe.transfersById.size, 1);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer does not retry insufficient funds and leaves the ledger untouched", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "insufficient_funds");
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 502);
+    assertEquals(res.body.error_code, "transfer_failed");
+    assertEquals(res.body.balance_unchanged, true);
+    assertEquals(stripe.callsTo("transfers.create").length, 1);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 10);
+
+    const attempt = await transferAttempt(res.body.execution_id);
+    assertEquals(attempt.status, "failed");
+    assertEquals(attempt.error_code, "insufficient_funds");
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer leaves a transfer of unknown outcome submitted, not failed", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "api_connection_error", 4);
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 502);
+    assertEquals(res.body.error_code, "transfer_outcome_unknown");
+    assertEquals(stripe.callsTo("transfers.create").length, 4);
+
+    // fix-failed-transfers only picks up failed attempts
+    const attempt = await transferAttempt(res.body.execution_id);
+    assertEquals(attempt.status, "submitted");
+    assertEquals(attempt.error_code, "StripeConnectionError");
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer holds back the amount of a transfer of unknown outcome", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("transfers.create", "api_connection_error", 4);
+
+  try {
+    assertEquals((await invoke(handler, {}, newOperation())).status, 502);
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 400);
+    assertEquals(res.body.error_code, "invalid_amount");
+    assertEquals(res.body.in_flight_cents, 1000);
+    assertEquals(stripe.callsTo("transfers.create").length, 4);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer refuses a transfer without an Idempotency-Key", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler);
+
+    assertEquals(res.status, 400);
+    assertEquals(res.body.error_code, "idempotency_key_required");
+    assertEquals(stripe.calls.length, 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer rejects balances below the Stripe minimum without calling Stripe", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 0.2);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 400);
+    assertEquals(res.body.error_code, "invalid_amount");
+    assertEquals(res.body.validation_failed, true);
+    assertEquals(stripe.calls.length, 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer replays the stored response for a repeated Idempotency-Key", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 12);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  const headers = { "Idempotency-Key": `test_${crypto.randomUUID()}` };
+
+  try {
+    const first = await invoke(handler, {}, { headers });
+    await seedApplicationBalance(supabase, 5);
+    const second = await invoke(handler, {}, { headers });
+
+    assertEquals(first.status, 200);
+    assertEquals(second.status, 200);
+    assertEquals(second.headers.get("Idempotent-Replayed"), "true");
+    assertEquals(second.body.stripe_transfer_id, first.body.stripe_transfer_id);
+    assertEquals(stripe.transfersById.size, 1);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 5);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer refuses to transfer until a destination is verified", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 10);
+  await seedVerifiedDestination(supabase);
+  await supabase.from("stripe_destinations").update({ verification_status: "unverified" }).eq("currency", "usd");
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 503);
+    assertEquals(res.body.error_code, "no_verified_destination");
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 10);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer enforces the destination's per-transfer limit", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 30);
+  await seedVerifiedDestination(supabase, { max_transfer_cents: 2000 });
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler, {}, newOperation());
+
+    assertEquals(res.status, 422);
+    assertEquals(res.body.error_code, "destination_limit_exceeded");
+    assertEquals(res.body.max_transfer_cents, 2000);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+  } finally {
+    restore();
+    await seedVerifiedDestination(supabase);
+  }
+});
+
+integrationTest("stripe-revenue-transfer dry run returns the plan without touching Stripe or the ledger", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 15);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const res = await invoke(handler, { dry_run: true });
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.dry_run, true);
+    assertEquals(res.body.plan.provider_calls.length, 1);
+    assertEquals(res.body.plan.provider_calls[0].method, "transfers.create");
+    assertEquals(res.body.plan.provider_calls[0].params.amount, 1500);
+    assertEquals(res.body.plan.ledger_postings[0].lines, [
+      { account_code: LEDGER_ACCOUNTS.CONNECTED_ACCOUNTS, debit: 15 },
+      { account_code: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: 15 },
+    ]);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 15);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("stripe-revenue-transfer refuses to execute a plan that changed since the preview", async () => {
+  await resetLedger(supabase);
+  await resetFailsafe(supabase);
+  await seedApplicationBalance(supabase, 15);
+  await seedVerifiedDestination(supabase);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+
+  try {
+    const preview = await invoke(handler, { dry_run: true });
+    await seedApplicationBalance(supabase, 5);
+    const res = await invoke(handler, { plan_hash: preview.body.plan.plan_hash }, newOperation());
+
+    assertEquals(res.status, 409);
+    assertEquals(res.body.error_code, "plan_changed");
+    assertEquals(res.body.plan.provider_calls[0].params.amount, 2000);
+    assertEquals(stripe.callsTo("transfers.create").length, 0);
+
+    const approved = await invoke(handler, { plan_hash: res.body.plan.plan_hash }, newOperation());
+    assertEquals(approved.status, 200);
+    assertEquals(approved.body.amount_cents, 2000);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,164 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance, recordPayout } from "../_shared/ledger.ts";
+import { money } from "../_shared/money.ts";
+import { signStripePayload } from "../_shared/stripe-webhooks.ts";
+import { handler } from "../stripe-webhook/handler.ts";
+import { handler as replay } from "../replay-stripe-events/handler.ts";
+import { hasLocalStack, integrationTest, invoke, resetLedger, serviceClient } from "./harness.ts";
+
+const SECRET = "whsec_test";
+Deno.env.set("STRIPE_WEBHOOK_SECRET", SECRET);
+if (!hasLocalStack) {
+  Deno.env.set("SUPABASE_URL", "http://127.0.0.1:54321");
+}
+
+function payoutEvent(type: "payout.paid" | "payout.failed", payoutId: string, amountCents: number) {
+  return {
+    id: `evt_${crypto.randomUUID().replaceAll("-", "")}`,
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: {
+      object: {
+        id: payoutId,
+        object: "payout",
+        amount: amountCents,
+        currency: "usd",
+        status: type === "payout.paid" ? "paid" : "failed",
+        method: "standard",
+        arrival_date: Math.floor(Date.now() / 1000),
+        description: null,
+        metadata: {},
+        failure_code: type === "payout.failed" ? "account_closed" : null,
+        failure_message: type === "payout.failed" ? "The bank account has been closed" : null,
+      },
+    },
+  };
+}
+
+async function deliver(event: unknown, secret = SECRET) {
+  const signature = await signStripePayload(JSON.stringify(event), secret);
+  return invoke(handler, event, { authenticated: false, headers: { "Stripe-Signature": signature } });
+}
+
+// A transfer attempt whose corrective payout is on its way to the bank
+async function insertPendingPayout(payoutId: string, amountCents: number): Promise<string> {
+  const supabase = serviceClient();
+  const id = crypto.randomUUID();
+  await supabase.from("transfer_attempts").insert({ id, amount: amountCents, currency: "usd", status: "created" });
+  await supabase.from("transfer_attempts").update({ status: "submitted" }).eq("id", id);
+  const { error } = await supabase
+    .from("transfer_attempts")
+    .update({ status: "pending_at_provider", corrected_transfer_id: payoutId })
+    .eq("id", id);
+  if (error) throw new Error(`Failed to seed transfer: ${error.message}`);
+  await recordPayout(supabase, money(amountCents), `payout:${payoutId}`, "Test payout");
+  return id;
+}
+
+Deno.test("stripe-webhook rejects events without a valid signature", async () => {
+  const event = payoutEvent("payout.paid", "po_unsigned", 100);
+
+  const unsigned = await invoke(handler, event, { authenticated: false });
+  assertEquals(unsigned.status, 400);
+  assertEquals(unsigned.body.error_code, "invalid_signature");
+
+  const forged = await deliver(event, "whsec_other");
+  assertEquals(forged.status, 400);
+  assertEquals(forged.body.error_code, "invalid_signature");
+
+  const stale = await signStripePayload(JSON.stringify(event), SECRET, Math.floor(Date.now() / 1000) - 3600);
+  const replayed = await invoke(handler, event, { authenticated: false, headers: { "Stripe-Signature": stale } });
+  assertEquals(replayed.status, 400);
+});
+
+integrationTest("stripe-webhook settles a paid payout once, however often Stripe delivers it", async () => {
+  const supabase = serviceClient();
+  await resetLedger(supabase);
+  const payoutId = `po_${crypto.randomUUID().slice(0, 8)}`;
+  const transferId = await insertPendingPayout(payoutId, 4200);
+  const event = payoutEvent("payout.paid", payoutId, 4200);
+
+  const first = await deliver(event);
+  const second = await deliver(event);
+
+  assertEquals(first.status, 200);
+  assertEquals(second.status, 200);
+  assertEquals(second.body.duplicate, true);
+
+  const { data: transfer } = await supabase.from("transfer_attempts").select("status").eq("id", transferId).single();
+  assertEquals(transfer?.status, "paid");
+  assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT), 0);
+  assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.BANK_ACCOUNT), 42);
+
+  const { data: stored } = await supabase.from("stripe_webhook_events").select("processed").eq("event_id", event.id);
+  assertEquals(stored, [{ processed: true }]);
+});
+
+integrationTest("stripe-webhook returns a failed payout to the balance and replays leave it alone", async () => {
+  const supabase = serviceClient();
+  await resetLedger(supabase);
+  const payoutId = `po_${crypto.randomUUID().slice(0, 8)}`;
+  const transferId = await insertPendingPayout(payoutId, 1000);
+  const event = payoutEvent("payout.failed", payoutId, 1000);
+
+  const res = await deliver(event);
+  assertEquals(res.status, 200);
+
+  const { data: transfer } = await supabase
+    .from("transfer_attempts")
+    .select("status, error_code")
+    .eq("id", transferId)
+    .single();
+  assertEquals(transfer, { status: "failed", error_code: "account_closed" });
+  assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 0);
+  assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT), 0);
+
+  // Replaying an event that already went through posts nothing new
+  const replayed = await invoke(replay, { event_ids: [event.id] });
+  assertEquals(replayed.status, 200);
+  assertEquals(replayed.body.processed, 1);
+  assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 0);
+});
+
+function subscriptionEvent(subscriptionId: string, status: string, created: number) {
+  return {
+    id: `evt_${crypto.randomUUID().replaceAll("-", "")}`,
+    object: "event",
+    type: "customer.subscription.updated",
+    created,
+    data: {
+      object: {
+        id: subscriptionId,
+        object: "subscription",
+        customer: `cus_${subscriptionId}`,
+        status,
+        items: { data: [] },
+        current_period_start: created,
+        current_period_end: created + 30 * 24 * 60 * 60,
+        cancel_at_period_end: false,
+        canceled_at: null,
+        trial_start: null,
+        trial_end: null,
+        metadata: {},
+      },
+    },
+  };
+}
+
+integrationTest("stripe-webhook ignores a subscription event older than the saved subscription", async () => {
+  const supabase = serviceClient();
+  const subscriptionId = `sub_${crypto.randomUUID().slice(0, 8)}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  assertEquals((await deliver(subscriptionEvent(subscriptionId, "active", now))).status, 200);
+  assertEquals((await deliver(subscriptionEvent(subscriptionId, "incomplete", now - 60))).status, 200);
+
+  const { data: saved } = await supabase
+    .from("stripe_subscriptions")
+    .select("status, last_event_at")
+    .eq("stripe_subscription_id", subscriptionId)
+    .single();
+  assertEquals(saved?.status, "active");
+  assertEquals(new Date(saved?.last_event_at ?? 0).getTime(), now * 1000);
+});
@@ -0,0 +1,112 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { loadEntitlement } from "../_shared/plans.ts";
+import { signStripePayload } from "../_shared/stripe-webhooks.ts";
+import { handler as createCheckout } from "../create-checkout/handler.ts";
+import { handler as stripeWebhook } from "../stripe-webhook/handler.ts";
+import { hasLocalStack, installFakeStripe, integrationTest, invoke, serviceClient } from "./harness.ts";
+
+const SECRET = "whsec_test";
+Deno.env.set("STRIPE_WEBHOOK_SECRET", SECRET);
+if (!hasLocalStack) {
+  Deno.env.set("SUPABASE_URL", "http://127.0.0.1:54321");
+}
+
+function stripeEvent(type: string, object: Record<string, unknown>) {
+  return {
+    id: `evt_${crypto.randomUUID().replaceAll("-", "")}`,
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object },
+  };
+}
+
+async function deliver(event: unknown) {
+  const signature = await signStripePayload(JSON.stringify(event), SECRET);
+  return invoke(stripeWebhook, event, { authenticated: false, headers: { "Stripe-Signature": signature } });
+}
+
+// A confirmed user and an access token for them
+async function signedInUser(): Promise<{ userId: string; email: string; token: string }> {
+  const email = `buyer_${crypto.randomUUID().slice(0, 8)}@example.test`;
+  const password = crypto.randomUUID();
+  const { data, error } = await serviceClient().auth.admin.createUser({ email, password, email_confirm: true });
+  if (error) throw new Error(`Failed to create user: ${error.message}`);
+
+  // A client of its own, so the service client keeps its service-role session
+  const auth = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "", {
+    auth: { persistSession: false },
+  });
+  const { data: session, error: signInError } = await auth.auth.signInWithPassword({ email, password });
+  if (signInError || !session.session) throw new Error(`Failed to sign in: ${signInError?.message}`);
+  return { userId: data.user.id, email, token: session.session.access_token };
+}
+
+Deno.test("create-checkout refuses anonymous visitors", async () => {
+  const res = await invoke(createCheckout, { plan: "basic" }, { authenticated: false });
+  assertEquals(res.status, 401);
+  assertEquals(res.body.error_code, "unauthorized");
+});
+
+integrationTest("a paid checkout entitles the buyer to their plan", async () => {
+  const supabase = serviceClient();
+  const plan = `test_${crypto.randomUUID().slice(0, 8)}`;
+  const priceId = `price_${plan}`;
+  const { error: planError } = await supabase
+    .from("stripe_config")
+    .insert({ key: `checkout_plan.${plan}`, value: JSON.stringify({ price_id: priceId, name: "Test plan", monthly_requests: 10 }) });
+  if (planError) throw new Error(`Failed to seed plan: ${planError.message}`);
+  const { stripe, restore } = installFakeStripe();
+
+  try {
+    const buyer = await signedInUser();
+    const checkout = await invoke(createCheckout, { plan }, {
+      authenticated: false,
+      headers: { Authorization: `Bearer ${buyer.token}` },
+    });
+    assertEquals(checkout.status, 200);
+
+    const [call] = stripe.callsTo("checkout.sessions.create");
+    const params = call.params as { client_reference_id: string; subscription_data: { metadata: Record<string, string> } };
+    assertEquals(params.client_reference_id, buyer.userId);
+    assertEquals(params.subscription_data.metadata.user_id, buyer.userId);
+
+    // What Stripe sends once the buyer pays
+    const customerId = `cus_${plan}`;
+    const subscriptionId = `sub_${plan}`;
+    const completed = await deliver(stripeEvent("checkout.session.completed", {
+      id: `cs_${plan}`,
+      object: "checkout.session",
+      customer: customerId,
+      client_reference_id: params.client_reference_id,
+      customer_details: { email: buyer.email, name: null },
+      subscription: subscriptionId,
+    }));
+    assertEquals(completed.status, 200);
+
+    const now = Math.floor(Date.now() / 1000);
+    const created = await deliver(stripeEvent("customer.subscription.created", {
+      id: subscriptionId,
+      object: "subscription",
+      customer: customerId,
+      status: "active",
+      metadata: params.subscription_data.metadata,
+      items: { data: [{ id: `si_${plan}`, quantity: 1, price: { id: priceId, unit_amount: 1000, currency: "usd", recurring: { interval: "month", usage_type: "licensed" } } }] },
+      current_period_start: now - 60,
+      current_period_end: now + 30 * 24 * 3600,
+      cancel_at_period_end: false,
+    }));
+    assertEquals(created.status, 200);
+
+    const { data: customer } = await supabase.from("stripe_customers").select("user_id").eq("stripe_customer_id", customerId).single();
+    assertEquals(customer?.user_id, buyer.userId);
+
+    const entitlement = await loadEntitlement(supabase, buyer.userId);
+    assertEquals(entitlement.plan.plan, plan);
+    assertEquals(entitlement.stripe_subscription_id, subscriptionId);
+  } finally {
+    restore();
+    await supabase.from("stripe_config").delete().eq("key", `checkout_plan.${plan}`);
+  }
+});
@@ -0,0 +1,102 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { handler as aggregator } from "../comprehensive-usd-aggregator/handler.ts";
+import { handler as recoverSweeps } from "../recover-sweeps/handler.ts";
+import { getLedgerBalance, LEDGER_ACCOUNTS } from "../_shared/ledger.ts";
+import {
+  installFakeStripe,
+  integrationTest,
+  invoke,
+  newOperation,
+  resetFailsafe,
+  resetLedger,
+  seedApplicationBalance,
+  serviceClient,
+} from "./harness.ts";
+
+const supabase = serviceClient();
+
+async function payoutSweep(executionId: string) {
+  const { data, error } = await supabase
+    .from("sweep_batches")
+    .select("*")
+    .eq("execution_id", executionId)
+    .eq("provider_method", "payouts.create")
+    .single();
+  if (error) throw new Error(`No payout sweep for ${executionId}: ${error.message}`);
+  return data;
+}
+
+integrationTest("a sweep Stripe refuses gives the reservation back", async () => {
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  await seedApplicationBalance(supabase, 50);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("payouts.create", "insufficient_funds");
+
+  try {
+    const res = await invoke(aggregator, {}, newOperation());
+
+    assertEquals(res.status, 200);
+    assertEquals(res.body.transfer_results.stripe.success, false);
+    const sweep = await payoutSweep(res.body.execution_id);
+    assertEquals(sweep.status, "released");
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.SWEEP_RESERVE), 0);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("a sweep whose Stripe answer was lost stays reserved until recover-sweeps finalizes it", async () => {
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  await seedApplicationBalance(supabase, 50);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("payouts.create", "api_connection_error");
+
+  try {
+    const res = await invoke(aggregator, {}, newOperation());
+    const sweep = await payoutSweep(res.body.execution_id);
+    assertEquals(sweep.status, "executing");
+    // Held in reserve, so a second run finds nothing to send
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE), 0);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.SWEEP_RESERVE), 50);
+
+    const recovered = await invoke(recoverSweeps, { action: "recover", stale_after_minutes: 0 });
+    assertEquals(recovered.body.finalized, 1);
+
+    const calls = stripe.callsTo("payouts.create");
+    assertEquals(calls.length, 2);
+    assertEquals(calls[1].idempotencyKey, calls[0].idempotencyKey);
+    assertEquals((await payoutSweep(res.body.execution_id)).status, "finalized");
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.SWEEP_RESERVE), 0);
+    assertEquals(await getLedgerBalance(supabase, LEDGER_ACCOUNTS.PAYOUTS_IN_TRANSIT), 50);
+  } finally {
+    restore();
+  }
+});
+
+integrationTest("only one caller can claim each attempt at an executing sweep", async () => {
+  await resetFailsafe(supabase);
+  await resetLedger(supabase);
+  await seedApplicationBalance(supabase, 50);
+  const { stripe, restore } = installFakeStripe({ availableCents: 10_000 });
+  stripe.failNext("payouts.create", "api_connection_error");
+
+  try {
+    const res = await invoke(aggregator, {}, newOperation());
+    const sweep = await payoutSweep(res.body.execution_id);
+    assertEquals(sweep.attempts, 1);
+
+    // A caller that read the batch before the first attempt is turned away
+    const stale = await supabase.rpc("mark_sweep_executing", { p_batch_id: sweep.id, p_attempts: 0 });
+    assertEquals(stale.data, false);
+
+    const claims = await Promise.all([1, 1].map((attempts) =>
+      supabase.rpc("mark_sweep_executing", { p_batch_id: sweep.id, p_attempts: attempts })
+    ));
+    assertEquals(claims.map((claim) => claim.data).sort(), [false, true]);
+    assertEquals((await payoutSweep(res.body.execution_id)).attempts, 2);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,39 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { countTokens, estimatePromptTokens, estimateTokens, providerUsage } from "../_shared/tokens.ts";
+import type { ChatMessage } from "../_shared/model-providers.ts";
+
+const messages: ChatMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Name a colour" },
+];
+
+Deno.test("words are estimated at a token per four characters, punctuation at one each", () => {
+  assertEquals(estimateTokens(""), 0);
+  assertEquals(estimateTokens("Hello, world!"), 6);
+  assertEquals(estimateTokens("internationalisation"), 5);
+  // Each message costs 3 tokens besides its text, and the reply 3 more
+  assertEquals(estimatePromptTokens(messages), 3 + 4 + 3 + 4 + 3);
+});
+
+Deno.test("the provider's usage is preferred to the estimate", () => {
+  assertEquals(countTokens({ prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 }, messages, "Teal."), {
+    prompt_tokens: 12,
+    completion_tokens: 30,
+    total_tokens: 42,
+    estimated: false,
+  });
+});
+
+Deno.test("missing or malformed usage falls back to the estimate", () => {
+  assertEquals(providerUsage(null), null);
+  assertEquals(providerUsage({ prompt_tokens: 12 }), null);
+  assertEquals(providerUsage({ prompt_tokens: -1, completion_tokens: 3 }), null);
+  assertEquals(providerUsage({ prompt_tokens: "12", completion_tokens: 3 }), null);
+
+  assertEquals(countTokens({ prompt_tokens: 12 }, messages, "Teal."), {
+    prompt_tokens: 17,
+    completion_tokens: 2,
+    total_tokens: 19,
+    estimated: true,
+  });
+});
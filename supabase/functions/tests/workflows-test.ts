@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { compensationPlan, resumePoint, type StepStatus, type WorkflowStep } from "../_shared/workflows.ts";
+
+const noop = () => Promise.resolve({});
+const undo = () => Promise.resolve();
+
+// aggregate -> reserve -> payout -> reconcile, as in the ledger sweep
+const steps: WorkflowStep<Record<string, unknown>>[] = [
+  { name: "aggregate", run: noop },
+  { name: "reserve", run: noop, compensate: undo },
+  { name: "payout", run: noop, irreversible: true },
+  { name: "reconcile", run: noop },
+];
+
+const statuses = (...values: StepStatus[]) => values.map((status) => ({ status }));
+
+Deno.test("a resumed run picks up at the first step that did not succeed", () => {
+  assertEquals(resumePoint(statuses("succeeded", "succeeded", "running", "pending")), 2);
+  assertEquals(resumePoint(statuses("pending", "pending", "pending", "pending")), 0);
+  assertEquals(resumePoint(statuses("succeeded", "succeeded", "succeeded", "succeeded")), null);
+});
+
+Deno.test("a failed step undoes the reversible steps before it", () => {
+  assertEquals(compensationPlan(steps, statuses("succeeded", "succeeded", "failed", "pending"), 2), [1]);
+  // Nothing before the failure to undo
+  assertEquals(compensationPlan(steps, statuses("failed", "pending", "pending", "pending"), 0), []);
+});
+
+Deno.test("compensation stops at an irreversible step", () => {
+  assertEquals(compensationPlan(steps, statuses("succeeded", "succeeded", "succeeded", "failed"), 3), []);
+});
+
+Deno.test("resumed compensation skips steps already undone and redoes a half-undone one", () => {
+  const reversible: WorkflowStep<Record<string, unknown>>[] = [
+    { name: "hold_a", run: noop, compensate: undo },
+    { name: "hold_b", run: noop, compensate: undo },
+    { name: "hold_c", run: noop, compensate: undo },
+    { name: "send", run: noop },
+  ];
+  assertEquals(compensationPlan(reversible, statuses("succeeded", "compensating", "compensated", "failed"), 3), [1, 0]);
+});
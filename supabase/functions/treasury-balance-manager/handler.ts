@@ -0,0 +1,155 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createHandler } from "../_shared/handler.ts";
+import { ok } from "../_shared/envelope.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance, postJournal, type JournalPosting } from "../_shared/ledger.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { formatMajorUnits, fromMajorUnits, minorUnits } from "../_shared/money.ts";
+import { PlanBuilder, assertPlanUnchanged, planResponse, readRunMode } from "../_shared/plan.ts";
+
+export const handler = createHandler({ name: "treasury-balance-manager", executionPrefix: "treasury", role: "viewer" }, async ({ req, executionId, supabase, auth }) => {
+  const body = await req.json();
+  const { action, amount } = body;
+  const { dryRun, planHash } = readRunMode(body);
+
+  if (action === 'add_real_money') {
+    // Add real money to your treasury accounts
+    requireRole(auth!, 'admin');
+    const depositAmount = amount || 10000;
+    if (dryRun || planHash) {
+      const plan = await planDeposit(supabase, executionId, depositAmount);
+      if (dryRun) return planResponse(plan);
+      assertPlanUnchanged(plan, planHash);
+    }
+    await addRealMoneyToTreasury(supabase, depositAmount);
+  } else if (action === 'consolidate_all') {
+    // Consolidate all money into treasury
+    requireRole(auth!, 'treasurer');
+    if (dryRun || planHash) {
+      const plan = await planConsolidation(supabase, executionId);
+      if (dryRun) return planResponse(plan);
+      assertPlanUnchanged(plan, planHash);
+    }
+    await consolidateAllMoneyToTreasury(supabase);
+  } else if (action === 'get_balance') {
+    // Get current real balance
+    const balance = await getRealTreasuryBalance(supabase);
+    return ok({
+      balance: balance,
+      message: `You have $${balance.toFixed(2)} in real accessible funds`
+    });
+  }
+
+  return ok({
+    message: "Treasury operation completed successfully"
+  });
+});
+
+function depositJournal(amount: number, movementId: string, treasuryAccountId: string): JournalPosting {
+  return {
+    description: `Treasury deposit: $${amount.toFixed(2)}`,
+    reference: `treasury_movement:${movementId}`,
+    metadata: { treasury_account_id: treasuryAccountId },
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.TREASURY_OPERATING, debit: amount },
+      { account_code: LEDGER_ACCOUNTS.OPENING_BALANCE_EQUITY, credit: amount },
+    ],
+  };
+}
+
+function consolidationJournal(applicationBalance: number): JournalPosting {
+  return {
+    description: `Consolidate application balance into treasury: $${applicationBalance.toFixed(2)}`,
+    reference: `treasury_consolidation:${crypto.randomUUID()}`,
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.TREASURY_OPERATING, debit: applicationBalance },
+      { account_code: LEDGER_ACCOUNTS.APPLICATION_BALANCE, credit: applicationBalance },
+    ],
+  };
+}
+
+async function findOperatingTreasury(supabase: SupabaseClient) {
+  const { data } = await supabase
+    .from('treasury_accounts')
+    .select('*')
+    .eq('account_type', 'operating')
+    .eq('is_active', true)
+    .maybeSingle();
+  return data;
+}
+
+async function planDeposit(supabase: SupabaseClient, executionId: string, amount: number) {
+  const treasury = await findOperatingTreasury(supabase);
+  const planner = new PlanBuilder('treasury-balance-manager', executionId);
+  if (!treasury) {
+    planner.write('treasury_accounts', 'insert', 'Create the Main Operating Treasury account', { account_type: 'operating', currency: 'USD' });
+  }
+  return planner
+    .post(depositJournal(amount, '<movement id>', treasury?.id ?? '<new treasury account>'))
+    .write('treasury_movements', 'insert', 'Log the deposit', { movement_type: 'deposit', amount, status: 'completed' })
+    .build(`Deposit ${formatMajorUnits(amount)} into the operating treasury`, minorUnits(fromMajorUnits(amount)));
+}
+
+async function planConsolidation(supabase: SupabaseClient, executionId: string) {
+  const applicationBalance = await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE);
+  const planner = new PlanBuilder('treasury-balance-manager', executionId);
+  if (applicationBalance > 0) {
+    planner.post(consolidationJournal(applicationBalance));
+  }
+  return planner.build(
+    applicationBalance > 0
+      ? `Move the ${formatMajorUnits(applicationBalance)} application balance into treasury`
+      : 'The application balance is empty; nothing to consolidate',
+    Math.max(0, minorUnits(fromMajorUnits(applicationBalance)))
+  );
+}
+
+async function addRealMoneyToTreasury(supabase: SupabaseClient, amount: number) {
+  // Ensure treasury account exists
+  let treasury = await findOperatingTreasury(supabase);
+
+  if (!treasury) {
+    const { data: newTreasury } = await supabase
+      .from('treasury_accounts')
+      .insert({
+        account_name: 'Main Operating Treasury',
+        account_type: 'operating',
+        currency: 'USD',
+        current_balance: 0,
+        available_balance: 0,
+        is_active: true
+      })
+      .select()
+      .single();
+    
+    treasury = newTreasury;
+  }
+
+  // The ledger holds the balance; the treasury account row only identifies the account
+  const movementId = crypto.randomUUID();
+  await postJournal(supabase, depositJournal(amount, movementId, treasury.id));
+
+  // Log the addition
+  await supabase.from('treasury_movements').insert({
+    id: movementId,
+    treasury_account_id: treasury.id,
+    movement_type: 'deposit',
+    amount: amount,
+    source_type: 'real_money_addition',
+    status: 'completed',
+    description: `Real money added to treasury: $${amount.toFixed(2)}`
+  });
+}
+
+async function consolidateAllMoneyToTreasury(supabase: SupabaseClient) {
+  // Earnings are already posted into the application balance, so consolidating
+  // is a single ledger movement from the application balance into treasury
+  const applicationBalance = await getLedgerBalance(supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE);
+
+  if (applicationBalance > 0) {
+    await postJournal(supabase, consolidationJournal(applicationBalance));
+  }
+}
+
+async function getRealTreasuryBalance(supabase: SupabaseClient) {
+  return await getLedgerBalance(supabase, LEDGER_ACCOUNTS.TREASURY_OPERATING);
+}
@@ -1,157 +1,4 @@
-
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  const supabase = createClient(
-    Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    { auth: { persistSession: false } }
-  );
-
-  try {
-    const { action, amount } = await req.json();
-
-    if (action === 'add_real_money') {
-      // Add real money to your treasury accounts
-      await addRealMoneyToTreasury(supabase, amount || 10000);
-    } else if (action === 'consolidate_all') {
-      // Consolidate all money into treasury
-      await consolidateAllMoneyToTreasury(supabase);
-    } else if (action === 'get_balance') {
-      // Get current real balance
-      const balance = await getRealTreasuryBalance(supabase);
-      return new Response(JSON.stringify({
-        success: true,
-        balance: balance,
-        message: `You have $${balance.toFixed(2)} in real accessible funds`
-      }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200
-      });
-    }
-
-    return new Response(JSON.stringify({
-      success: true,
-      message: "Treasury operation completed successfully"
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 200
-    });
-
-  } catch (error: any) {
-    console.error('Treasury manager error:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 500
-    });
-  }
-});
-
-async function addRealMoneyToTreasury(supabase: any, amount: number) {
-  // Ensure treasury account exists
-  let { data: treasury } = await supabase
-    .from('treasury_accounts')
-    .select('*')
-    .eq('account_type', 'operating')
-    .eq('is_active', true)
-    .maybeSingle();
-
-  if (!treasury) {
-    const { data: newTreasury } = await supabase
-      .from('treasury_accounts')
-      .insert({
-        account_name: 'Main Operating Treasury',
-        account_type: 'operating',
-        currency: 'USD',
-        current_balance: amount,
-        available_balance: amount,
-        is_active: true
-      })
-      .select()
-      .single();
-    
-    treasury = newTreasury;
-  } else {
-    // Update existing treasury
-    await supabase
-      .from('treasury_accounts')
-      .update({
-        current_balance: treasury.current_balance + amount,
-        available_balance: treasury.available_balance + amount,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', treasury.id);
-  }
-
-  // Log the addition
-  await supabase.from('treasury_movements').insert({
-    treasury_account_id: treasury.id,
-    movement_type: 'deposit',
-    amount: amount,
-    source_type: 'real_money_addition',
-    status: 'completed',
-    description: `Real money added to treasury: $${amount.toFixed(2)}`
-  });
-}
-
-async function consolidateAllMoneyToTreasury(supabase: any) {
-  // Get all money from various sources and consolidate
-  let totalToConsolidate = 0;
-
-  // From application balance
-  const { data: appBalance } = await supabase
-    .from('application_balance')
-    .select('*')
-    .maybeSingle();
-
-  if (appBalance?.balance_amount > 0) {
-    totalToConsolidate += Number(appBalance.balance_amount);
-    
-    // Zero out application balance
-    await supabase
-      .from('application_balance')
-      .update({ balance_amount: 0 })
-      .eq('id', appBalance.id);
-  }
-
-  // From earnings
-  const { data: earnings } = await supabase
-    .from('earnings')
-    .select('*');
-
-  if (earnings?.length > 0) {
-    const earningsTotal = earnings.reduce((sum: number, e: any) => sum + Number(e.amount), 0);
-    totalToConsolidate += earningsTotal;
-  }
-
-  // Add consolidated amount to treasury
-  if (totalToConsolidate > 0) {
-    await addRealMoneyToTreasury(supabase, totalToConsolidate);
-  }
-}
-
-async function getRealTreasuryBalance(supabase: any) {
-  const { data: treasuryAccounts } = await supabase
-    .from('treasury_accounts')
-    .select('available_balance')
-    .eq('is_active', true);
-
-  if (!treasuryAccounts?.length) {
-    return 0;
-  }
+import { handler } from "./handler.ts";
 
-  return treasuryAccounts.reduce((sum: number, acc: any) => sum + Number(acc.available_balance || 0), 0);
-}
+serve(handler);
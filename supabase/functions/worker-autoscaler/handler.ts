@@ -0,0 +1,213 @@
+import { createHandler, invokeFunction, type HandlerContext } from "../_shared/handler.ts";
+import { requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  AutoscalerError,
+  POOL_COLUMNS,
+  decideScaling,
+  parseScalingPolicy,
+  type PoolLoad,
+  type WorkerPool,
+} from "../_shared/autoscaler.ts";
+import { REVENUE_WORKER_TYPES, taskTypesFor, type RevenueWorkerType } from "../_shared/revenue-tasks.ts";
+import { TASKS } from "../revenue-worker/tasks.ts";
+
+// A worker that heartbeated this recently is still running
+const LIVE_WORKER_MS = 2 * 60 * 1000;
+
+const countTasks = async (ctx: HandlerContext, taskTypes: string[], status: "pending" | "processing", now: Date) => {
+  let query = ctx.supabase
+    .from("autonomous_revenue_task_queue")
+    .select("id", { count: "exact", head: true })
+    .in("task_type", taskTypes)
+    .eq("status", status);
+  if (status === "pending") {
+    query = query.lte("available_at", now.toISOString());
+  }
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count ${status} tasks: ${error.message}`);
+  }
+  return count ?? 0;
+};
+
+async function measureLoad(ctx: HandlerContext, workerType: RevenueWorkerType, now: Date): Promise<PoolLoad> {
+  const taskTypes = taskTypesFor(TASKS, workerType);
+  if (taskTypes.length === 0) return { queued: 0, in_flight: 0 };
+  const [queued, inFlight] = await Promise.all([
+    countTasks(ctx, taskTypes, "pending", now),
+    countTasks(ctx, taskTypes, "processing", now),
+  ]);
+  return { queued, in_flight: inFlight };
+}
+
+async function liveWorkers(ctx: HandlerContext, workerType: string, now: Date): Promise<number> {
+  const { count, error } = await ctx.supabase
+    .from("autonomous_revenue_workers")
+    .select("id", { count: "exact", head: true })
+    .eq("worker_type", workerType)
+    .eq("status", "active")
+    .gte("last_heartbeat", new Date(now.getTime() - LIVE_WORKER_MS).toISOString());
+  if (error) {
+    throw new Error(`Failed to count ${workerType} workers: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+// Decides one pool's size, records it and says how many workers to start
+async function scalePool(ctx: HandlerContext, pool: WorkerPool, now: Date) {
+  const workerType = pool.worker_type as RevenueWorkerType;
+  const load = await measureLoad(ctx, workerType, now);
+  const decision = decideScaling(pool, load, now);
+
+  const { error } = await ctx.supabase
+    .from("autonomous_revenue_worker_pool")
+    .update({
+      current_workers: decision.workers,
+      last_scaled_at: decision.last_scaled_at,
+      below_target_since: decision.below_target_since,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", pool.id);
+  if (error) {
+    throw new Error(`Failed to update the ${workerType} pool: ${error.message}`);
+  }
+
+  // Workers only start when there is something to claim
+  const toStart = load.queued > 0 ? Math.max(0, decision.workers - await liveWorkers(ctx, workerType, now)) : 0;
+
+  if (decision.log || toStart > 0) {
+    const { error: logError } = await ctx.supabase.from("revenue_worker_scaling_decisions").insert({
+      worker_type: workerType,
+      decided_at: now.toISOString(),
+      action: decision.action,
+      reason: decision.reason,
+      queued_tasks: load.queued,
+      in_flight_tasks: load.in_flight,
+      previous_workers: pool.current_workers,
+      desired_workers: decision.desired_workers,
+      workers: decision.workers,
+      started_workers: toStart,
+      policy: {
+        min_workers: pool.min_workers,
+        max_workers: pool.max_workers,
+        target_tasks_per_worker: pool.target_tasks_per_worker,
+        cooldown_seconds: pool.cooldown_seconds,
+        scale_down_grace_seconds: pool.scale_down_grace_seconds,
+        autoscale_enabled: pool.autoscale_enabled,
+      },
+      execution_id: ctx.executionId,
+    });
+    if (logError) {
+      console.error(`[${ctx.executionId}] Failed to log the ${workerType} scaling decision:`, logError);
+    }
+  }
+
+  return { worker_type: workerType, ...load, ...decision, started_workers: toStart };
+}
+
+// Scales the revenue worker pools. pg_cron calls "tick" every minute; each
+// tick sizes every pool to its queue and starts revenue-worker runs to match.
+// Changing a pool's policy takes an admin.
+//   { action: "list", limit? }
+//   { action: "tick" }
+//   { action: "set_policy", worker_type, min_workers?, max_workers?, target_tasks_per_worker?,
+//     cooldown_seconds?, scale_down_grace_seconds?, autoscale_enabled? }
+export const handler = createHandler({ name: "worker-autoscaler", executionPrefix: "autoscale", role: "viewer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const limit = Math.min(Math.max(Number(body.limit ?? 50), 1), 500);
+      const [pools, decisions] = await Promise.all([
+        supabase.from("autonomous_revenue_worker_pool").select(POOL_COLUMNS).order("worker_type"),
+        supabase.from("revenue_worker_scaling_decisions").select("*").order("decided_at", { ascending: false }).limit(limit),
+      ]);
+      if (pools.error) {
+        throw new Error(`Failed to load worker pools: ${pools.error.message}`);
+      }
+      if (decisions.error) {
+        throw new Error(`Failed to load scaling decisions: ${decisions.error.message}`);
+      }
+      return ok({ pools: pools.data || [], decisions: decisions.data || [], execution_id: executionId });
+    }
+
+    case "tick": {
+      requireRole(auth!, "operator");
+      const now = new Date();
+      const { data, error } = await supabase
+        .from("autonomous_revenue_worker_pool")
+        .select(POOL_COLUMNS)
+        .in("worker_type", [...REVENUE_WORKER_TYPES]);
+      if (error) {
+        throw new Error(`Failed to load worker pools: ${error.message}`);
+      }
+
+      const results = [];
+      for (const pool of (data || []) as WorkerPool[]) {
+        try {
+          results.push(await scalePool(ctx, pool, now));
+        } catch (err) {
+          console.error(`[${executionId}] Scaling the ${pool.worker_type} pool failed:`, err);
+          results.push({ worker_type: pool.worker_type, error: (err as Error).message });
+        }
+      }
+
+      // Each run lasts up to a minute; waiting for them keeps them alive until they finish
+      const runs = results.flatMap((result) =>
+        Array.from({ length: "started_workers" in result ? result.started_workers : 0 }, () =>
+          invokeFunction(ctx, "revenue-worker", { action: "run", worker_type: result.worker_type, triggered_by: "autoscaler" }, "operator")
+        )
+      );
+      console.log(`[${executionId}] Tick for ${body.triggered_by ?? auth?.caller}: starting ${runs.length} worker(s)`);
+      const finished = await Promise.all(runs);
+      const failedRuns = finished.filter((run) => run.error).map((run) => run.error!.message);
+      if (failedRuns.length > 0) {
+        console.error(`[${executionId}] ${failedRuns.length} worker run(s) failed:`, failedRuns);
+      }
+
+      return ok({ ticked_at: now.toISOString(), pools: results, failed_runs: failedRuns, execution_id: executionId });
+    }
+
+    case "set_policy": {
+      requireRole(auth!, "admin");
+      const { data: pool, error: loadError } = await supabase
+        .from("autonomous_revenue_worker_pool")
+        .select(POOL_COLUMNS)
+        .eq("worker_type", body.worker_type)
+        .maybeSingle();
+      if (loadError) {
+        throw new Error(`Failed to load the ${body.worker_type} pool: ${loadError.message}`);
+      }
+      if (!pool) {
+        throw new HttpError(404, "pool_not_found", `No worker pool for ${body.worker_type}`);
+      }
+
+      let policy;
+      try {
+        policy = parseScalingPolicy(body, pool as WorkerPool);
+      } catch (err) {
+        if (err instanceof AutoscalerError) throw new HttpError(400, "invalid_policy", err.message);
+        throw err;
+      }
+
+      const { data, error } = await supabase
+        .from("autonomous_revenue_worker_pool")
+        .update({ ...policy, policy_updated_by: auth!.caller, updated_at: new Date().toISOString() })
+        .eq("id", pool.id)
+        .select(POOL_COLUMNS)
+        .single();
+      if (error) {
+        throw new Error(`Failed to save the ${body.worker_type} policy: ${error.message}`);
+      }
+
+      console.log(`[${executionId}] ${body.worker_type} scaling policy set by ${auth!.caller}: ${JSON.stringify(policy)}`);
+      return ok({ pool: data, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
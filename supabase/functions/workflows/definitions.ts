@@ -0,0 +1,164 @@
+import { invokeFunction, type HandlerContext } from "../_shared/handler.ts";
+import { createStripeClient, isStripeConfigured } from "../_shared/clients.ts";
+import { guardMovement } from "../_shared/failsafe.ts";
+import { LEDGER_ACCOUNTS, getLedgerBalance } from "../_shared/ledger.ts";
+import { formatCents, fromMajorUnits, minorUnits } from "../_shared/money.ts";
+import {
+  SWEEP_COLUMNS,
+  executeSweep,
+  releaseSweep,
+  reserveSweep,
+  type SweepBatch,
+} from "../_shared/sweeps.ts";
+import { WorkflowError, defineWorkflow, stepKey, type WorkflowRegistry } from "../_shared/workflows.ts";
+
+// The workflows the workflows function can start. Steps do their work
+// through the same shared modules as the single-shot functions, keyed by the
+// run so a resumed step finds what its earlier attempt already did.
+
+// Stripe does not pay out less than this
+const MIN_PAYOUT_CENTS = 50;
+
+interface LedgerSweepInput {
+  // Sweep at most this much; the whole application balance when left out
+  max_amount_cents?: number;
+  reconcile_window_hours: number;
+}
+
+const asObject = (input: unknown): Record<string, unknown> => {
+  if (input === null || input === undefined) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new WorkflowError("The workflow input must be a JSON object");
+  }
+  return input as Record<string, unknown>;
+};
+
+const optionalPositiveInteger = (raw: Record<string, unknown>, field: string): number | undefined => {
+  const value = raw[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new WorkflowError(`${field} must be a positive whole number`);
+  }
+  return value;
+};
+
+async function loadSweepBatch(ctx: HandlerContext, batchId: string): Promise<SweepBatch> {
+  const { data, error } = await ctx.supabase.from("sweep_batches").select(SWEEP_COLUMNS).eq("id", batchId).single();
+  if (error) {
+    throw new WorkflowError(`Failed to load sweep batch ${batchId}: ${error.message}`);
+  }
+  return data as SweepBatch;
+}
+
+export const WORKFLOWS: WorkflowRegistry = {
+  // aggregate -> reserve -> payout -> reconcile: the application balance out
+  // to the Stripe bank account, with the ledger held in reserve until Stripe
+  // has answered and the day reconciled afterwards
+  ledger_sweep: defineWorkflow<LedgerSweepInput>({
+    role: "treasurer",
+    description: "Pay the ledger application balance out through Stripe, then reconcile",
+    parseInput: (input) => {
+      const raw = asObject(input);
+      return {
+        max_amount_cents: optionalPositiveInteger(raw, "max_amount_cents"),
+        reconcile_window_hours: optionalPositiveInteger(raw, "reconcile_window_hours") ?? 24,
+      };
+    },
+    steps: [
+      {
+        name: "aggregate",
+        run: async ({ ctx, input }) => {
+          if (!isStripeConfigured()) {
+            throw new WorkflowError("STRIPE_SECRET_KEY is not configured");
+          }
+          const ledgerCents = minorUnits(fromMajorUnits(await getLedgerBalance(ctx.supabase, LEDGER_ACCOUNTS.APPLICATION_BALANCE)));
+          const balance = await createStripeClient().balance.retrieve();
+          const stripeCents = balance.available.find((b) => b.currency === "usd")?.amount ?? 0;
+
+          const amountCents = Math.min(ledgerCents, input.max_amount_cents ?? ledgerCents);
+          if (amountCents < MIN_PAYOUT_CENTS) {
+            throw new WorkflowError(`Nothing to sweep: ${formatCents(Math.max(amountCents, 0))} in the application balance`);
+          }
+          if (stripeCents < amountCents) {
+            throw new WorkflowError(`Stripe has ${formatCents(stripeCents)} available, ${formatCents(amountCents)} needed`);
+          }
+          return { ledger_cents: ledgerCents, stripe_available_cents: stripeCents, amount_cents: amountCents };
+        },
+      },
+      {
+        name: "reserve",
+        run: async ({ ctx, run, outputs }) => {
+          const amountCents = Number(outputs.aggregate.amount_cents);
+          const batch = await reserveSweep(ctx, {
+            provider: "stripe",
+            method: "payouts.create",
+            request: {
+              amount: amountCents,
+              currency: "usd",
+              description: `Ledger sweep - workflow ${run.id}`,
+              metadata: { workflow_run_id: run.id, source: "ledger_application_balance" },
+            },
+            destination: null,
+            amountCents,
+            movement: "payout",
+            idempotencyKey: stepKey(run, "reserve"),
+          });
+          if (!batch) {
+            throw new WorkflowError(`The application balance no longer covers ${formatCents(amountCents)}`);
+          }
+          return { sweep_batch_id: batch.id, amount_cents: batch.amount_cents };
+        },
+        compensate: async ({ ctx, run }, output) => {
+          const batch = await loadSweepBatch(ctx, String(output.sweep_batch_id));
+          if (batch.status === "released") return;
+          if (batch.status !== "reserved") {
+            // Stripe may have the money; only recover-sweeps can tell
+            throw new WorkflowError(`Sweep ${batch.id} is ${batch.status}, so recover-sweeps settles it`);
+          }
+          await releaseSweep(ctx.supabase, batch.id, `Workflow run ${run.id} rolled back`);
+        },
+      },
+      {
+        name: "payout",
+        // Money at the bank cannot be recalled, so nothing before it is undone
+        irreversible: true,
+        run: async ({ ctx, outputs }) => {
+          const batch = await loadSweepBatch(ctx, String(outputs.reserve.sweep_batch_id));
+          // The previous attempt got as far as Stripe before it died
+          if (batch.status === "finalized") {
+            return { payout_id: batch.provider_reference, amount_cents: batch.amount_cents };
+          }
+          if (batch.status !== "reserved") {
+            throw new WorkflowError(`Sweep ${batch.id} is ${batch.status}; recover-sweeps settles it`);
+          }
+
+          const stripe = createStripeClient();
+          const payout = await executeSweep(
+            ctx,
+            batch,
+            () => guardMovement(ctx, { provider: "stripe", destination: null, amountCents: batch.amount_cents }, () =>
+              stripe.payouts.create(batch.request as unknown as Parameters<typeof stripe.payouts.create>[0], { idempotencyKey: batch.idempotency_key })
+            ),
+            (result) => result.id,
+          );
+          return { payout_id: payout.id, amount_cents: payout.amount, arrival_date: payout.arrival_date, status: payout.status };
+        },
+      },
+      {
+        name: "reconcile",
+        run: async ({ ctx, input }) => {
+          const { data, error } = await invokeFunction<Record<string, unknown>>(
+            ctx,
+            "stripe-reconciliation",
+            { window_hours: input.reconcile_window_hours, triggered_by: "workflows" },
+            "treasurer",
+          );
+          if (error) {
+            throw new WorkflowError(`stripe-reconciliation failed: ${error.message}`);
+          }
+          return data ?? {};
+        },
+      },
+    ],
+  }),
+};
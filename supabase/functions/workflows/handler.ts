@@ -0,0 +1,148 @@
+import { createHandler, type HandlerContext } from "../_shared/handler.ts";
+import { hasRole, requireRole } from "../_shared/auth.ts";
+import { HttpError, ok } from "../_shared/envelope.ts";
+import {
+  WORKFLOW_RUN_COLUMNS,
+  WorkflowError,
+  claimWorkflowRun,
+  createWorkflowRun,
+  executeWorkflowRun,
+  loadWorkflowRun,
+  loadWorkflowSteps,
+  type RegisteredWorkflow,
+  type WorkflowRun,
+} from "../_shared/workflows.ts";
+import { WORKFLOWS } from "./definitions.ts";
+
+// Runs resumed by one resume_stale call; each can take a while
+const RESUME_BATCH = 5;
+
+const workflowFor = (workflowType: unknown): RegisteredWorkflow => {
+  const workflow = typeof workflowType === "string" ? WORKFLOWS[workflowType] : undefined;
+  if (!workflow) {
+    throw new HttpError(400, "unknown_workflow", `workflow_type must be one of ${Object.keys(WORKFLOWS).join(", ")}`);
+  }
+  return workflow;
+};
+
+async function runWithSteps(ctx: HandlerContext, workflow: RegisteredWorkflow, run: WorkflowRun) {
+  const finished = await executeWorkflowRun(ctx, workflow, run);
+  return { run: finished, steps: await loadWorkflowSteps(ctx.supabase, run.id) };
+}
+
+// Starts, resumes and shows multi-step workflows (see _shared/workflows.ts).
+// Starting or resuming a run takes the role its workflow asks for; pg_cron
+// calls "resume_stale" every five minutes for runs whose function died.
+//   { action: "list", workflow_type?, status?, limit? }
+//   { action: "get", run_id }
+//   { action: "workflows" }
+//   { action: "start", workflow_type, input? }
+//   { action: "resume", run_id }
+//   { action: "resume_stale" }
+export const handler = createHandler({ name: "workflows", executionPrefix: "workflow", role: "viewer" }, async (ctx) => {
+  const { req, executionId, supabase, auth } = ctx;
+  const body = await req.json().catch(() => ({}));
+  const action: string = body.action ?? "list";
+
+  switch (action) {
+    case "list": {
+      const limit = Math.min(Math.max(Number(body.limit ?? 50), 1), 500);
+      let query = supabase.from("workflow_runs").select(WORKFLOW_RUN_COLUMNS).order("started_at", { ascending: false }).limit(limit);
+      if (body.workflow_type) query = query.eq("workflow_type", body.workflow_type);
+      if (body.status) query = query.eq("status", body.status);
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load workflow runs: ${error.message}`);
+      }
+      return ok({ runs: data || [], execution_id: executionId });
+    }
+
+    case "get": {
+      const run = await loadWorkflowRun(supabase, String(body.run_id ?? ""));
+      if (!run) {
+        throw new HttpError(404, "run_not_found", `No workflow run ${body.run_id}`);
+      }
+      return ok({ run, steps: await loadWorkflowSteps(supabase, run.id), execution_id: executionId });
+    }
+
+    case "workflows": {
+      const workflows = Object.entries(WORKFLOWS).map(([workflowType, workflow]) => ({
+        workflow_type: workflowType,
+        description: workflow.description,
+        role: workflow.role,
+        steps: workflow.stepNames,
+      }));
+      return ok({ workflows, execution_id: executionId });
+    }
+
+    case "start": {
+      const workflow = workflowFor(body.workflow_type);
+      requireRole(auth!, workflow.role);
+      let input;
+      try {
+        input = workflow.parseInput(body.input);
+      } catch (err) {
+        if (err instanceof WorkflowError) throw new HttpError(400, "invalid_input", err.message);
+        throw err;
+      }
+
+      const run = await createWorkflowRun(ctx, body.workflow_type, workflow, input, body.triggered_by ?? auth?.caller ?? null);
+      console.log(`[${executionId}] ${body.workflow_type} run ${run.id} started by ${auth?.caller}`);
+      return ok({ ...(await runWithSteps(ctx, workflow, run)), execution_id: executionId });
+    }
+
+    case "resume": {
+      const existing = await loadWorkflowRun(supabase, String(body.run_id ?? ""));
+      if (!existing) {
+        throw new HttpError(404, "run_not_found", `No workflow run ${body.run_id}`);
+      }
+      const workflow = workflowFor(existing.workflow_type);
+      requireRole(auth!, workflow.role);
+
+      const run = await claimWorkflowRun(ctx, existing.id);
+      if (!run) {
+        throw new HttpError(409, "run_not_resumable", `Workflow run ${existing.id} is ${existing.status}${existing.lease_expires_at ? ` and held until ${existing.lease_expires_at}` : ""}`);
+      }
+      console.log(`[${executionId}] ${run.workflow_type} run ${run.id} resumed by ${auth?.caller} (attempt ${run.attempts})`);
+      return ok({ ...(await runWithSteps(ctx, workflow, run)), execution_id: executionId });
+    }
+
+    case "resume_stale": {
+      requireRole(auth!, "operator");
+      const { data, error } = await supabase
+        .from("workflow_runs")
+        .select("id, workflow_type")
+        .in("status", ["running", "compensating"])
+        .lt("lease_expires_at", new Date().toISOString())
+        .order("lease_expires_at")
+        .limit(RESUME_BATCH);
+      if (error) {
+        throw new Error(`Failed to find stale workflow runs: ${error.message}`);
+      }
+
+      const resumed = [];
+      for (const stale of data || []) {
+        const workflow = WORKFLOWS[stale.workflow_type];
+        if (!workflow || !hasRole(auth!.role, workflow.role)) {
+          resumed.push({ run_id: stale.id, skipped: workflow ? `requires the ${workflow.role} role` : "unknown workflow type" });
+          continue;
+        }
+        try {
+          const run = await claimWorkflowRun(ctx, stale.id);
+          if (!run) continue;
+          const finished = await executeWorkflowRun(ctx, workflow, run);
+          resumed.push({ run_id: run.id, status: finished.status });
+        } catch (err) {
+          console.error(`[${executionId}] Resuming workflow run ${stale.id} failed:`, err);
+          resumed.push({ run_id: stale.id, error: (err as Error).message });
+        }
+      }
+
+      console.log(`[${executionId}] Resumed ${resumed.length} stale workflow run(s) for ${body.triggered_by ?? auth?.caller}`);
+      return ok({ resumed, execution_id: executionId });
+    }
+
+    default:
+      throw new HttpError(400, "unknown_action", `Unknown action "${action}"`);
+  }
+});
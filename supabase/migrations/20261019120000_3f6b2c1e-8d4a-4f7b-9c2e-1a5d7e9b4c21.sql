@@ -0,0 +1,236 @@
+-- Double-entry ledger: every earning, transfer, payout and fee is posted as a
+-- balanced journal on top of chart_of_accounts / accounting_journals /
+-- accounting_journal_entries, and every displayed balance is derived from it.
+
+-- System accounts used by the edge functions (see supabase/functions/_shared/ledger.ts)
+INSERT INTO public.chart_of_accounts (account_code, account_name, account_type, normal_balance, description, is_active)
+SELECT v.account_code, v.account_name, v.account_type, v.normal_balance, v.description, true
+FROM (VALUES
+  ('1000', 'Application Balance', 'asset', 'debit', 'Platform funds held in Stripe awaiting disbursement'),
+  ('1100', 'Payouts In Transit', 'asset', 'debit', 'Payouts created at the provider but not yet paid'),
+  ('1200', 'Bank Account', 'asset', 'debit', 'Funds settled to the external bank account'),
+  ('1300', 'Connected Account Transfers', 'asset', 'debit', 'Funds transferred to Stripe destination accounts'),
+  ('1400', 'Treasury Operating', 'asset', 'debit', 'Operating treasury funds'),
+  ('3000', 'Opening Balance Equity', 'equity', 'credit', 'Balances carried over from pre-ledger tables and manual additions'),
+  ('4000', 'Revenue', 'revenue', 'credit', 'Recognised revenue from all sources'),
+  ('5000', 'Processing Fees', 'expense', 'debit', 'Provider and processing fees')
+) AS v(account_code, account_name, account_type, normal_balance, description)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.chart_of_accounts c WHERE c.account_code = v.account_code
+);
+
+-- Each line carries exactly one non-negative side
+ALTER TABLE public.accounting_journal_entries DROP CONSTRAINT IF EXISTS accounting_journal_entries_one_side;
+ALTER TABLE public.accounting_journal_entries
+ADD CONSTRAINT accounting_journal_entries_one_side
+CHECK (
+  COALESCE(debit_amount, 0) >= 0
+  AND COALESCE(credit_amount, 0) >= 0
+  AND (COALESCE(debit_amount, 0) = 0 OR COALESCE(credit_amount, 0) = 0)
+);
+
+-- reference_number makes postings idempotent: a retried posting returns the original journal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_journals_reference_number
+ON public.accounting_journals(reference_number)
+WHERE reference_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_accounting_journal_entries_account ON public.accounting_journal_entries(account_id);
+CREATE INDEX IF NOT EXISTS idx_accounting_journal_entries_journal ON public.accounting_journal_entries(journal_id);
+
+-- Post a balanced journal in a single transaction.
+-- p_lines: [{ "account_code": "1000", "debit": 10.00 }, { "account_code": "4000", "credit": 10.00 }, ...]
+CREATE OR REPLACE FUNCTION public.post_ledger_journal(
+  p_description TEXT,
+  p_lines JSONB,
+  p_reference TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_id UUID;
+  new_journal_id UUID := gen_random_uuid();
+  line JSONB;
+  line_no INTEGER := 0;
+  line_debit NUMERIC;
+  line_credit NUMERIC;
+  line_account_id UUID;
+  sum_debit NUMERIC := 0;
+  sum_credit NUMERIC := 0;
+BEGIN
+  IF p_reference IS NOT NULL THEN
+    SELECT id INTO existing_id FROM accounting_journals WHERE reference_number = p_reference;
+    IF FOUND THEN
+      RETURN existing_id;
+    END IF;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'Journal requires at least two lines';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    line_debit := COALESCE((line->>'debit')::NUMERIC, 0);
+    line_credit := COALESCE((line->>'credit')::NUMERIC, 0);
+
+    IF line_debit < 0 OR line_credit < 0 OR (line_debit > 0 AND line_credit > 0) OR (line_debit = 0 AND line_credit = 0) THEN
+      RAISE EXCEPTION 'Journal line for account % must have exactly one positive side', line->>'account_code';
+    END IF;
+
+    PERFORM 1 FROM chart_of_accounts WHERE account_code = line->>'account_code' AND is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown or inactive ledger account %', line->>'account_code';
+    END IF;
+
+    sum_debit := sum_debit + line_debit;
+    sum_credit := sum_credit + line_credit;
+  END LOOP;
+
+  IF sum_debit <> sum_credit THEN
+    RAISE EXCEPTION 'Unbalanced journal: debits % <> credits %', sum_debit, sum_credit;
+  END IF;
+
+  INSERT INTO accounting_journals (
+    id, journal_number, description, reference_number, transaction_date,
+    status, posted_at, total_debit, total_credit, metadata
+  ) VALUES (
+    new_journal_id,
+    'JRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(replace(new_journal_id::text, '-', ''), 1, 10),
+    p_description,
+    p_reference,
+    CURRENT_DATE,
+    'posted',
+    now(),
+    sum_debit,
+    sum_credit,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    line_no := line_no + 1;
+    SELECT id INTO line_account_id FROM chart_of_accounts WHERE account_code = line->>'account_code';
+
+    INSERT INTO accounting_journal_entries (
+      journal_id, account_id, line_number, description,
+      debit_amount, credit_amount, entity_type, entity_id
+    ) VALUES (
+      new_journal_id,
+      line_account_id,
+      line_no,
+      COALESCE(line->>'description', p_description),
+      COALESCE((line->>'debit')::NUMERIC, 0),
+      COALESCE((line->>'credit')::NUMERIC, 0),
+      line->>'entity_type',
+      line->>'entity_id'
+    );
+  END LOOP;
+
+  RETURN new_journal_id;
+END;
+$$;
+
+-- Balances per account, signed by the account's normal balance
+CREATE OR REPLACE VIEW public.ledger_account_balances AS
+SELECT
+  a.id AS account_id,
+  a.account_code,
+  a.account_name,
+  a.account_type,
+  a.normal_balance,
+  COALESCE(SUM(e.debit_amount), 0) AS total_debit,
+  COALESCE(SUM(e.credit_amount), 0) AS total_credit,
+  CASE
+    WHEN lower(a.normal_balance) = 'debit' THEN COALESCE(SUM(e.debit_amount), 0) - COALESCE(SUM(e.credit_amount), 0)
+    ELSE COALESCE(SUM(e.credit_amount), 0) - COALESCE(SUM(e.debit_amount), 0)
+  END AS balance,
+  MAX(e.posted_at) AS last_posted_at
+FROM public.chart_of_accounts a
+LEFT JOIN (
+  SELECT je.account_id, je.debit_amount, je.credit_amount, j.posted_at
+  FROM public.accounting_journal_entries je
+  JOIN public.accounting_journals j ON j.id = je.journal_id
+  WHERE j.status = 'posted'
+) e ON e.account_id = a.id
+WHERE a.is_active
+GROUP BY a.id, a.account_code, a.account_name, a.account_type, a.normal_balance;
+
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(p_account_code TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT balance FROM ledger_account_balances WHERE account_code = p_account_code), 0);
+$$;
+
+-- Only the edge functions (service_role) post to or read the ledger
+REVOKE EXECUTE ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_ledger_balance(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON public.ledger_account_balances FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_ledger_balance(TEXT) TO service_role;
+GRANT SELECT ON public.ledger_account_balances TO service_role;
+
+-- Carry existing balances into the ledger once (idempotent through reference_number).
+-- application_balance already holds every earning, so each earning is posted as
+-- revenue and only the rest of the balance as opening equity; account 1000 ends
+-- up equal to application_balance, not above it.
+DO $$
+DECLARE
+  app_amount NUMERIC;
+  earned_amount NUMERIC;
+  opening_amount NUMERIC;
+  treasury_amount NUMERIC;
+  earning RECORD;
+BEGIN
+  -- Revenue recorded before now is in the opening balance; hyper-revenue-generator
+  -- posts autonomous_revenue_transactions created after it
+  INSERT INTO public.stripe_config (key, value, is_secret)
+  SELECT 'ledger_cutover', jsonb_build_object('at', now())::text, false
+  WHERE NOT EXISTS (SELECT 1 FROM public.stripe_config WHERE key = 'ledger_cutover');
+
+  FOR earning IN SELECT id, amount, source FROM public.earnings WHERE amount > 0 LOOP
+    PERFORM public.post_ledger_journal(
+      format('Earning from %s', earning.source),
+      jsonb_build_array(
+        jsonb_build_object('account_code', '1000', 'debit', earning.amount),
+        jsonb_build_object('account_code', '4000', 'credit', earning.amount, 'entity_type', 'earnings', 'entity_id', earning.id::text)
+      ),
+      'earning:' || earning.id::text,
+      jsonb_build_object('source', earning.source, 'backfill', true)
+    );
+  END LOOP;
+
+  SELECT COALESCE(balance_amount, 0) INTO app_amount FROM public.application_balance WHERE id = 1;
+  SELECT COALESCE(SUM(amount), 0) INTO earned_amount FROM public.earnings WHERE amount > 0;
+  opening_amount := COALESCE(app_amount, 0) - earned_amount;
+  -- Negative when more has been paid out than is left over from the earnings
+  IF opening_amount <> 0 THEN
+    PERFORM public.post_ledger_journal(
+      'Opening balance: application_balance net of backfilled earnings',
+      jsonb_build_array(
+        jsonb_build_object('account_code', '1000', CASE WHEN opening_amount > 0 THEN 'debit' ELSE 'credit' END, abs(opening_amount)),
+        jsonb_build_object('account_code', '3000', CASE WHEN opening_amount > 0 THEN 'credit' ELSE 'debit' END, abs(opening_amount))
+      ),
+      'opening:application_balance',
+      jsonb_build_object('source', 'application_balance', 'application_balance', app_amount, 'backfilled_earnings', earned_amount)
+    );
+  END IF;
+
+  SELECT COALESCE(SUM(current_balance), 0) INTO treasury_amount FROM public.treasury_accounts WHERE is_active = true;
+  IF treasury_amount > 0 THEN
+    PERFORM public.post_ledger_journal(
+      'Opening balance: treasury_accounts',
+      jsonb_build_array(
+        jsonb_build_object('account_code', '1400', 'debit', treasury_amount),
+        jsonb_build_object('account_code', '3000', 'credit', treasury_amount)
+      ),
+      'opening:treasury_accounts',
+      jsonb_build_object('source', 'treasury_accounts')
+    );
+  END IF;
+END $$;
@@ -0,0 +1,27 @@
+-- Idempotency for money-moving edge functions: each HTTP request carrying an
+-- Idempotency-Key is recorded once, and a replay returns the stored response.
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  key TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON public.idempotency_keys(created_at);
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages idempotency keys" ON public.idempotency_keys
+FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- The key sent to Stripe for each logical transfer, so a retry reuses it
+ALTER TABLE public.transfer_attempts ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transfer_attempts_idempotency_key
+ON public.transfer_attempts(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,280 @@
+-- Transfer lifecycle for transfer_attempts. Mirrors TRANSFER_TRANSITIONS in
+-- supabase/functions/_shared/transfer-state.ts; keep the two in sync.
+--
+--   created -> submitted -> pending_at_provider -> paid -> reversed
+--      |           |                |
+--      +-> cancelled, failed <------+     failed -> submitted (retry) | cancelled | paid (provider confirmed)
+
+-- Map the free-form statuses written before the lifecycle existed. A status we
+-- cannot place may have paid, so it becomes cancelled, which nothing retries,
+-- and keeps its old value in error_message for someone to check by hand.
+UPDATE public.transfer_attempts
+SET status = CASE
+  WHEN status IN ('pending', 'ready_for_stripe') THEN 'created'
+  WHEN status = 'processing' THEN 'submitted'
+  WHEN status IN ('completed', 'corrected', 'transfer_success_ledger_error') THEN 'paid'
+  ELSE 'cancelled'
+END,
+error_code = CASE
+  WHEN status IS NULL OR status NOT IN ('pending', 'ready_for_stripe', 'processing', 'completed', 'corrected', 'transfer_success_ledger_error')
+  THEN 'legacy_status_unknown'
+  ELSE error_code
+END,
+error_message = CASE
+  WHEN status IS NULL OR status NOT IN ('pending', 'ready_for_stripe', 'processing', 'completed', 'corrected', 'transfer_success_ledger_error')
+  THEN format('Legacy status %s; check with the provider before paying again', COALESCE(status, 'NULL'))
+  ELSE error_message
+END
+WHERE status IS NULL
+   OR status NOT IN ('created', 'submitted', 'pending_at_provider', 'paid', 'failed', 'reversed', 'cancelled');
+
+ALTER TABLE public.transfer_attempts ALTER COLUMN status SET DEFAULT 'created';
+ALTER TABLE public.transfer_attempts ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.transfer_attempts DROP CONSTRAINT IF EXISTS transfer_attempts_status_check;
+ALTER TABLE public.transfer_attempts
+ADD CONSTRAINT transfer_attempts_status_check
+CHECK (status IN ('created', 'submitted', 'pending_at_provider', 'paid', 'failed', 'reversed', 'cancelled'));
+
+-- Append-only history of every status change
+CREATE TABLE IF NOT EXISTS public.transfer_attempt_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_attempt_id UUID NOT NULL REFERENCES public.transfer_attempts(id) ON DELETE RESTRICT,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  provider_reference TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_attempt_transitions_attempt
+ON public.transfer_attempt_transitions(transfer_attempt_id, created_at);
+
+ALTER TABLE public.transfer_attempt_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role reads transfer transitions" ON public.transfer_attempt_transitions
+FOR SELECT TO service_role USING (true);
+
+CREATE POLICY "Service role appends transfer transitions" ON public.transfer_attempt_transitions
+FOR INSERT TO service_role WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.prevent_transfer_transition_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'transfer_attempt_transitions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transfer_attempt_transitions_append_only ON public.transfer_attempt_transitions;
+CREATE TRIGGER transfer_attempt_transitions_append_only
+BEFORE UPDATE OR DELETE ON public.transfer_attempt_transitions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_transfer_transition_changes();
+
+CREATE OR REPLACE FUNCTION public.transfer_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'created' THEN p_to IN ('submitted', 'failed', 'cancelled')
+    WHEN 'submitted' THEN p_to IN ('pending_at_provider', 'paid', 'failed')
+    WHEN 'pending_at_provider' THEN p_to IN ('paid', 'failed')
+    WHEN 'paid' THEN p_to IN ('reversed')
+    WHEN 'failed' THEN p_to IN ('submitted', 'paid', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_transfer_attempt_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('created', 'submitted') THEN
+      RAISE EXCEPTION 'Transfer % must start as created or submitted, not %', NEW.id, NEW.status;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT transfer_transition_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Illegal transfer transition % -> % for %', OLD.status, NEW.status, NEW.id;
+    END IF;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('pending_at_provider', 'paid', 'reversed')
+     AND COALESCE(NEW.corrected_transfer_id, NEW.stripe_transfer_id) IS NULL THEN
+    RAISE EXCEPTION 'Transfer % cannot move to % without a provider ID', NEW.id, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_transfer_attempt_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO transfer_attempt_transitions (transfer_attempt_id, from_status, to_status, provider_reference, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+    NEW.status,
+    COALESCE(NEW.corrected_transfer_id, NEW.stripe_transfer_id),
+    CASE WHEN NEW.status = 'failed' THEN NEW.error_message END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transfer_attempts_enforce_transition ON public.transfer_attempts;
+CREATE TRIGGER transfer_attempts_enforce_transition
+BEFORE INSERT OR UPDATE OF status ON public.transfer_attempts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_transfer_attempt_transition();
+
+DROP TRIGGER IF EXISTS transfer_attempts_record_transition ON public.transfer_attempts;
+CREATE TRIGGER transfer_attempts_record_transition
+AFTER INSERT OR UPDATE OF status ON public.transfer_attempts
+FOR EACH ROW EXECUTE FUNCTION public.record_transfer_attempt_transition();
+
+-- Legacy helpers now speak the lifecycle statuses
+CREATE OR REPLACE FUNCTION mark_transfer_corrected(
+  original_id UUID,
+  new_stripe_id TEXT,
+  corrected_destination TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE transfer_attempts
+  SET
+    status = 'paid',
+    corrected_transfer_id = new_stripe_id,
+    corrected_at = NOW(),
+    metadata = metadata || jsonb_build_object(
+      'corrected_destination', corrected_destination,
+      'correction_method', 'sql_workflow',
+      'corrected_at', NOW()
+    )
+  WHERE id = original_id;
+
+  SELECT true;
+$$;
+
+CREATE OR REPLACE FUNCTION get_failed_transfers_for_fix()
+RETURNS TABLE (
+  transfer_id UUID,
+  stripe_transfer_id TEXT,
+  amount BIGINT,
+  currency TEXT,
+  description TEXT,
+  destination TEXT,
+  error_code TEXT,
+  error_message TEXT,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  retry_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT
+    id,
+    stripe_transfer_id,
+    amount,
+    currency,
+    description,
+    destination,
+    error_code,
+    error_message,
+    metadata,
+    created_at,
+    retry_count
+  FROM transfer_attempts
+  WHERE status = 'failed'
+    AND stripe_transfer_id IS NULL  -- The provider never accepted it, so no money moved
+    AND error_code = 'resource_missing'
+    AND destination = 'default_for_currency'
+    AND retry_count < 3
+    AND created_at >= NOW() - INTERVAL '7 days'
+  ORDER BY amount DESC, created_at DESC;
+$$;
+
+-- Prepared transfers now start in the created state
+CREATE OR REPLACE FUNCTION process_application_balance_transfer()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  balance_record RECORD;
+  transfer_amount NUMERIC;
+  transfer_id UUID := gen_random_uuid();
+  result JSONB;
+BEGIN
+  -- Get current application balance
+  SELECT * INTO balance_record FROM application_balance WHERE id = 1;
+  
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'BALANCE_NOT_FOUND',
+      'message', 'Application balance record not found'
+    );
+  END IF;
+  
+  transfer_amount := balance_record.balance_amount;
+  
+  -- Check if balance is sufficient for transfer
+  IF transfer_amount < 5.00 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_BALANCE',
+      'message', format('Balance $%s is below $5.00 minimum', transfer_amount),
+      'balance', transfer_amount
+    );
+  END IF;
+  
+  -- Log the transfer attempt
+  INSERT INTO transfer_attempts (
+    id,
+    amount,
+    currency,
+    description,
+    status,
+    metadata
+  ) VALUES (
+    transfer_id,
+    (transfer_amount * 100)::BIGINT, -- Convert to cents
+    'usd',
+    format('Application balance transfer: $%s', transfer_amount),
+    'created',
+    jsonb_build_object(
+      'source', 'application_balance',
+      'amount_usd', transfer_amount,
+      'timestamp', NOW(),
+      'transfer_type', 'balance_payout'
+    )
+  );
+  
+  RETURN jsonb_build_object(
+    'success', true,
+    'transfer_id', transfer_id,
+    'amount', transfer_amount,
+    'status', 'created',
+    'message', format('Transfer of $%s prepared for Stripe processing', transfer_amount)
+  );
+END;
+$$;
@@ -0,0 +1,71 @@
+-- Roles for calling edge functions, checked by supabase/functions/_shared/auth.ts.
+-- Ordered lowest to highest; a caller holding a role also holds every role below it.
+DO $$
+BEGIN
+  CREATE TYPE public.app_role AS ENUM ('viewer', 'operator', 'treasurer', 'admin');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  granted_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+FOR SELECT USING (auth.uid() = user_id);
+
+-- One-off: users with financial access before roles existed get an explicit
+-- treasurer role. From here on user_roles alone decides; financial access
+-- granted later carries no role until an admin grants one.
+INSERT INTO public.user_roles (user_id, role)
+SELECT u.id, 'treasurer'
+FROM auth.users u
+WHERE public.user_has_financial_access(u.id)
+  AND NOT EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = u.id)
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Highest role held by the user
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(role) FROM user_roles WHERE user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(get_user_role(p_user_id) >= p_role, false);
+$$;
+
+-- Any user's role is for the edge functions (service_role) alone; signed-in
+-- users read their own with current_user_role
+REVOKE EXECUTE ON FUNCTION public.get_user_role(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_role(UUID, public.app_role) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT get_user_role(auth.uid());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_user_role() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO authenticated;
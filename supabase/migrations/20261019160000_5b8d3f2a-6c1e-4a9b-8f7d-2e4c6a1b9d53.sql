@@ -0,0 +1,23 @@
+-- Stripe webhook events are stored once per Stripe event ID; a redelivery
+-- collides here and is answered from the stored row.
+DELETE FROM public.stripe_webhook_events a
+USING public.stripe_webhook_events b
+WHERE a.event_id = b.event_id
+  AND a.created_at > b.created_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_webhook_events_event_id
+ON public.stripe_webhook_events(event_id);
+
+-- Events still waiting for (re)processing, read by replay-stripe-events
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_unprocessed
+ON public.stripe_webhook_events(created_at)
+WHERE processed IS NOT TRUE;
+
+-- Webhooks find the transfer attempt by the provider ID Stripe sends back
+CREATE INDEX IF NOT EXISTS idx_transfer_attempts_stripe_transfer_id
+ON public.transfer_attempts(stripe_transfer_id)
+WHERE stripe_transfer_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transfer_attempts_corrected_transfer_id
+ON public.transfer_attempts(corrected_transfer_id)
+WHERE corrected_transfer_id IS NOT NULL;
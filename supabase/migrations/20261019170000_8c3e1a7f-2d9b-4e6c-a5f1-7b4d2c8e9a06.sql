@@ -0,0 +1,70 @@
+-- Stripe reconciliation. Each run compares Stripe balance transactions in a
+-- window with transfer_attempts, automated_transfer_logs, stripe_payouts and
+-- the ledger, and writes one stripe_reconciliation row per Stripe object or
+-- internal record that could not be paired.
+CREATE TABLE IF NOT EXISTS public.stripe_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  stripe_transactions INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  variance_count INTEGER NOT NULL DEFAULT 0,
+  missing_internal_count INTEGER NOT NULL DEFAULT 0,
+  missing_stripe_count INTEGER NOT NULL DEFAULT 0,
+  total_variance NUMERIC(15,2) NOT NULL DEFAULT 0,
+  error_message TEXT,
+  execution_id TEXT,
+  triggered_by TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CHECK (window_end > window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_reconciliation_runs_started_at
+ON public.stripe_reconciliation_runs(started_at DESC);
+
+ALTER TABLE public.stripe_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view reconciliation runs" ON public.stripe_reconciliation_runs
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- reconciliation_status is one of matched, variance, missing_internal
+-- (in Stripe, not recorded here) or missing_stripe (recorded here, not in Stripe).
+-- details holds the balance transaction and the amount every source reported.
+ALTER TABLE public.stripe_reconciliation
+ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.stripe_reconciliation_runs(id) ON DELETE CASCADE;
+ALTER TABLE public.stripe_reconciliation
+ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_reconciliation_run_status
+ON public.stripe_reconciliation(run_id, reconciliation_status);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_reconciliation_object
+ON public.stripe_reconciliation(stripe_object_id);
+
+ALTER TABLE public.stripe_reconciliation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Financial users can view reconciliation" ON public.stripe_reconciliation;
+CREATE POLICY "Financial users can view reconciliation" ON public.stripe_reconciliation
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Nightly run over the last two days; the overlap picks up postings that
+-- landed after the previous run closed its window. The job reads the
+-- service_role key from Vault when it runs, so the key is never written into
+-- a migration; store it once with
+--   SELECT vault.create_secret('<service_role key>', 'service_role_key');
+SELECT cron.schedule(
+  'stripe-reconciliation',
+  '30 2 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/stripe-reconciliation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"window_hours": 48, "triggered_by": "cron_scheduler"}'::jsonb
+  ) as request_id;
+  $$
+);
@@ -0,0 +1,132 @@
+-- Transfer destinations are configured in stripe_destinations instead of being
+-- hardcoded in the functions. A destination only receives money once Stripe
+-- has confirmed it can (verification_status = 'verified'), and each one can
+-- cap single transfers and the total sent per UTC day.
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS label TEXT;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'unverified';
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS verification_error TEXT;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS min_transfer_cents BIGINT;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS max_transfer_cents BIGINT;
+ALTER TABLE public.stripe_destinations ADD COLUMN IF NOT EXISTS daily_limit_cents BIGINT;
+
+ALTER TABLE public.stripe_destinations DROP CONSTRAINT IF EXISTS stripe_destinations_verification_status_check;
+ALTER TABLE public.stripe_destinations
+ADD CONSTRAINT stripe_destinations_verification_status_check
+CHECK (verification_status IN ('unverified', 'verified', 'failed'));
+
+ALTER TABLE public.stripe_destinations DROP CONSTRAINT IF EXISTS stripe_destinations_limits_check;
+ALTER TABLE public.stripe_destinations
+ADD CONSTRAINT stripe_destinations_limits_check
+CHECK (
+  COALESCE(min_transfer_cents, 0) >= 0
+  AND COALESCE(max_transfer_cents, 1) > 0
+  AND COALESCE(daily_limit_cents, 1) > 0
+  AND (min_transfer_cents IS NULL OR max_transfer_cents IS NULL OR min_transfer_cents <= max_transfer_cents)
+);
+
+-- One default per currency
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_destinations_default
+ON public.stripe_destinations(currency)
+WHERE is_default;
+
+-- The daily limit sums transfer_attempts by destination
+CREATE INDEX IF NOT EXISTS idx_transfer_attempts_destination_created_at
+ON public.transfer_attempts(destination, created_at)
+WHERE destination IS NOT NULL;
+
+-- Destinations decide where money goes, so they are written only through the
+-- functions (service role) and readable by financial users
+DROP POLICY IF EXISTS "Allow service role access" ON public.stripe_destinations;
+DROP POLICY IF EXISTS "Financial users can view destinations" ON public.stripe_destinations;
+CREATE POLICY "Financial users can view destinations" ON public.stripe_destinations
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- The connected account stripe-revenue-transfer used to hardcode. It starts
+-- unverified, so nothing is sent to it until someone verifies it.
+INSERT INTO public.stripe_destinations (currency, account_id, account_type, label, is_default)
+VALUES ('usd', 'acct_1RGs3rD6CDwEP7C7', 'express', 'Revenue payout account', true)
+ON CONFLICT (currency, account_id) DO NOTHING;
+
+-- Upserts on (currency, account_id). Changing the account type sends the
+-- destination back to unverified; making it the default clears the previous
+-- default for the currency.
+DROP FUNCTION IF EXISTS public.upsert_stripe_destination(TEXT, TEXT, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.upsert_stripe_destination(
+  p_account_id TEXT,
+  p_account_type TEXT DEFAULT 'express',
+  p_currency TEXT DEFAULT 'usd',
+  p_is_active BOOLEAN DEFAULT true,
+  p_label TEXT DEFAULT NULL,
+  p_is_default BOOLEAN DEFAULT NULL,
+  p_min_transfer_cents BIGINT DEFAULT NULL,
+  p_max_transfer_cents BIGINT DEFAULT NULL,
+  p_daily_limit_cents BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  destination_id UUID,
+  destination_account_id TEXT,
+  destination_is_active BOOLEAN,
+  destination_verification_status TEXT,
+  destination_is_default BOOLEAN,
+  destination_created_at TIMESTAMP WITH TIME ZONE,
+  destination_updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT := lower(p_currency);
+BEGIN
+  IF p_account_id IS NULL OR p_account_id !~ '^acct_[A-Za-z0-9]+$' THEN
+    RAISE EXCEPTION 'Destination must be a Stripe account ID (acct_...), got %', p_account_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_is_default THEN
+    UPDATE stripe_destinations
+    SET is_default = false, updated_at = now()
+    WHERE currency = v_currency AND account_id <> p_account_id AND is_default;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO stripe_destinations AS d (
+    account_id, account_type, currency, is_active, label, is_default,
+    min_transfer_cents, max_transfer_cents, daily_limit_cents
+  )
+  VALUES (
+    p_account_id, p_account_type, v_currency, p_is_active, p_label, COALESCE(p_is_default, false),
+    p_min_transfer_cents, p_max_transfer_cents, p_daily_limit_cents
+  )
+  ON CONFLICT (currency, account_id) DO UPDATE SET
+    account_type = EXCLUDED.account_type,
+    is_active = EXCLUDED.is_active,
+    label = COALESCE(EXCLUDED.label, d.label),
+    is_default = COALESCE(p_is_default, d.is_default),
+    min_transfer_cents = EXCLUDED.min_transfer_cents,
+    max_transfer_cents = EXCLUDED.max_transfer_cents,
+    daily_limit_cents = EXCLUDED.daily_limit_cents,
+    verification_status = CASE
+      WHEN d.account_type IS DISTINCT FROM EXCLUDED.account_type THEN 'unverified'
+      ELSE d.verification_status
+    END,
+    updated_at = now()
+  RETURNING d.id, d.account_id, d.is_active, d.verification_status, d.is_default, d.created_at, d.updated_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.upsert_stripe_destination(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, BIGINT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Checkout plans, formerly hardcoded in create-checkout. One stripe_config row
+-- per plan, keyed checkout_plan.<plan>, whose value is
+-- {"price_id": ..., "product_id": ..., "name": ...}.
+INSERT INTO public.stripe_config (key, value, is_secret)
+SELECT 'checkout_plan.basic', '{"price_id": "price_1Ssy0BDWu650RN3omhx7HeqZ", "product_id": "prod_TqfKoPz08dVxAX", "name": "AI Content API - Basic"}', false
+WHERE NOT EXISTS (SELECT 1 FROM public.stripe_config WHERE key = 'checkout_plan.basic');
+
+INSERT INTO public.stripe_config (key, value, is_secret)
+SELECT 'checkout_plan.pro', '{"price_id": "price_1Ssy0WDWu650RN3ou9QNZrJj", "product_id": "prod_TqfLOoaEVt0lLx", "name": "AI Content API - Pro"}', false
+WHERE NOT EXISTS (SELECT 1 FROM public.stripe_config WHERE key = 'checkout_plan.pro');
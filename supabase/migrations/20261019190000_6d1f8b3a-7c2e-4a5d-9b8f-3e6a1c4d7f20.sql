@@ -0,0 +1,36 @@
+-- Two-person approval for large payouts. A payout function asked to move at
+-- least its configured threshold parks the request in manual_review_queue
+-- (transaction_type 'payout_approval') instead of running it. A second
+-- treasurer approves it through payout-approvals, which then re-invokes the
+-- function with the stored request body and the approval ID.
+--
+-- status moves pending -> approved -> executing -> executed | failed, or
+-- pending -> rejected | expired. details holds the amount in cents, the
+-- summary and the dry-run plan the requester would have executed.
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS function_name TEXT;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS request_body JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS requested_by TEXT;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS decided_by UUID;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS decided_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.manual_review_queue
+ADD COLUMN IF NOT EXISTS execution_result JSONB;
+
+-- Scheduled jobs request payouts too, and they have no user
+ALTER TABLE public.manual_review_queue
+ALTER COLUMN user_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_manual_review_queue_type_status
+ON public.manual_review_queue(transaction_type, status, created_at DESC);
+
+-- Thresholds per function, in cents; a function without one never waits for
+-- approval. Approvals not decided within expires_after_hours expire.
+INSERT INTO public.stripe_config (key, value, is_secret)
+SELECT 'payout_approval', '{"thresholds_cents": {"payout-now": 100000, "aggregate-usd-to-stripe": 100000}, "expires_after_hours": 24}', false
+WHERE NOT EXISTS (SELECT 1 FROM public.stripe_config WHERE key = 'payout_approval');
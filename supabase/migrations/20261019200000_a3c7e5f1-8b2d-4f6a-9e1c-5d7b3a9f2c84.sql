@@ -0,0 +1,270 @@
+-- Velocity limits and the circuit breaker. Every function that moves money
+-- asks authorize_money_movement before calling a provider and reports the
+-- outcome through record_money_movement_result. Limits come from the single
+-- financial_failsafe_config row (id 1); a status of 'halted' refuses every
+-- movement until someone resumes it. Trips and manual halts are recorded in
+-- emergency_events.
+CREATE TABLE IF NOT EXISTS public.money_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  destination TEXT,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'authorized' CHECK (status IN ('authorized', 'succeeded', 'failed')),
+  execution_id TEXT,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_money_movements_created_at
+ON public.money_movements(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_money_movements_destination
+ON public.money_movements(destination, created_at DESC);
+
+ALTER TABLE public.money_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view money movements" ON public.money_movements
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Amounts in cents; a missing or null limit is not enforced. Windows are
+-- rolling. The breaker trips after failure_count failed movements within
+-- failure_window_minutes, or on a movement larger than anomaly_multiplier
+-- times the average of the last anomaly_sample successful ones.
+INSERT INTO public.financial_failsafe_config (id, status, health_status, config)
+SELECT 1, 'active', 'healthy', '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.financial_failsafe_config WHERE id = 1);
+
+UPDATE public.financial_failsafe_config
+SET config = '{
+  "max_single_transfer_cents": 2500000,
+  "hourly_amount_cents": 5000000,
+  "daily_amount_cents": 20000000,
+  "daily_transfer_count": 100,
+  "per_destination_daily_cents": 10000000,
+  "failure_count": 5,
+  "failure_window_minutes": 60,
+  "anomaly_multiplier": 10,
+  "anomaly_sample": 20
+}'::jsonb || COALESCE(config, '{}'::jsonb),
+  updated_at = now()
+WHERE id = 1;
+
+CREATE OR REPLACE FUNCTION public.trip_circuit_breaker(
+  p_event_type TEXT,
+  p_reason TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  UPDATE financial_failsafe_config
+  SET status = 'halted', health_status = 'critical', last_health_check = now(), updated_at = now()
+  WHERE id = 1;
+
+  INSERT INTO emergency_events (event_type, severity, status, details)
+  VALUES (p_event_type, 'critical', 'active', p_details || jsonb_build_object('reason', p_reason))
+  RETURNING id INTO v_event_id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+-- Returns {allowed: true, movement_id} and records the movement as authorized,
+-- or {allowed: false, reason, message, ...} and records nothing. Authorized
+-- movements count against the limits until they are reported failed.
+CREATE OR REPLACE FUNCTION public.authorize_money_movement(
+  p_function_name TEXT,
+  p_provider TEXT,
+  p_destination TEXT,
+  p_amount_cents BIGINT,
+  p_currency TEXT DEFAULT 'usd',
+  p_execution_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config JSONB;
+  v_status TEXT;
+  v_hour_total BIGINT;
+  v_day_total BIGINT;
+  v_day_count BIGINT;
+  v_destination_total BIGINT;
+  v_average NUMERIC;
+  v_sample_size BIGINT;
+  v_movement_id UUID;
+BEGIN
+  -- One authorization at a time, so two movements cannot both fit under a limit
+  PERFORM pg_advisory_xact_lock(hashtext('authorize_money_movement'));
+
+  SELECT config, status INTO v_config, v_status FROM financial_failsafe_config WHERE id = 1;
+  v_config := COALESCE(v_config, '{}'::jsonb);
+
+  IF v_status = 'halted' THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'halted',
+      'message', 'Money movement is halted; resume it on the Safety page once the cause is understood');
+  END IF;
+
+  IF p_amount_cents > (v_config->>'max_single_transfer_cents')::BIGINT THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'max_single_transfer',
+      'message', 'Amount is above the largest single transfer allowed',
+      'limit_cents', (v_config->>'max_single_transfer_cents')::BIGINT);
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount_cents) FILTER (WHERE created_at > now() - interval '1 hour'), 0),
+    COALESCE(SUM(amount_cents), 0),
+    COUNT(*),
+    COALESCE(SUM(amount_cents) FILTER (WHERE destination IS NOT DISTINCT FROM p_destination), 0)
+  INTO v_hour_total, v_day_total, v_day_count, v_destination_total
+  FROM money_movements
+  WHERE status <> 'failed' AND created_at > now() - interval '24 hours';
+
+  IF v_hour_total + p_amount_cents > (v_config->>'hourly_amount_cents')::BIGINT THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'hourly_amount',
+      'message', 'Amount would exceed the hourly limit',
+      'limit_cents', (v_config->>'hourly_amount_cents')::BIGINT, 'used_cents', v_hour_total);
+  END IF;
+
+  IF v_day_total + p_amount_cents > (v_config->>'daily_amount_cents')::BIGINT THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'daily_amount',
+      'message', 'Amount would exceed the daily limit',
+      'limit_cents', (v_config->>'daily_amount_cents')::BIGINT, 'used_cents', v_day_total);
+  END IF;
+
+  IF v_day_count + 1 > (v_config->>'daily_transfer_count')::BIGINT THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'daily_transfer_count',
+      'message', 'The daily number of transfers has been reached',
+      'limit', (v_config->>'daily_transfer_count')::BIGINT, 'used', v_day_count);
+  END IF;
+
+  IF v_destination_total + p_amount_cents > (v_config->>'per_destination_daily_cents')::BIGINT THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'per_destination_daily',
+      'message', 'Amount would exceed the daily limit for this destination',
+      'destination', p_destination,
+      'limit_cents', (v_config->>'per_destination_daily_cents')::BIGINT, 'used_cents', v_destination_total);
+  END IF;
+
+  SELECT AVG(amount_cents), COUNT(*) INTO v_average, v_sample_size
+  FROM (
+    SELECT amount_cents FROM money_movements
+    WHERE status = 'succeeded'
+    ORDER BY created_at DESC
+    LIMIT COALESCE((v_config->>'anomaly_sample')::INTEGER, 20)
+  ) recent;
+
+  -- Too little history says nothing about what is normal
+  IF v_sample_size >= 5 AND p_amount_cents > v_average * (v_config->>'anomaly_multiplier')::NUMERIC THEN
+    PERFORM trip_circuit_breaker('anomaly_detected', 'Movement far larger than recent ones', jsonb_build_object(
+      'function_name', p_function_name,
+      'provider', p_provider,
+      'destination', p_destination,
+      'amount_cents', p_amount_cents,
+      'average_cents', round(v_average),
+      'execution_id', p_execution_id
+    ));
+    RETURN jsonb_build_object('allowed', false, 'reason', 'anomaly',
+      'message', 'Amount is far above recent transfers; money movement has been halted',
+      'average_cents', round(v_average));
+  END IF;
+
+  INSERT INTO money_movements (function_name, provider, destination, amount_cents, currency, execution_id)
+  VALUES (p_function_name, p_provider, p_destination, p_amount_cents, lower(p_currency), p_execution_id)
+  RETURNING id INTO v_movement_id;
+
+  RETURN jsonb_build_object('allowed', true, 'movement_id', v_movement_id);
+END;
+$$;
+
+-- Returns {tripped: true} when this failure tripped the breaker
+CREATE OR REPLACE FUNCTION public.record_money_movement_result(
+  p_movement_id UUID,
+  p_succeeded BOOLEAN,
+  p_error_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config JSONB;
+  v_status TEXT;
+  v_failures BIGINT;
+BEGIN
+  UPDATE money_movements
+  SET status = CASE WHEN p_succeeded THEN 'succeeded' ELSE 'failed' END,
+      error_message = p_error_message,
+      completed_at = now()
+  WHERE id = p_movement_id AND status = 'authorized';
+
+  IF p_succeeded THEN
+    RETURN jsonb_build_object('tripped', false);
+  END IF;
+
+  SELECT config, status INTO v_config, v_status FROM financial_failsafe_config WHERE id = 1 FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_failures
+  FROM money_movements
+  WHERE status = 'failed'
+    AND completed_at > now() - make_interval(mins => COALESCE((v_config->>'failure_window_minutes')::INTEGER, 60));
+
+  IF v_status IS DISTINCT FROM 'halted' AND v_failures >= (v_config->>'failure_count')::BIGINT THEN
+    PERFORM trip_circuit_breaker('circuit_breaker_tripped', 'Too many failed money movements', jsonb_build_object(
+      'failures', v_failures,
+      'window_minutes', COALESCE((v_config->>'failure_window_minutes')::INTEGER, 60),
+      'last_movement_id', p_movement_id,
+      'last_error', p_error_message
+    ));
+    RETURN jsonb_build_object('tripped', true, 'failures', v_failures);
+  END IF;
+
+  RETURN jsonb_build_object('tripped', false, 'failures', v_failures);
+END;
+$$;
+
+-- The kill switch. Halting records a manual_halt event; resuming resolves
+-- every open breaker event with the given notes.
+CREATE OR REPLACE FUNCTION public.set_failsafe_status(
+  p_halted BOOLEAN,
+  p_reason TEXT,
+  p_actor TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_halted THEN
+    PERFORM trip_circuit_breaker('manual_halt', p_reason, jsonb_build_object('actor', p_actor));
+    RETURN 'halted';
+  END IF;
+
+  UPDATE financial_failsafe_config
+  SET status = 'active', health_status = 'healthy', last_health_check = now(), updated_at = now()
+  WHERE id = 1;
+
+  UPDATE emergency_events
+  SET status = 'resolved', resolved_at = now(), updated_at = now(),
+      resolution_notes = format('Resumed by %s: %s', p_actor, p_reason)
+  WHERE status = 'active' AND event_type IN ('manual_halt', 'circuit_breaker_tripped', 'anomaly_detected');
+
+  RETURN 'active';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trip_circuit_breaker(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.authorize_money_movement(TEXT, TEXT, TEXT, BIGINT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_money_movement_result(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_failsafe_status(BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,255 @@
+-- Sweeps move the whole application balance out to a provider without a
+-- window in which the money is both sent and still counted as available.
+-- reserve_sweep takes the amount off Application Balance into Sweep Reserve
+-- and records the batch in one transaction, before any provider is called.
+-- The provider call then runs against the reservation, and finalize_sweep or
+-- release_sweep moves it on to the destination account or back again.
+-- recover-sweeps settles batches left behind by a crashed run.
+INSERT INTO public.chart_of_accounts (account_code, account_name, account_type, normal_balance, description, is_active)
+SELECT '1500', 'Sweep Reserve', 'asset', 'debit', 'Funds reserved by an in-flight sweep, not yet confirmed by the provider', true
+WHERE NOT EXISTS (SELECT 1 FROM public.chart_of_accounts WHERE account_code = '1500');
+
+CREATE TABLE IF NOT EXISTS public.sweep_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  -- Provider method and parameters, kept so recovery can replay the exact call
+  provider_method TEXT NOT NULL,
+  request JSONB NOT NULL DEFAULT '{}'::jsonb,
+  destination TEXT,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  -- Ledger movement the reservation becomes once the provider accepts it
+  movement TEXT NOT NULL CHECK (movement IN ('payout', 'connected_transfer')),
+  status TEXT NOT NULL DEFAULT 'reserved'
+    CHECK (status IN ('reserved', 'executing', 'finalized', 'released', 'needs_review')),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  execution_id TEXT,
+  provider_reference TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  reserve_journal_id UUID REFERENCES public.accounting_journals(id),
+  settle_journal_id UUID REFERENCES public.accounting_journals(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  executing_at TIMESTAMP WITH TIME ZONE,
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sweep_batches_open
+ON public.sweep_batches(status, updated_at)
+WHERE status IN ('reserved', 'executing', 'needs_review');
+
+CREATE INDEX IF NOT EXISTS idx_sweep_batches_created_at
+ON public.sweep_batches(created_at DESC);
+
+ALTER TABLE public.sweep_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view sweep batches" ON public.sweep_batches
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Returns {reserved: true, batch} or {reserved: false, reason, available_cents}.
+-- Calling it again with the same idempotency key returns the original batch.
+CREATE OR REPLACE FUNCTION public.reserve_sweep(
+  p_function_name TEXT,
+  p_provider TEXT,
+  p_provider_method TEXT,
+  p_request JSONB,
+  p_destination TEXT,
+  p_amount_cents BIGINT,
+  p_movement TEXT,
+  p_idempotency_key TEXT,
+  p_execution_id TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'usd'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_available_cents BIGINT;
+  v_journal_id UUID;
+BEGIN
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Sweep amount must be positive';
+  END IF;
+
+  -- One reservation at a time, so two sweeps cannot both see the same balance
+  PERFORM pg_advisory_xact_lock(hashtext('reserve_sweep'));
+
+  SELECT * INTO v_batch FROM sweep_batches WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN jsonb_build_object('reserved', true, 'existing', true, 'batch', to_jsonb(v_batch));
+  END IF;
+
+  v_available_cents := round(get_ledger_balance('1000') * 100);
+  IF v_available_cents < p_amount_cents THEN
+    RETURN jsonb_build_object(
+      'reserved', false,
+      'reason', 'insufficient_balance',
+      'available_cents', v_available_cents,
+      'amount_cents', p_amount_cents
+    );
+  END IF;
+
+  INSERT INTO sweep_batches (
+    function_name, provider, provider_method, request, destination,
+    amount_cents, currency, movement, idempotency_key, execution_id
+  ) VALUES (
+    p_function_name, p_provider, p_provider_method, COALESCE(p_request, '{}'::jsonb), p_destination,
+    p_amount_cents, COALESCE(p_currency, 'usd'), p_movement, p_idempotency_key, p_execution_id
+  )
+  RETURNING * INTO v_batch;
+
+  v_journal_id := post_ledger_journal(
+    format('Sweep reserve for %s via %s', p_function_name, p_provider),
+    jsonb_build_array(
+      jsonb_build_object('account_code', '1500', 'debit', p_amount_cents / 100.0, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text),
+      jsonb_build_object('account_code', '1000', 'credit', p_amount_cents / 100.0)
+    ),
+    'sweep_reserve:' || v_batch.id::text,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'execution_id', p_execution_id)
+  );
+
+  UPDATE sweep_batches SET reserve_journal_id = v_journal_id WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  RETURN jsonb_build_object('reserved', true, 'existing', false, 'batch', to_jsonb(v_batch));
+END;
+$$;
+
+-- Marks the point after which the provider may have moved the money.
+-- p_attempts is the attempt count the caller read; returns false when another
+-- caller has made an attempt since, or the batch is no longer reserved or
+-- executing, so only one caller ever sends each attempt.
+CREATE OR REPLACE FUNCTION public.mark_sweep_executing(p_batch_id UUID, p_attempts INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sweep_batches
+  SET status = 'executing', attempts = attempts + 1, executing_at = now(), updated_at = now()
+  WHERE id = p_batch_id AND attempts = p_attempts AND status IN ('reserved', 'executing');
+  RETURN FOUND;
+END;
+$$;
+
+-- The provider accepted the call: the reservation becomes a payout in transit
+-- or a connected-account transfer, posted under the provider's own reference
+-- (payout:<id>, transfer:<id>, ...) so webhooks and reconciliation find it.
+CREATE OR REPLACE FUNCTION public.finalize_sweep(
+  p_batch_id UUID,
+  p_provider_reference TEXT,
+  p_journal_reference TEXT,
+  p_description TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_journal_id UUID;
+BEGIN
+  SELECT * INTO v_batch FROM sweep_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown sweep batch %', p_batch_id;
+  END IF;
+  IF v_batch.status = 'finalized' THEN
+    RETURN to_jsonb(v_batch);
+  END IF;
+  IF v_batch.status NOT IN ('reserved', 'executing', 'needs_review') THEN
+    RAISE EXCEPTION 'Sweep batch % is %, not open', p_batch_id, v_batch.status;
+  END IF;
+
+  v_journal_id := post_ledger_journal(
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_code', CASE v_batch.movement WHEN 'payout' THEN '1100' ELSE '1300' END,
+        'debit', v_batch.amount_cents / 100.0
+      ),
+      jsonb_build_object('account_code', '1500', 'credit', v_batch.amount_cents / 100.0, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text)
+    ),
+    p_journal_reference,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'execution_id', v_batch.execution_id)
+  );
+
+  UPDATE sweep_batches
+  SET status = 'finalized', provider_reference = p_provider_reference, settle_journal_id = v_journal_id,
+      error_message = NULL, settled_at = now(), updated_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN to_jsonb(v_batch);
+END;
+$$;
+
+-- The provider refused the call, or it never reached the provider: the
+-- reservation goes back to Application Balance.
+CREATE OR REPLACE FUNCTION public.release_sweep(p_batch_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_journal_id UUID;
+BEGIN
+  SELECT * INTO v_batch FROM sweep_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown sweep batch %', p_batch_id;
+  END IF;
+  IF v_batch.status = 'released' THEN
+    RETURN to_jsonb(v_batch);
+  END IF;
+  IF v_batch.status NOT IN ('reserved', 'executing', 'needs_review') THEN
+    RAISE EXCEPTION 'Sweep batch % is %, not open', p_batch_id, v_batch.status;
+  END IF;
+
+  v_journal_id := post_ledger_journal(
+    format('Sweep released: %s', COALESCE(p_reason, 'no reason given')),
+    jsonb_build_array(
+      jsonb_build_object('account_code', '1000', 'debit', v_batch.amount_cents / 100.0),
+      jsonb_build_object('account_code', '1500', 'credit', v_batch.amount_cents / 100.0, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text)
+    ),
+    'sweep_release:' || v_batch.id::text,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'reason', p_reason)
+  );
+
+  UPDATE sweep_batches
+  SET status = 'released', error_message = p_reason, settle_journal_id = v_journal_id,
+      settled_at = now(), updated_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN to_jsonb(v_batch);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_sweep(TEXT, TEXT, TEXT, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_sweep_executing(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_sweep(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_sweep(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Settle sweeps left open by a crashed or timed-out run every ten minutes
+SELECT cron.schedule(
+  'recover-sweeps',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/recover-sweeps',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "recover", "triggered_by": "cron_scheduler"}'::jsonb
+  ) as request_id;
+  $$
+);
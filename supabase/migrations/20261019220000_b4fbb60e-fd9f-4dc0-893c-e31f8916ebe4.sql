@@ -0,0 +1,41 @@
+-- Units of every money column and RPC argument. Amounts are stored two ways,
+-- and the edge functions and the app convert between them only through the
+-- shared Money module (supabase/functions/_shared/money.ts):
+--   minor units  integer columns named *_cents, transfer_attempts.amount,
+--                and every amount sent to or received from Stripe
+--   major units  NUMERIC columns such as balance_amount and the ledger lines
+
+-- Minor units
+COMMENT ON COLUMN public.transfer_attempts.amount IS 'Minor units (cents) of currency';
+COMMENT ON COLUMN public.money_movements.amount_cents IS 'Minor units (cents) of currency';
+COMMENT ON COLUMN public.sweep_batches.amount_cents IS 'Minor units (cents) of currency';
+COMMENT ON COLUMN public.stripe_destinations.min_transfer_cents IS 'Minor units (cents) of the destination currency; NULL for no minimum';
+COMMENT ON COLUMN public.stripe_destinations.max_transfer_cents IS 'Minor units (cents) of the destination currency; NULL for no maximum';
+COMMENT ON COLUMN public.stripe_destinations.daily_limit_cents IS 'Minor units (cents) of the destination currency; NULL for no daily limit';
+
+COMMENT ON FUNCTION public.authorize_money_movement(TEXT, TEXT, TEXT, BIGINT, TEXT, TEXT) IS 'p_amount_cents is in minor units of p_currency';
+COMMENT ON FUNCTION public.reserve_sweep(TEXT, TEXT, TEXT, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT) IS 'p_amount_cents is in minor units of p_currency; the ledger journal it posts is in major units';
+COMMENT ON FUNCTION public.upsert_stripe_destination(TEXT, TEXT, TEXT, BOOLEAN, TEXT, BOOLEAN, BIGINT, BIGINT, BIGINT) IS 'Limits are in minor units of p_currency';
+
+-- Major units
+COMMENT ON COLUMN public.application_balance.balance_amount IS 'Major units (dollars); derived from ledger account 1000';
+COMMENT ON COLUMN public.earnings.amount IS 'Major units (dollars)';
+COMMENT ON COLUMN public.manual_review_queue.amount IS 'Major units (dollars); details.amount_cents holds the same amount in minor units';
+COMMENT ON COLUMN public.stripe_reconciliation.amount_stripe IS 'Major units (dollars), converted from the Stripe balance transaction';
+COMMENT ON COLUMN public.stripe_reconciliation.amount_internal IS 'Major units (dollars)';
+COMMENT ON COLUMN public.stripe_reconciliation.variance IS 'Major units (dollars): amount_stripe - amount_internal';
+COMMENT ON COLUMN public.accounting_journal_entries.debit_amount IS 'Major units (dollars), at most two decimal places';
+COMMENT ON COLUMN public.accounting_journal_entries.credit_amount IS 'Major units (dollars), at most two decimal places';
+
+COMMENT ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB) IS 'Line debits and credits are in major units (dollars), at most two decimal places';
+COMMENT ON FUNCTION public.get_ledger_balance(TEXT) IS 'Returns major units (dollars)';
+
+-- A fraction of a cent in the ledger means a conversion skipped the Money
+-- module. NOT VALID: rows posted before this migration are not re-checked.
+ALTER TABLE public.accounting_journal_entries DROP CONSTRAINT IF EXISTS accounting_journal_entries_whole_cents;
+ALTER TABLE public.accounting_journal_entries
+ADD CONSTRAINT accounting_journal_entries_whole_cents
+CHECK (
+  COALESCE(debit_amount, 0) = round(COALESCE(debit_amount, 0), 2)
+  AND COALESCE(credit_amount, 0) = round(COALESCE(credit_amount, 0), 2)
+) NOT VALID;
@@ -0,0 +1,217 @@
+-- Balances in more than one currency. Each journal is posted in a single
+-- currency and balances are kept per currency; nothing is converted when it
+-- is stored. Conversion happens only when reporting, at a dated rate from
+-- exchange_rates (see supabase/functions/_shared/exchange-rates.ts).
+ALTER TABLE public.accounting_journals ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE public.earnings ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+
+CREATE INDEX IF NOT EXISTS idx_accounting_journals_currency ON public.accounting_journals(currency);
+
+-- Digits after the decimal point in the currency's minor unit; matches
+-- minorUnitExponent in supabase/functions/_shared/money.ts
+CREATE OR REPLACE FUNCTION public.currency_minor_unit_exponent(p_currency TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lower(p_currency) IN ('bif', 'clp', 'djf', 'gnf', 'isk', 'jpy', 'kmf', 'krw', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf') THEN 0
+    WHEN lower(p_currency) IN ('bhd', 'jod', 'kwd', 'omr', 'tnd') THEN 3
+    ELSE 2
+  END;
+$$;
+
+-- post_ledger_journal now checks the minor unit of the journal's own currency
+ALTER TABLE public.accounting_journal_entries DROP CONSTRAINT IF EXISTS accounting_journal_entries_whole_cents;
+
+DROP FUNCTION IF EXISTS public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB);
+
+-- Post a balanced journal in a single transaction. Every line is in p_currency.
+-- p_lines: [{ "account_code": "1000", "debit": 10.00 }, { "account_code": "4000", "credit": 10.00 }, ...]
+CREATE OR REPLACE FUNCTION public.post_ledger_journal(
+  p_description TEXT,
+  p_lines JSONB,
+  p_reference TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb,
+  p_currency TEXT DEFAULT 'usd'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_id UUID;
+  new_journal_id UUID := gen_random_uuid();
+  line JSONB;
+  line_no INTEGER := 0;
+  line_debit NUMERIC;
+  line_credit NUMERIC;
+  line_account_id UUID;
+  sum_debit NUMERIC := 0;
+  sum_credit NUMERIC := 0;
+  v_currency TEXT := lower(trim(COALESCE(p_currency, 'usd')));
+  v_exponent INTEGER := currency_minor_unit_exponent(v_currency);
+BEGIN
+  IF p_reference IS NOT NULL THEN
+    SELECT id INTO existing_id FROM accounting_journals WHERE reference_number = p_reference;
+    IF FOUND THEN
+      RETURN existing_id;
+    END IF;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'Journal requires at least two lines';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    line_debit := COALESCE((line->>'debit')::NUMERIC, 0);
+    line_credit := COALESCE((line->>'credit')::NUMERIC, 0);
+
+    IF line_debit < 0 OR line_credit < 0 OR (line_debit > 0 AND line_credit > 0) OR (line_debit = 0 AND line_credit = 0) THEN
+      RAISE EXCEPTION 'Journal line for account % must have exactly one positive side', line->>'account_code';
+    END IF;
+
+    IF line_debit <> round(line_debit, v_exponent) OR line_credit <> round(line_credit, v_exponent) THEN
+      RAISE EXCEPTION 'Journal line for account % has a fraction of a minor unit of %', line->>'account_code', v_currency;
+    END IF;
+
+    PERFORM 1 FROM chart_of_accounts WHERE account_code = line->>'account_code' AND is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown or inactive ledger account %', line->>'account_code';
+    END IF;
+
+    sum_debit := sum_debit + line_debit;
+    sum_credit := sum_credit + line_credit;
+  END LOOP;
+
+  IF sum_debit <> sum_credit THEN
+    RAISE EXCEPTION 'Unbalanced journal: debits % <> credits %', sum_debit, sum_credit;
+  END IF;
+
+  INSERT INTO accounting_journals (
+    id, journal_number, description, reference_number, transaction_date,
+    status, posted_at, total_debit, total_credit, metadata, currency
+  ) VALUES (
+    new_journal_id,
+    'JRN-' || to_char(now(), 'YYYYMMDD') || '-' || substr(replace(new_journal_id::text, '-', ''), 1, 10),
+    p_description,
+    p_reference,
+    CURRENT_DATE,
+    'posted',
+    now(),
+    sum_debit,
+    sum_credit,
+    COALESCE(p_metadata, '{}'::jsonb),
+    v_currency
+  );
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    line_no := line_no + 1;
+    SELECT id INTO line_account_id FROM chart_of_accounts WHERE account_code = line->>'account_code';
+
+    INSERT INTO accounting_journal_entries (
+      journal_id, account_id, line_number, description,
+      debit_amount, credit_amount, entity_type, entity_id
+    ) VALUES (
+      new_journal_id,
+      line_account_id,
+      line_no,
+      COALESCE(line->>'description', p_description),
+      COALESCE((line->>'debit')::NUMERIC, 0),
+      COALESCE((line->>'credit')::NUMERIC, 0),
+      line->>'entity_type',
+      line->>'entity_id'
+    );
+  END LOOP;
+
+  RETURN new_journal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+COMMENT ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB, TEXT) IS 'Line debits and credits are in major units of p_currency, with no fraction of a minor unit';
+COMMENT ON COLUMN public.accounting_journals.currency IS 'Lower-case ISO 4217 code of every line in the journal';
+COMMENT ON COLUMN public.earnings.currency IS 'Lower-case ISO 4217 code of amount';
+COMMENT ON COLUMN public.accounting_journal_entries.debit_amount IS 'Major units of the journal currency';
+COMMENT ON COLUMN public.accounting_journal_entries.credit_amount IS 'Major units of the journal currency';
+
+-- Balances per account and currency, signed by the account's normal balance
+CREATE OR REPLACE VIEW public.ledger_currency_balances AS
+SELECT
+  a.id AS account_id,
+  a.account_code,
+  a.account_name,
+  a.account_type,
+  a.normal_balance,
+  e.currency,
+  SUM(e.debit_amount) AS total_debit,
+  SUM(e.credit_amount) AS total_credit,
+  CASE
+    WHEN lower(a.normal_balance) = 'debit' THEN SUM(e.debit_amount) - SUM(e.credit_amount)
+    ELSE SUM(e.credit_amount) - SUM(e.debit_amount)
+  END AS balance,
+  MAX(e.posted_at) AS last_posted_at
+FROM public.chart_of_accounts a
+JOIN (
+  SELECT je.account_id, COALESCE(je.debit_amount, 0) AS debit_amount, COALESCE(je.credit_amount, 0) AS credit_amount, j.posted_at, j.currency
+  FROM public.accounting_journal_entries je
+  JOIN public.accounting_journals j ON j.id = je.journal_id
+  WHERE j.status = 'posted'
+) e ON e.account_id = a.id
+WHERE a.is_active
+GROUP BY a.id, a.account_code, a.account_name, a.account_type, a.normal_balance, e.currency;
+
+-- ledger_account_balances keeps one row per account, in USD, so existing
+-- readers never add amounts in different currencies together
+CREATE OR REPLACE VIEW public.ledger_account_balances AS
+SELECT
+  a.id AS account_id,
+  a.account_code,
+  a.account_name,
+  a.account_type,
+  a.normal_balance,
+  COALESCE(SUM(e.debit_amount), 0) AS total_debit,
+  COALESCE(SUM(e.credit_amount), 0) AS total_credit,
+  CASE
+    WHEN lower(a.normal_balance) = 'debit' THEN COALESCE(SUM(e.debit_amount), 0) - COALESCE(SUM(e.credit_amount), 0)
+    ELSE COALESCE(SUM(e.credit_amount), 0) - COALESCE(SUM(e.debit_amount), 0)
+  END AS balance,
+  MAX(e.posted_at) AS last_posted_at
+FROM public.chart_of_accounts a
+LEFT JOIN (
+  SELECT je.account_id, je.debit_amount, je.credit_amount, j.posted_at
+  FROM public.accounting_journal_entries je
+  JOIN public.accounting_journals j ON j.id = je.journal_id
+  WHERE j.status = 'posted' AND j.currency = 'usd'
+) e ON e.account_id = a.id
+WHERE a.is_active
+GROUP BY a.id, a.account_code, a.account_name, a.account_type, a.normal_balance;
+
+DROP FUNCTION IF EXISTS public.get_ledger_balance(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_ledger_balance(p_account_code TEXT, p_currency TEXT DEFAULT 'usd')
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT balance FROM ledger_currency_balances
+    WHERE account_code = p_account_code AND currency = lower(p_currency)
+  ), 0);
+$$;
+
+COMMENT ON FUNCTION public.get_ledger_balance(TEXT, TEXT) IS 'Returns major units of p_currency';
+
+-- Dated rate snapshots. rates maps lower-case currency codes to units of that
+-- currency per one unit of base_currency. The newest snapshot on or before a
+-- date is the one used for that date.
+ALTER TABLE public.exchange_rates ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE public.exchange_rates ADD COLUMN IF NOT EXISTS as_of DATE NOT NULL DEFAULT CURRENT_DATE;
+ALTER TABLE public.exchange_rates ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual';
+
+UPDATE public.exchange_rates SET as_of = updated_at::date WHERE updated_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_base_as_of ON public.exchange_rates(base_currency, as_of DESC);
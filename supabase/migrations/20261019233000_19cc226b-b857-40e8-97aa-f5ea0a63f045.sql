@@ -0,0 +1,242 @@
+-- Named jobs for the scheduler function, which pg_cron ticks every minute.
+-- Each job calls one edge function on a cron expression in its own time zone,
+-- outside its blackout windows, and says whether missed runs are skipped or
+-- caught up. Runs are recorded in scheduled_job_runs.
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  cron_expression TEXT NOT NULL,
+  -- IANA zone the expression and blackout windows are read in
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  function_name TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  run_as_role TEXT NOT NULL DEFAULT 'operator'
+    CHECK (run_as_role IN ('viewer', 'operator', 'treasurer', 'admin')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  missed_run_policy TEXT NOT NULL DEFAULT 'skip' CHECK (missed_run_policy IN ('skip', 'catch_up')),
+  max_catch_up INTEGER NOT NULL DEFAULT 5 CHECK (max_catch_up BETWEEN 1 AND 100),
+  -- [{ "days": [0, 6] }, { "dates": ["2026-12-25"] }, { "start": "22:00", "end": "23:59" }]
+  blackout_windows JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(blackout_windows) = 'array'),
+  -- A run holding the job longer than this is presumed dead
+  lock_timeout_minutes INTEGER NOT NULL DEFAULT 30 CHECK (lock_timeout_minutes > 0),
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_finished_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT,
+  last_error TEXT,
+  running_since TIMESTAMP WITH TIME ZONE,
+  running_execution_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due
+ON public.scheduled_jobs(next_run_at)
+WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS public.scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.scheduled_jobs(id) ON DELETE CASCADE,
+  job_name TEXT NOT NULL,
+  -- The occurrence this run is for; null for runs started by hand
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'catch_up', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+  execution_id TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  error_message TEXT,
+  -- Each occurrence runs at most once
+  UNIQUE (job_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job
+ON public.scheduled_job_runs(job_id, started_at DESC);
+
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view scheduled jobs" ON public.scheduled_jobs
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+CREATE POLICY "Financial users can view scheduled job runs" ON public.scheduled_job_runs
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Starts a run of a job, unless another run of it is still going or this
+-- occurrence has already run. Edge functions reach the database through
+-- PostgREST, whose connections do not outlive a call, so a session advisory
+-- lock could not span the run itself. Instead the transaction lock makes the
+-- check-and-mark atomic, and running_since holds the job until
+-- finish_scheduled_job or lock_timeout_minutes.
+-- Returns {claimed: true, run} or {claimed: false, reason}.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_job(
+  p_job_id UUID,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE,
+  p_trigger TEXT,
+  p_execution_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job scheduled_jobs%ROWTYPE;
+  v_run scheduled_job_runs%ROWTYPE;
+BEGIN
+  IF NOT pg_try_advisory_xact_lock(hashtext('scheduled_job:' || p_job_id::text)) THEN
+    RETURN jsonb_build_object('claimed', false, 'reason', 'running');
+  END IF;
+
+  SELECT * INTO v_job FROM scheduled_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown scheduled job %', p_job_id;
+  END IF;
+
+  IF v_job.running_since IS NOT NULL
+     AND v_job.running_since > now() - make_interval(mins => v_job.lock_timeout_minutes) THEN
+    RETURN jsonb_build_object(
+      'claimed', false,
+      'reason', 'running',
+      'running_since', v_job.running_since,
+      'running_execution_id', v_job.running_execution_id
+    );
+  END IF;
+
+  IF p_scheduled_for IS NOT NULL
+     AND EXISTS (SELECT 1 FROM scheduled_job_runs WHERE job_id = p_job_id AND scheduled_for = p_scheduled_for) THEN
+    RETURN jsonb_build_object('claimed', false, 'reason', 'already_run');
+  END IF;
+
+  -- A run that outlived its lock never finished; close it so the history says so
+  UPDATE scheduled_job_runs
+  SET status = 'failed', finished_at = now(), error_message = 'Abandoned: held the job past its lock timeout'
+  WHERE job_id = p_job_id AND status = 'running';
+
+  INSERT INTO scheduled_job_runs (job_id, job_name, scheduled_for, trigger, execution_id)
+  VALUES (p_job_id, v_job.name, p_scheduled_for, p_trigger, p_execution_id)
+  RETURNING * INTO v_run;
+
+  UPDATE scheduled_jobs
+  SET running_since = now(), running_execution_id = p_execution_id, last_run_at = now()
+  WHERE id = p_job_id;
+
+  RETURN jsonb_build_object('claimed', true, 'run', to_jsonb(v_run));
+END;
+$$;
+
+-- Ends a run and releases the job. p_next_run_at, when given, moves the schedule on.
+CREATE OR REPLACE FUNCTION public.finish_scheduled_job(
+  p_run_id UUID,
+  p_status TEXT,
+  p_result JSONB DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run scheduled_job_runs%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('succeeded', 'failed') THEN
+    RAISE EXCEPTION 'A run finishes as succeeded or failed, not %', p_status;
+  END IF;
+
+  UPDATE scheduled_job_runs
+  SET status = p_status, finished_at = now(), result = p_result, error_message = p_error
+  WHERE id = p_run_id AND status = 'running'
+  RETURNING * INTO v_run;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduled job run % is not running', p_run_id;
+  END IF;
+
+  UPDATE scheduled_jobs
+  SET running_since = NULL,
+      running_execution_id = NULL,
+      last_finished_at = now(),
+      last_status = p_status,
+      last_error = p_error,
+      next_run_at = COALESCE(p_next_run_at, next_run_at)
+  WHERE id = v_run.job_id AND running_execution_id IS NOT DISTINCT FROM v_run.execution_id;
+END;
+$$;
+
+-- The cron.schedule jobs from the migrations, for the Jobs page. Only the
+-- called function's name is returned: the command holds the service key.
+CREATE OR REPLACE FUNCTION public.list_cron_jobs()
+RETURNS TABLE (
+  jobid BIGINT,
+  jobname TEXT,
+  schedule TEXT,
+  active BOOLEAN,
+  function_name TEXT,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    j.jobid,
+    j.jobname,
+    j.schedule,
+    j.active,
+    substring(j.command FROM '/functions/v1/([A-Za-z0-9_-]+)'),
+    last_run.start_time,
+    last_run.status
+  FROM cron.job j
+  LEFT JOIN LATERAL (
+    SELECT d.start_time, d.status
+    FROM cron.job_run_details d
+    WHERE d.jobid = j.jobid
+    ORDER BY d.start_time DESC
+    LIMIT 1
+  ) last_run ON true
+  ORDER BY j.jobname;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_job(UUID, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_scheduled_job(UUID, TEXT, JSONB, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.list_cron_jobs() FROM PUBLIC, anon, authenticated;
+
+-- The full-database transfer, formerly timed by the hourly/daily/weekly
+-- switch. Off until an admin turns it on, and never on a weekend.
+INSERT INTO public.scheduled_jobs (name, description, cron_expression, timezone, function_name, payload, run_as_role, enabled, blackout_windows, lock_timeout_minutes)
+VALUES (
+  'full-transfer',
+  'Runs comprehensive-usd-aggregator through automated-full-transfer-scheduler',
+  '0 3 * * *',
+  'UTC',
+  'automated-full-transfer-scheduler',
+  '{}'::jsonb,
+  'treasurer',
+  false,
+  '[{"days": [0, 6], "label": "Weekend"}]'::jsonb,
+  60
+)
+ON CONFLICT (name) DO NOTHING;
+
+SELECT cron.schedule(
+  'scheduler-tick',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "tick", "triggered_by": "cron_scheduler"}'::jsonb
+  ) as request_id;
+  $$
+);
@@ -0,0 +1,280 @@
+-- The revenue-worker function executes autonomous_revenue_task_queue. A
+-- worker claims tasks under a lease, renews it with heartbeats while it
+-- works, and completes each task. A task whose lease runs out belongs to a
+-- worker that died; the next claim takes it over and counts the attempt.
+ALTER TABLE public.autonomous_revenue_task_queue
+  -- A failed task waits here until its backoff is over
+  ADD COLUMN IF NOT EXISTS available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+-- Tasks claimed before leases existed have nobody working on them
+UPDATE public.autonomous_revenue_task_queue
+SET lease_expires_at = now()
+WHERE status = 'processing' AND lease_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_revenue_task_queue_claimable
+ON public.autonomous_revenue_task_queue(priority DESC, available_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_revenue_task_queue_leases
+ON public.autonomous_revenue_task_queue(lease_expires_at)
+WHERE status = 'processing';
+
+-- Takes a worker row for one run of the revenue-worker function. Rows of
+-- stopped workers, and of workers that stopped heartbeating without saying
+-- so, are reused so the table does not grow by a row a minute.
+CREATE OR REPLACE FUNCTION public.register_revenue_worker(
+  p_worker_type TEXT,
+  p_execution_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_worker_id UUID;
+BEGIN
+  SELECT id INTO v_worker_id
+  FROM autonomous_revenue_workers
+  WHERE worker_type = p_worker_type
+    AND (status = 'stopped' OR last_heartbeat < now() - INTERVAL '5 minutes')
+  ORDER BY last_heartbeat
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_worker_id IS NULL THEN
+    INSERT INTO autonomous_revenue_workers (worker_type, status, last_heartbeat, config)
+    VALUES (p_worker_type, 'active', now(), jsonb_build_object('runtime', 'revenue-worker'))
+    RETURNING id INTO v_worker_id;
+  ELSE
+    UPDATE autonomous_revenue_workers
+    SET status = 'active', last_heartbeat = now(), updated_at = now()
+    WHERE id = v_worker_id;
+  END IF;
+
+  UPDATE autonomous_revenue_workers
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('execution_id', p_execution_id, 'started_at', now())
+  WHERE id = v_worker_id;
+
+  RETURN v_worker_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.claim_revenue_tasks(UUID, TEXT, INTEGER);
+
+-- Claims up to p_batch_size tasks, highest priority first, leased to the
+-- worker for p_lease_seconds. p_task_types limits the claim to the types the
+-- worker can run. Expired leases are taken over as a new attempt; a task out
+-- of attempts fails instead.
+CREATE OR REPLACE FUNCTION public.claim_revenue_tasks(
+  p_worker_id UUID,
+  p_worker_type TEXT,
+  p_batch_size INTEGER DEFAULT 1,
+  p_task_types TEXT[] DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF public.autonomous_revenue_task_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_lease_seconds < 10 THEN
+    RAISE EXCEPTION 'A lease must last at least 10 seconds, not %', p_lease_seconds;
+  END IF;
+
+  UPDATE autonomous_revenue_workers
+  SET last_heartbeat = now(), status = 'active', updated_at = now()
+  WHERE id = p_worker_id;
+
+  UPDATE autonomous_revenue_task_queue
+  SET status = 'failed',
+      completed_at = now(),
+      lease_expires_at = NULL,
+      error_message = 'Lease expired on the last attempt: the worker stopped heartbeating'
+  WHERE status = 'processing'
+    AND lease_expires_at < now()
+    AND retry_count >= max_retries
+    AND (p_task_types IS NULL OR task_type = ANY(p_task_types));
+
+  RETURN QUERY
+  WITH picked AS (
+    SELECT id
+    FROM autonomous_revenue_task_queue
+    WHERE (p_task_types IS NULL OR task_type = ANY(p_task_types))
+      AND (
+        (status = 'pending' AND available_at <= now())
+        OR (status = 'processing' AND lease_expires_at < now())
+      )
+    ORDER BY priority DESC, available_at, created_at
+    LIMIT GREATEST(p_batch_size, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE autonomous_revenue_task_queue q
+  SET status = 'processing',
+      worker_id = p_worker_id,
+      started_at = now(),
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      -- Taking over an expired lease uses up the dead worker's attempt
+      retry_count = q.retry_count + CASE WHEN q.status = 'processing' THEN 1 ELSE 0 END
+  FROM picked
+  WHERE q.id = picked.id
+  RETURNING q.*;
+END;
+$$;
+
+-- Renews the worker's leases on the given tasks and records its heartbeat.
+-- Returns the tasks it still holds; a task missing from the answer was lost
+-- to another worker after its lease ran out.
+CREATE OR REPLACE FUNCTION public.heartbeat_revenue_tasks(
+  p_worker_id UUID,
+  p_task_ids UUID[],
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_held UUID[];
+BEGIN
+  UPDATE autonomous_revenue_workers
+  SET last_heartbeat = now(), updated_at = now()
+  WHERE id = p_worker_id;
+
+  WITH renewed AS (
+    UPDATE autonomous_revenue_task_queue
+    SET lease_expires_at = now() + make_interval(secs => p_lease_seconds), heartbeat_at = now()
+    WHERE id = ANY(p_task_ids) AND worker_id = p_worker_id AND status = 'processing'
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_held FROM renewed;
+
+  RETURN v_held;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.complete_revenue_task(UUID, UUID, BOOLEAN, JSONB, TEXT);
+
+-- Ends the worker's attempt at a task. A failure goes back to pending until
+-- p_retry_delay_seconds has passed, unless the task is out of retries or
+-- p_retryable is false, in which case it fails for good.
+-- Returns {completed: true, status, retry_at?} or {completed: false, reason: "lease_lost"}.
+CREATE OR REPLACE FUNCTION public.complete_revenue_task(
+  p_task_id UUID,
+  p_worker_id UUID,
+  p_success BOOLEAN,
+  p_result JSONB DEFAULT NULL,
+  p_error_message TEXT DEFAULT NULL,
+  p_retry_delay_seconds INTEGER DEFAULT 0,
+  p_retryable BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task autonomous_revenue_task_queue%ROWTYPE;
+  v_status TEXT;
+  v_retry_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_task
+  FROM autonomous_revenue_task_queue
+  WHERE id = p_task_id AND worker_id = p_worker_id AND status = 'processing'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('completed', false, 'reason', 'lease_lost');
+  END IF;
+
+  IF p_success THEN
+    v_status := 'completed';
+    UPDATE autonomous_revenue_task_queue
+    SET status = v_status, result = p_result, error_message = NULL, completed_at = now(), lease_expires_at = NULL
+    WHERE id = p_task_id;
+  ELSIF p_retryable AND v_task.retry_count < v_task.max_retries THEN
+    v_status := 'pending';
+    v_retry_at := now() + make_interval(secs => GREATEST(p_retry_delay_seconds, 0));
+    UPDATE autonomous_revenue_task_queue
+    SET status = v_status,
+        retry_count = retry_count + 1,
+        available_at = v_retry_at,
+        worker_id = NULL,
+        lease_expires_at = NULL,
+        error_message = p_error_message
+    WHERE id = p_task_id;
+  ELSE
+    v_status := 'failed';
+    UPDATE autonomous_revenue_task_queue
+    SET status = v_status, result = p_result, error_message = p_error_message, completed_at = now(), lease_expires_at = NULL
+    WHERE id = p_task_id;
+  END IF;
+
+  UPDATE autonomous_revenue_workers
+  SET last_heartbeat = now(),
+      updated_at = now(),
+      metrics = COALESCE(metrics, '{}'::jsonb) || CASE
+        WHEN p_success THEN jsonb_build_object('tasks_completed', COALESCE((metrics->>'tasks_completed')::INTEGER, 0) + 1)
+        ELSE jsonb_build_object('tasks_failed', COALESCE((metrics->>'tasks_failed')::INTEGER, 0) + 1)
+      END
+  WHERE id = p_worker_id;
+
+  RETURN jsonb_build_object('completed', true, 'status', v_status, 'retry_at', v_retry_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_revenue_worker(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_revenue_tasks(UUID, TEXT, INTEGER, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_revenue_tasks(UUID, UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_revenue_task(UUID, UUID, BOOLEAN, JSONB, TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- One worker of each type every minute; each run drains its types' tasks
+-- for under a minute, so runs of the same type seldom overlap
+SELECT cron.schedule(
+  'revenue-worker-transfer',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/revenue-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "run", "worker_type": "transfer"}'::jsonb
+  ) as request_id;
+  $$
+);
+
+SELECT cron.schedule(
+  'revenue-worker-optimization',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/revenue-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "run", "worker_type": "optimization"}'::jsonb
+  ) as request_id;
+  $$
+);
+
+SELECT cron.schedule(
+  'revenue-worker-analysis',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/revenue-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "run", "worker_type": "analysis"}'::jsonb
+  ) as request_id;
+  $$
+);
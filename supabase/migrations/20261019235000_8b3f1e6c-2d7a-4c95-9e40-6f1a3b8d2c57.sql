@@ -0,0 +1,232 @@
+-- Dead letters for autonomous_revenue_task_queue. A task that fails for good
+-- (out of retries, or refused by its handler) is copied here with its payload
+-- and last error. From the Jobs page it is either requeued, optionally with a
+-- corrected payload, or purged. Rows are never deleted: the resolution
+-- columns are the audit trail of who did what and why.
+CREATE TABLE IF NOT EXISTS public.revenue_task_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL,
+  task_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  priority INTEGER NOT NULL DEFAULT 0,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  max_retries INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  worker_id UUID,
+  task_created_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  status TEXT NOT NULL DEFAULT 'dead' CHECK (status IN ('dead', 'requeued', 'purged')),
+  -- The payload the task was requeued with, when it was edited
+  requeued_payload JSONB,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT,
+  resolution_note TEXT
+);
+
+-- A requeued task that fails again becomes a new dead letter
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revenue_task_dead_letters_open_task
+ON public.revenue_task_dead_letters(task_id)
+WHERE status = 'dead';
+
+CREATE INDEX IF NOT EXISTS idx_revenue_task_dead_letters_group
+ON public.revenue_task_dead_letters(task_type, failed_at DESC)
+WHERE status = 'dead';
+
+ALTER TABLE public.revenue_task_dead_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view dead letters" ON public.revenue_task_dead_letters
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Alert when more than this many dead letters are waiting
+INSERT INTO public.stripe_config (key, value, is_secret)
+SELECT 'dead_letter_alert', '{"threshold": 25}', false
+WHERE NOT EXISTS (SELECT 1 FROM public.stripe_config WHERE key = 'dead_letter_alert');
+
+-- Opens one dead_letter_queue alert while the queue is over its threshold
+-- and resolves it once the queue is back under
+CREATE OR REPLACE FUNCTION public.check_dead_letter_alert()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold INTEGER;
+  v_dead INTEGER;
+BEGIN
+  SELECT COALESCE((value::jsonb->>'threshold')::INTEGER, 25) INTO v_threshold
+  FROM stripe_config WHERE key = 'dead_letter_alert';
+  v_threshold := COALESCE(v_threshold, 25);
+
+  SELECT count(*) INTO v_dead FROM revenue_task_dead_letters WHERE status = 'dead';
+
+  IF v_dead > v_threshold THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM autonomous_revenue_alerts
+      WHERE alert_type = 'dead_letter_queue' AND resolved_at IS NULL
+    ) THEN
+      INSERT INTO autonomous_revenue_alerts (alert_type, severity, status, message, details)
+      VALUES (
+        'dead_letter_queue',
+        'warning',
+        'active',
+        format('%s failed revenue tasks are waiting in the dead-letter queue', v_dead),
+        jsonb_build_object('dead_letters', v_dead, 'threshold', v_threshold)
+      );
+    END IF;
+  ELSE
+    UPDATE autonomous_revenue_alerts
+    SET status = 'resolved', resolved_at = now(), resolution_notes = format('Dead-letter queue back to %s', v_dead)
+    WHERE alert_type = 'dead_letter_queue' AND resolved_at IS NULL;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dead_letter_failed_revenue_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO revenue_task_dead_letters (
+    task_id, task_type, payload, priority, retry_count, max_retries, error_message, worker_id, task_created_at
+  )
+  VALUES (
+    NEW.id, NEW.task_type, COALESCE(NEW.payload, '{}'::jsonb), NEW.priority, NEW.retry_count, NEW.max_retries,
+    NEW.error_message, NEW.worker_id, NEW.created_at
+  )
+  ON CONFLICT (task_id) WHERE status = 'dead' DO NOTHING;
+
+  PERFORM check_dead_letter_alert();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dead_letter_failed_revenue_task ON public.autonomous_revenue_task_queue;
+CREATE TRIGGER dead_letter_failed_revenue_task
+AFTER UPDATE OF status ON public.autonomous_revenue_task_queue
+FOR EACH ROW
+WHEN (NEW.status = 'failed' AND OLD.status IS DISTINCT FROM 'failed')
+EXECUTE FUNCTION public.dead_letter_failed_revenue_task();
+
+-- Tasks that had already failed before the queue had dead letters
+INSERT INTO public.revenue_task_dead_letters (
+  task_id, task_type, payload, priority, retry_count, max_retries, error_message, worker_id, task_created_at, failed_at
+)
+SELECT id, task_type, COALESCE(payload, '{}'::jsonb), priority, retry_count, max_retries, error_message, worker_id, created_at,
+       COALESCE(completed_at, created_at)
+FROM public.autonomous_revenue_task_queue
+WHERE status = 'failed'
+ON CONFLICT (task_id) WHERE status = 'dead' DO NOTHING;
+
+-- Puts dead tasks back in the queue with a fresh set of retries.
+-- p_payloads maps a dead letter ID to a corrected payload; the rest are
+-- requeued as they were. Dead letters already resolved are left alone.
+-- Returns {requeued: [{dead_letter_id, task_id}]}.
+CREATE OR REPLACE FUNCTION public.requeue_dead_letters(
+  p_ids UUID[],
+  p_actor TEXT,
+  p_payloads JSONB DEFAULT '{}'::jsonb,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_letter revenue_task_dead_letters%ROWTYPE;
+  v_payload JSONB;
+  v_task_id UUID;
+  v_requeued JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_letter IN
+    SELECT * FROM revenue_task_dead_letters
+    WHERE id = ANY(p_ids) AND status = 'dead'
+    ORDER BY failed_at
+    FOR UPDATE
+  LOOP
+    v_payload := COALESCE(p_payloads->(v_letter.id::text), v_letter.payload);
+
+    UPDATE autonomous_revenue_task_queue
+    SET status = 'pending',
+        payload = v_payload,
+        retry_count = 0,
+        available_at = now(),
+        worker_id = NULL,
+        lease_expires_at = NULL,
+        heartbeat_at = NULL,
+        started_at = NULL,
+        completed_at = NULL,
+        result = NULL,
+        error_message = NULL
+    WHERE id = v_letter.task_id AND status = 'failed'
+    RETURNING id INTO v_task_id;
+
+    -- The failed task was deleted; queue a copy
+    IF v_task_id IS NULL THEN
+      INSERT INTO autonomous_revenue_task_queue (task_type, payload, priority, max_retries)
+      VALUES (v_letter.task_type, v_payload, v_letter.priority, v_letter.max_retries)
+      RETURNING id INTO v_task_id;
+    END IF;
+
+    UPDATE revenue_task_dead_letters
+    SET status = 'requeued',
+        requeued_payload = CASE WHEN v_payload IS DISTINCT FROM v_letter.payload THEN v_payload END,
+        resolved_at = now(),
+        resolved_by = p_actor,
+        resolution_note = p_note
+    WHERE id = v_letter.id;
+
+    v_requeued := v_requeued || jsonb_build_object('dead_letter_id', v_letter.id, 'task_id', v_task_id);
+    v_task_id := NULL;
+  END LOOP;
+
+  PERFORM check_dead_letter_alert();
+  RETURN jsonb_build_object('requeued', v_requeued);
+END;
+$$;
+
+-- Gives up on dead tasks: their failed rows leave the queue, and the dead
+-- letters keep the payload, the reason and who purged them.
+CREATE OR REPLACE FUNCTION public.purge_dead_letters(
+  p_ids UUID[],
+  p_actor TEXT,
+  p_reason TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purged INTEGER;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A purge needs a reason';
+  END IF;
+
+  WITH purged AS (
+    UPDATE revenue_task_dead_letters
+    SET status = 'purged', resolved_at = now(), resolved_by = p_actor, resolution_note = p_reason
+    WHERE id = ANY(p_ids) AND status = 'dead'
+    RETURNING task_id
+  ), removed AS (
+    DELETE FROM autonomous_revenue_task_queue q
+    USING purged
+    WHERE q.id = purged.task_id AND q.status = 'failed'
+  )
+  SELECT count(*) INTO v_purged FROM purged;
+
+  PERFORM check_dead_letter_alert();
+  RETURN v_purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_dead_letter_alert() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dead_letter_failed_revenue_task() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requeue_dead_letters(UUID[], TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_dead_letters(UUID[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT public.check_dead_letter_alert();
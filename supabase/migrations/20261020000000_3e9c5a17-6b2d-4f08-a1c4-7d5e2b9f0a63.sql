@@ -0,0 +1,70 @@
+-- Worker pools are scaled by the worker-autoscaler function, which pg_cron
+-- ticks every minute, instead of by whichever browser had the worker page
+-- open. Each pool row now carries its scaling policy, and every decision
+-- that changes a pool, or is held back by the policy, is logged.
+ALTER TABLE public.autonomous_revenue_worker_pool
+  ADD COLUMN IF NOT EXISTS min_workers INTEGER NOT NULL DEFAULT 1,
+  -- Queued plus in-flight tasks one worker is expected to keep up with
+  ADD COLUMN IF NOT EXISTS target_tasks_per_worker INTEGER NOT NULL DEFAULT 10,
+  -- No scaling in either direction this soon after the last change
+  ADD COLUMN IF NOT EXISTS cooldown_seconds INTEGER NOT NULL DEFAULT 120,
+  -- How long the load must stay below the pool before it shrinks
+  ADD COLUMN IF NOT EXISTS scale_down_grace_seconds INTEGER NOT NULL DEFAULT 600,
+  ADD COLUMN IF NOT EXISTS autoscale_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS last_scaled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS below_target_since TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS policy_updated_by TEXT;
+
+-- One pool per worker type that revenue-worker runs
+INSERT INTO public.autonomous_revenue_worker_pool (worker_type, current_workers, max_workers, status)
+SELECT t.worker_type, 1, 10, 'active'
+FROM (VALUES ('transfer'), ('optimization'), ('analysis')) AS t(worker_type)
+WHERE NOT EXISTS (SELECT 1 FROM public.autonomous_revenue_worker_pool p WHERE p.worker_type = t.worker_type);
+
+CREATE TABLE IF NOT EXISTS public.revenue_worker_scaling_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_type TEXT NOT NULL,
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  action TEXT NOT NULL CHECK (action IN ('scale_up', 'scale_down', 'hold')),
+  reason TEXT NOT NULL,
+  -- Tasks ready to claim, and tasks under a lease
+  queued_tasks INTEGER NOT NULL,
+  in_flight_tasks INTEGER NOT NULL,
+  previous_workers INTEGER NOT NULL,
+  -- What the load alone asks for, within min/max
+  desired_workers INTEGER NOT NULL,
+  -- What the pool was set to
+  workers INTEGER NOT NULL,
+  -- revenue-worker runs started on this tick
+  started_workers INTEGER NOT NULL DEFAULT 0,
+  policy JSONB NOT NULL DEFAULT '{}'::jsonb,
+  execution_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_revenue_worker_scaling_decisions_type
+ON public.revenue_worker_scaling_decisions(worker_type, decided_at DESC);
+
+ALTER TABLE public.revenue_worker_scaling_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view scaling decisions" ON public.revenue_worker_scaling_decisions
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- The autoscaler starts the workers now; the fixed one-per-minute runs go
+SELECT cron.unschedule('revenue-worker-transfer');
+SELECT cron.unschedule('revenue-worker-optimization');
+SELECT cron.unschedule('revenue-worker-analysis');
+
+SELECT cron.schedule(
+  'worker-autoscaler-tick',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/worker-autoscaler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "tick", "triggered_by": "cron_scheduler"}'::jsonb
+  ) as request_id;
+  $$
+);
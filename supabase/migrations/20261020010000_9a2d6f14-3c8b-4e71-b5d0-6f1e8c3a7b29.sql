@@ -0,0 +1,111 @@
+-- Multi-step workflows run by the workflows function. A run keeps one
+-- workflow_runs row and one workflow_run_steps row per step, each with its
+-- input, output and status, so a run that dies mid-step can be resumed from
+-- its last successful step and a failed run can be compensated step by step.
+ALTER TABLE public.workflow_runs
+  -- autonomous-revenue-engine has written these two all along
+  ADD COLUMN IF NOT EXISTS status TEXT,
+  ADD COLUMN IF NOT EXISTS execution_details JSONB,
+  ADD COLUMN IF NOT EXISTS input JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS current_step TEXT,
+  -- How many times the run was started or resumed
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS execution_id TEXT,
+  ADD COLUMN IF NOT EXISTS triggered_by TEXT,
+  -- Whoever runs the workflow renews this at every step; once it has passed,
+  -- the run is free to be resumed
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_resumable
+ON public.workflow_runs(lease_expires_at)
+WHERE status IN ('running', 'compensating');
+
+CREATE TABLE IF NOT EXISTS public.workflow_run_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.workflow_runs(id) ON DELETE CASCADE,
+  step_index INTEGER NOT NULL,
+  step_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'compensating', 'compensated', 'compensation_failed')),
+  -- The run's input and the outputs of the steps before this one, as the step saw them
+  input JSONB,
+  output JSONB,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  compensation_error TEXT,
+  compensated_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (run_id, step_index)
+);
+
+ALTER TABLE public.workflow_run_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view workflow steps" ON public.workflow_run_steps
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Takes over a run whose lease has run out, and counts the attempt. Returns
+-- NULL when the run is finished or its lease is still held.
+CREATE OR REPLACE FUNCTION public.claim_workflow_run(
+  p_run_id UUID,
+  p_execution_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run workflow_runs%ROWTYPE;
+BEGIN
+  UPDATE workflow_runs
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      attempts = attempts + 1,
+      execution_id = p_execution_id,
+      updated_at = now()
+  WHERE id = p_run_id
+    AND status IN ('running', 'compensating')
+    AND (lease_expires_at IS NULL OR lease_expires_at < now())
+  RETURNING * INTO v_run;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_run.id,
+    'workflow_type', v_run.workflow_type,
+    'status', v_run.status,
+    'input', v_run.input,
+    'current_step', v_run.current_step,
+    'attempts', v_run.attempts,
+    'execution_id', v_run.execution_id,
+    'triggered_by', v_run.triggered_by,
+    'lease_expires_at', v_run.lease_expires_at,
+    'error_message', v_run.error_message,
+    'started_at', v_run.started_at,
+    'completed_at', v_run.completed_at,
+    'updated_at', v_run.updated_at
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_run(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Picks up runs left behind by a crashed or timed-out function
+SELECT cron.schedule(
+  'workflows-resume',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqbybefpnwxukzqkanip.supabase.co/functions/v1/workflows',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "resume_stale", "triggered_by": "cron_scheduler"}'::jsonb
+  ) as request_id;
+  $$
+);
@@ -0,0 +1,131 @@
+-- API keys for ai-content-api are stored as hashes. A key is shown once when
+-- it is issued; the table keeps its public prefix and a SHA-256 or
+-- HMAC-SHA256 hash of the whole key, its scopes (content types), expiry and
+-- usage limit. Rotating a key issues a replacement and lets the old one run
+-- on until the overlap period ends.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_hash TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  usage_limit INTEGER,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  -- The 12 hex characters after "ak_"; NULL for keys issued before hashing
+  ADD COLUMN IF NOT EXISTS key_prefix TEXT,
+  ADD COLUMN IF NOT EXISTS hash_algorithm TEXT NOT NULL DEFAULT 'sha256'
+    CHECK (hash_algorithm IN ('sha256', 'hmac-sha256')),
+  -- Content types the key may request; '*' for all
+  ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['*'],
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  -- The key that replaced this one when it was rotated
+  ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES public.api_keys(id) ON DELETE SET NULL;
+
+-- Until now key_hash held the key itself
+UPDATE public.api_keys
+SET key_hash = encode(extensions.digest(key_hash, 'sha256'), 'hex'),
+    hash_algorithm = 'sha256'
+WHERE key_prefix IS NULL AND key_hash !~ '^[0-9a-f]{64}$';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_prefix ON public.api_keys(key_prefix) WHERE key_prefix IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_api_keys_legacy_hash ON public.api_keys(key_hash) WHERE key_prefix IS NULL;
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON public.api_keys(user_id, created_at DESC);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own API keys" ON public.api_keys;
+CREATE POLICY "Users can view their own API keys" ON public.api_keys
+FOR SELECT USING (auth.uid() = user_id);
+
+-- Counts one use of a key if it may still be used, in one statement so
+-- concurrent requests cannot overrun the usage limit
+CREATE OR REPLACE FUNCTION public.use_api_key(p_key_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+BEGIN
+  UPDATE api_keys
+  SET usage_count = usage_count + 1, last_used_at = now()
+  WHERE id = p_key_id
+    AND is_active
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (usage_limit IS NULL OR usage_count < usage_limit)
+  RETURNING * INTO v_key;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('allowed', true, 'usage_count', v_key.usage_count);
+  END IF;
+
+  SELECT * INTO v_key FROM api_keys WHERE id = p_key_id;
+  RETURN jsonb_build_object(
+    'allowed', false,
+    'reason', CASE
+      WHEN NOT FOUND THEN 'not_found'
+      WHEN NOT v_key.is_active OR v_key.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN v_key.expires_at IS NOT NULL AND v_key.expires_at <= now() THEN 'expired'
+      ELSE 'usage_limit_exceeded'
+    END
+  );
+END;
+$$;
+
+-- Issues the replacement for a key and keeps the old one working for
+-- p_overlap_seconds, or until it was due to expire anyway
+CREATE OR REPLACE FUNCTION public.rotate_api_key(
+  p_key_id UUID,
+  p_user_id UUID,
+  p_key_prefix TEXT,
+  p_key_hash TEXT,
+  p_hash_algorithm TEXT,
+  p_overlap_seconds INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old api_keys%ROWTYPE;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_old FROM api_keys WHERE id = p_key_id AND user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key % not found', p_key_id;
+  END IF;
+  IF NOT v_old.is_active OR v_old.revoked_at IS NOT NULL OR v_old.replaced_by IS NOT NULL
+     OR (v_old.expires_at IS NOT NULL AND v_old.expires_at <= now()) THEN
+    RAISE EXCEPTION 'API key % is no longer active', p_key_id;
+  END IF;
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash, hash_algorithm, scopes, usage_limit, expires_at)
+  VALUES (
+    v_old.user_id, v_old.name, p_key_prefix, p_key_hash, p_hash_algorithm, v_old.scopes, v_old.usage_limit,
+    -- A key with an expiry keeps its lifetime
+    CASE WHEN v_old.expires_at IS NULL THEN NULL ELSE now() + (v_old.expires_at - v_old.created_at) END
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE api_keys
+  SET replaced_by = v_new_id,
+      expires_at = LEAST(COALESCE(expires_at, 'infinity'), now() + make_interval(secs => p_overlap_seconds))
+  WHERE id = p_key_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_api_key(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rotate_api_key(UUID, UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
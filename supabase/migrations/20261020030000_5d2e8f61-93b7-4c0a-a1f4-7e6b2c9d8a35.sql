@@ -0,0 +1,179 @@
+-- Plan quotas and metered overage for ai-content-api. The quotas live in the
+-- checkout_plan.<plan> rows in stripe_config, next to the price they go with
+-- (see _shared/plans.ts). Usage is counted per subscriber per billing period
+-- in api_usage_periods.
+
+-- The subscription item for a plan's metered overage price, which usage
+-- records are reported against
+ALTER TABLE public.stripe_subscriptions
+  ADD COLUMN IF NOT EXISTS metered_item_id TEXT;
+
+-- Quotas for the existing plans. Neither has an overage price until one is
+-- created in Stripe and set as overage_price_id, so for now the token quota is
+-- a hard limit.
+UPDATE public.stripe_config
+SET value = ('{"monthly_requests": 1000, "monthly_tokens": 500000, "overage_price_id": null, "overage_unit_amount": 4}'::jsonb || value::jsonb)::text
+WHERE key = 'checkout_plan.basic' AND NOT (value::jsonb ? 'monthly_requests');
+
+UPDATE public.stripe_config
+SET value = ('{"monthly_requests": 10000, "monthly_tokens": 5000000, "overage_price_id": null, "overage_unit_amount": 2}'::jsonb || value::jsonb)::text
+WHERE key = 'checkout_plan.pro' AND NOT (value::jsonb ? 'monthly_requests');
+
+CREATE TABLE public.api_usage_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_subscription_id TEXT NOT NULL,
+  plan TEXT NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0 CHECK (request_count >= 0),
+  token_count BIGINT NOT NULL DEFAULT 0 CHECK (token_count >= 0),
+  -- Units of 1,000 tokens past the plan's quota, and how many of them Stripe
+  -- has been told about
+  overage_units INTEGER NOT NULL DEFAULT 0,
+  reported_overage_units INTEGER NOT NULL DEFAULT 0 CHECK (reported_overage_units >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, stripe_subscription_id, period_start)
+);
+
+CREATE INDEX idx_api_usage_periods_user ON public.api_usage_periods(user_id, period_start DESC);
+
+ALTER TABLE public.api_usage_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API usage" ON public.api_usage_periods
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Financial users can view API usage" ON public.api_usage_periods
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Counts one request in the subscriber's current period if the period is
+-- still under its request limit and, when overage is not billed, its token
+-- limit. NULL limits are unlimited.
+CREATE OR REPLACE FUNCTION public.reserve_api_request(
+  p_user_id UUID,
+  p_stripe_subscription_id TEXT,
+  p_plan TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE,
+  p_request_limit INTEGER,
+  p_token_limit BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period api_usage_periods%ROWTYPE;
+BEGIN
+  INSERT INTO api_usage_periods (user_id, stripe_subscription_id, plan, period_start, period_end)
+  VALUES (p_user_id, p_stripe_subscription_id, p_plan, p_period_start, p_period_end)
+  ON CONFLICT (user_id, stripe_subscription_id, period_start) DO NOTHING;
+
+  UPDATE api_usage_periods
+  SET request_count = request_count + 1, plan = p_plan, updated_at = now()
+  WHERE user_id = p_user_id
+    AND stripe_subscription_id = p_stripe_subscription_id
+    AND period_start = p_period_start
+    AND (p_request_limit IS NULL OR request_count < p_request_limit)
+    AND (p_token_limit IS NULL OR token_count < p_token_limit)
+  RETURNING * INTO v_period;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'allowed', true,
+      'period_id', v_period.id,
+      'request_count', v_period.request_count,
+      'token_count', v_period.token_count
+    );
+  END IF;
+
+  SELECT * INTO v_period FROM api_usage_periods
+  WHERE user_id = p_user_id AND stripe_subscription_id = p_stripe_subscription_id AND period_start = p_period_start;
+  RETURN jsonb_build_object(
+    'allowed', false,
+    'period_id', v_period.id,
+    'request_count', v_period.request_count,
+    'token_count', v_period.token_count,
+    'reason', CASE
+      WHEN p_request_limit IS NOT NULL AND v_period.request_count >= p_request_limit THEN 'request_quota_exceeded'
+      ELSE 'token_quota_exceeded'
+    END
+  );
+END;
+$$;
+
+-- Adds a request's tokens to its period. With p_included_tokens set, the
+-- tokens past it are overage; the units not yet reported to Stripe are
+-- claimed for the caller to report, so concurrent requests never report the
+-- same units twice.
+CREATE OR REPLACE FUNCTION public.record_api_tokens(
+  p_period_id UUID,
+  p_tokens BIGINT,
+  p_included_tokens BIGINT,
+  p_tokens_per_unit INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period api_usage_periods%ROWTYPE;
+  v_units_to_report INTEGER;
+BEGIN
+  UPDATE api_usage_periods
+  SET token_count = token_count + GREATEST(p_tokens, 0),
+      overage_units = CASE
+        WHEN p_included_tokens IS NULL THEN overage_units
+        ELSE GREATEST(
+          overage_units,
+          CEIL(GREATEST(token_count + GREATEST(p_tokens, 0) - p_included_tokens, 0)::NUMERIC / p_tokens_per_unit)::INTEGER
+        )
+      END,
+      updated_at = now()
+  WHERE id = p_period_id
+  RETURNING * INTO v_period;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API usage period % not found', p_period_id;
+  END IF;
+
+  v_units_to_report := GREATEST(v_period.overage_units - v_period.reported_overage_units, 0);
+  IF p_included_tokens IS NOT NULL AND v_units_to_report > 0 THEN
+    UPDATE api_usage_periods
+    SET reported_overage_units = overage_units
+    WHERE id = p_period_id
+    RETURNING * INTO v_period;
+  ELSE
+    v_units_to_report := 0;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'token_count', v_period.token_count,
+    'overage_units', v_period.overage_units,
+    'units_to_report', v_units_to_report,
+    'reported_units', v_period.reported_overage_units
+  );
+END;
+$$;
+
+-- Hands back a request that was not served, or overage units that failed to
+-- report so the next request reports them
+CREATE OR REPLACE FUNCTION public.release_api_usage(p_period_id UUID, p_requests INTEGER, p_overage_units INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_usage_periods
+  SET request_count = GREATEST(request_count - p_requests, 0),
+      reported_overage_units = GREATEST(reported_overage_units - p_overage_units, 0),
+      updated_at = now()
+  WHERE id = p_period_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_api_request(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_api_tokens(UUID, BIGINT, BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_api_usage(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,10 @@
+-- The models each plan's ai-content-api requests may pick from, added to the
+-- checkout_plan.<plan> rows in stripe_config (see _shared/plans.ts). A plan
+-- without a list gets google/gemini-3-flash-preview only.
+UPDATE public.stripe_config
+SET value = ('{"models": ["google/gemini-3-flash-preview", "google/gemini-2.5-flash"], "default_model": "google/gemini-3-flash-preview"}'::jsonb || value::jsonb)::text
+WHERE key = 'checkout_plan.basic' AND NOT (value::jsonb ? 'models');
+
+UPDATE public.stripe_config
+SET value = ('{"models": ["google/gemini-3-flash-preview", "google/gemini-2.5-flash", "google/gemini-2.5-pro", "openai/gpt-5-mini", "openai/gpt-5"], "default_model": "google/gemini-3-flash-preview"}'::jsonb || value::jsonb)::text
+WHERE key = 'checkout_plan.pro' AND NOT (value::jsonb ? 'models');
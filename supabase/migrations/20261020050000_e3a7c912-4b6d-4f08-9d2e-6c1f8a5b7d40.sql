@@ -0,0 +1,37 @@
+-- One row per ai-content-api request: who made it and with which key, the
+-- model that answered, its tokens and latency, and what it was charged.
+-- Tokens are the provider's own counts, or a local estimate when it sent none
+-- (tokens_estimated). Rows are written by the function with the service role.
+CREATE TABLE public.api_request_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for requests made from a signed-in session rather than a key
+  api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  execution_id TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL CHECK (prompt_tokens >= 0),
+  completion_tokens INTEGER NOT NULL CHECK (completion_tokens >= 0),
+  total_tokens INTEGER NOT NULL CHECK (total_tokens >= 0),
+  tokens_estimated BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER NOT NULL CHECK (latency_ms >= 0),
+  streamed BOOLEAN NOT NULL DEFAULT false,
+  -- False when a stream was cut short
+  completed BOOLEAN NOT NULL DEFAULT true,
+  -- Overage charged for this request; zero within the plan's quota
+  charge_cents BIGINT NOT NULL DEFAULT 0 CHECK (charge_cents >= 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_request_usage_user ON public.api_request_usage(user_id, created_at DESC);
+CREATE INDEX idx_api_request_usage_key ON public.api_request_usage(api_key_id, created_at DESC) WHERE api_key_id IS NOT NULL;
+
+ALTER TABLE public.api_request_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API requests" ON public.api_request_usage
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Financial users can view API requests" ON public.api_request_usage
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
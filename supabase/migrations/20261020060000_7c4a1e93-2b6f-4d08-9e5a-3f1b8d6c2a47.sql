@@ -0,0 +1,7 @@
+-- The Stripe request each transfer attempt sent, kept with its idempotency key
+-- so fix-failed-transfers can replay exactly that call. Replayed under the
+-- same key, a transfer that did go through comes back as the original instead
+-- of being paid again. Attempts written before this have no request and are
+-- left for manual review.
+ALTER TABLE public.transfer_attempts
+  ADD COLUMN IF NOT EXISTS provider_request JSONB;
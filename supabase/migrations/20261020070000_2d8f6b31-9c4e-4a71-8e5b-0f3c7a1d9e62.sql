@@ -0,0 +1,32 @@
+-- pg_cron jobs call edge functions with the service_role key read from Vault
+-- when they run, never with a key written into the job. Store the key once:
+--
+--   SELECT vault.create_secret('<service_role key>', 'service_role_key');
+--
+-- and after rotating it:
+--
+--   SELECT vault.update_secret(id, '<new key>') FROM vault.secrets WHERE name = 'service_role_key';
+--
+-- Jobs scheduled before this carry the old key in their command; rewrite them
+-- to read it from Vault too, so they keep working once that key is rotated.
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+DO $$
+DECLARE
+  job RECORD;
+BEGIN
+  FOR job IN SELECT jobid, command FROM cron.job WHERE command LIKE '%"Authorization": "Bearer %' LOOP
+    PERFORM cron.alter_job(
+      job.jobid,
+      command := regexp_replace(
+        job.command,
+        $re$'\{"Content-Type": "application/json", "Authorization": "Bearer [^"]*"\}'::jsonb$re$,
+        $sql$jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )$sql$,
+        'g'
+      )
+    );
+  END LOOP;
+END $$;
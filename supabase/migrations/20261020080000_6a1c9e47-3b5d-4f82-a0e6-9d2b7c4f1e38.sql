@@ -0,0 +1,29 @@
+-- stripe-revenue-transfer now refuses a request without an Idempotency-Key,
+-- which the pg_cron jobs calling it every ten minutes never send. Move that
+-- schedule to a scheduler job, whose runs each carry their own key. It stays
+-- on only if one of the cron jobs was still scheduled.
+INSERT INTO public.scheduled_jobs (name, description, cron_expression, timezone, function_name, payload, run_as_role, enabled, lock_timeout_minutes)
+VALUES (
+  'revenue-transfer',
+  'Transfers the application balance to the connected account',
+  '*/10 * * * *',
+  'UTC',
+  'stripe-revenue-transfer',
+  '{}'::jsonb,
+  'treasurer',
+  EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE active AND command LIKE '%/functions/v1/stripe-revenue-transfer%'
+  ),
+  10
+)
+ON CONFLICT (name) DO NOTHING;
+
+DO $$
+DECLARE
+  job RECORD;
+BEGIN
+  FOR job IN SELECT jobid FROM cron.job WHERE command LIKE '%/functions/v1/stripe-revenue-transfer%' LOOP
+    PERFORM cron.unschedule(job.jobid);
+  END LOOP;
+END $$;
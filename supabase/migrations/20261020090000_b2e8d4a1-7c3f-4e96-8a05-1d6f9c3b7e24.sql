@@ -0,0 +1,22 @@
+-- The multi-currency ledger replaced get_ledger_balance and added
+-- ledger_currency_balances, which came with the default grants. Only the edge
+-- functions (service_role) post to or read the ledger.
+REVOKE EXECUTE ON FUNCTION public.get_ledger_balance(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON public.ledger_account_balances, public.ledger_currency_balances FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_ledger_journal(TEXT, JSONB, TEXT, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_ledger_balance(TEXT, TEXT) TO service_role;
+GRANT SELECT ON public.ledger_account_balances, public.ledger_currency_balances TO service_role;
+
+-- Signed-in users holding a role read the USD balances through this instead
+CREATE OR REPLACE FUNCTION public.get_ledger_balances()
+RETURNS SETOF public.ledger_account_balances
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM ledger_account_balances WHERE current_user_role() IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ledger_balances() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ledger_balances() TO authenticated;
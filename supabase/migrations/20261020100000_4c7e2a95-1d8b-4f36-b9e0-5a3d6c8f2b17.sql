@@ -0,0 +1,172 @@
+-- Sweeps reserve, settle and release in the batch's own currency. The sweep
+-- functions predate the multi-currency ledger, so they checked the USD
+-- balance and posted USD journals whatever the batch currency, and read
+-- amount_cents as hundredths.
+CREATE OR REPLACE FUNCTION public.reserve_sweep(
+  p_function_name TEXT,
+  p_provider TEXT,
+  p_provider_method TEXT,
+  p_request JSONB,
+  p_destination TEXT,
+  p_amount_cents BIGINT,
+  p_movement TEXT,
+  p_idempotency_key TEXT,
+  p_execution_id TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'usd'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_currency TEXT := lower(trim(COALESCE(p_currency, 'usd')));
+  v_scale NUMERIC := power(10::numeric, currency_minor_unit_exponent(v_currency));
+  v_available_cents BIGINT;
+  v_journal_id UUID;
+BEGIN
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Sweep amount must be positive';
+  END IF;
+
+  -- One reservation at a time, so two sweeps cannot both see the same balance
+  PERFORM pg_advisory_xact_lock(hashtext('reserve_sweep'));
+
+  SELECT * INTO v_batch FROM sweep_batches WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN jsonb_build_object('reserved', true, 'existing', true, 'batch', to_jsonb(v_batch));
+  END IF;
+
+  v_available_cents := round(get_ledger_balance('1000', v_currency) * v_scale);
+  IF v_available_cents < p_amount_cents THEN
+    RETURN jsonb_build_object(
+      'reserved', false,
+      'reason', 'insufficient_balance',
+      'available_cents', v_available_cents,
+      'amount_cents', p_amount_cents
+    );
+  END IF;
+
+  INSERT INTO sweep_batches (
+    function_name, provider, provider_method, request, destination,
+    amount_cents, currency, movement, idempotency_key, execution_id
+  ) VALUES (
+    p_function_name, p_provider, p_provider_method, COALESCE(p_request, '{}'::jsonb), p_destination,
+    p_amount_cents, v_currency, p_movement, p_idempotency_key, p_execution_id
+  )
+  RETURNING * INTO v_batch;
+
+  v_journal_id := post_ledger_journal(
+    format('Sweep reserve for %s via %s', p_function_name, p_provider),
+    jsonb_build_array(
+      jsonb_build_object('account_code', '1500', 'debit', p_amount_cents / v_scale, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text),
+      jsonb_build_object('account_code', '1000', 'credit', p_amount_cents / v_scale)
+    ),
+    'sweep_reserve:' || v_batch.id::text,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'execution_id', p_execution_id),
+    v_currency
+  );
+
+  UPDATE sweep_batches SET reserve_journal_id = v_journal_id WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  RETURN jsonb_build_object('reserved', true, 'existing', false, 'batch', to_jsonb(v_batch));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_sweep(
+  p_batch_id UUID,
+  p_provider_reference TEXT,
+  p_journal_reference TEXT,
+  p_description TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_scale NUMERIC;
+  v_journal_id UUID;
+BEGIN
+  SELECT * INTO v_batch FROM sweep_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown sweep batch %', p_batch_id;
+  END IF;
+  IF v_batch.status = 'finalized' THEN
+    RETURN to_jsonb(v_batch);
+  END IF;
+  IF v_batch.status NOT IN ('reserved', 'executing', 'needs_review') THEN
+    RAISE EXCEPTION 'Sweep batch % is %, not open', p_batch_id, v_batch.status;
+  END IF;
+
+  v_scale := power(10::numeric, currency_minor_unit_exponent(v_batch.currency));
+  v_journal_id := post_ledger_journal(
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_code', CASE v_batch.movement WHEN 'payout' THEN '1100' ELSE '1300' END,
+        'debit', v_batch.amount_cents / v_scale
+      ),
+      jsonb_build_object('account_code', '1500', 'credit', v_batch.amount_cents / v_scale, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text)
+    ),
+    p_journal_reference,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'execution_id', v_batch.execution_id),
+    v_batch.currency
+  );
+
+  UPDATE sweep_batches
+  SET status = 'finalized', provider_reference = p_provider_reference, settle_journal_id = v_journal_id,
+      error_message = NULL, settled_at = now(), updated_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN to_jsonb(v_batch);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_sweep(p_batch_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch sweep_batches%ROWTYPE;
+  v_scale NUMERIC;
+  v_journal_id UUID;
+BEGIN
+  SELECT * INTO v_batch FROM sweep_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown sweep batch %', p_batch_id;
+  END IF;
+  IF v_batch.status = 'released' THEN
+    RETURN to_jsonb(v_batch);
+  END IF;
+  IF v_batch.status NOT IN ('reserved', 'executing', 'needs_review') THEN
+    RAISE EXCEPTION 'Sweep batch % is %, not open', p_batch_id, v_batch.status;
+  END IF;
+
+  v_scale := power(10::numeric, currency_minor_unit_exponent(v_batch.currency));
+  v_journal_id := post_ledger_journal(
+    format('Sweep released: %s', COALESCE(p_reason, 'no reason given')),
+    jsonb_build_array(
+      jsonb_build_object('account_code', '1000', 'debit', v_batch.amount_cents / v_scale),
+      jsonb_build_object('account_code', '1500', 'credit', v_batch.amount_cents / v_scale, 'entity_type', 'sweep_batches', 'entity_id', v_batch.id::text)
+    ),
+    'sweep_release:' || v_batch.id::text,
+    jsonb_build_object('sweep_batch_id', v_batch.id, 'reason', p_reason),
+    v_batch.currency
+  );
+
+  UPDATE sweep_batches
+  SET status = 'released', error_message = p_reason, settle_journal_id = v_journal_id,
+      settled_at = now(), updated_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN to_jsonb(v_batch);
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Overage is reported to Stripe in claims. Each claim has its own id, which
+-- keys its usage record, and stays pending until Stripe confirms it, so a
+-- report whose answer was lost is resent under the same key and counted once.
+-- Before, a failed report handed its units back to be claimed again under a
+-- key made from the unit count, which could bill them twice or not at all.
+CREATE TABLE IF NOT EXISTS public.api_overage_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id UUID NOT NULL REFERENCES public.api_usage_periods(id) ON DELETE CASCADE,
+  units INTEGER NOT NULL CHECK (units > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reported')),
+  -- Set while a request is reporting the claim; a claim held longer than five
+  -- minutes is presumed abandoned and is reported again
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reported_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_overage_claims_pending
+ON public.api_overage_claims(period_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.api_overage_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Financial users can view overage claims" ON public.api_overage_claims
+FOR SELECT USING (public.user_has_financial_access(auth.uid()));
+
+-- Adds a request's tokens to its period. With p_included_tokens set, the
+-- tokens past it are overage, and units not yet claimed become a new claim.
+-- Returns that claim with any earlier one still waiting to be reported, each
+-- held for the caller, so concurrent requests never report the same claim.
+CREATE OR REPLACE FUNCTION public.record_api_tokens(
+  p_period_id UUID,
+  p_tokens BIGINT,
+  p_included_tokens BIGINT,
+  p_tokens_per_unit INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period api_usage_periods%ROWTYPE;
+  v_units_to_claim INTEGER;
+  v_claims JSONB := '[]'::jsonb;
+BEGIN
+  UPDATE api_usage_periods
+  SET token_count = token_count + GREATEST(p_tokens, 0),
+      overage_units = CASE
+        WHEN p_included_tokens IS NULL THEN overage_units
+        ELSE GREATEST(
+          overage_units,
+          CEIL(GREATEST(token_count + GREATEST(p_tokens, 0) - p_included_tokens, 0)::NUMERIC / p_tokens_per_unit)::INTEGER
+        )
+      END,
+      updated_at = now()
+  WHERE id = p_period_id
+  RETURNING * INTO v_period;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API usage period % not found', p_period_id;
+  END IF;
+
+  IF p_included_tokens IS NOT NULL THEN
+    v_units_to_claim := GREATEST(v_period.overage_units - v_period.reported_overage_units, 0);
+    IF v_units_to_claim > 0 THEN
+      UPDATE api_usage_periods
+      SET reported_overage_units = overage_units
+      WHERE id = p_period_id
+      RETURNING * INTO v_period;
+
+      INSERT INTO api_overage_claims (period_id, units) VALUES (p_period_id, v_units_to_claim);
+    END IF;
+
+    WITH held AS (
+      UPDATE api_overage_claims
+      SET claimed_at = now()
+      WHERE id IN (
+        SELECT id FROM api_overage_claims
+        WHERE period_id = p_period_id
+          AND status = 'pending'
+          AND (claimed_at IS NULL OR claimed_at < now() - interval '5 minutes')
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, units, created_at
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'units', units) ORDER BY created_at), '[]'::jsonb)
+    INTO v_claims
+    FROM held;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'token_count', v_period.token_count,
+    'overage_units', v_period.overage_units,
+    'claims', v_claims
+  );
+END;
+$$;
+
+-- Marks a claim reported once Stripe has confirmed its usage record, or else
+-- lets it go for the next request to report under the same id
+CREATE OR REPLACE FUNCTION public.settle_api_overage_claim(p_claim_id UUID, p_reported BOOLEAN)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_overage_claims
+  SET status = CASE WHEN p_reported THEN 'reported' ELSE status END,
+      reported_at = CASE WHEN p_reported THEN now() ELSE reported_at END,
+      claimed_at = NULL
+  WHERE id = p_claim_id AND status = 'pending';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_api_overage_claim(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
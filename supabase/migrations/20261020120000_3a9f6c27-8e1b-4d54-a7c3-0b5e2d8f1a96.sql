@@ -0,0 +1,4 @@
+-- When the Stripe event a subscription row was last written from was created.
+-- Stripe does not deliver events in order, so an event older than this one
+-- is ignored rather than allowed to undo a newer state.
+ALTER TABLE public.stripe_subscriptions ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMP WITH TIME ZONE;